@@ -76,6 +76,24 @@ resource "google_project_iam_member" "analyzer_vertex_ai_user" {
   member  = "serviceAccount:${google_service_account.analyzer.email}"
 }
 
+# Detection rules file, mounted into the analyzer so rules survive restarts
+resource "google_storage_bucket" "analyzer_rules" {
+  name                        = "${var.project_id}-sentinel-rules"
+  location                    = var.region
+  project                     = var.project_id
+  uniform_bucket_level_access = true
+
+  versioning {
+    enabled = true
+  }
+}
+
+resource "google_storage_bucket_iam_member" "analyzer_rules_writer" {
+  bucket = google_storage_bucket.analyzer_rules.name
+  role   = "roles/storage.objectAdmin"
+  member = "serviceAccount:${google_service_account.analyzer.email}"
+}
+
 # Cloud Run service for Gateway
 resource "google_cloud_run_service" "gateway" {
   name     = "sentinel-gateway"
@@ -132,6 +150,17 @@ resource "google_cloud_run_service" "gateway" {
           value = "false"
         }
 
+        # Fleet-wide analytics for the web client are read from the analyzer
+        env {
+          name  = "ANALYZER_URL"
+          value = google_cloud_run_service.analyzer.status[0].url
+        }
+
+        env {
+          name  = "ANALYZER_ID_TOKEN"
+          value = "true"
+        }
+
         resources {
           limits = {
             cpu    = "2"
@@ -239,6 +268,54 @@ resource "google_cloud_run_service" "analyzer" {
           value = google_bigquery_table.drift_baselines.table_id
         }
 
+        env {
+          name  = "BIGQUERY_COMPARISON_TABLE_ID"
+          value = google_bigquery_table.shadow_comparisons.table_id
+        }
+
+        env {
+          name  = "BIGQUERY_ANALYSIS_TABLE_ID"
+          value = google_bigquery_table.analysis_results.table_id
+        }
+
+        env {
+          name  = "BIGQUERY_DEAD_LETTER_TABLE_ID"
+          value = google_bigquery_table.dead_letters.table_id
+        }
+
+        env {
+          name  = "DEAD_LETTER_SINK"
+          value = "bigquery"
+        }
+
+        env {
+          name  = "ANALYZER_MAX_DELIVERY_ATTEMPTS"
+          value = "5"
+        }
+
+        env {
+          name  = "ANALYZER_MAX_IN_FLIGHT"
+          value = "20"
+        }
+
+        # Cloud Run's filesystem is in memory: the spool survives BigQuery
+        # outages, not instance restarts
+        env {
+          name  = "BIGQUERY_SPOOL_FILE"
+          value = "/tmp/bigquery-spool.jsonl"
+        }
+
+        # On the mounted rules bucket, so rules survive restarts
+        env {
+          name  = "RULES_FILE"
+          value = "/mnt/rules/rules.json"
+        }
+
+        volume_mounts {
+          name       = "rules"
+          mount_path = "/mnt/rules"
+        }
+
         env {
           name  = "BIGQUERY_ENABLED"
           value = "true"
@@ -261,17 +338,39 @@ resource "google_cloud_run_service" "analyzer" {
           }
         }
       }
+
+      volumes {
+        name = "rules"
+        csi {
+          driver    = "gcsfuse.run.googleapis.com"
+          read_only = false
+          volume_attributes = {
+            bucketName = google_storage_bucket.analyzer_rules.name
+          }
+        }
+      }
     }
 
+    # Exactly one instance: detection rules, their count() windows, session
+    # tags and blocks, and the live event stream are held in memory by the
+    # instance. More instances would each see part of the traffic and
+    # disagree about rules and blocks. Throughput is bounded by
+    # ANALYZER_MAX_IN_FLIGHT; Pub/Sub buffers the rest.
     metadata {
       annotations = {
         "autoscaling.knative.dev/minScale" = "1"
-        "autoscaling.knative.dev/maxScale" = "10"
+        "autoscaling.knative.dev/maxScale" = "1"
         "run.googleapis.com/execution-environment" = "gen2"
       }
     }
   }
 
+  metadata {
+    annotations = {
+      "run.googleapis.com/launch-stage" = "BETA" # Cloud Storage volumes
+    }
+  }
+
   traffic {
     percent         = 100
     latest_revision = true
@@ -284,6 +383,7 @@ resource "google_cloud_run_service" "analyzer" {
     google_pubsub_subscription.analyzer_sub,
     google_bigquery_table.telemetry_events,
     google_bigquery_table.drift_baselines,
+    google_storage_bucket_iam_member.analyzer_rules_writer,
   ]
 }
 
@@ -340,6 +440,15 @@ resource "google_cloud_run_service_iam_member" "gateway_public" {
   member   = "allUsers"
 }
 
+# The analyzer stays private; only the gateway may call its query API
+resource "google_cloud_run_service_iam_member" "analyzer_gateway_invoker" {
+  service  = google_cloud_run_service.analyzer.name
+  location = google_cloud_run_service.analyzer.location
+  project  = var.project_id
+  role     = "roles/run.invoker"
+  member   = "serviceAccount:${google_service_account.gateway.email}"
+}
+
 # Allow unauthenticated access to Frontend (for web UI)
 resource "google_cloud_run_service_iam_member" "frontend_public" {
   service  = google_cloud_run_service.frontend.name
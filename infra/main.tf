@@ -137,6 +137,16 @@ resource "google_bigquery_table" "telemetry_events" {
       type = "STRING"
       mode = "NULLABLE"
     },
+    {
+      name = "tenantId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "appId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
     {
       name = "prompt"
       type = "STRING"
@@ -147,6 +157,26 @@ resource "google_bigquery_table" "telemetry_events" {
       type = "INTEGER"
       mode = "NULLABLE"
     },
+    {
+      name = "conversationId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "turnIndex"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "historyTurns"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "historyTokens"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
     {
       name = "response"
       type = "STRING"
@@ -167,6 +197,37 @@ resource "google_bigquery_table" "telemetry_events" {
       type = "STRING"
       mode = "NULLABLE"
     },
+    {
+      name = "provider"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "routingPolicy"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "requestedModel"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "fallbackCount"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "routingAttempts"
+      type = "RECORD"
+      mode = "REPEATED"
+      fields = [
+        { name = "provider", type = "STRING", mode = "NULLABLE" },
+        { name = "model", type = "STRING", mode = "NULLABLE" },
+        { name = "outcome", type = "STRING", mode = "NULLABLE" },
+        { name = "latencyMs", type = "INTEGER", mode = "NULLABLE" }
+      ]
+    },
     {
       name = "tokensIn"
       type = "INTEGER"
@@ -187,6 +248,76 @@ resource "google_bigquery_table" "telemetry_events" {
       type = "INTEGER"
       mode = "NULLABLE"
     },
+    {
+      name = "streaming"
+      type = "BOOLEAN"
+      mode = "NULLABLE"
+    },
+    {
+      name = "timeToFirstTokenMs"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "cacheHit"
+      type = "BOOLEAN"
+      mode = "NULLABLE"
+    },
+    {
+      name = "cacheSimilarity"
+      type = "FLOAT"
+      mode = "NULLABLE"
+    },
+    {
+      name = "cacheSavedTokens"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowRequestId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowOf"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "guardrailAction"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "guardrailLabels"
+      type = "STRING"
+      mode = "REPEATED"
+    },
+    {
+      name = "guardrailRedactions"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "outputFilterAction"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "outputPiiCount"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "outputPiiCategories"
+      type = "STRING"
+      mode = "REPEATED"
+    },
+    {
+      name = "scrubMode"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
     {
       name = "status"
       type = "STRING"
@@ -277,3 +408,489 @@ resource "google_bigquery_table" "drift_baselines" {
   depends_on = [google_bigquery_dataset.telemetry]
 }
 
+# BigQuery table for shadow traffic comparisons (primary vs candidate model)
+resource "google_bigquery_table" "shadow_comparisons" {
+  dataset_id = google_bigquery_dataset.telemetry.dataset_id
+  table_id   = "shadow_comparisons"
+  project    = var.project_id
+
+  description = "Pairwise comparison of primary responses with shadow (candidate model) responses"
+
+  schema = jsonencode([
+    {
+      name = "primaryRequestId"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "shadowRequestId"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "timestamp"
+      type = "TIMESTAMP"
+      mode = "REQUIRED"
+      description = "Time of the primary request"
+    },
+    {
+      name = "endpoint"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "tenantId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "primaryModel"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowModel"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "primaryProvider"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowProvider"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "primaryStatus"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowStatus"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "similarity"
+      type = "FLOAT"
+      mode = "NULLABLE"
+      description = "Cosine similarity of the two responses"
+    },
+    {
+      name = "primarySafetyLabel"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "shadowSafetyLabel"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "labelDisagreement"
+      type = "BOOLEAN"
+      mode = "NULLABLE"
+    },
+    {
+      name = "latencyDeltaMs"
+      type = "INTEGER"
+      mode = "NULLABLE"
+      description = "Shadow minus primary latency"
+    },
+    {
+      name = "costDeltaUsd"
+      type = "FLOAT"
+      mode = "NULLABLE"
+      description = "Shadow minus primary estimated cost"
+    },
+  ])
+
+  time_partitioning {
+    type  = "DAY"
+    field = "timestamp"
+  }
+
+  clustering = ["shadowModel"]
+
+  labels = {
+    environment = var.environment
+    service     = "sentinel"
+  }
+
+  deletion_protection = false
+
+  depends_on = [google_bigquery_dataset.telemetry]
+}
+
+# Engine outputs per event (drift, safety, anomaly, patterns), keyed by requestId
+resource "google_bigquery_table" "analysis_results" {
+  dataset_id = google_bigquery_dataset.telemetry.dataset_id
+  table_id   = "analysis_results"
+  project    = var.project_id
+
+  description = "Drift, safety, anomaly and attack pattern results for each analyzed event"
+
+  schema = jsonencode([
+    {
+      name = "requestId"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "Joins with the events table"
+    },
+    {
+      name = "timestamp"
+      type = "TIMESTAMP"
+      mode = "REQUIRED"
+      description = "Time of the request"
+    },
+    {
+      name = "analyzedAt"
+      type = "TIMESTAMP"
+      mode = "REQUIRED"
+    },
+    {
+      name = "endpoint"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "modelName"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "tenantId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "driftScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "similarityScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+      description = "Cosine similarity to the endpoint baseline"
+    },
+    {
+      name = "baselineReady"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "driftProcessingTimeMs"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "safetyLabel"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "safetyScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "isHighRisk"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "safetyDetails"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "safetyProcessingTimeMs"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "isAnomaly"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "zScore"
+      type = "FLOAT"
+      mode = "NULLABLE"
+      description = "Drift score z-score against recent scores for the endpoint"
+    },
+    {
+      name = "anomalyMean"
+      type = "FLOAT"
+      mode = "NULLABLE"
+    },
+    {
+      name = "anomalyStdDev"
+      type = "FLOAT"
+      mode = "NULLABLE"
+    },
+    {
+      name = "anomalyThreshold"
+      type = "FLOAT"
+      mode = "NULLABLE"
+    },
+    {
+      name = "patterns"
+      type = "RECORD"
+      mode = "REPEATED"
+      description = "Attack patterns active when the event was recorded"
+      fields = [
+        {
+          name = "patternType"
+          type = "STRING"
+          mode = "NULLABLE"
+        },
+        {
+          name = "confidence"
+          type = "FLOAT"
+          mode = "NULLABLE"
+        },
+        {
+          name = "affectedRequests"
+          type = "INTEGER"
+          mode = "NULLABLE"
+        },
+        {
+          name = "firstSeen"
+          type = "TIMESTAMP"
+          mode = "NULLABLE"
+        },
+        {
+          name = "lastSeen"
+          type = "TIMESTAMP"
+          mode = "NULLABLE"
+        },
+      ]
+    },
+    {
+      name = "processingTimeMs"
+      type = "INTEGER"
+      mode = "NULLABLE"
+      description = "From receipt until the results were ready, excluding storage"
+    },
+  ])
+
+  time_partitioning {
+    type  = "DAY"
+    field = "timestamp"
+  }
+
+  clustering = ["endpoint", "safetyLabel"]
+
+  labels = {
+    environment = var.environment
+    service     = "sentinel"
+  }
+
+  deletion_protection = false
+
+  depends_on = [google_bigquery_dataset.telemetry]
+}
+
+# Telemetry messages the analyzer quarantined: unprocessable, or failing after
+# ANALYZER_MAX_DELIVERY_ATTEMPTS. Inspect and replay with `npm run dead-letters`.
+resource "google_bigquery_table" "dead_letters" {
+  dataset_id = google_bigquery_dataset.telemetry.dataset_id
+  table_id   = "dead_letters"
+  project    = var.project_id
+
+  description = "Quarantined telemetry messages with the failure reason and stage"
+
+  schema = jsonencode([
+    {
+      name = "deadLetterId"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "quarantinedAt"
+      type = "TIMESTAMP"
+      mode = "REQUIRED"
+    },
+    {
+      name = "messageId"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "Pub/Sub message ID"
+    },
+    {
+      name = "publishTime"
+      type = "TIMESTAMP"
+      mode = "NULLABLE"
+    },
+    {
+      name = "deliveryAttempts"
+      type = "INTEGER"
+      mode = "NULLABLE"
+    },
+    {
+      name = "reason"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "invalid_json, unsupported_schema_version, invalid_event or max_attempts_exceeded"
+    },
+    {
+      name = "stage"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "validation, drift, safety, analysis, metrics or storage"
+    },
+    {
+      name = "errors"
+      type = "STRING"
+      mode = "REPEATED"
+    },
+    {
+      name = "requestId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "payload"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "Original message data"
+    },
+    {
+      name = "replayedAt"
+      type = "TIMESTAMP"
+      mode = "NULLABLE"
+    },
+  ])
+
+  time_partitioning {
+    type  = "DAY"
+    field = "quarantinedAt"
+  }
+
+  clustering = ["reason", "stage"]
+
+  labels = {
+    environment = var.environment
+    service     = "sentinel"
+  }
+
+  deletion_protection = false
+
+  depends_on = [google_bigquery_dataset.telemetry]
+}
+
+resource "google_bigquery_table" "replay_results" {
+  dataset_id = google_bigquery_dataset.telemetry.dataset_id
+  table_id   = "replay_results"
+  project    = var.project_id
+
+  description = "Engine results from replaying historical telemetry (npm run replay -- --table=replay_results)"
+
+  schema = jsonencode([
+    {
+      name = "runId"
+      type = "STRING"
+      mode = "REQUIRED"
+      description = "Replay run, one per invocation of npm run replay"
+    },
+    {
+      name = "runLabel"
+      type = "STRING"
+      mode = "NULLABLE"
+      description = "Optional --label to tell runs apart"
+    },
+    {
+      name = "requestId"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "timestamp"
+      type = "TIMESTAMP"
+      mode = "REQUIRED"
+      description = "Original event time"
+    },
+    {
+      name = "endpoint"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "modelName"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "tenantId"
+      type = "STRING"
+      mode = "NULLABLE"
+    },
+    {
+      name = "driftScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "similarityScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "baselineReady"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "safetyLabel"
+      type = "STRING"
+      mode = "REQUIRED"
+    },
+    {
+      name = "safetyScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "isHighRisk"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "isAnomaly"
+      type = "BOOLEAN"
+      mode = "REQUIRED"
+    },
+    {
+      name = "zScore"
+      type = "FLOAT"
+      mode = "REQUIRED"
+    },
+    {
+      name = "patterns"
+      type = "STRING"
+      mode = "REPEATED"
+      description = "Attack patterns first detected at this event"
+    },
+  ])
+
+  time_partitioning {
+    type  = "DAY"
+    field = "timestamp"
+  }
+
+  clustering = ["runId", "endpoint"]
+
+  labels = {
+    environment = var.environment
+    service     = "sentinel"
+  }
+
+  deletion_protection = false
+
+  depends_on = [google_bigquery_dataset.telemetry]
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { upcastTelemetryEvent, UnsupportedSchemaVersionError } from '../upcast.js';
+import { TELEMETRY_SCHEMA_VERSION } from '../telemetryEvent.js';
+
+describe('upcastTelemetryEvent', () => {
+  it('treats unversioned events as version 1 and defaults their provider', () => {
+    const upcast = upcastTelemetryEvent({ requestId: 'legacy-1', modelName: 'gemini-1.5-pro' });
+
+    expect(upcast).toEqual({
+      requestId: 'legacy-1',
+      modelName: 'gemini-1.5-pro',
+      provider: 'vertex',
+      schemaVersion: TELEMETRY_SCHEMA_VERSION,
+    });
+  });
+
+  it('keeps a provider that version 1 events already carry', () => {
+    expect(upcastTelemetryEvent({ requestId: 'legacy-2', provider: 'openai' }).provider).toBe('openai');
+  });
+
+  it('leaves current events unchanged', () => {
+    const current = { requestId: 'current-1', schemaVersion: TELEMETRY_SCHEMA_VERSION };
+
+    expect(upcastTelemetryEvent(current)).toEqual(current);
+  });
+
+  it('rejects versions newer than the current schema', () => {
+    expect(() => upcastTelemetryEvent({ schemaVersion: TELEMETRY_SCHEMA_VERSION + 1 }))
+      .toThrow(UnsupportedSchemaVersionError);
+    expect(() => upcastTelemetryEvent({ schemaVersion: 'two' })).toThrow(UnsupportedSchemaVersionError);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { validateTelemetryEvent } from '../validate.js';
+import { TELEMETRY_SCHEMA_VERSION, TelemetryEvent } from '../telemetryEvent.js';
+
+const event: TelemetryEvent = {
+  schemaVersion: TELEMETRY_SCHEMA_VERSION,
+  requestId: 'test-123',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  endpoint: '/api/chat',
+  method: 'POST',
+  prompt: 'What is the capital of France?',
+  promptLength: 30,
+  response: 'Paris.',
+  responseLength: 6,
+  modelName: 'gemini-2.0-flash',
+  modelVersion: '1.0',
+  provider: 'vertex',
+  tokensIn: 10,
+  tokensOut: 5,
+  tokensTotal: 15,
+  latencyMs: 400,
+  status: 'success',
+  service: 'gateway',
+};
+
+describe('validateTelemetryEvent', () => {
+  it('accepts a complete event', () => {
+    const result = validateTelemetryEvent({
+      ...event,
+      guardrailAction: 'warn',
+      guardrailLabels: ['PII'],
+      outputPiiCounts: { email: 2 },
+      routingAttempts: [{ provider: 'vertex', model: 'gemini-2.0-flash', outcome: 'success', latencyMs: 400 }],
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports every missing required field', () => {
+    const { requestId, tokensIn, ...incomplete } = event;
+
+    const result = validateTelemetryEvent(incomplete);
+
+    expect(result).toEqual({ valid: false, errors: ['requestId is required', 'tokensIn is required'] });
+  });
+
+  it('rejects fields of the wrong type or outside their enum', () => {
+    const result = validateTelemetryEvent({ ...event, latencyMs: '400', status: 'done', guardrailLabels: [1] });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual([
+      'latencyMs must be a finite number',
+      'guardrailLabels must be an array of strings',
+      'status must be one of success, error, blocked',
+    ]);
+  });
+
+  it('rejects malformed routing attempts and timestamps', () => {
+    const result = validateTelemetryEvent({
+      ...event,
+      timestamp: 'yesterday',
+      routingAttempts: [{ provider: 'vertex', model: 'gemini-2.0-flash', outcome: 'crashed', latencyMs: 1 }],
+    });
+
+    expect(!result.valid && result.errors).toEqual([
+      'routingAttempts must be an array of { provider, model, outcome, latencyMs }',
+      'timestamp must be an ISO 8601 date',
+    ]);
+  });
+
+  it('allows unknown fields from newer producers', () => {
+    expect(validateTelemetryEvent({ ...event, futureField: true }).valid).toBe(true);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateTelemetryEvent('event')).toEqual({ valid: false, errors: ['event must be an object'] });
+  });
+});
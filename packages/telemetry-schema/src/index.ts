@@ -0,0 +1,5 @@
+export { TELEMETRY_SCHEMA_VERSION } from './telemetryEvent.js';
+export type { TelemetryEvent } from './telemetryEvent.js';
+export { validateTelemetryEvent } from './validate.js';
+export type { ValidationResult } from './validate.js';
+export { upcastTelemetryEvent, UnsupportedSchemaVersionError } from './upcast.js';
@@ -0,0 +1,97 @@
+/**
+ * Current version of the telemetry event schema. Bump it whenever a change
+ * would break consumers of older events, and add an upcaster from the
+ * previous version in upcast.ts.
+ *
+ * 1: events published before versioning (no schemaVersion)
+ * 2: schemaVersion stamped by the publisher, events validated before publishing
+ */
+export const TELEMETRY_SCHEMA_VERSION = 2;
+
+/**
+ * One LLM request as published by the gateway and consumed by the analyzer
+ */
+export interface TelemetryEvent {
+  schemaVersion?: number; // Stamped by the publisher; older events are upcast by the analyzer
+  requestId: string;
+  timestamp: string;
+  endpoint: string;
+  method: string;
+  
+  // Caller identity (set when API key authentication is enabled)
+  tenantId?: string;
+  appId?: string;
+  
+  // Request data
+  prompt: string;
+  promptLength: number;
+  
+  // Response data
+  response: string;
+  responseLength: number;
+  
+  // Conversation context (multi-turn chats)
+  conversationId?: string;
+  turnIndex?: number; // 0 for the first user turn
+  historyTurns?: number;
+  historyTokens?: number; // Estimated tokens of prior turns sent with the prompt
+  
+  // Model info
+  modelName: string;
+  modelVersion: string;
+  provider?: string; // LLM provider that served the request (e.g. 'vertex', 'openai')
+  
+  // Routing policy (set when a policy chose the model; modelName is the model that answered)
+  routingPolicy?: string;
+  requestedModel?: string; // Policy primary, or the model the client asked for
+  fallbackCount?: number; // Fallback models tried after the requested one
+  routingAttempts?: {
+    provider: string;
+    model: string;
+    outcome: 'success' | 'rate_limit' | 'timeout' | 'safety_block' | 'server_error' | 'not_found' | 'error';
+    latencyMs: number;
+  }[];
+  
+  // Token usage
+  tokensIn: number;
+  tokensOut: number;
+  tokensTotal: number;
+  
+  // Latency (milliseconds)
+  latencyMs: number;
+  
+  // Response cache (set when the gateway cache is enabled; hits report zero tokens)
+  cacheHit?: boolean;
+  cacheSimilarity?: number; // 1 for exact matches, cosine similarity for near matches
+  cacheSavedTokens?: number; // Tokens the cached completion originally used
+  
+  // Shadow traffic: a sampled request mirrored to a candidate model, published as a second event
+  shadowRequestId?: string; // On the primary event: requestId of its shadow
+  shadowOf?: string; // On the shadow event: requestId of the primary (its answer is never returned)
+  
+  // Streaming (set for /api/chat/stream)
+  streaming?: boolean;
+  timeToFirstTokenMs?: number;
+  
+  // Pre-request guardrails (status is 'blocked' when a policy rejected the request)
+  guardrailAction?: 'allow' | 'warn' | 'redact' | 'block';
+  guardrailLabels?: string[]; // e.g. ['PII', 'JAILBREAK']
+  guardrailRedactions?: number;
+  
+  // Response-side output filter (PII found in the model's response)
+  outputFilterAction?: 'detect' | 'mask' | 'block';
+  outputPiiCounts?: Record<string, number>; // Matches per PII category, e.g. { email: 2 }
+  
+  // Telemetry scrubbing (prompt/response are masked, hashed or dropped by the gateway)
+  scrubMode?: 'mask' | 'hash' | 'drop-text';
+  embeddingInput?: string; // Masked response for drift embeddings only - never persisted
+  
+  // Status
+  status: 'success' | 'error' | 'blocked';
+  errorMessage?: string;
+  
+  // Metadata
+  environment?: string;
+  service: string;
+}
+
@@ -0,0 +1,46 @@
+import { TELEMETRY_SCHEMA_VERSION } from './telemetryEvent.js';
+
+type RawEvent = Record<string, unknown>;
+
+/**
+ * Raised for events whose schemaVersion this consumer can't read: newer than
+ * the version it was built with, or not a version at all.
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  version: unknown;
+
+  constructor(version: unknown) {
+    super(`Unsupported telemetry schema version ${JSON.stringify(version)} (current: ${TELEMETRY_SCHEMA_VERSION})`);
+    this.name = 'UnsupportedSchemaVersionError';
+    this.version = version;
+  }
+}
+
+/**
+ * Upcasters by the version they read: UPCASTERS[n] turns a version n event
+ * into a version n + 1 event. Never edit one once released; add the next.
+ */
+const UPCASTERS: Record<number, (event: RawEvent) => RawEvent> = {
+  // Unversioned events. Vertex AI was the only provider before it was recorded.
+  1: (event) => ({
+    ...event,
+    provider: event.provider ?? 'vertex',
+  }),
+};
+
+/**
+ * Bring an event of any supported version up to the current schema. Events
+ * without schemaVersion are version 1. Validate the result afterwards.
+ */
+export function upcastTelemetryEvent(event: RawEvent): RawEvent {
+  const version = event.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > TELEMETRY_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(version);
+  }
+
+  let upcast = event;
+  for (let from = version; from < TELEMETRY_SCHEMA_VERSION; from++) {
+    upcast = UPCASTERS[from](upcast);
+  }
+  return { ...upcast, schemaVersion: TELEMETRY_SCHEMA_VERSION };
+}
@@ -0,0 +1,131 @@
+import { TelemetryEvent } from './telemetryEvent.js';
+
+type FieldSpec =
+  | { type: 'string' | 'number' | 'boolean' | 'string[]' | 'counts' | 'routingAttempts'; required?: boolean }
+  | { type: 'enum'; values: readonly string[]; required?: boolean };
+
+export type ValidationResult =
+  | { valid: true; event: TelemetryEvent }
+  | { valid: false; errors: string[] };
+
+const ROUTING_OUTCOMES = ['success', 'rate_limit', 'timeout', 'safety_block', 'server_error', 'not_found', 'error'] as const;
+
+/**
+ * Every TelemetryEvent field and how to check it. Typed against the interface
+ * so a field added there without a spec here fails to compile.
+ */
+const FIELDS: { [K in keyof Required<TelemetryEvent>]: FieldSpec } = {
+  schemaVersion: { type: 'number' },
+  requestId: { type: 'string', required: true },
+  timestamp: { type: 'string', required: true },
+  endpoint: { type: 'string', required: true },
+  method: { type: 'string', required: true },
+  tenantId: { type: 'string' },
+  appId: { type: 'string' },
+  prompt: { type: 'string', required: true },
+  promptLength: { type: 'number', required: true },
+  response: { type: 'string', required: true },
+  responseLength: { type: 'number', required: true },
+  conversationId: { type: 'string' },
+  turnIndex: { type: 'number' },
+  historyTurns: { type: 'number' },
+  historyTokens: { type: 'number' },
+  modelName: { type: 'string', required: true },
+  modelVersion: { type: 'string', required: true },
+  provider: { type: 'string' },
+  routingPolicy: { type: 'string' },
+  requestedModel: { type: 'string' },
+  fallbackCount: { type: 'number' },
+  routingAttempts: { type: 'routingAttempts' },
+  tokensIn: { type: 'number', required: true },
+  tokensOut: { type: 'number', required: true },
+  tokensTotal: { type: 'number', required: true },
+  latencyMs: { type: 'number', required: true },
+  cacheHit: { type: 'boolean' },
+  cacheSimilarity: { type: 'number' },
+  cacheSavedTokens: { type: 'number' },
+  shadowRequestId: { type: 'string' },
+  shadowOf: { type: 'string' },
+  streaming: { type: 'boolean' },
+  timeToFirstTokenMs: { type: 'number' },
+  guardrailAction: { type: 'enum', values: ['allow', 'warn', 'redact', 'block'] },
+  guardrailLabels: { type: 'string[]' },
+  guardrailRedactions: { type: 'number' },
+  outputFilterAction: { type: 'enum', values: ['detect', 'mask', 'block'] },
+  outputPiiCounts: { type: 'counts' },
+  scrubMode: { type: 'enum', values: ['mask', 'hash', 'drop-text'] },
+  embeddingInput: { type: 'string' },
+  status: { type: 'enum', values: ['success', 'error', 'blocked'], required: true },
+  errorMessage: { type: 'string' },
+  environment: { type: 'string' },
+  service: { type: 'string', required: true },
+};
+
+/**
+ * Check that a value is a TelemetryEvent of the current schema. Unknown
+ * fields are allowed so newer producers don't break older consumers; upcast
+ * events of older versions first (see upcastTelemetryEvent).
+ */
+export function validateTelemetryEvent(value: unknown): ValidationResult {
+  if (!isObject(value)) {
+    return { valid: false, errors: ['event must be an object'] };
+  }
+
+  const errors: string[] = [];
+  for (const [field, spec] of Object.entries<FieldSpec>(FIELDS)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (spec.required) {
+        errors.push(`${field} is required`);
+      }
+      continue;
+    }
+    const error = checkField(fieldValue, spec);
+    if (error) {
+      errors.push(`${field} ${error}`);
+    }
+  }
+
+  if (typeof value.timestamp === 'string' && Number.isNaN(Date.parse(value.timestamp))) {
+    errors.push('timestamp must be an ISO 8601 date');
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, event: value as unknown as TelemetryEvent };
+}
+
+function checkField(value: unknown, spec: FieldSpec): string | undefined {
+  switch (spec.type) {
+    case 'string':
+    case 'boolean':
+      return typeof value === spec.type ? undefined : `must be a ${spec.type}`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? undefined : 'must be a finite number';
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? undefined
+        : `must be one of ${spec.values.join(', ')}`;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : 'must be an array of strings';
+    case 'counts':
+      return isObject(value) && Object.values(value).every(count => typeof count === 'number')
+        ? undefined
+        : 'must map names to numbers';
+    case 'routingAttempts':
+      return Array.isArray(value) && value.every(isRoutingAttempt)
+        ? undefined
+        : 'must be an array of { provider, model, outcome, latencyMs }';
+  }
+}
+
+function isRoutingAttempt(value: unknown): boolean {
+  return isObject(value)
+    && typeof value.provider === 'string'
+    && typeof value.model === 'string'
+    && typeof value.outcome === 'string'
+    && (ROUTING_OUTCOMES as readonly string[]).includes(value.outcome)
+    && typeof value.latencyMs === 'number';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
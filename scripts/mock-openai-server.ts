@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+
+/**
+ * Mock OpenAI-compatible server for LLM Sentinel
+ *
+ * Serves POST /v1/chat/completions (plain and streaming) with canned echo
+ * responses, so the gateway's OpenAI-compatible provider can be exercised
+ * locally without API keys.
+ *
+ * Usage:
+ *   npm run mock:openai -- --port=8000 --latency=200
+ *   npm run mock:openai -- --fail=gpt-4o:429,gpt-4o-mini:timeout   # Exercise routing fallbacks
+ *
+ * Then start the gateway with:
+ *   OPENAI_BASE_URL=http://localhost:8000/v1 LLM_PROVIDER=openai npm run dev
+ */
+
+import http from 'http';
+
+interface MockConfig {
+  port: number;
+  latencyMs: number;
+  model: string;
+  // Requested model -> HTTP status to fail with, 'timeout' (never answer) or 'safety' (content_filter)
+  failures: Record<string, string>;
+}
+
+function parseArgs(): MockConfig {
+  const config: MockConfig = {
+    port: 8000,
+    latencyMs: 100,
+    model: 'mock-gpt',
+    failures: {},
+  };
+
+  for (const arg of process.argv.slice(2)) {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    if (key === 'port') config.port = parseInt(value, 10);
+    else if (key === 'latency') config.latencyMs = parseInt(value, 10);
+    else if (key === 'model') config.model = value;
+    else if (key === 'fail') {
+      for (const entry of value.split(',')) {
+        const separator = entry.lastIndexOf(':');
+        if (separator > 0) config.failures[entry.slice(0, separator)] = entry.slice(separator + 1);
+      }
+    }
+  }
+
+  return config;
+}
+
+const config = parseArgs();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function handleCompletion(body: any, res: http.ServerResponse): Promise<void> {
+  const messages: Array<{ role: string; content: string }> = body.messages || [];
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  const reply = `[MOCK ${config.model}] You said: "${lastUser?.content || ''}". This is a mock response for testing.`;
+  const promptTokens = estimateTokens(messages.map(m => m.content).join(' '));
+  const completionTokens = estimateTokens(reply);
+  const id = `chatcmpl-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  await sleep(config.latencyMs);
+
+  const failure = config.failures[body.model];
+  if (failure === 'timeout') {
+    return; // Leave the request hanging
+  }
+  if (failure === 'safety' && body.stream) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: body.model,
+      choices: [{ index: 0, delta: {}, finish_reason: 'content_filter' }],
+    })}\n\n`);
+    res.end('data: [DONE]\n\n');
+    return;
+  }
+  if (failure === 'safety') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id,
+      object: 'chat.completion',
+      created,
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: '' }, finish_reason: 'content_filter' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: 0, total_tokens: promptTokens },
+    }));
+    return;
+  }
+  if (failure) {
+    res.writeHead(parseInt(failure, 10) || 500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: `Simulated ${failure} for ${body.model}`, type: 'mock_error' } }));
+    return;
+  }
+
+  if (!body.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id,
+      object: 'chat.completion',
+      created,
+      model: config.model,
+      system_fingerprint: 'mock-fp-1',
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    }));
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (payload: unknown) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+  const words = reply.match(/\S+\s*/g) || [];
+
+  for (const word of words) {
+    send({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: config.model,
+      system_fingerprint: 'mock-fp-1',
+      choices: [{ index: 0, delta: { content: word }, finish_reason: null }],
+    });
+    await sleep(20);
+  }
+
+  send({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model: config.model,
+    system_fingerprint: 'mock-fp-1',
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+  });
+
+  if (body.stream_options?.include_usage) {
+    send({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: config.model,
+      choices: [],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    });
+  }
+
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+      return;
+    }
+
+    handleCompletion(body, res).catch(error => {
+      console.error('[MockOpenAI] Error:', error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      res.end();
+    });
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Mock OpenAI-compatible server listening on http://localhost:${config.port}/v1`);
+  console.log(`Model: ${config.model}, latency: ${config.latencyMs}ms`);
+  if (Object.keys(config.failures).length > 0) {
+    console.log(`Simulated failures: ${JSON.stringify(config.failures)}`);
+  }
+});
@@ -0,0 +1,185 @@
+/**
+ * Inspect and replay quarantined telemetry messages
+ *
+ * Reads the dead-letter sink the analyzer is configured with (DEAD_LETTER_SINK)
+ * and, once the cause of a failure is fixed, republishes the original payloads
+ * through the telemetry transport (Pub/Sub topic or JSONL file) so the analyzer
+ * processes them again.
+ *
+ * Usage:
+ *   npm run dead-letters -- list --reason=max_attempts_exceeded --since=2024-01-01
+ *   npm run dead-letters -- show --ids=<deadLetterId>
+ *   npm run dead-letters -- replay --stage=storage --dry-run
+ */
+
+import { appendFile } from 'fs/promises';
+import { PubSub } from '@google-cloud/pubsub';
+import { Config, loadConfig } from '../config.js';
+import { createDeadLetterSink, DeadLetterQuery, DeadLetterRecord } from '../services/deadLetterSink.js';
+
+type Command = 'list' | 'show' | 'replay';
+
+interface Options {
+  command: Command;
+  query: DeadLetterQuery;
+  dryRun: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+Inspect and replay quarantined telemetry messages
+
+Usage: npm run dead-letters -- <list|show|replay> [options]
+
+Commands:
+  list                    One line per quarantined message
+  show                    Full records, including the error details and payload
+  replay                  Republish payloads through the telemetry transport and mark them replayed
+
+Options:
+  --ids=ID[,ID...]        Only these dead-letter IDs
+  --reason=REASON         invalid_json, unsupported_schema_version, invalid_event or max_attempts_exceeded
+  --stage=STAGE           validation, drift, safety, analysis, metrics or storage
+  --since=TIMESTAMP       Quarantined at or after (ISO 8601)
+  --limit=N               At most N records
+  --all                   Include messages that were already replayed
+  --dry-run               With replay: show what would be replayed
+  --help, -h              Show this help message
+`);
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('-'));
+  const options: Options = { command: 'list', query: {}, dryRun: false };
+
+  for (const arg of args) {
+    if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    } else if (arg.startsWith('--ids=')) {
+      options.query.ids = arg.split('=')[1].split(',').filter(Boolean);
+    } else if (arg.startsWith('--reason=')) {
+      options.query.reason = arg.split('=')[1];
+    } else if (arg.startsWith('--stage=')) {
+      options.query.stage = arg.split('=')[1];
+    } else if (arg.startsWith('--since=')) {
+      const since = arg.split('=')[1];
+      if (isNaN(Date.parse(since))) {
+        throw new Error(`Invalid --since timestamp: ${since}`);
+      }
+      options.query.since = since;
+    } else if (arg.startsWith('--limit=')) {
+      options.query.limit = parseInt(arg.split('=')[1], 10) || undefined;
+    } else if (arg === '--all') {
+      options.query.includeReplayed = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (command) {
+    if (command !== 'list' && command !== 'show' && command !== 'replay') {
+      throw new Error(`Unknown command: ${command}`);
+    }
+    options.command = command;
+  }
+  return options;
+}
+
+function summarize(record: DeadLetterRecord): string {
+  return [
+    record.deadLetterId,
+    record.quarantinedAt,
+    `${record.reason}@${record.stage}`,
+    `attempts=${record.deliveryAttempts}`,
+    record.requestId || '-',
+    record.replayedAt ? `replayed ${record.replayedAt}` : '',
+    record.errors[0] || '',
+  ].filter(Boolean).join('  ');
+}
+
+// Publish a payload where the analyzer receives telemetry from
+function createPublisher(config: Config): (record: DeadLetterRecord) => Promise<void> {
+  switch (config.telemetry.transport) {
+    case 'pubsub': {
+      const topic = new PubSub({ projectId: config.pubsub.projectId }).topic(config.pubsub.topicName);
+      return async (record) => {
+        await topic.publishMessage({
+          data: Buffer.from(record.payload),
+          attributes: { replayOf: record.deadLetterId },
+        });
+      };
+    }
+    case 'jsonl':
+      return async (record) => {
+        // One event per line; a payload that isn't single-line JSON is re-encoded
+        const line = record.payload.includes('\n') ? JSON.stringify(JSON.parse(record.payload)) : record.payload;
+        await appendFile(config.telemetry.filePath, line + '\n', 'utf8');
+      };
+    default:
+      throw new Error(`Replay is not supported with the ${config.telemetry.transport} transport; use pubsub or jsonl`);
+  }
+}
+
+async function replay(records: DeadLetterRecord[], publish: (record: DeadLetterRecord) => Promise<void>): Promise<string[]> {
+  const replayed: string[] = [];
+
+  for (const record of records) {
+    try {
+      await publish(record);
+      replayed.push(record.deadLetterId);
+      console.log(`[DeadLetters] Replayed ${record.deadLetterId} (${record.requestId || 'unparsed'})`);
+    } catch (error) {
+      console.error(`[DeadLetters] Failed to replay ${record.deadLetterId}:`, error);
+    }
+  }
+  return replayed;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+  const config = loadConfig();
+  const sink = createDeadLetterSink(config);
+
+  const records = await sink.list(options.query);
+  console.log(`[DeadLetters] ${records.length} quarantined message(s) in the ${sink.name} sink`);
+
+  if (options.command === 'list') {
+    records.forEach(record => console.log(summarize(record)));
+    return;
+  }
+
+  if (options.command === 'show') {
+    records.forEach(record => console.log(JSON.stringify(record, null, 2)));
+    return;
+  }
+
+  if (options.dryRun) {
+    records.forEach(record => console.log(`[DeadLetters] Would replay ${summarize(record)}`));
+    return;
+  }
+
+  const replayed = await replay(records, createPublisher(config));
+  if (replayed.length > 0) {
+    try {
+      await sink.markReplayed(replayed, new Date().toISOString());
+    } catch (error) {
+      // The messages are already republished; only the bookkeeping is missing
+      console.error('[DeadLetters] Replayed but failed to mark as replayed:', error);
+      console.error(`[DeadLetters] Replayed IDs: ${replayed.join(',')}`);
+      process.exitCode = 1;
+    }
+  }
+  console.log(`[DeadLetters] Replayed ${replayed.length}/${records.length} message(s)`);
+  if (replayed.length < records.length) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('[DeadLetters]', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
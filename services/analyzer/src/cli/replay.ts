@@ -0,0 +1,239 @@
+/**
+ * Replay historical telemetry through the analyzer's engines
+ *
+ * Reads TelemetryEvents from a JSONL export or the BigQuery events table and
+ * scores them with computeDrift, checkSafety, AnomalyDetector and
+ * PatternDetector in timestamp order, as if they arrived live. Use it to see
+ * what changed thresholds would have flagged. Baselines start empty, nothing
+ * is sent to Datadog and the live tables are never written.
+ *
+ * Embeddings and safety classification call Vertex AI like the live analyzer.
+ *
+ * Usage:
+ *   npm run replay -- --file=events.jsonl --output=results.jsonl
+ *   npm run replay -- --bigquery --since=2024-05-01 --until=2024-05-08 --table=replay_results --label=jailbreak-window-3m
+ */
+
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { appendFile, writeFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import { TelemetryEvent, upcastTelemetryEvent, validateTelemetryEvent } from '@sentinel/telemetry-schema';
+import { loadConfig } from '../config.js';
+import { BigQueryWriter } from '../services/bigqueryWriter.js';
+import { EmbeddingsClient } from '../services/embeddingsClient.js';
+import { SafetyClassifier } from '../services/safetyClassifier.js';
+import { ReplayReport, ReplayResult, ReplayRunner } from '../services/replayRunner.js';
+import { createDependencyPools } from '../utils/concurrencyPool.js';
+
+interface Options {
+  file?: string;
+  bigquery: boolean;
+  since?: string;
+  until?: string;
+  endpoint?: string;
+  limit?: number;
+  output?: string;
+  table?: string;
+  label?: string;
+  verbose: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+Replay historical telemetry through the analyzer's engines
+
+Usage: npm run replay -- (--file=PATH | --bigquery) [options]
+
+Input:
+  --file=PATH             JSONL export, one TelemetryEvent per line
+  --bigquery              The BigQuery events table (BIGQUERY_TABLE_ID)
+  --since=TIMESTAMP       Events at or after (ISO 8601)
+  --until=TIMESTAMP       Events before (ISO 8601)
+  --endpoint=ENDPOINT     Only this endpoint
+  --limit=N               At most N events
+
+Output:
+  --output=PATH           Write one result per event as JSONL
+  --table=TABLE           Write results to this BigQuery table (e.g. replay_results)
+  --label=TEXT            Stored with table rows to tell runs apart
+  --verbose, -v           Print every flagged event
+  --help, -h              Show this help message
+`);
+}
+
+function parseArgs(): Options {
+  const options: Options = { bigquery: false, verbose: false };
+
+  for (const arg of process.argv.slice(2)) {
+    const value = arg.slice(arg.indexOf('=') + 1);
+    if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    } else if (arg.startsWith('--file=')) {
+      options.file = value;
+    } else if (arg === '--bigquery') {
+      options.bigquery = true;
+    } else if (arg.startsWith('--since=')) {
+      options.since = parseTimestamp('--since', value);
+    } else if (arg.startsWith('--until=')) {
+      options.until = parseTimestamp('--until', value);
+    } else if (arg.startsWith('--endpoint=')) {
+      options.endpoint = value;
+    } else if (arg.startsWith('--limit=')) {
+      options.limit = parseInt(value, 10) || undefined;
+    } else if (arg.startsWith('--output=')) {
+      options.output = value;
+    } else if (arg.startsWith('--table=')) {
+      options.table = value;
+    } else if (arg.startsWith('--label=')) {
+      options.label = value;
+    } else if (arg === '--verbose' || arg === '-v') {
+      options.verbose = true;
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!options.file === !options.bigquery) {
+    throw new Error('Pass either --file=PATH or --bigquery (see --help)');
+  }
+  return options;
+}
+
+function parseTimestamp(name: string, value: string): string {
+  if (isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${name} timestamp: ${value}`);
+  }
+  return new Date(value).toISOString();
+}
+
+/**
+ * Upcast and validate raw events like the live consumer; invalid ones are skipped
+ */
+function toEvents(raw: Record<string, unknown>[], options: Options): { events: TelemetryEvent[]; invalid: number } {
+  const events: TelemetryEvent[] = [];
+  let invalid = 0;
+
+  for (const value of raw) {
+    let validation;
+    try {
+      validation = validateTelemetryEvent(upcastTelemetryEvent(value));
+    } catch (error) {
+      invalid++;
+      continue;
+    }
+    if (!validation.valid) {
+      invalid++;
+      if (options.verbose) {
+        console.warn(`[Replay] Skipping invalid event ${String(value.requestId ?? '')}: ${validation.errors.join('; ')}`);
+      }
+      continue;
+    }
+
+    const event = validation.event;
+    const time = Date.parse(event.timestamp);
+    if ((options.since && time < Date.parse(options.since))
+      || (options.until && time >= Date.parse(options.until))
+      || (options.endpoint && event.endpoint !== options.endpoint)) {
+      continue;
+    }
+    events.push(event);
+  }
+  return { events, invalid };
+}
+
+async function readJsonl(path: string): Promise<{ raw: Record<string, unknown>[]; unreadable: number }> {
+  const raw: Record<string, unknown>[] = [];
+  let unreadable = 0;
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      raw.push(JSON.parse(line));
+    } catch {
+      unreadable++;
+      console.warn(`[Replay] Skipping unreadable line ${lineNumber} of ${path}`);
+    }
+  }
+  return { raw, unreadable };
+}
+
+function isFlagged(result: ReplayResult): boolean {
+  return result.isHighRisk || result.isAnomaly || result.patterns.length > 0;
+}
+
+function printReport(report: ReplayReport, invalid: number): void {
+  console.log('\n=== Replay report ===');
+  console.log(`Events:            ${report.events} (${report.skipped} shadow skipped, ${invalid} invalid)`);
+  console.log(`Time range:        ${report.firstTimestamp ?? '-'} .. ${report.lastTimestamp ?? '-'}`);
+  console.log(`Baselines ready:   ${report.baselinesReady}`);
+  console.log(`Drift score:       mean ${report.meanDriftScore.toFixed(3)}, max ${report.maxDriftScore.toFixed(3)}`);
+  console.log(`Drift anomalies:   ${report.anomalies}`);
+  console.log(`High risk:         ${report.highRisk}`);
+  console.log(`Safety labels:     ${Object.entries(report.safetyLabels).map(([label, count]) => `${label}=${count}`).join(' ') || '-'}`);
+  console.log(`Attack patterns:   ${report.patterns.length}`);
+  for (const pattern of report.patterns) {
+    console.log(`  ${pattern.patternType} ${pattern.firstSeen} .. ${pattern.lastSeen}: ${pattern.affectedRequests} requests, confidence ${pattern.confidence.toFixed(2)} - ${pattern.details}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+  const config = loadConfig();
+  const pools = createDependencyPools(config.flowControl.pools);
+  const bigQueryWriter = new BigQueryWriter(config.bigquery, pools.bigquery);
+
+  const { raw, unreadable } = options.file
+    ? await readJsonl(options.file)
+    : { raw: await bigQueryWriter.loadEvents({ since: options.since, until: options.until, endpoint: options.endpoint, limit: options.limit }), unreadable: 0 };
+  const { events: matching, invalid } = toEvents(raw, options);
+  const events = options.limit ? matching.slice(0, options.limit) : matching;
+  console.log(`[Replay] Replaying ${events.length} events from ${options.file ?? `${config.bigquery.datasetId}.${config.bigquery.tableId}`}`);
+
+  if (options.output) {
+    await writeFile(options.output, '', 'utf8');
+  }
+  const runId = randomUUID();
+  const results: ReplayResult[] = [];
+  const runner = new ReplayRunner(
+    new EmbeddingsClient(config.vertex, pools.embeddings),
+    new SafetyClassifier(config.vertex, pools.classifier)
+  );
+
+  const report = await runner.run(events, async (result) => {
+    if (options.verbose && isFlagged(result)) {
+      console.log(`[Replay] ${result.timestamp} ${result.requestId} ${result.endpoint}: ${result.safetyLabel} drift=${result.driftScore.toFixed(3)}${result.isAnomaly ? ` anomaly z=${result.zScore.toFixed(2)}` : ''}${result.patterns.length ? ` patterns=${result.patterns.join(',')}` : ''}`);
+    }
+    if (options.output) {
+      await appendFile(options.output, JSON.stringify(result) + '\n', 'utf8');
+    }
+    if (options.table) {
+      results.push(result);
+    }
+  });
+
+  if (options.table) {
+    // In batches to stay under the streaming insert request size
+    for (let i = 0; i < results.length; i += 500) {
+      await bigQueryWriter.writeReplayResults(options.table, runId, options.label, results.slice(i, i + 500));
+    }
+  }
+
+  printReport(report, invalid + unreadable);
+  if (options.output || options.table) {
+    console.log(`\nRun ${runId}: results in ${[options.output, options.table && `${config.bigquery.datasetId}.${options.table}`].filter(Boolean).join(' and ')}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0)) // Don't wait for debounced baseline timers
+  .catch((error) => {
+    console.error('[Replay]', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,241 @@
+/**
+ * Check and backtest a detection rules file
+ *
+ * `check` validates every rule in a rules file (as saved by the analyzer, or
+ * written by hand) without touching anything else, so it can run in CI.
+ * `backtest` evaluates rules against the last days of stored analysis results
+ * in BigQuery, as if each had been enabled next to the file's other enabled
+ * rules, and fails when a rule matches more than the given thresholds.
+ *
+ * Usage:
+ *   npm run rules -- check --file=rules.json
+ *   npm run rules -- backtest --file=rules.json --days=7 --max-per-hour=5
+ *   npm run rules -- backtest --file=rules.json --rule="Repeated PII" --tenant=acme --json
+ */
+
+import { readFile } from 'fs/promises';
+import { loadConfig } from '../config.js';
+import { DetectionRule } from '../engines/ruleEngine.js';
+import { BigQueryWriter } from '../services/bigqueryWriter.js';
+import { BacktestReport, backtestRule, RuleHistory } from '../services/ruleBacktest.js';
+import { RuleValidationError, validateRuleInput } from '../services/ruleStore.js';
+import { createDependencyPools } from '../utils/concurrencyPool.js';
+
+type Command = 'check' | 'backtest';
+
+interface Options {
+  command: Command;
+  file?: string;
+  rules: string[];
+  days: number;
+  tenant?: string;
+  maxPerHour?: number;
+  maxMatchRate?: number;
+  samples: number;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+Check and backtest a detection rules file
+
+Usage: npm run rules -- <check|backtest> [options]
+
+Commands:
+  check                   Validate every rule in the file
+  backtest                Evaluate rules against stored events in BigQuery
+
+Options:
+  --file=PATH             Rules file, a JSON array of rules (default RULES_FILE)
+  --rule=ID|NAME[,...]    With backtest: only these rules (default all)
+  --days=N                With backtest: the last N days (default 7)
+  --tenant=ID             With backtest: only this tenant's events
+  --max-per-hour=N        Fail when a rule matches more than N events per hour on average
+  --max-match-rate=R      Fail when a rule matches more than this share of events (0-1)
+  --samples=N             Matching requests to show per rule (default 5)
+  --json                  Print the reports as JSON
+  --help, -h              Show this help message
+`);
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('-'));
+  const options: Options = { command: 'check', rules: [], days: 7, samples: 5, json: false };
+
+  for (const arg of args) {
+    const value = arg.slice(arg.indexOf('=') + 1);
+    if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    } else if (arg.startsWith('--file=')) {
+      options.file = value;
+    } else if (arg.startsWith('--rule=')) {
+      options.rules = value.split(',').map(rule => rule.trim()).filter(Boolean);
+    } else if (arg.startsWith('--days=')) {
+      options.days = parseNumber('--days', value);
+    } else if (arg.startsWith('--tenant=')) {
+      options.tenant = value;
+    } else if (arg.startsWith('--max-per-hour=')) {
+      options.maxPerHour = parseNumber('--max-per-hour', value);
+    } else if (arg.startsWith('--max-match-rate=')) {
+      options.maxMatchRate = parseNumber('--max-match-rate', value);
+    } else if (arg.startsWith('--samples=')) {
+      options.samples = Math.floor(parseNumber('--samples', value));
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (command) {
+    if (command !== 'check' && command !== 'backtest') {
+      throw new Error(`Unknown command: ${command}`);
+    }
+    options.command = command;
+  }
+  return options;
+}
+
+function parseNumber(name: string, value: string): number {
+  const number = Number(value);
+  if (!(number >= 0)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Validate the file's rules like the rules API does. Hand-written rules may
+ * leave out ids and timestamps; the problems of every rule are returned.
+ */
+async function readRules(path: string): Promise<{ rules: DetectionRule[]; problems: string[] }> {
+  const parsed = JSON.parse(await readFile(path, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    return { rules: [], problems: [`${path}: expected a JSON array of rules`] };
+  }
+
+  const rules: DetectionRule[] = [];
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  parsed.forEach((entry: Record<string, any>, index) => {
+    const label = `rule ${index + 1}${typeof entry?.name === 'string' ? ` (${entry.name})` : ''}`;
+    const id = typeof entry?.id === 'string' ? entry.id : `rule-${index + 1}`;
+    if (ids.has(id)) {
+      problems.push(`${label}: duplicate id ${id}`);
+    }
+    ids.add(id);
+
+    try {
+      const input = validateRuleInput(entry);
+      rules.push({
+        id,
+        ...input,
+        ...(typeof entry.tenantId === 'string' && { tenantId: entry.tenantId }),
+        createdAt: entry.createdAt ?? new Date(0).toISOString(),
+        updatedAt: entry.updatedAt ?? new Date(0).toISOString(),
+      });
+    } catch (error) {
+      if (!(error instanceof RuleValidationError)) {
+        throw error;
+      }
+      problems.push(...error.errors.map(problem => `${label}: ${problem}`));
+    }
+  });
+  return { rules, problems };
+}
+
+// Reasons a backtest fails the run, if any
+function thresholdFailures(report: BacktestReport, options: Options): string[] {
+  const failures: string[] = [];
+  if (options.maxPerHour !== undefined && report.matchesPerHour > options.maxPerHour) {
+    failures.push(`${report.matchesPerHour} matches per hour is more than ${options.maxPerHour}`);
+  }
+  if (options.maxMatchRate !== undefined && report.matchRate > options.maxMatchRate) {
+    failures.push(`match rate ${report.matchRate} is more than ${options.maxMatchRate}`);
+  }
+  return failures;
+}
+
+function printReport(rule: DetectionRule, report: BacktestReport, failures: string[]): void {
+  console.log(`\n=== ${rule.name} (${rule.id})${rule.enabled ? '' : ' [disabled]'} ===`);
+  console.log(`Expression:        ${rule.expression}`);
+  console.log(`Matches:           ${report.matches} of ${report.events} events (${(report.matchRate * 100).toFixed(2)}%)`);
+  console.log(`Per hour:          ${report.matchesPerHour} on average, peak ${report.peakHour ? `${report.peakHour.matches} at ${report.peakHour.hour}` : '-'}`);
+  console.log(`Overlap:           ${report.overlap.map(entry => `${entry.name} (${entry.shared} shared of ${entry.matches})`).join(', ') || '-'}`);
+  for (const sample of report.samples) {
+    console.log(`  ${sample.timestamp} ${sample.requestId} ${sample.endpoint} ${sample.modelName}: ${sample.safetyLabel} ${sample.severity} drift=${sample.driftScore.toFixed(3)}`);
+  }
+  for (const failure of failures) {
+    console.log(`FAIL: ${failure}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs();
+  const config = loadConfig();
+  const path = options.file ?? config.rules.filePath;
+  const { rules, problems } = await readRules(path);
+
+  if (problems.length > 0) {
+    for (const problem of problems) {
+      console.error(`[Rules] ${problem}`);
+    }
+    console.error(`[Rules] ${path}: ${problems.length} problem(s)`);
+    return 1;
+  }
+  if (options.command === 'check') {
+    console.log(`[Rules] ${path}: ${rules.length} valid rule(s)`);
+    return 0;
+  }
+
+  const selected = options.rules.length > 0
+    ? rules.filter(rule => options.rules.includes(rule.id) || options.rules.includes(rule.name))
+    : rules;
+  if (selected.length === 0) {
+    throw new Error(`No rules in ${path} match ${options.rules.join(', ')}`);
+  }
+
+  const pools = createDependencyPools(config.flowControl.pools);
+  const history = new RuleHistory(new BigQueryWriter(config.bigquery, pools.bigquery), () => null, config.rules.backtestMaxEvents);
+  const to = Date.now();
+  const range = {
+    from: new Date(to - options.days * 24 * 60 * 60 * 1000).toISOString(),
+    to: new Date(to).toISOString(),
+    ...(options.tenant && { tenantId: options.tenant }),
+  };
+  const loaded = await history.load(range);
+  if (!loaded) {
+    throw new Error('BigQuery is disabled - set GOOGLE_CLOUD_PROJECT_ID and BIGQUERY_ENABLED');
+  }
+  if (!options.json) {
+    console.log(`[Rules] Backtesting ${selected.length} rule(s) against ${loaded.results.length} events from ${range.from} to ${range.to}` +
+      `${loaded.truncated ? ` (only the latest ${config.rules.backtestMaxEvents})` : ''}${loaded.skipped ? `, ${loaded.skipped} invalid skipped` : ''}`);
+  }
+
+  let failed = 0;
+  const reports = selected.map(rule => {
+    const report = backtestRule(rule, rules, loaded.results, range, options.samples);
+    const failures = thresholdFailures(report, options);
+    failed += failures.length > 0 ? 1 : 0;
+    if (!options.json) {
+      printReport(rule, report, failures);
+    }
+    return { ruleId: rule.id, name: rule.name, failures, ...report };
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify({ truncated: loaded.truncated, skipped: loaded.skipped, reports }, null, 2));
+  } else {
+    console.log(`\n${failed > 0 ? `${failed} of ${selected.length} rule(s) over the thresholds` : 'All rules within the thresholds'}`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error) => {
+    console.error('[Rules]', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
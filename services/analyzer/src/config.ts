@@ -1,3 +1,5 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -8,12 +10,53 @@ export interface Config {
     topicName: string;
     subscriptionName: string;
   };
+  telemetry: {
+    transport: 'pubsub' | 'jsonl' | 'http' | 'memory'; // Where events are received from
+    filePath: string; // For the jsonl transport, shared with the gateway
+    pollIntervalMs: number; // How often the jsonl file is checked for new events
+  };
   bigquery: {
     projectId: string;
     datasetId: string;
     tableId: string;
     baselineTableId: string;
+    comparisonTableId: string;
+    analysisTableId: string;
+    deadLetterTableId: string;
     enabled: boolean;
+    buffer: {
+      // Rows are batched per table and flushed by size or time
+      maxBatchRows: number;
+      flushIntervalMs: number;
+      maxBufferedRows: number; // Rows beyond this are dropped while BigQuery is slow
+      maxRetries: number; // Per batch, with exponential backoff from retryBaseDelayMs
+      retryBaseDelayMs: number;
+      spoolPath: string; // Batches that still fail are appended here and replayed later; empty disables
+    };
+  };
+  deadLetter: {
+    sink: 'bigquery' | 'jsonl'; // Where quarantined messages are written
+    filePath: string; // For the jsonl sink
+    maxDeliveryAttempts: number; // Failed attempts before a message is quarantined instead of nacked
+  };
+  flowControl: {
+    maxInFlight: number; // Messages processed at once; Pub/Sub stops delivering beyond this
+    pools: {
+      // Concurrent calls per dependency
+      embeddings: number;
+      classifier: number;
+      bigquery: number;
+      datadog: number;
+    };
+    metricsIntervalMs: number;
+  };
+  stream: {
+    maxSubscribers: number; // Live event stream (/api/stream) connections per instance
+  };
+  rules: {
+    filePath: string; // Detection rules, saved on every change through /api/rules
+    webhookTimeoutMs: number;
+    backtestMaxEvents: number; // Most recent events a backtest evaluates
   };
   vertex: {
     projectId: string;
@@ -36,12 +79,51 @@ export function loadConfig(): Config {
       topicName: process.env.PUBSUB_TOPIC_NAME || 'sentinel-llm-telemetry',
       subscriptionName: process.env.PUBSUB_SUBSCRIPTION_NAME || 'sentinel-analyzer-sub',
     },
+    telemetry: {
+      transport: parseTelemetryTransport(process.env.TELEMETRY_TRANSPORT),
+      filePath: process.env.TELEMETRY_FILE || join(tmpdir(), 'sentinel-telemetry.jsonl'),
+      pollIntervalMs: parsePositiveInt(process.env.TELEMETRY_POLL_INTERVAL_MS, 500),
+    },
     bigquery: {
       projectId: process.env.GOOGLE_CLOUD_PROJECT_ID || '',
       datasetId: process.env.BIGQUERY_DATASET_ID || 'sentinel_telemetry',
       tableId: process.env.BIGQUERY_TABLE_ID || 'llm_events',
       baselineTableId: process.env.BIGQUERY_BASELINE_TABLE_ID || 'drift_baselines',
+      comparisonTableId: process.env.BIGQUERY_COMPARISON_TABLE_ID || 'shadow_comparisons',
+      analysisTableId: process.env.BIGQUERY_ANALYSIS_TABLE_ID || 'analysis_results',
+      deadLetterTableId: process.env.BIGQUERY_DEAD_LETTER_TABLE_ID || 'dead_letters',
       enabled: process.env.BIGQUERY_ENABLED !== 'false',
+      buffer: {
+        maxBatchRows: parsePositiveInt(process.env.BIGQUERY_BATCH_SIZE, 500),
+        flushIntervalMs: parsePositiveInt(process.env.BIGQUERY_FLUSH_INTERVAL_MS, 1000),
+        maxBufferedRows: parsePositiveInt(process.env.BIGQUERY_MAX_BUFFERED_ROWS, 10000),
+        maxRetries: parsePositiveInt(process.env.BIGQUERY_MAX_RETRIES, 3),
+        retryBaseDelayMs: parsePositiveInt(process.env.BIGQUERY_RETRY_BASE_DELAY_MS, 500),
+        spoolPath: process.env.BIGQUERY_SPOOL_FILE ?? './bigquery-spool.jsonl',
+      },
+    },
+    deadLetter: {
+      sink: parseDeadLetterSink(process.env.DEAD_LETTER_SINK),
+      filePath: process.env.DEAD_LETTER_FILE || './dead-letters.jsonl',
+      maxDeliveryAttempts: parsePositiveInt(process.env.ANALYZER_MAX_DELIVERY_ATTEMPTS, 5),
+    },
+    flowControl: {
+      maxInFlight: parsePositiveInt(process.env.ANALYZER_MAX_IN_FLIGHT, 20),
+      pools: {
+        embeddings: parsePositiveInt(process.env.ANALYZER_EMBEDDINGS_CONCURRENCY, 5),
+        classifier: parsePositiveInt(process.env.ANALYZER_CLASSIFIER_CONCURRENCY, 5),
+        bigquery: parsePositiveInt(process.env.ANALYZER_BIGQUERY_CONCURRENCY, 10),
+        datadog: parsePositiveInt(process.env.ANALYZER_DATADOG_CONCURRENCY, 10),
+      },
+      metricsIntervalMs: parsePositiveInt(process.env.ANALYZER_FLOW_METRICS_INTERVAL_MS, 10000),
+    },
+    stream: {
+      maxSubscribers: parsePositiveInt(process.env.STREAM_MAX_SUBSCRIBERS, 100),
+    },
+    rules: {
+      filePath: process.env.RULES_FILE || './rules.json',
+      webhookTimeoutMs: parsePositiveInt(process.env.RULES_WEBHOOK_TIMEOUT_MS, 5000),
+      backtestMaxEvents: parsePositiveInt(process.env.RULES_BACKTEST_MAX_EVENTS, 50000),
     },
     vertex: {
       projectId: process.env.GOOGLE_CLOUD_PROJECT_ID || '',
@@ -58,3 +140,23 @@ export function loadConfig(): Config {
   };
 }
 
+function parseTelemetryTransport(value: string | undefined): Config['telemetry']['transport'] {
+  if (value === 'jsonl' || value === 'http' || value === 'memory') {
+    return value;
+  }
+  return 'pubsub';
+}
+
+// BigQuery when it is configured, otherwise a local file
+function parseDeadLetterSink(value: string | undefined): Config['deadLetter']['sink'] {
+  if (value === 'bigquery' || value === 'jsonl') {
+    return value;
+  }
+  const bigqueryConfigured = process.env.BIGQUERY_ENABLED !== 'false' && !!process.env.GOOGLE_CLOUD_PROJECT_ID;
+  return bigqueryConfigured ? 'bigquery' : 'jsonl';
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
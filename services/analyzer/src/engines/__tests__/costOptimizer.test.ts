@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { CostOptimizer } from '../costOptimizer.js';
+
+describe('CostOptimizer', () => {
+  let optimizer: CostOptimizer;
+  let baseEvent: TelemetryEvent;
+
+  beforeEach(() => {
+    optimizer = new CostOptimizer();
+
+    baseEvent = {
+      requestId: 'test-123',
+      timestamp: new Date().toISOString(),
+      endpoint: '/api/chat',
+      method: 'POST',
+      prompt: 'What is the capital of France?',
+      promptLength: 30,
+      response: 'Paris.',
+      responseLength: 6,
+      modelName: 'gemini-1.5-pro',
+      modelVersion: '1.0',
+      tokensIn: 100000,
+      tokensOut: 200000,
+      tokensTotal: 300000,
+      latencyMs: 1000,
+      status: 'success',
+      environment: 'test',
+      service: 'gateway',
+    };
+  });
+
+  it('reports no cache hit rate when events carry no cache outcome', () => {
+    optimizer.recordEvent(baseEvent);
+
+    const analysis = optimizer.analyzeCosts();
+
+    expect(analysis.cacheHitRate).toBeUndefined();
+    expect(analysis.recommendations.find(r => r.type === 'enable_caching')?.action)
+      .toContain('RESPONSE_CACHE_ENABLED');
+  });
+
+  it('computes the hit rate from response cache outcomes', () => {
+    optimizer.recordEvent({ ...baseEvent, requestId: 'miss-1', cacheHit: false });
+    optimizer.recordEvent({ ...baseEvent, requestId: 'miss-2', cacheHit: false });
+    optimizer.recordEvent({ ...baseEvent, requestId: 'miss-3', cacheHit: false });
+    optimizer.recordEvent({
+      ...baseEvent,
+      requestId: 'hit-1',
+      tokensIn: 0,
+      tokensOut: 0,
+      tokensTotal: 0,
+      cacheHit: true,
+      cacheSimilarity: 0.97,
+      cacheSavedTokens: 300000,
+    });
+
+    const analysis = optimizer.analyzeCosts();
+
+    expect(analysis.cacheHitRate).toBe(0.25);
+    expect(analysis.cacheSavedTokens).toBe(300000);
+  });
+
+  it('ignores events from before the cache was enabled', () => {
+    optimizer.recordEvent(baseEvent);
+    optimizer.recordEvent({ ...baseEvent, requestId: 'hit-1', tokensIn: 0, tokensOut: 0, tokensTotal: 0, cacheHit: true });
+
+    const analysis = optimizer.analyzeCosts();
+
+    expect(analysis.cacheHitRate).toBe(1);
+  });
+
+  it('charges nothing for cache hits', () => {
+    const hit = { ...baseEvent, tokensIn: 0, tokensOut: 0, tokensTotal: 0, cacheHit: true };
+
+    expect(optimizer.getCostPerRequest(hit)).toBe(0);
+    expect(optimizer.getCostPerRequest(baseEvent)).toBeGreaterThan(0);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { computeDrift } from '../driftEngine.js';
-import { TelemetryEvent } from '../../types/telemetry.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { computeDrift, hasDriftInput } from '../driftEngine.js';
 import { EmbeddingsClient } from '../../services/embeddingsClient.js';
 import { BaselineStore } from '../../services/baselineStore.js';
 
@@ -76,6 +76,37 @@ describe('computeDrift', () => {
     expect(mockEmbeddingsClient.getEmbedding).not.toHaveBeenCalled();
   });
 
+  it('embeds the masked embeddingInput when the response text was hashed', async () => {
+    const hashedEvent = {
+      ...testEvent,
+      response: 'sha256:abc123',
+      scrubMode: 'hash' as const,
+      embeddingInput: 'Call [REDACTED:PHONE] for details',
+    };
+    mockBaselineStore.getBaseline.mockReturnValue(null);
+    mockEmbeddingsClient.getEmbedding.mockResolvedValue([0.1, 0.2, 0.3]);
+
+    await computeDrift(hashedEvent, mockEmbeddingsClient, mockBaselineStore);
+
+    expect(mockEmbeddingsClient.getEmbedding).toHaveBeenCalledWith('Call [REDACTED:PHONE] for details');
+  });
+
+  it('skips drift computation for hashed text without embeddingInput', async () => {
+    const droppedEvent = { ...testEvent, response: 'sha256:abc123', scrubMode: 'hash' as const };
+
+    const result = await computeDrift(droppedEvent, mockEmbeddingsClient, mockBaselineStore);
+
+    expect(result.driftScore).toBe(0);
+    expect(mockEmbeddingsClient.getEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('reports which events have text to compare', () => {
+    expect(hasDriftInput(testEvent)).toBe(true);
+    expect(hasDriftInput({ ...testEvent, status: 'error' })).toBe(false);
+    expect(hasDriftInput({ ...testEvent, response: 'sha256:abc123', scrubMode: 'hash' })).toBe(false);
+    expect(hasDriftInput({ ...testEvent, scrubMode: 'drop-text', response: '', embeddingInput: 'masked' })).toBe(true);
+  });
+
   it('calculates drift correctly for similar responses', async () => {
     const baselineEmbedding = [0.1, 0.2, 0.3, 0.4];
     const responseEmbedding = [0.11, 0.21, 0.31, 0.41]; // Very similar
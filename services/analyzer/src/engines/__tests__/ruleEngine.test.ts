@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { DetectionRule, RuleEngine } from '../ruleEngine.js';
+import { RuleContext } from '../ruleExpression.js';
+
+function makeRule(id: string, expression: string, overrides: Partial<DetectionRule> = {}): DetectionRule {
+  return {
+    id,
+    name: `Rule ${id}`,
+    expression,
+    actions: [],
+    enabled: true,
+    createdAt: '2024-05-01T00:00:00.000Z',
+    updatedAt: '2024-05-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function event(label: string, conversationId: string, tenantId = 'acme'): RuleContext {
+  return { 'safety.label': label, 'event.conversationId': conversationId, 'event.tenantId': tenantId };
+}
+
+const MINUTE = 60 * 1000;
+
+describe('RuleEngine', () => {
+  it('matches enabled rules, limited to their tenant', () => {
+    const engine = new RuleEngine();
+    engine.setRules([
+      makeRule('a', 'safety.label == "JAILBREAK"'),
+      makeRule('b', 'safety.label == "JAILBREAK"', { enabled: false }),
+      makeRule('c', 'safety.label == "JAILBREAK"', { tenantId: 'globex' }),
+    ]);
+
+    expect(engine.evaluate(event('JAILBREAK', 'conv-1'), 0).map(rule => rule.id)).toEqual(['a']);
+    expect(engine.evaluate(event('JAILBREAK', 'conv-1', 'globex'), 0).map(rule => rule.id)).toEqual(['a', 'c']);
+  });
+
+  it('counts matching events per group within the window', () => {
+    const engine = new RuleEngine();
+    engine.setRules([makeRule('repeat', 'count(safety.label == "PII" within 10m by event.conversationId) >= 3')]);
+
+    expect(engine.evaluate(event('PII', 'conv-1'), 0)).toHaveLength(0);
+    expect(engine.evaluate(event('PII', 'conv-2'), 1 * MINUTE)).toHaveLength(0);
+    expect(engine.evaluate(event('CLEAN', 'conv-1'), 2 * MINUTE)).toHaveLength(0);
+    expect(engine.evaluate(event('PII', 'conv-1'), 3 * MINUTE)).toHaveLength(0);
+    expect(engine.evaluate(event('PII', 'conv-1'), 4 * MINUTE)).toHaveLength(1);
+    // The first event has left the window
+    expect(engine.evaluate(event('PII', 'conv-1'), 11 * MINUTE)).toHaveLength(1);
+    expect(engine.evaluate(event('PII', 'conv-1'), 30 * MINUTE)).toHaveLength(0);
+  });
+
+  it('keeps windows of unchanged rules when rules are replaced', () => {
+    const engine = new RuleEngine();
+    const rule = makeRule('repeat', 'count(safety.label == "PII" within 10m) >= 2');
+    engine.setRules([rule]);
+    engine.evaluate(event('PII', 'conv-1'), 0);
+
+    engine.setRules([{ ...rule, name: 'Renamed' }]);
+    expect(engine.evaluate(event('PII', 'conv-1'), MINUTE)).toHaveLength(1);
+
+    engine.setRules([{ ...rule, expression: 'count(safety.label == "PII" within 5m) >= 2' }]);
+    expect(engine.evaluate(event('PII', 'conv-1'), 2 * MINUTE)).toHaveLength(0);
+  });
+
+  it('skips rules that do not parse', () => {
+    const engine = new RuleEngine();
+    engine.setRules([makeRule('broken', 'safety.label =='), makeRule('ok', 'safety.label == "PII"')]);
+
+    expect(engine.size).toBe(1);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { checkSafety } from '../safetyEngine.js';
-import { TelemetryEvent } from '../../types/telemetry.js';
 import { SafetyClassifier } from '../../services/safetyClassifier.js';
 
 describe('checkSafety', () => {
@@ -101,6 +101,46 @@ describe('checkSafety', () => {
     expect(mockSafetyClassifier.classifySafety).not.toHaveBeenCalled();
   });
 
+  it('labels guardrail-blocked requests from the guardrail without classifying', async () => {
+    const blockedEvent = {
+      ...testEvent,
+      response: '',
+      status: 'blocked' as const,
+      guardrailAction: 'block' as const,
+      guardrailLabels: ['PII', 'JAILBREAK'],
+    };
+
+    const result = await checkSafety(blockedEvent, mockSafetyClassifier);
+
+    expect(result.safetyLabel).toBe('JAILBREAK');
+    expect(result.safetyScore).toBe(0);
+    expect(result.isHighRisk).toBe(true);
+    expect(mockSafetyClassifier.classifySafety).not.toHaveBeenCalled();
+  });
+
+  it('labels PII-only blocked requests as PII', async () => {
+    const blockedEvent = {
+      ...testEvent,
+      response: '',
+      status: 'blocked' as const,
+      guardrailLabels: ['PII'],
+    };
+
+    const result = await checkSafety(blockedEvent, mockSafetyClassifier);
+
+    expect(result.safetyLabel).toBe('PII');
+    expect(result.isHighRisk).toBe(true);
+  });
+
+  it('skips safety check when telemetry text was hashed', async () => {
+    const hashedEvent = { ...testEvent, response: 'sha256:abc123', scrubMode: 'hash' as const };
+
+    const result = await checkSafety(hashedEvent, mockSafetyClassifier);
+
+    expect(result).toMatchObject({ safetyLabel: 'SKIPPED', isHighRisk: false });
+    expect(mockSafetyClassifier.classifySafety).not.toHaveBeenCalled();
+  });
+
   it('skips safety check for empty response', async () => {
     const emptyEvent = { ...testEvent, response: '' };
 
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ShadowComparator } from '../shadowComparator.js';
+
+describe('ShadowComparator', () => {
+  let comparator: ShadowComparator;
+  let primary: TelemetryEvent;
+  let shadow: TelemetryEvent;
+
+  beforeEach(() => {
+    // Cost is 1 USD per 1K tokens to keep deltas readable
+    comparator = new ShadowComparator(event => event.tokensTotal / 1000);
+
+    primary = {
+      requestId: 'primary-1',
+      timestamp: new Date().toISOString(),
+      endpoint: '/api/chat',
+      method: 'POST',
+      prompt: 'What is the capital of France?',
+      promptLength: 30,
+      response: 'Paris.',
+      responseLength: 6,
+      modelName: 'gemini-2.0-flash',
+      modelVersion: '1.0',
+      tokensIn: 10,
+      tokensOut: 990,
+      tokensTotal: 1000,
+      latencyMs: 400,
+      status: 'success',
+      shadowRequestId: 'shadow-1',
+      service: 'gateway',
+    };
+    shadow = {
+      ...primary,
+      requestId: 'shadow-1',
+      response: 'The capital of France is Paris.',
+      responseLength: 31,
+      modelName: 'gemini-2.5-flash',
+      tokensTotal: 3000,
+      latencyMs: 650,
+      shadowRequestId: undefined,
+      shadowOf: 'primary-1',
+    };
+  });
+
+  it('compares the pair once both halves have arrived', () => {
+    expect(comparator.record({ event: primary, safetyLabel: 'CLEAN', embedding: [1, 0, 0] })).toBeUndefined();
+    expect(comparator.pendingCount).toBe(1);
+
+    const comparison = comparator.record({ event: shadow, safetyLabel: 'CLEAN', embedding: [1, 0, 0] });
+
+    expect(comparison).toMatchObject({
+      primaryRequestId: 'primary-1',
+      shadowRequestId: 'shadow-1',
+      primaryModel: 'gemini-2.0-flash',
+      shadowModel: 'gemini-2.5-flash',
+      labelDisagreement: false,
+      latencyDeltaMs: 250,
+    });
+    expect(comparison?.similarity).toBeCloseTo(1);
+    expect(comparison?.costDeltaUsd).toBeCloseTo(2);
+    expect(comparator.pendingCount).toBe(0);
+  });
+
+  it('pairs a shadow that arrives before its primary', () => {
+    comparator.record({ event: shadow, safetyLabel: 'PII', embedding: [0, 1, 0] });
+
+    const comparison = comparator.record({ event: primary, safetyLabel: 'CLEAN', embedding: [1, 0, 0] });
+
+    expect(comparison?.primaryRequestId).toBe('primary-1');
+    expect(comparison?.shadowSafetyLabel).toBe('PII');
+    expect(comparison?.labelDisagreement).toBe(true);
+    expect(comparison?.similarity).toBeCloseTo(0);
+  });
+
+  it('reports no similarity or disagreement when the shadow failed', () => {
+    comparator.record({ event: primary, safetyLabel: 'PII', embedding: [1, 0, 0] });
+
+    const comparison = comparator.record({
+      event: { ...shadow, status: 'error', response: '', tokensTotal: 0 },
+      safetyLabel: 'CLEAN',
+    });
+
+    expect(comparison?.shadowStatus).toBe('error');
+    expect(comparison?.similarity).toBeUndefined();
+    expect(comparison?.labelDisagreement).toBe(false);
+  });
+
+  it("doesn't count a skipped safety check as a disagreement", () => {
+    comparator.record({ event: primary, safetyLabel: 'SKIPPED' });
+
+    const comparison = comparator.record({ event: shadow, safetyLabel: 'PII' });
+
+    expect(comparison?.labelDisagreement).toBe(false);
+  });
+
+  it('ignores events without a shadow', () => {
+    const unpaired = { ...primary, shadowRequestId: undefined };
+
+    expect(comparator.record({ event: unpaired, safetyLabel: 'CLEAN' })).toBeUndefined();
+    expect(comparator.pendingCount).toBe(0);
+  });
+});
@@ -13,6 +13,17 @@ export interface AnomalyResult {
   stdDev: number;
 }
 
+/**
+ * Result for a score that wasn't checked: not enough history, or no score
+ */
+export const NO_ANOMALY: AnomalyResult = {
+  isAnomaly: false,
+  zScore: 0,
+  threshold: 0,
+  mean: 0,
+  stdDev: 0,
+};
+
 export class AnomalyDetector {
   private history: Map<string, number[]> = new Map(); // endpoint -> recent drift scores
   private readonly windowSize = 50; // Keep last 50 scores per endpoint
@@ -37,13 +48,7 @@ export class AnomalyDetector {
 
     // Need enough data for statistics (at least 10 samples)
     if (scores.length < 10) {
-      return {
-        isAnomaly: false,
-        zScore: 0,
-        threshold: 0,
-        mean: 0,
-        stdDev: 0,
-      };
+      return { ...NO_ANOMALY };
     }
 
     // Calculate mean
@@ -71,6 +76,13 @@ export class AnomalyDetector {
     };
   }
 
+  /**
+   * Endpoints with drift score history
+   */
+  getEndpoints(): string[] {
+    return Array.from(this.history.keys());
+  }
+
   /**
    * Get statistics for an endpoint.
    */
@@ -1,5 +1,4 @@
-import { TelemetryEvent } from '../types/telemetry.js';
-import { EmbeddingsClient } from '../services/embeddingsClient.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 
 /**
  * Model pricing (per 1K tokens) - approximate Vertex AI/Gemini pricing
@@ -40,7 +39,8 @@ export interface CostAnalysis {
   projectedCost: number; // USD per month with recommendations
   recommendations: CostRecommendation[];
   modelUsage: Map<string, { requests: number; tokens: number; cost: number }>;
-  cacheHitRate?: number;
+  cacheHitRate?: number; // Gateway response cache, only when events report cache outcomes
+  cacheSavedTokens?: number;
 }
 
 /**
@@ -50,11 +50,6 @@ export interface CostAnalysis {
 export class CostOptimizer {
   private eventHistory: TelemetryEvent[] = [];
   private readonly maxHistorySize = 1000; // Keep last 1000 events for analysis
-  private embeddingsClient?: EmbeddingsClient;
-
-  constructor(embeddingsClient?: EmbeddingsClient) {
-    this.embeddingsClient = embeddingsClient;
-  }
 
   /**
    * Record an event for cost analysis
@@ -85,8 +80,8 @@ export class CostOptimizer {
     const modelUsage = this.calculateModelUsage();
     const currentCost = this.calculateMonthlyCost(modelUsage);
     
-    // Get cache hit rate if available
-    const cacheHitRate = this.embeddingsClient?.getCacheStats().hitRate;
+    // Real hit rate of the gateway's response cache, if it is enabled
+    const { cacheHitRate, cacheSavedTokens } = this.calculateCacheStats();
 
     // Generate recommendations
     const recommendations = this.generateRecommendations(modelUsage, cacheHitRate);
@@ -100,6 +95,24 @@ export class CostOptimizer {
       recommendations,
       modelUsage,
       cacheHitRate,
+      cacheSavedTokens,
+    };
+  }
+
+  /**
+   * Hit rate over the events that went through the response cache
+   * (cache hits report zero tokens, so they already cost nothing above)
+   */
+  private calculateCacheStats(): { cacheHitRate?: number; cacheSavedTokens?: number } {
+    const cacheEvents = this.eventHistory.filter(event => event.cacheHit !== undefined);
+    if (cacheEvents.length === 0) {
+      return {};
+    }
+
+    const hits = cacheEvents.filter(event => event.cacheHit);
+    return {
+      cacheHitRate: hits.length / cacheEvents.length,
+      cacheSavedTokens: hits.reduce((sum, event) => sum + (event.cacheSavedTokens || 0), 0),
     };
   }
 
@@ -215,7 +228,7 @@ export class CostOptimizer {
             priority: estimatedSavings > 50 ? 'high' : 'medium',
             estimatedSavings,
             description: `Current cache hit rate is ${(cacheHitRate * 100).toFixed(1)}%. Increasing to 50%+ could save significant costs.`,
-            action: 'Enable response caching for repeated queries',
+            action: 'Tune the response cache (lower RESPONSE_CACHE_SIMILARITY or raise RESPONSE_CACHE_TTL_SECONDS)',
           });
         }
       }
@@ -228,7 +241,7 @@ export class CostOptimizer {
           priority: 'medium',
           estimatedSavings,
           description: 'Response caching is not enabled. Enable caching to reduce redundant API calls.',
-          action: 'Enable response caching for repeated queries',
+          action: 'Enable the gateway response cache (RESPONSE_CACHE_ENABLED=true)',
         });
       }
     }
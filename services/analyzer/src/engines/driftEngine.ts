@@ -1,4 +1,4 @@
-import { TelemetryEvent } from '../types/telemetry.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { EmbeddingsClient } from '../services/embeddingsClient.js';
 import { BaselineStore } from '../services/baselineStore.js';
 import { cosineSimilarity } from '../utils/cosineSimilarity.js';
@@ -20,7 +20,7 @@ export async function computeDrift(
   baselineStore: BaselineStore
 ): Promise<DriftResult> {
   const endpoint = event.endpoint;
-  const responseText = event.response;
+  const responseText = embeddingText(event);
 
   // Skip drift computation for error cases or empty responses
   if (event.status === 'error' || !responseText || responseText.length === 0) {
@@ -83,3 +83,19 @@ export async function computeDrift(
   }
 }
 
+/**
+ * The response text to embed. Hashed or dropped text can't be embedded; the
+ * gateway may send a masked copy instead.
+ */
+export function embeddingText(event: TelemetryEvent): string | undefined {
+  const textScrubbed = event.scrubMode === 'hash' || event.scrubMode === 'drop-text';
+  return textScrubbed ? event.embeddingInput : event.response;
+}
+
+/**
+ * Whether computeDrift has text to compare, as opposed to returning its
+ * placeholder 0, which must not feed anomaly statistics
+ */
+export function hasDriftInput(event: TelemetryEvent): boolean {
+  return event.status !== 'error' && !!embeddingText(event);
+}
@@ -1,4 +1,4 @@
-import { TelemetryEvent } from '../types/telemetry.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { SafetyResult } from './safetyEngine.js';
 
 export type AttackPattern = 
@@ -47,6 +47,15 @@ export class PatternDetector {
   private readonly INJECTION_THRESHOLD = 8; // 8+ injection attempts
   private readonly INJECTION_SIMILARITY_THRESHOLD = 0.65; // 65% similarity for campaign
 
+  private now: () => number;
+
+  /**
+   * @param now - Clock for the detection windows; replays pass simulated time
+   */
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
   /**
    * Record an event for pattern analysis
    */
@@ -97,7 +106,7 @@ export class PatternDetector {
    * Multiple similar jailbreak attempts within a short time window
    */
   private detectCoordinatedJailbreak(): PatternDetectionResult {
-    const now = Date.now();
+    const now = this.now();
     const windowStart = now - this.JAILBREAK_WINDOW;
     
     // Filter events in time window with jailbreak labels
@@ -165,7 +174,7 @@ export class PatternDetector {
    * Multiple similar PII extraction attempts over a time window
    */
   private detectBruteForcePII(): PatternDetectionResult {
-    const now = Date.now();
+    const now = this.now();
     const windowStart = now - this.PII_WINDOW;
     
     // Filter events in time window with PII labels
@@ -231,7 +240,7 @@ export class PatternDetector {
    * Multiple injection attempts with similar patterns
    */
   private detectInjectionCampaign(): PatternDetectionResult {
-    const now = Date.now();
+    const now = this.now();
     const windowStart = now - this.INJECTION_WINDOW;
     
     // Filter events in time window with injection labels
@@ -364,7 +373,7 @@ export class PatternDetector {
    * Clean old events from history
    */
   private cleanHistory(): void {
-    const now = Date.now();
+    const now = this.now();
     const cutoff = now - this.maxHistoryAge;
 
     // Remove events older than maxHistoryAge
@@ -388,7 +397,7 @@ export class PatternDetector {
     piiCount: number;
     injectionCount: number;
   } {
-    const now = Date.now();
+    const now = this.now();
     const windowStart = now - Math.max(
       this.JAILBREAK_WINDOW,
       this.PII_WINDOW,
@@ -0,0 +1,117 @@
+import { CountNode, evaluateRuleNode, isTruthy, parseRuleExpression, RuleContext, RuleExpression } from './ruleExpression.js';
+
+export type BlockTarget = 'tenant' | 'app' | 'conversation';
+
+export type RuleAction =
+  | { type: 'webhook'; url: string }
+  | { type: 'datadog'; alertType: 'error' | 'warning' | 'info' }
+  | { type: 'tag_session'; tag: string }
+  | { type: 'block'; target: BlockTarget; durationMinutes: number };
+
+export interface DetectionRule {
+  id: string;
+  name: string;
+  description?: string;
+  expression: string; // See ruleExpression.ts
+  actions: RuleAction[];
+  enabled: boolean;
+  tenantId?: string; // Rules created by a tenant only see that tenant's events
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A rule that matched an event, as reported with the event's analysis
+ */
+export interface RuleMatch {
+  ruleId: string;
+  name: string;
+  actions: RuleAction['type'][];
+}
+
+interface CompiledRule {
+  rule: DetectionRule;
+  expression: RuleExpression;
+  windows: Map<string, number[]>[]; // Per count(): event times per group, oldest first
+}
+
+// Bounds on what count() windows hold per rule
+const MAX_WINDOW_GROUPS = 10000;
+const MAX_WINDOW_EVENTS = 10000;
+
+/**
+ * Rule Engine
+ * Evaluates detection rules against each analyzed event. count() terms are
+ * backed by sliding windows over event timestamps, so events should be
+ * evaluated roughly in the order they happened.
+ */
+export class RuleEngine {
+  private rules: CompiledRule[] = [];
+
+  /**
+   * Replace the rules. Windows of rules whose expression is unchanged carry
+   * over; rules that don't parse are skipped.
+   */
+  setRules(rules: DetectionRule[]): void {
+    const previous = new Map(this.rules.map(compiled => [compiled.rule.id, compiled]));
+    this.rules = rules.flatMap(rule => {
+      let expression: RuleExpression;
+      try {
+        expression = parseRuleExpression(rule.expression);
+      } catch (error) {
+        console.warn(`[RuleEngine] Skipping rule ${rule.id} (${rule.name}):`, error instanceof Error ? error.message : error);
+        return [];
+      }
+      const kept = previous.get(rule.id);
+      const windows = kept && kept.rule.expression === rule.expression
+        ? kept.windows
+        : expression.counts.map(() => new Map<string, number[]>());
+      return [{ rule, expression, windows }];
+    });
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * The enabled rules that match an event
+   *
+   * @param at - When the event happened, in milliseconds
+   */
+  evaluate(context: RuleContext, at: number): DetectionRule[] {
+    const tenantId = context['event.tenantId'] ?? null;
+    return this.rules
+      .filter(compiled => compiled.rule.enabled && (!compiled.rule.tenantId || compiled.rule.tenantId === tenantId))
+      .filter(compiled => {
+        // Every window sees the event, even when the result doesn't depend on it
+        const counts = compiled.expression.counts.map(node => this.count(compiled, node, context, at));
+        return isTruthy(evaluateRuleNode(compiled.expression.root, context, node => counts[node.index]));
+      })
+      .map(compiled => compiled.rule);
+  }
+
+  private count(compiled: CompiledRule, node: CountNode, context: RuleContext, at: number): number {
+    const windows = compiled.windows[node.index];
+    const group = node.by ? JSON.stringify(context[node.by] ?? null) : '';
+    const times = (windows.get(group) ?? []).filter(time => time > at - node.windowMs);
+    if (isTruthy(evaluateRuleNode(node.condition, context))) {
+      times.push(at);
+    }
+
+    // Re-insert so the least recently seen group is dropped first
+    windows.delete(group);
+    if (times.length > 0) {
+      windows.set(group, times.slice(-MAX_WINDOW_EVENTS));
+    }
+    if (windows.size > MAX_WINDOW_GROUPS) {
+      const oldest = windows.keys().next().value;
+      if (oldest !== undefined) {
+        windows.delete(oldest);
+      }
+    }
+
+    // Events delivered out of order may be newer than this one
+    return times.filter(time => time <= at).length;
+  }
+}
@@ -0,0 +1,498 @@
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { classifySeverity } from '../services/analytics.js';
+import { AnalysisResult } from '../services/bigqueryWriter.js';
+
+/**
+ * Detection rule expressions: a small boolean language over one analyzed
+ * event, e.g.
+ *
+ *   safety.label in ["JAILBREAK", "PROMPT_INJECTION"] and event.tenantId != null
+ *   drift.score > 0.4 and drift.baselineReady == true
+ *   count(safety.label == "JAILBREAK" within 10m by event.conversationId) >= 3
+ *   event.prompt contains "ignore previous instructions"
+ *
+ * Operators are `and`, `or`, `not`, `==`, `!=`, `<`, `<=`, `>`, `>=`, `in`
+ * (a list literal) and `contains` (case-insensitive for text, membership for
+ * lists). Missing fields are null; ordering comparisons with anything but two
+ * numbers are false. `count(condition within <n>s|m|h|d by field)` is the
+ * number of events matching the condition in the window up to this one,
+ * including it, optionally only those with the same value of `field`.
+ */
+
+export type RuleValue = string | number | boolean | null | string[];
+
+/** Field values of one analyzed event, by dotted name */
+export type RuleContext = Record<string, RuleValue>;
+
+export type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains';
+
+export interface CountNode {
+  kind: 'count';
+  index: number; // Position among the expression's counts
+  condition: RuleNode;
+  windowMs: number;
+  by?: string;
+}
+
+export type RuleNode =
+  | { kind: 'literal'; value: RuleValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'not'; operand: RuleNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: RuleNode; right: RuleNode }
+  | { kind: 'compare'; operator: CompareOperator; left: RuleNode; right: RuleNode }
+  | CountNode;
+
+export interface RuleExpression {
+  source: string;
+  root: RuleNode;
+  counts: CountNode[];
+}
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+// Telemetry fields rules can read as `event.<field>`. Listing every key keeps
+// this in step with the schema; nested structures are left out.
+const EVENT_FIELDS: { [K in keyof Required<TelemetryEvent>]: boolean } = {
+  schemaVersion: false,
+  requestId: true,
+  timestamp: true,
+  endpoint: true,
+  method: true,
+  tenantId: true,
+  appId: true,
+  prompt: true,
+  promptLength: true,
+  response: true,
+  responseLength: true,
+  conversationId: true,
+  turnIndex: true,
+  historyTurns: true,
+  historyTokens: true,
+  modelName: true,
+  modelVersion: true,
+  provider: true,
+  routingPolicy: true,
+  requestedModel: true,
+  fallbackCount: true,
+  routingAttempts: false,
+  tokensIn: true,
+  tokensOut: true,
+  tokensTotal: true,
+  latencyMs: true,
+  cacheHit: true,
+  cacheSimilarity: true,
+  cacheSavedTokens: true,
+  shadowRequestId: true,
+  shadowOf: true,
+  streaming: true,
+  timeToFirstTokenMs: true,
+  guardrailAction: true,
+  guardrailLabels: true,
+  guardrailRedactions: true,
+  outputFilterAction: true,
+  outputPiiCounts: false,
+  scrubMode: true,
+  embeddingInput: false,
+  status: true,
+  errorMessage: true,
+  environment: true,
+  service: true,
+};
+
+// Engine results and derived values
+const RESULT_FIELDS = [
+  'drift.score',
+  'drift.similarity',
+  'drift.baselineReady',
+  'safety.label',
+  'safety.score',
+  'safety.highRisk',
+  'anomaly.detected',
+  'anomaly.zScore',
+  'severity',
+  'patterns.count',
+  'patterns.types',
+  'session.tags', // Tags set on the conversation by earlier tag_session actions
+];
+
+export const RULE_FIELDS: string[] = [
+  ...Object.entries(EVENT_FIELDS).filter(([, exposed]) => exposed).map(([name]) => `event.${name}`),
+  ...RESULT_FIELDS,
+];
+
+const KNOWN_FIELDS = new Set(RULE_FIELDS);
+
+// Windows are kept in memory for every group, so they can't be arbitrarily long
+export const MAX_COUNT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'contains', 'count', 'within', 'by', 'true', 'false', 'null'];
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'duration'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'keyword'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+/**
+ * Parse and check an expression. Throws RuleSyntaxError, with the position,
+ * for invalid syntax and unknown fields.
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  const parser = new Parser(tokenize(source));
+  const root = parser.parseExpression();
+  parser.expectEnd();
+  return { source, root, counts: parser.counts };
+}
+
+/**
+ * Evaluate a node against an event. Counts are looked up with `countOf`,
+ * which the rule engine backs with its time windows.
+ */
+export function evaluateRuleNode(node: RuleNode, context: RuleContext, countOf: (node: CountNode) => number = () => 0): RuleValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return context[node.name] ?? null;
+    case 'not':
+      return !isTruthy(evaluateRuleNode(node.operand, context, countOf));
+    case 'logical': {
+      const left = isTruthy(evaluateRuleNode(node.left, context, countOf));
+      if (node.operator === 'and' ? !left : left) {
+        return left;
+      }
+      return isTruthy(evaluateRuleNode(node.right, context, countOf));
+    }
+    case 'compare':
+      return compare(node.operator, evaluateRuleNode(node.left, context, countOf), evaluateRuleNode(node.right, context, countOf));
+    case 'count':
+      return countOf(node);
+  }
+}
+
+export function isTruthy(value: RuleValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * The fields of an analyzed event that rules can read
+ */
+export function ruleContext(result: AnalysisResult, sessionTags: string[] = []): RuleContext {
+  const { event, drift, safety, anomaly, patterns } = result;
+  const context: RuleContext = {};
+  for (const [name, exposed] of Object.entries(EVENT_FIELDS)) {
+    const value = event[name as keyof TelemetryEvent];
+    if (exposed && value !== undefined) {
+      context[`event.${name}`] = value as RuleValue;
+    }
+  }
+  return {
+    ...context,
+    'drift.score': drift.driftScore,
+    'drift.similarity': drift.similarityScore,
+    'drift.baselineReady': drift.baselineReady,
+    'safety.label': safety.safetyLabel,
+    'safety.score': safety.safetyLabel === 'SKIPPED' ? null : safety.safetyScore,
+    'safety.highRisk': safety.isHighRisk,
+    'anomaly.detected': anomaly.isAnomaly,
+    'anomaly.zScore': anomaly.zScore,
+    'severity': classifySeverity({ safetyLabel: safety.safetyLabel, driftScore: drift.driftScore, isAnomaly: anomaly.isAnomaly }),
+    'patterns.count': patterns.length,
+    'patterns.types': patterns.flatMap(pattern => (pattern.patternType ? [pattern.patternType] : [])),
+    'session.tags': sessionTags,
+  };
+}
+
+function compare(operator: CompareOperator, left: RuleValue, right: RuleValue): boolean {
+  switch (operator) {
+    case '==':
+      return !Array.isArray(left) && left === right;
+    case '!=':
+      return Array.isArray(left) || left !== right;
+    case '<':
+      return typeof left === 'number' && typeof right === 'number' && left < right;
+    case '<=':
+      return typeof left === 'number' && typeof right === 'number' && left <= right;
+    case '>':
+      return typeof left === 'number' && typeof right === 'number' && left > right;
+    case '>=':
+      return typeof left === 'number' && typeof right === 'number' && left >= right;
+    case 'in': {
+      const list = Array.isArray(right) ? (right as RuleValue[]) : [];
+      return Array.isArray(left) ? left.some(value => list.includes(value)) : list.includes(left);
+    }
+    case 'contains':
+      if (Array.isArray(left)) {
+        return typeof right === 'string' && left.includes(right);
+      }
+      return typeof left === 'string' && typeof right === 'string' && left.toLowerCase().includes(right.toLowerCase());
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      i++;
+      while (i < source.length && /[0-9.]/.test(source[i])) {
+        i++;
+      }
+      const value = Number(source.slice(start, i));
+      if (Number.isNaN(value)) {
+        throw new RuleSyntaxError(`Invalid number '${source.slice(start, i)}'`, start);
+      }
+      const unit = source[i];
+      if (unit && DURATION_UNITS[unit] && !/[\w.]/.test(source[i + 1] ?? '')) {
+        i++;
+        tokens.push({ type: 'duration', value: value * DURATION_UNITS[unit], position: start });
+      } else {
+        tokens.push({ type: 'number', value, position: start });
+      }
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new RuleSyntaxError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+    } else if (/[A-Za-z_]/.test(char)) {
+      while (i < source.length && /[\w.]/.test(source[i])) {
+        i++;
+      }
+      const word = source.slice(start, i);
+      tokens.push(KEYWORDS.includes(word)
+        ? { type: 'keyword', value: word, position: start }
+        : { type: 'identifier', value: word, position: start });
+    } else {
+      const symbol = ['==', '!=', '<=', '>='].find(candidate => source.startsWith(candidate, i)) ?? char;
+      if (!['==', '!=', '<=', '>=', '<', '>', '(', ')', '[', ']', ','].includes(symbol)) {
+        throw new RuleSyntaxError(`Unexpected '${char}'`, start);
+      }
+      i += symbol.length;
+      tokens.push({ type: 'symbol', value: symbol, position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  readonly counts: CountNode[] = [];
+  private tokens: Token[];
+  private index = 0;
+  private inCount = false;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseExpression(): RuleNode {
+    let left = this.parseAnd();
+    while (this.accept('keyword', 'or')) {
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new RuleSyntaxError(`Unexpected ${describe(token)}`, token.position);
+    }
+  }
+
+  private parseAnd(): RuleNode {
+    let left = this.parseUnary();
+    while (this.accept('keyword', 'and')) {
+      left = { kind: 'logical', operator: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleNode {
+    if (this.accept('keyword', 'not')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.type === 'symbol' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.index++;
+      return { kind: 'compare', operator: token.value as CompareOperator, left, right: this.parseOperand() };
+    }
+    if (this.accept('keyword', 'in')) {
+      const list = this.peek();
+      if (list.type !== 'symbol' || list.value !== '[') {
+        throw new RuleSyntaxError(`Expected a list after 'in', found ${describe(list)}`, list.position);
+      }
+      return { kind: 'compare', operator: 'in', left, right: this.parseOperand() };
+    }
+    if (this.accept('keyword', 'contains')) {
+      return { kind: 'compare', operator: 'contains', left, right: this.parseOperand() };
+    }
+    return left;
+  }
+
+  private parseOperand(): RuleNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        return { kind: 'field', name: this.field(token.value, token.position) };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        if (token.value === 'count') {
+          return this.parseCount(token.position);
+        }
+        break;
+      case 'symbol':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'literal', value: this.parseList() };
+        }
+        break;
+    }
+    throw new RuleSyntaxError(`Unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseList(): string[] {
+    const values: string[] = [];
+    if (this.accept('symbol', ']')) {
+      return values;
+    }
+    do {
+      const token = this.next();
+      if (token.type !== 'string') {
+        throw new RuleSyntaxError(`Lists can only contain strings, found ${describe(token)}`, token.position);
+      }
+      values.push(token.value);
+    } while (this.accept('symbol', ','));
+    this.expect(']');
+    return values;
+  }
+
+  private parseCount(position: number): CountNode {
+    if (this.inCount) {
+      throw new RuleSyntaxError('count() cannot be nested', position);
+    }
+    this.expect('(');
+    this.inCount = true;
+    const condition = this.parseExpression();
+    this.inCount = false;
+
+    if (!this.accept('keyword', 'within')) {
+      throw new RuleSyntaxError(`count() needs a window, e.g. 'within 10m'`, this.peek().position);
+    }
+    const window = this.next();
+    if (window.type !== 'duration' || window.value <= 0) {
+      throw new RuleSyntaxError(`Expected a duration such as 30s, 10m or 1h, found ${describe(window)}`, window.position);
+    }
+    if (window.value > MAX_COUNT_WINDOW_MS) {
+      throw new RuleSyntaxError('count() windows can be at most 24h', window.position);
+    }
+
+    let by: string | undefined;
+    if (this.accept('keyword', 'by')) {
+      const field = this.next();
+      if (field.type !== 'identifier') {
+        throw new RuleSyntaxError(`Expected a field after 'by', found ${describe(field)}`, field.position);
+      }
+      by = this.field(field.value, field.position);
+    }
+    this.expect(')');
+
+    const node: CountNode = { kind: 'count', index: this.counts.length, condition, windowMs: window.value, ...(by && { by }) };
+    this.counts.push(node);
+    return node;
+  }
+
+  private field(name: string, position: number): string {
+    if (!KNOWN_FIELDS.has(name)) {
+      throw new RuleSyntaxError(`Unknown field '${name}'`, position);
+    }
+    return name;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(type: 'keyword' | 'symbol', value: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(symbol: string): void {
+    if (!this.accept('symbol', symbol)) {
+      const token = this.peek();
+      throw new RuleSyntaxError(`Expected '${symbol}', found ${describe(token)}`, token.position);
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of expression';
+    case 'string':
+      return `"${token.value}"`;
+    case 'duration':
+      return 'a duration';
+    default:
+      return `'${token.value}'`;
+  }
+}
@@ -1,7 +1,8 @@
-import { TelemetryEvent } from '../types/telemetry.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { SafetyClassifier } from '../services/safetyClassifier.js';
 
-export type SafetyLabel = 'CLEAN' | 'TOXIC' | 'PII' | 'JAILBREAK' | 'PROMPT_INJECTION' | 'RISKY';
+// SKIPPED: the text wasn't classified (scrubbed by the gateway); its score means nothing
+export type SafetyLabel = 'CLEAN' | 'TOXIC' | 'PII' | 'JAILBREAK' | 'PROMPT_INJECTION' | 'RISKY' | 'SKIPPED';
 
 export interface SafetyResult {
   safetyLabel: SafetyLabel;
@@ -21,6 +22,12 @@ export async function checkSafety(
   event: TelemetryEvent,
   safetyClassifier: SafetyClassifier
 ): Promise<SafetyResult> {
+  // Requests blocked by a gateway guardrail never reached the model. Label them
+  // from the guardrail so they still count towards attack pattern detection.
+  if (event.status === 'blocked') {
+    return classifyBlocked(event);
+  }
+
   // Skip safety check for error cases
   if (event.status === 'error' || !event.response || event.response.length === 0) {
     return {
@@ -30,6 +37,17 @@ export async function checkSafety(
     };
   }
 
+  // The classifier needs the original text, which the gateway hashed or dropped.
+  // Not knowing isn't the same as clean, so these stay out of safety statistics.
+  if (event.scrubMode === 'hash' || event.scrubMode === 'drop-text') {
+    return {
+      safetyLabel: 'SKIPPED',
+      safetyScore: 1.0,
+      isHighRisk: false,
+      details: `Safety check skipped: telemetry text scrubbed (${event.scrubMode})`,
+    };
+  }
+
   try {
     const classification = await safetyClassifier.classifySafety(event.prompt, event.response);
     
@@ -54,3 +72,17 @@ export async function checkSafety(
   }
 }
 
+
+function classifyBlocked(event: TelemetryEvent): SafetyResult {
+  const labels = event.guardrailLabels || [];
+  const safetyLabel =
+    HIGH_RISK_LABELS.find(label => labels.includes(label)) ||
+    (labels.includes('PII') ? 'PII' : 'RISKY');
+
+  return {
+    safetyLabel,
+    safetyScore: 0,
+    details: `Blocked by gateway guardrail (${labels.join(', ') || 'unknown'})`,
+    isHighRisk: true,
+  };
+}
@@ -0,0 +1,129 @@
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { SafetyLabel } from './safetyEngine.js';
+import { cosineSimilarity } from '../utils/cosineSimilarity.js';
+
+/**
+ * Shadow Comparison Engine
+ *
+ * Pairs a primary event with the event of its shadow (the same request
+ * mirrored to a candidate model by the gateway) and compares the two answers:
+ * response similarity, safety label agreement, latency and cost.
+ */
+
+export interface ShadowObservation {
+  event: TelemetryEvent;
+  safetyLabel: SafetyLabel;
+  embedding?: number[]; // Response embedding; unavailable for errors or scrubbed text
+}
+
+export interface ShadowComparison {
+  primaryRequestId: string;
+  shadowRequestId: string;
+  timestamp: string; // Of the primary request
+  endpoint: string;
+  tenantId?: string;
+  primaryModel: string;
+  shadowModel: string;
+  primaryProvider?: string;
+  shadowProvider?: string;
+  primaryStatus: TelemetryEvent['status'];
+  shadowStatus: TelemetryEvent['status'];
+  similarity?: number; // Cosine similarity of the two responses, when both could be embedded
+  primarySafetyLabel: SafetyLabel;
+  shadowSafetyLabel: SafetyLabel;
+  labelDisagreement: boolean;
+  latencyDeltaMs: number; // Shadow minus primary
+  costDeltaUsd: number; // Shadow minus primary
+}
+
+export class ShadowComparator {
+  private pending: Map<string, ShadowObservation & { receivedAt: number }> = new Map(); // primary requestId -> first half
+  private costOf: (event: TelemetryEvent) => number;
+  private readonly maxPending = 1000;
+  private readonly pairTimeoutMs = 10 * 60 * 1000; // The shadow usually arrives seconds after the primary
+
+  constructor(costOf: (event: TelemetryEvent) => number) {
+    this.costOf = costOf;
+  }
+
+  /**
+   * Whether an event takes part in a shadow comparison
+   */
+  static isPaired(event: TelemetryEvent): boolean {
+    return !!(event.shadowOf || event.shadowRequestId);
+  }
+
+  /**
+   * Record one half of a pair. Returns the comparison once both halves have
+   * arrived (in either order), otherwise undefined.
+   */
+  record(observation: ShadowObservation): ShadowComparison | undefined {
+    const { event } = observation;
+    if (!ShadowComparator.isPaired(event)) {
+      return undefined;
+    }
+    const pairId = event.shadowOf || event.requestId;
+
+    this.evictExpired();
+
+    const other = this.pending.get(pairId);
+    if (!other) {
+      this.pending.set(pairId, { ...observation, receivedAt: Date.now() });
+      // Drop the oldest unmatched half beyond the size limit
+      if (this.pending.size > this.maxPending) {
+        const oldest = this.pending.keys().next().value;
+        if (oldest !== undefined) {
+          this.pending.delete(oldest);
+        }
+      }
+      return undefined;
+    }
+
+    this.pending.delete(pairId);
+    return event.shadowOf ? this.compare(other, observation) : this.compare(observation, other);
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private compare(primary: ShadowObservation, shadow: ShadowObservation): ShadowComparison {
+    const bothAnswered = primary.event.status === 'success' && shadow.event.status === 'success';
+    const similarity = bothAnswered && primary.embedding && shadow.embedding
+      && primary.embedding.length === shadow.embedding.length
+      ? Math.max(0, Math.min(1, cosineSimilarity(primary.embedding, shadow.embedding)))
+      : undefined;
+
+    return {
+      primaryRequestId: primary.event.requestId,
+      shadowRequestId: shadow.event.requestId,
+      timestamp: primary.event.timestamp,
+      endpoint: primary.event.endpoint,
+      tenantId: primary.event.tenantId,
+      primaryModel: primary.event.modelName,
+      shadowModel: shadow.event.modelName,
+      primaryProvider: primary.event.provider,
+      shadowProvider: shadow.event.provider,
+      primaryStatus: primary.event.status,
+      shadowStatus: shadow.event.status,
+      similarity,
+      primarySafetyLabel: primary.safetyLabel,
+      shadowSafetyLabel: shadow.safetyLabel,
+      // A failed call or a skipped check has no label to disagree with
+      labelDisagreement: bothAnswered && primary.safetyLabel !== shadow.safetyLabel
+        && primary.safetyLabel !== 'SKIPPED' && shadow.safetyLabel !== 'SKIPPED',
+      latencyDeltaMs: shadow.event.latencyMs - primary.event.latencyMs,
+      costDeltaUsd: this.costOf(shadow.event) - this.costOf(primary.event),
+    };
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.pairTimeoutMs;
+    for (const [pairId, observation] of this.pending) {
+      if (observation.receivedAt >= cutoff) {
+        break; // Insertion order = age
+      }
+      this.pending.delete(pairId);
+    }
+  }
+}
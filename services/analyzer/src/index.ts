@@ -7,6 +7,16 @@ import { EmbeddingsClient } from './services/embeddingsClient.js';
 import { BaselineStore } from './services/baselineStore.js';
 import { SafetyClassifier } from './services/safetyClassifier.js';
 import { DatadogClient } from './services/datadogClient.js';
+import { createDeadLetterSink } from './services/deadLetterSink.js';
+import { QueryApi } from './services/queryApi.js';
+import { EventStream } from './services/eventStream.js';
+import { RulesApi } from './services/rulesApi.js';
+import { RuleStore } from './services/ruleStore.js';
+import { RuleActions } from './services/ruleActions.js';
+import { RuleHistory } from './services/ruleBacktest.js';
+import { RuleEngine } from './engines/ruleEngine.js';
+import { createTelemetrySource, HttpTelemetrySource } from './services/telemetrySource.js';
+import { createDependencyPools } from './utils/concurrencyPool.js';
 
 // Initialize Datadog APM tracing
 tracer.init({
@@ -21,8 +31,16 @@ const config = loadConfig();
 
 // Create a simple HTTP server for Cloud Run health checks
 const port = parseInt(process.env.PORT || '8080', 10);
+const telemetrySource = createTelemetrySource(config, port);
 const server = http.createServer((req, res) => {
-  if (req.url === '/health' || req.url === '/') {
+  // The http transport receives events from the gateway on the same port
+  if (telemetrySource instanceof HttpTelemetrySource && req.method === 'POST' && req.url === HttpTelemetrySource.PATH) {
+    telemetrySource.handle(req, res);
+  } else if (req.url && RulesApi.matches(req.url)) {
+    rulesApi.handle(req, res);
+  } else if (req.url?.startsWith(QueryApi.PREFIX)) {
+    queryApi.handle(req, res);
+  } else if (req.url === '/health' || req.url === '/') {
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ status: 'healthy', service: 'sentinel-analyzer' }));
   } else {
@@ -37,18 +55,27 @@ server.listen(port, () => {
 
 console.log('Starting Sentinel Analyzer...');
 console.log(`Environment: ${config.environment}`);
-console.log(`Pub/Sub subscription: ${config.pubsub.subscriptionName}`);
+console.log(`Telemetry: ${telemetrySource.name} (${telemetrySource.description})`);
 console.log(`BigQuery: ${config.bigquery.enabled ? `${config.bigquery.datasetId}.${config.bigquery.tableId}` : 'disabled'}`);
 console.log(`Vertex AI: ${config.vertex.projectId}/${config.vertex.location}/${config.vertex.embeddingModel}`);
 console.log(`Safety: Using Gemini for classification`);
 console.log(`Datadog: ${config.datadog.enabled ? `enabled (${config.datadog.site})` : 'disabled'}`);
+console.log(`Flow control: ${config.flowControl.maxInFlight} in flight, pools ${Object.entries(config.flowControl.pools).map(([name, size]) => `${name}=${size}`).join(' ')}`);
 
-const bigQueryWriter = new BigQueryWriter(config.bigquery);
-const embeddingsClient = new EmbeddingsClient(config.vertex);
+const pools = createDependencyPools(config.flowControl.pools);
+const bigQueryWriter = new BigQueryWriter(config.bigquery, pools.bigquery);
+const embeddingsClient = new EmbeddingsClient(config.vertex, pools.embeddings);
 const baselineStore = new BaselineStore(bigQueryWriter);
-const safetyClassifier = new SafetyClassifier(config.vertex);
-const datadogClient = new DatadogClient(config.datadog, config.environment);
+const safetyClassifier = new SafetyClassifier(config.vertex, pools.classifier);
+const datadogClient = new DatadogClient(config.datadog, config.environment, pools.datadog);
+const eventStream = new EventStream(config.stream.maxSubscribers);
+const ruleStore = new RuleStore(config.rules.filePath);
+const ruleEngine = new RuleEngine();
+const ruleActions = new RuleActions(datadogClient, config.rules.webhookTimeoutMs);
 let consumer: PubSubConsumer | null = null;
+const ruleHistory = new RuleHistory(bigQueryWriter, () => consumer, config.rules.backtestMaxEvents);
+const rulesApi = new RulesApi(ruleStore, ruleEngine, ruleActions, ruleHistory);
+const queryApi = new QueryApi(baselineStore, embeddingsClient, bigQueryWriter, eventStream, () => consumer);
 
 // Load baselines from BigQuery on startup before starting consumer
 async function initialize(): Promise<void> {
@@ -61,7 +88,12 @@ async function initialize(): Promise<void> {
     console.log('[Startup] Continuing without baselines - they will be rebuilt');
   }
 
-  consumer = new PubSubConsumer(config, bigQueryWriter, embeddingsClient, baselineStore, safetyClassifier, datadogClient);
+  // A rules file that can't be read is fatal: saving a rule would overwrite it
+  await ruleStore.load();
+  ruleEngine.setRules(ruleStore.list());
+  console.log(`[Startup] Loaded ${ruleEngine.size} detection rule(s) from ${config.rules.filePath}`);
+
+  consumer = new PubSubConsumer(config, bigQueryWriter, embeddingsClient, baselineStore, safetyClassifier, datadogClient, createDeadLetterSink(config), pools, telemetrySource, eventStream, ruleEngine, ruleActions);
   
   // Start consuming messages
   await consumer.start();
@@ -86,6 +118,7 @@ async function gracefulShutdown(signal: string): Promise<void> {
       console.log('[Shutdown] Stopping message consumer...');
       await consumer.stop();
     }
+    eventStream.close();
 
     // Persist any pending baselines before shutdown
     console.log('[Shutdown] Persisting baselines...');
@@ -106,11 +139,9 @@ async function gracefulShutdown(signal: string): Promise<void> {
     console.log('[Shutdown] Waiting for in-flight messages...');
     await new Promise(resolve => setTimeout(resolve, 5000));
 
-    // Close BigQuery connections
-    if (bigQueryWriter && typeof (bigQueryWriter as any).close === 'function') {
-      console.log('[Shutdown] Closing BigQuery connections...');
-      await (bigQueryWriter as any).close();
-    }
+    // Flush buffered BigQuery rows; what can't be written is spooled for the next start
+    console.log('[Shutdown] Flushing BigQuery writes...');
+    await bigQueryWriter.close();
 
     console.log('[Shutdown] Graceful shutdown complete');
     process.exit(0);
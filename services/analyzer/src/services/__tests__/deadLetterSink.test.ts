@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DeadLetterRecord, JsonlDeadLetterSink } from '../deadLetterSink.js';
+
+function record(overrides: Partial<DeadLetterRecord>): DeadLetterRecord {
+  return {
+    deadLetterId: 'dl-1',
+    quarantinedAt: '2024-05-01T10:00:00.000Z',
+    messageId: 'msg-1',
+    publishTime: '2024-05-01T09:59:00.000Z',
+    deliveryAttempts: 5,
+    reason: 'max_attempts_exceeded',
+    stage: 'storage',
+    errors: ['insert failed'],
+    requestId: 'req-1',
+    payload: '{"requestId":"req-1"}',
+    ...overrides,
+  };
+}
+
+describe('JsonlDeadLetterSink', () => {
+  let directory: string;
+  let sink: JsonlDeadLetterSink;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'dead-letters-'));
+    sink = new JsonlDeadLetterSink(join(directory, 'nested', 'dead-letters.jsonl'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('lists nothing before anything is quarantined', async () => {
+    expect(await sink.list({})).toEqual([]);
+  });
+
+  it('filters by reason, stage and time', async () => {
+    await sink.write(record({ deadLetterId: 'dl-1' }));
+    await sink.write(record({ deadLetterId: 'dl-2', reason: 'invalid_json', stage: 'validation', requestId: undefined }));
+    await sink.write(record({ deadLetterId: 'dl-3', stage: 'drift', quarantinedAt: '2024-05-02T10:00:00.000Z' }));
+
+    expect((await sink.list({ reason: 'invalid_json' })).map(r => r.deadLetterId)).toEqual(['dl-2']);
+    expect((await sink.list({ stage: 'drift' })).map(r => r.deadLetterId)).toEqual(['dl-3']);
+    expect((await sink.list({ since: '2024-05-02T00:00:00Z' })).map(r => r.deadLetterId)).toEqual(['dl-3']);
+    expect(await sink.list({ limit: 2 })).toHaveLength(2);
+  });
+
+  it('hides replayed messages unless asked for them', async () => {
+    await sink.write(record({ deadLetterId: 'dl-1' }));
+    await sink.write(record({ deadLetterId: 'dl-2' }));
+
+    await sink.markReplayed(['dl-1'], '2024-05-03T00:00:00.000Z');
+
+    expect((await sink.list({})).map(r => r.deadLetterId)).toEqual(['dl-2']);
+    const all = await sink.list({ includeReplayed: true });
+    expect(all.find(r => r.deadLetterId === 'dl-1')?.replayedAt).toBe('2024-05-03T00:00:00.000Z');
+    expect(all.find(r => r.deadLetterId === 'dl-2')?.replayedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InsertBuffer, InsertRow } from '../insertBuffer.js';
+
+function row(id: string): InsertRow {
+  return { insertId: id, json: { requestId: id } };
+}
+
+describe('InsertBuffer', () => {
+  let directory: string;
+  let buffer: InsertBuffer | undefined;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'insert-buffer-'));
+  });
+
+  afterEach(async () => {
+    await buffer?.close();
+    buffer = undefined;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createBuffer(insertRows: (tableId: string, rows: InsertRow[]) => Promise<unknown>, spoolPath = join(directory, 'spool.jsonl')) {
+    buffer = new InsertBuffer({
+      maxBatchRows: 2,
+      flushIntervalMs: 60000, // Flushed explicitly in these tests
+      maxBufferedRows: 5,
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      spoolPath,
+    }, insertRows);
+    return buffer;
+  }
+
+  it('writes in batches per table and drops rows over the limit', async () => {
+    const batches: string[][] = [];
+    const insertBuffer = createBuffer(async (tableId, rows) => {
+      batches.push(rows.map(r => `${tableId}/${r.insertId}`));
+    });
+
+    insertBuffer.add('events', row('a'));
+    insertBuffer.add('analysis', row('a'));
+    insertBuffer.add('events', row('b')); // Fills a batch and starts a flush
+    insertBuffer.add('events', row('c'));
+    await insertBuffer.flush();
+
+    expect(batches).toContainEqual(['events/a', 'events/b']);
+    expect(batches.flat().sort()).toEqual(['analysis/a', 'events/a', 'events/b', 'events/c']);
+    expect(insertBuffer.stats()).toMatchObject({ buffered: 0, written: 4, dropped: 0 });
+
+    for (let i = 0; i < 6; i++) {
+      insertBuffer.add(`table-${i}`, row(`x${i}`));
+    }
+    expect(insertBuffer.stats()).toMatchObject({ buffered: 5, dropped: 1 });
+  });
+
+  it('retries only the rows a partial failure held back and drops invalid ones', async () => {
+    const attempts: string[][] = [];
+    const insertBuffer = createBuffer(async (_tableId, rows) => {
+      attempts.push(rows.map(r => r.insertId));
+      if (attempts.length === 1) {
+        throw Object.assign(new Error('A failure occurred during this request.'), {
+          name: 'PartialFailureError',
+          errors: [
+            { row: rows[0], errors: [{ reason: 'invalid', message: 'no such field: bogus' }] },
+            { row: rows[1], errors: [{ reason: 'stopped', message: '' }] },
+          ],
+        });
+      }
+    });
+
+    insertBuffer.add('events', row('bad'));
+    insertBuffer.add('events', row('good'));
+    await insertBuffer.flush();
+
+    expect(attempts).toEqual([['bad', 'good'], ['good']]);
+    expect(insertBuffer.stats()).toMatchObject({ written: 1, retried: 1, dropped: 1, spooled: 0 });
+  });
+
+  it('spools rows BigQuery keeps refusing and replays them once it recovers', async () => {
+    const spoolPath = join(directory, 'spool.jsonl');
+    let available = false;
+    const written: string[] = [];
+    const insertBuffer = createBuffer(async (tableId, rows) => {
+      if (!available) {
+        throw new Error('503 Service Unavailable');
+      }
+      written.push(...rows.map(r => `${tableId}/${r.insertId}`));
+    }, spoolPath);
+
+    insertBuffer.add('events', row('a'));
+    insertBuffer.add('analysis', row('a'));
+    await insertBuffer.flush();
+
+    // Retried maxRetries times for the first table; the rest is spooled without trying
+    expect(insertBuffer.stats()).toMatchObject({ written: 0, retried: 2, spooled: 2 });
+    const spooled = (await readFile(spoolPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(spooled.map(entry => `${entry.tableId}/${entry.insertId}`)).toEqual(['events/a', 'analysis/a']);
+
+    available = true;
+    await insertBuffer.flush({ replaySpool: true });
+
+    expect(written.sort()).toEqual(['analysis/a', 'events/a']);
+    expect(insertBuffer.stats()).toMatchObject({ replayed: 2, dropped: 0 });
+    await expect(readFile(spoolPath, 'utf8')).rejects.toThrow();
+  });
+
+  it('drops failed rows when spooling is disabled', async () => {
+    const insertBuffer = createBuffer(async () => {
+      throw new Error('503 Service Unavailable');
+    }, '');
+
+    insertBuffer.add('events', row('a'));
+    await insertBuffer.close();
+
+    expect(insertBuffer.stats()).toMatchObject({ buffered: 0, spooled: 0, dropped: 1 });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { QueryApi } from '../queryApi.js';
+import { AnalysisResult } from '../bigqueryWriter.js';
+import { EventStream } from '../eventStream.js';
+
+function makeResult(requestId: string, timestamp: string, overrides: { environment?: string; safetyLabel?: any; driftScore?: number } = {}): AnalysisResult {
+  return {
+    event: {
+      requestId,
+      timestamp,
+      endpoint: '/api/chat',
+      method: 'POST',
+      prompt: 'Hello',
+      promptLength: 5,
+      response: 'Hi',
+      responseLength: 2,
+      modelName: 'gemini-1.5-pro',
+      modelVersion: '1.0',
+      tokensIn: 10,
+      tokensOut: 20,
+      tokensTotal: 30,
+      latencyMs: 100,
+      status: 'success',
+      environment: overrides.environment ?? 'prod',
+      service: 'gateway',
+    },
+    analyzedAt: timestamp,
+    drift: { driftScore: overrides.driftScore ?? 0.1, similarityScore: 0.9, baselineReady: true, processingTimeMs: 5 },
+    safety: { safetyLabel: overrides.safetyLabel ?? 'CLEAN', safetyScore: 0.95, isHighRisk: false, processingTimeMs: 5 },
+    anomaly: { isAnomaly: false, zScore: 0.5, mean: 0.1, stdDev: 0.02, threshold: 3 },
+    patterns: [],
+    processingTimeMs: 12,
+  };
+}
+
+describe('QueryApi', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let state: any;
+  let mockBaselineStore: any;
+  let mockEmbeddingsClient: any;
+  let mockBigQueryWriter: any;
+  let eventStream: EventStream;
+
+  beforeEach(async () => {
+    mockBaselineStore = {
+      getAllBaselines: vi.fn().mockReturnValue([
+        { endpoint: '/api/chat', embedding: [0.1, 0.2, 0.3], sampleCount: 7, lastUpdated: '2024-05-01T10:00:00.000Z' },
+      ]),
+      isBaselineReady: vi.fn().mockReturnValue(true),
+    };
+    mockEmbeddingsClient = {
+      getCacheStats: vi.fn().mockReturnValue({ size: 3, hits: 1, misses: 2, hitRate: 1 / 3 }),
+    };
+    mockBigQueryWriter = {
+      loadAnalysis: vi.fn().mockResolvedValue(null),
+      querySummary: vi.fn().mockResolvedValue(null),
+      queryActivity: vi.fn().mockResolvedValue(null),
+    };
+    state = {
+      getAnomalyStats: vi.fn().mockReturnValue([{ endpoint: '/api/chat', count: 12, mean: 0.1, stdDev: 0.02 }]),
+      getPatterns: vi.fn(),
+      getCostAnalysis: vi.fn().mockReturnValue({
+        currentCost: 10,
+        projectedCost: 8,
+        recommendations: [],
+        modelUsage: new Map([['gemini-1.5-pro', { requests: 2, tokens: 100, cost: 10 }]]),
+      }),
+      getRecentResult: vi.fn(),
+      getRecentResults: vi.fn().mockReturnValue([]),
+    };
+
+    eventStream = new EventStream(1);
+    const api = new QueryApi(mockBaselineStore, mockEmbeddingsClient, mockBigQueryWriter, eventStream, () => state);
+    server = http.createServer((req, res) => api.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    eventStream.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function get(path: string): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('lists baselines without their embeddings', async () => {
+    const { status, body } = await get('/api/baselines');
+
+    expect(status).toBe(200);
+    expect(body.baselines).toEqual([
+      { endpoint: '/api/chat', ready: true, sampleCount: 7, dimensions: 3, lastUpdated: '2024-05-01T10:00:00.000Z' },
+    ]);
+  });
+
+  it('looks up drift statistics for an endpoint given with or without encoding', async () => {
+    expect((await get('/api/anomalies/api/chat')).body).toMatchObject({ endpoint: '/api/chat', count: 12 });
+    expect((await get('/api/anomalies/%2Fapi%2Fchat')).body).toMatchObject({ endpoint: '/api/chat' });
+    expect((await get('/api/anomalies/api/other')).status).toBe(404);
+  });
+
+  it('serializes the cost analysis model usage', async () => {
+    const { body } = await get('/api/cost');
+
+    expect(body.modelUsage).toEqual({ 'gemini-1.5-pro': { requests: 2, tokens: 100, cost: 10 } });
+  });
+
+  it('falls back to BigQuery for results no longer in memory', async () => {
+    state.getRecentResult.mockReturnValue(undefined);
+    mockBigQueryWriter.loadAnalysis.mockResolvedValueOnce({ requestId: 'req-1', driftScore: 0.2 });
+
+    expect(await get('/api/results/req-1')).toEqual({
+      status: 200,
+      body: { source: 'bigquery', result: { requestId: 'req-1', driftScore: 0.2 } },
+    });
+    expect((await get('/api/results/req-2')).status).toBe(404);
+  });
+
+  it('summarizes recent results in memory when BigQuery is disabled', async () => {
+    state.getRecentResults.mockReturnValue([
+      makeResult('req-1', '2024-05-01T10:00:00.000Z'),
+      makeResult('req-2', '2024-05-01T10:05:00.000Z', { safetyLabel: 'JAILBREAK' }),
+      makeResult('req-3', '2024-05-01T10:10:00.000Z', { environment: 'staging', driftScore: 0.6 }),
+      makeResult('req-4', '2024-05-01T12:00:00.000Z'), // Outside the range
+    ]);
+    const range = 'from=2024-05-01T09:00:00.000Z&to=2024-05-01T11:00:00.000Z';
+
+    const { body: summary } = await get(`/api/summary?${range}&environment=prod`);
+    expect(summary).toMatchObject({
+      source: 'memory',
+      environment: 'prod',
+      requests: 2,
+      tokens: 60,
+      severity: { critical: 1, warning: 0, clean: 1 },
+      safetyLabels: { CLEAN: 1, JAILBREAK: 1 },
+      environments: ['prod', 'staging'],
+    });
+
+    const { body: alerts } = await get(`/api/activity?${range}&severity=critical,warning`);
+    expect(alerts.events.map((event: any) => [event.requestId, event.severity])).toEqual([
+      ['req-3', 'warning'],
+      ['req-2', 'critical'],
+    ]);
+    expect((await get('/api/activity?severity=urgent')).status).toBe(400);
+    expect((await get('/api/summary?from=yesterday')).status).toBe(400);
+  });
+
+  it('answers analytics from BigQuery when it is enabled', async () => {
+    mockBigQueryWriter.queryActivity.mockResolvedValueOnce([{ requestId: 'req-9', severity: 'clean' }]);
+
+    const { body } = await get('/api/activity?model=gemini-1.5-pro&tenant=acme&limit=5000');
+
+    expect(body).toMatchObject({ source: 'bigquery', modelName: 'gemini-1.5-pro', tenantId: 'acme', events: [{ requestId: 'req-9' }] });
+    expect(mockBigQueryWriter.queryActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ modelName: 'gemini-1.5-pro', tenantId: 'acme' }),
+      { severity: undefined, limit: 1000 }
+    );
+    expect(state.getRecentResults).not.toHaveBeenCalled();
+  });
+
+  it('streams analyzed events that pass the subscriber\'s filters', async () => {
+    const response = await fetch(`${baseUrl}/api/stream?minSeverity=warning&label=jailbreak,pii`);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect((await get('/api/stream')).status).toBe(503); // One subscriber at most in this test
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes(': connected')) {
+      received += decoder.decode((await reader.read()).value);
+    }
+
+    eventStream.publish(makeResult('req-clean', '2024-05-01T10:00:00.000Z'));
+    eventStream.publish(makeResult('req-drift', '2024-05-01T10:00:01.000Z', { driftScore: 0.8 })); // Warning, but label CLEAN
+    eventStream.publish(makeResult('req-jailbreak', '2024-05-01T10:00:02.000Z', { safetyLabel: 'JAILBREAK' }));
+    while (!/event: analysis\ndata: .*\n\n/.test(received)) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    await reader.cancel();
+
+    const events = received.split('\n').filter(line => line.startsWith('data: ')).map(line => JSON.parse(line.slice(6)));
+    expect(events.map(event => [event.requestId, event.severity])).toEqual([['req-jailbreak', 'critical']]);
+    expect(events[0]).toMatchObject({ safetyLabel: 'JAILBREAK', patterns: [], processingTimeMs: 12 });
+  });
+
+  it('answers 503 for consumer state while the analyzer is starting', async () => {
+    state = null;
+
+    expect((await get('/api/patterns')).status).toBe(503);
+    expect((await get('/api/cache')).status).toBe(200);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backtestRule, RuleHistory } from '../ruleBacktest.js';
+import { AnalysisResult, analysisRow } from '../bigqueryWriter.js';
+import { DetectionRule } from '../../engines/ruleEngine.js';
+
+const RANGE = { from: '2024-05-01T00:00:00.000Z', to: '2024-05-02T00:00:00.000Z' };
+
+function makeResult(requestId: string, timestamp: string, overrides: { safetyLabel?: any; conversationId?: string } = {}): AnalysisResult {
+  return {
+    event: {
+      requestId,
+      timestamp,
+      endpoint: '/api/chat',
+      method: 'POST',
+      prompt: 'Hello',
+      promptLength: 5,
+      response: 'Hi',
+      responseLength: 2,
+      modelName: 'gemini-1.5-pro',
+      modelVersion: '1.0',
+      tokensIn: 10,
+      tokensOut: 20,
+      tokensTotal: 30,
+      latencyMs: 100,
+      status: 'success',
+      service: 'gateway',
+      ...(overrides.conversationId && { conversationId: overrides.conversationId }),
+    },
+    analyzedAt: timestamp,
+    drift: { driftScore: 0.1, similarityScore: 0.9, baselineReady: true, processingTimeMs: 5 },
+    safety: { safetyLabel: overrides.safetyLabel ?? 'CLEAN', safetyScore: 0.95, isHighRisk: false, processingTimeMs: 5 },
+    anomaly: { isAnomaly: false, zScore: 0.5, mean: 0.1, stdDev: 0.02, threshold: 3 },
+    patterns: [],
+    processingTimeMs: 12,
+  };
+}
+
+function makeRule(id: string, expression: string, overrides: Partial<DetectionRule> = {}): DetectionRule {
+  return {
+    id,
+    name: id,
+    expression,
+    actions: [],
+    enabled: true,
+    createdAt: '2024-05-01T00:00:00.000Z',
+    updatedAt: '2024-05-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('backtestRule', () => {
+  it('counts matches per hour and keeps the latest samples', () => {
+    const results = [
+      makeResult('req-3', '2024-05-01T11:10:00.000Z', { safetyLabel: 'PII' }),
+      makeResult('req-1', '2024-05-01T10:05:00.000Z', { safetyLabel: 'PII' }),
+      makeResult('req-2', '2024-05-01T10:45:00.000Z', { safetyLabel: 'PII' }),
+      makeResult('req-4', '2024-05-01T12:00:00.000Z'),
+    ];
+
+    const report = backtestRule(makeRule('draft', 'safety.label == "PII"'), [], results, RANGE, 2);
+
+    expect(report).toMatchObject({ events: 4, matches: 3, matchRate: 0.75, matchesPerHour: 0.13 });
+    expect(report.hourly).toEqual([
+      { hour: '2024-05-01T10:00:00.000Z', matches: 2 },
+      { hour: '2024-05-01T11:00:00.000Z', matches: 1 },
+    ]);
+    expect(report.peakHour).toEqual({ hour: '2024-05-01T10:00:00.000Z', matches: 2 });
+    expect(report.samples.map(sample => sample.requestId)).toEqual(['req-3', 'req-2']);
+  });
+
+  it('evaluates count() windows in event order', () => {
+    const results = ['10:00', '10:04', '10:08', '10:30'].map((time, i) =>
+      makeResult(`req-${i}`, `2024-05-01T${time}:00.000Z`, { safetyLabel: 'PII', conversationId: 'conv-1' })
+    );
+
+    const report = backtestRule(makeRule('draft', 'count(safety.label == "PII" within 10m by event.conversationId) >= 3'), [], results, RANGE);
+
+    expect(report.samples.map(sample => sample.requestId)).toEqual(['req-2']);
+  });
+
+  it('reports overlap with enabled rules and applies their session tags', () => {
+    const existing = [
+      makeRule('tagger', 'safety.label == "JAILBREAK"', { actions: [{ type: 'tag_session', tag: 'suspicious' }] }),
+      makeRule('everything', 'patterns.count == 0'),
+      makeRule('disabled', 'patterns.count == 0', { enabled: false }),
+    ];
+    const results = [
+      makeResult('req-1', '2024-05-01T10:00:00.000Z', { safetyLabel: 'JAILBREAK', conversationId: 'conv-1' }),
+      makeResult('req-2', '2024-05-01T10:01:00.000Z', { conversationId: 'conv-1' }),
+      makeResult('req-3', '2024-05-01T10:02:00.000Z', { conversationId: 'conv-2' }),
+    ];
+
+    const report = backtestRule(makeRule('draft', 'session.tags contains "suspicious"'), existing, results, RANGE);
+
+    expect(report.samples.map(sample => sample.requestId)).toEqual(['req-2']);
+    expect(report.overlap).toEqual([{ ruleId: 'everything', name: 'everything', matches: 3, shared: 1 }]);
+  });
+
+  it('leaves out the saved version of the rule being edited', () => {
+    const report = backtestRule(
+      makeRule('rule-1', 'severity == "clean"', { enabled: false }),
+      [makeRule('rule-1', 'patterns.count == 0')],
+      [makeResult('req-1', '2024-05-01T10:00:00.000Z')],
+      RANGE
+    );
+
+    expect(report.matches).toBe(1);
+    expect(report.overlap).toEqual([]);
+  });
+});
+
+describe('RuleHistory', () => {
+  it('rebuilds results from stored rows, oldest first, skipping invalid events', async () => {
+    const stored = [makeResult('req-2', '2024-05-01T10:05:00.000Z', { safetyLabel: 'PII' }), makeResult('req-1', '2024-05-01T10:00:00.000Z')];
+    const rows = [
+      ...stored.map(result => ({ event: { ...result.event }, analysis: analysisRow(result) })),
+      { event: { requestId: 'broken' }, analysis: {} },
+    ];
+    const writer = { loadAnalysisHistory: vi.fn().mockResolvedValue(rows) };
+
+    const history = await new RuleHistory(writer as any, () => null, 3).load(RANGE);
+
+    expect(writer.loadAnalysisHistory).toHaveBeenCalledWith(RANGE, 3);
+    expect(history).toMatchObject({ source: 'bigquery', truncated: true, skipped: 1 });
+    expect(history!.results.map(result => result.event.requestId)).toEqual(['req-1', 'req-2']);
+    expect(history!.results[1]).toMatchObject({ safety: stored[0].safety, drift: stored[0].drift, anomaly: stored[0].anomaly });
+  });
+
+  it('falls back to recent results in memory when BigQuery is disabled', async () => {
+    const recent = [makeResult('req-1', '2024-04-30T10:00:00.000Z'), makeResult('req-2', '2024-05-01T10:00:00.000Z')];
+    const writer = { loadAnalysisHistory: vi.fn().mockResolvedValue(null) };
+
+    const history = await new RuleHistory(writer as any, () => ({ getRecentResults: () => recent }) as any, 100).load(RANGE);
+
+    expect(history).toEqual({ source: 'memory', results: [recent[1]], truncated: false, skipped: 0 });
+    expect(await new RuleHistory(writer as any, () => null, 100).load(RANGE)).toBeNull();
+  });
+});
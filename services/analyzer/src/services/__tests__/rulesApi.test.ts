@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RulesApi } from '../rulesApi.js';
+import { RuleStore } from '../ruleStore.js';
+import { RuleActions } from '../ruleActions.js';
+import { RuleHistory } from '../ruleBacktest.js';
+import { RuleEngine } from '../../engines/ruleEngine.js';
+import { AnalysisResult } from '../bigqueryWriter.js';
+
+function makeResult(overrides: { requestId?: string; timestamp?: string; tenantId?: string; conversationId?: string } = {}): AnalysisResult {
+  return {
+    event: {
+      requestId: 'req-1',
+      timestamp: '2024-05-01T10:00:00.000Z',
+      endpoint: '/api/chat',
+      method: 'POST',
+      prompt: 'Hello',
+      promptLength: 5,
+      response: 'Hi',
+      responseLength: 2,
+      modelName: 'gemini-1.5-pro',
+      modelVersion: '1.0',
+      tokensIn: 10,
+      tokensOut: 20,
+      tokensTotal: 30,
+      latencyMs: 100,
+      status: 'success',
+      service: 'gateway',
+      ...overrides,
+    },
+    analyzedAt: '2024-05-01T10:00:01.000Z',
+    drift: { driftScore: 0.1, similarityScore: 0.9, baselineReady: true, processingTimeMs: 5 },
+    safety: { safetyLabel: 'JAILBREAK', safetyScore: 0.95, isHighRisk: true, processingTimeMs: 5 },
+    anomaly: { isAnomaly: false, zScore: 0.5, mean: 0.1, stdDev: 0.02, threshold: 3 },
+    patterns: [],
+    processingTimeMs: 12,
+  };
+}
+
+describe('RulesApi', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let directory: string;
+  let store: RuleStore;
+  let engine: RuleEngine;
+  let actions: RuleActions;
+  let recentResults: AnalysisResult[];
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sentinel-rules-'));
+    store = new RuleStore(join(directory, 'rules.json'));
+    engine = new RuleEngine();
+    actions = new RuleActions({ emitRuleEvent: async () => {} } as any, 1000);
+    recentResults = [];
+    const history = new RuleHistory(
+      { loadAnalysisHistory: vi.fn().mockResolvedValue(null) } as any,
+      () => ({ getRecentResults: () => recentResults }) as any,
+      1000
+    );
+    const api = new RulesApi(store, engine, actions, history);
+    server = http.createServer((req, res) => api.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function request(method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('creates, updates and deletes rules, saving them to the file and the engine', async () => {
+    const created = await request('POST', '/api/rules', {
+      name: 'Jailbreaks',
+      expression: 'safety.label == "JAILBREAK"',
+      actions: [{ type: 'datadog' }],
+    });
+
+    expect(created.status).toBe(201);
+    expect(created.body.rule).toMatchObject({ name: 'Jailbreaks', enabled: true, actions: [{ type: 'datadog', alertType: 'warning' }] });
+    expect(engine.size).toBe(1);
+    const saved = JSON.parse(await readFile(join(directory, 'rules.json'), 'utf8'));
+    expect(saved).toEqual([created.body.rule]);
+
+    const id = created.body.rule.id;
+    const updated = await request('PUT', `/api/rules/${id}`, { ...created.body.rule, enabled: false });
+    expect(updated.body.rule).toMatchObject({ id, enabled: false, createdAt: created.body.rule.createdAt });
+
+    expect(await request('DELETE', `/api/rules/${id}`)).toEqual({ status: 200, body: { deleted: id } });
+    expect((await request('GET', '/api/rules')).body.rules).toEqual([]);
+    expect(engine.size).toBe(0);
+  });
+
+  it('saves every rule when changes arrive at the same time', async () => {
+    const responses = await Promise.all(['One', 'Two', 'Three'].map(name => request('POST', '/api/rules', { name, expression: 'severity == "critical"' })));
+
+    expect(responses.map(response => response.status)).toEqual([201, 201, 201]);
+
+    const saved = JSON.parse(await readFile(join(directory, 'rules.json'), 'utf8'));
+    expect(saved.map((rule: any) => rule.name).sort()).toEqual(['One', 'Three', 'Two']);
+  });
+
+  it('rejects invalid rules with every problem', async () => {
+    const { status, body } = await request('POST', '/api/rules/validate', {
+      name: '',
+      expression: 'safety.label ==',
+      actions: [{ type: 'webhook', url: 'ftp://example.com' }, { type: 'block', target: 'ip', durationMinutes: 5 }],
+    });
+
+    expect(status).toBe(400);
+    expect(body.errors).toEqual([
+      'name must be a non-empty string of at most 100 characters',
+      'expression: Unexpected end of expression at position 16',
+      'actions[0].url must be an http(s) URL',
+      'actions[1].target must be one of tenant, app, conversation',
+    ]);
+  });
+
+  it('scopes rules to the tenant they were created for', async () => {
+    const created = await request('POST', '/api/rules?tenant=acme', { name: 'Acme only', expression: 'severity == "critical"' });
+
+    expect(created.body.rule.tenantId).toBe('acme');
+    expect((await request('GET', '/api/rules?tenant=globex')).body.rules).toEqual([]);
+    expect((await request('GET', `/api/rules/${created.body.rule.id}?tenant=globex`)).status).toBe(404);
+    expect((await request('GET', '/api/rules?tenant=acme')).body.rules).toHaveLength(1);
+  });
+
+  it('backtests a draft rule against recent events without saving it', async () => {
+    const existing = await request('POST', '/api/rules', { name: 'Acme traffic', expression: 'event.tenantId == "acme"' });
+    const now = Date.now();
+    recentResults = [
+      makeResult({ requestId: 'old', timestamp: new Date(now - 3 * 24 * 60 * 60 * 1000).toISOString(), tenantId: 'acme' }),
+      makeResult({ requestId: 'req-1', timestamp: new Date(now - 60 * 60 * 1000).toISOString(), tenantId: 'acme' }),
+      makeResult({ requestId: 'req-2', timestamp: new Date(now - 30 * 60 * 1000).toISOString(), tenantId: 'globex' }),
+    ];
+
+    const { status, body } = await request('POST', '/api/rules/backtest?days=1', { name: 'Jailbreaks', expression: 'safety.label == "JAILBREAK"' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ source: 'memory', truncated: false, events: 2, matches: 2, matchRate: 1, matchesPerHour: 0.08 });
+    expect(body.samples.map((sample: any) => sample.requestId)).toEqual(['req-2', 'req-1']);
+    expect(body.overlap).toEqual([{ ruleId: existing.body.rule.id, name: 'Acme traffic', matches: 1, shared: 1 }]);
+    expect(engine.size).toBe(1);
+
+    expect((await request('POST', '/api/rules/backtest?days=90', { name: 'Jailbreaks', expression: 'severity == "critical"' })).status).toBe(400);
+    expect((await request('POST', '/api/rules/backtest?ruleId=missing', { name: 'Jailbreaks', expression: 'severity == "critical"' })).status).toBe(404);
+  });
+
+  it('exposes session tags and blocks set by actions', async () => {
+    const rule = await store.create({
+      name: 'Block jailbreakers',
+      expression: 'safety.label == "JAILBREAK"',
+      actions: [{ type: 'tag_session', tag: 'jailbreak' }, { type: 'block', target: 'conversation', durationMinutes: 30 }],
+      enabled: true,
+    });
+    await actions.run([rule], makeResult({ conversationId: 'conv-1' }));
+
+    expect((await request('GET', '/api/sessions/conv-1')).body).toEqual({ conversationId: 'conv-1', tags: ['jailbreak'] });
+    const { body } = await request('GET', '/api/blocklist');
+    expect(body.blocks).toEqual([expect.objectContaining({ target: 'conversation', value: 'conv-1', ruleId: rule.id, requestId: 'req-1' })]);
+
+    expect((await request('DELETE', '/api/blocklist/conversation/conv-1')).status).toBe(200);
+    expect((await request('GET', '/api/blocklist')).body.blocks).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonlTelemetrySource, MemoryTelemetrySource, TelemetryMessage, TelemetrySource } from '../telemetrySource.js';
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - start > timeoutMs) {
+        reject(new Error('Timed out'));
+      } else {
+        setTimeout(check, 10);
+      }
+    };
+    check();
+  });
+}
+
+describe('MemoryTelemetrySource', () => {
+  let source: TelemetrySource | undefined;
+
+  afterEach(async () => {
+    await source?.stop();
+  });
+
+  it('redelivers nacked messages with the attempt count', async () => {
+    const memory = new MemoryTelemetrySource(2, { retryDelayMs: 5 });
+    source = memory;
+    const attempts: number[] = [];
+
+    await memory.start(async (message: TelemetryMessage) => {
+      attempts.push(message.deliveryAttempt);
+      if (message.deliveryAttempt < 3) {
+        message.nack();
+      } else {
+        message.ack();
+      }
+    });
+    memory.enqueue('{"requestId":"req-1"}');
+
+    await waitFor(() => attempts.length === 3);
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  it('delivers at most maxInFlight messages at once', async () => {
+    const memory = new MemoryTelemetrySource(2);
+    source = memory;
+    let active = 0;
+    let peak = 0;
+    let done = 0;
+
+    await memory.start(async (message: TelemetryMessage) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      done++;
+      message.ack();
+    });
+    for (let i = 0; i < 5; i++) {
+      memory.enqueue(`{"n":${i}}`);
+    }
+
+    await waitFor(() => done === 5);
+    expect(peak).toBe(2);
+  });
+
+  it('refuses messages beyond the queue limit', () => {
+    const memory = new MemoryTelemetrySource(1, { maxQueued: 1 });
+
+    expect(memory.enqueue('a')).toBe(true);
+    expect(memory.enqueue('b')).toBe(false);
+  });
+});
+
+describe('JsonlTelemetrySource', () => {
+  let directory: string;
+  let source: JsonlTelemetrySource | undefined;
+
+  afterEach(async () => {
+    await source?.stop();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads appended lines and resumes after the last acked line', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'telemetry-'));
+    const path = join(directory, 'telemetry.jsonl');
+    await appendFile(path, '{"n":1}\n{"n":2}\n{"n":3', 'utf8');
+
+    const received: string[] = [];
+    source = new JsonlTelemetrySource(path, 4, 5);
+    await source.start(async (message: TelemetryMessage) => {
+      received.push(message.data.toString());
+      message.ack();
+    });
+
+    await waitFor(() => received.length === 2);
+    // The last line is only read once it is complete
+    await appendFile(path, '}\n', 'utf8');
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual(['{"n":1}', '{"n":2}', '{"n":3}']);
+
+    // The offset is saved in the background
+    const expected = String(Buffer.byteLength('{"n":1}\n{"n":2}\n{"n":3}\n'));
+    let offset = '';
+    await waitFor(() => {
+      readFile(`${path}.offset`, 'utf8').then(content => (offset = content), () => {});
+      return offset === expected;
+    });
+    await source.stop();
+
+    // A new source starts after the committed offset
+    await appendFile(path, '{"n":4}\n', 'utf8');
+    const resumed: string[] = [];
+    source = new JsonlTelemetrySource(path, 4, 5);
+    await source.start(async (message: TelemetryMessage) => {
+      resumed.push(message.data.toString());
+      message.ack();
+    });
+    await waitFor(() => resumed.length === 1);
+    expect(resumed).toEqual(['{"n":4}']);
+  });
+});
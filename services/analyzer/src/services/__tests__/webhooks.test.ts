@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// A public-looking host name that resolves to loopback, like a DNS rebinding attack
+vi.mock('dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('dns')>();
+  return {
+    ...dns,
+    lookup: (hostname: string, options: any, callback: any) => hostname === 'rebind.example.com'
+      ? callback(null, [{ address: '127.0.0.1', family: 4 }])
+      : dns.lookup(hostname, options, callback),
+  };
+});
+
+import { isBlockedAddress, postWebhook, webhookUrlProblem } from '../webhooks.js';
+import { RuleValidationError, validateRuleInput } from '../ruleStore.js';
+
+describe('isBlockedAddress', () => {
+  it('blocks loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '::127.0.0.1', '2002:7f00:1::', '2001:0:4136:e378:8000:63bf:3fff:fdd2']) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2001:4860:4860::8888', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('webhookUrlProblem', () => {
+  it('rejects internal hosts that are known without resolving them', () => {
+    for (const url of ['http://169.254.169.254/computeMetadata/v1/', 'http://localhost:8080/', 'http://[::1]/', 'http://10.0.0.5/hook', 'http://metadata.google.internal/', 'http://[::127.0.0.1]/', 'http://[2002:7f00:1::]/', 'http://[2001:0:4136:e378:8000:63bf:3fff:fdd2]/']) {
+      expect(webhookUrlProblem(url), url).toMatch(/public host/);
+    }
+    expect(webhookUrlProblem('ftp://example.com')).toMatch(/http\(s\)/);
+    expect(webhookUrlProblem('https://hooks.example.com/sentinel')).toBeNull();
+  });
+
+  it('fails rule validation for internal webhook targets', () => {
+    expect(() => validateRuleInput({
+      name: 'Metadata',
+      expression: 'severity == "critical"',
+      actions: [{ type: 'webhook', url: 'http://169.254.169.254/' }],
+    })).toThrow(RuleValidationError);
+  });
+});
+
+describe('postWebhook', () => {
+  let server: http.Server;
+  let port: number;
+  let requests: number;
+
+  beforeEach(async () => {
+    requests = 0;
+    server = http.createServer((_req, res) => {
+      requests++;
+      res.writeHead(204).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('refuses host names that resolve to a blocked address', async () => {
+    await expect(postWebhook(`http://rebind.example.com:${port}/`, {}, 1000)).rejects.toThrow(/resolves to 127.0.0.1/);
+    await expect(postWebhook(`http://127.0.0.1:${port}/`, {}, 1000)).rejects.toThrow(/public host/);
+    expect(requests).toBe(0);
+  });
+});
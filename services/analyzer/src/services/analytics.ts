@@ -0,0 +1,137 @@
+import { SafetyLabel } from '../engines/safetyEngine.js';
+import { AnalysisResult } from './bigqueryWriter.js';
+
+export type Severity = 'critical' | 'warning' | 'clean';
+
+// Least to most severe
+export const SEVERITIES: Severity[] = ['clean', 'warning', 'critical'];
+
+// Alert severity of an analyzed event. The analyzer's safety score is the
+// classifier's confidence in its label, so severity follows the label.
+export const CRITICAL_LABELS: SafetyLabel[] = ['TOXIC', 'JAILBREAK', 'PROMPT_INJECTION'];
+export const WARNING_LABELS: SafetyLabel[] = ['PII', 'RISKY'];
+export const DRIFT_WARNING_THRESHOLD = 0.4;
+
+/**
+ * Which analyzed events to aggregate. Times are ISO timestamps, `to` is
+ * exclusive.
+ */
+export interface AnalyticsFilter {
+  from: string;
+  to: string;
+  environment?: string;
+  modelName?: string;
+  tenantId?: string; // Set by the gateway for authenticated callers
+}
+
+/**
+ * One analyzed event as shown in activity feeds and alert lists, without
+ * the event's text
+ */
+export interface ActivityRecord {
+  requestId: string;
+  timestamp: string;
+  endpoint: string;
+  modelName: string;
+  environment: string | null;
+  tenantId: string | null;
+  tokensTotal: number | null;
+  driftScore: number;
+  baselineReady: boolean;
+  safetyLabel: string;
+  safetyScore: number;
+  isAnomaly: boolean;
+  zScore: number;
+  severity: Severity;
+}
+
+export interface AnalyticsSummary {
+  requests: number;
+  tokens: number;
+  anomalies: number;
+  severity: Record<Severity, number>;
+  safetyLabels: Record<string, number>;
+  avgDriftScore: number | null; // Over events whose endpoint had a baseline
+  // Values seen in the time range regardless of the environment and model
+  // filters, for filter pickers
+  environments: string[];
+  models: string[];
+}
+
+export function classifySeverity(record: Pick<ActivityRecord, 'safetyLabel' | 'driftScore' | 'isAnomaly'>): Severity {
+  if ((CRITICAL_LABELS as string[]).includes(record.safetyLabel)) {
+    return 'critical';
+  }
+  if ((WARNING_LABELS as string[]).includes(record.safetyLabel) || record.isAnomaly || record.driftScore > DRIFT_WARNING_THRESHOLD) {
+    return 'warning';
+  }
+  return 'clean';
+}
+
+export function activityRecord(result: AnalysisResult): ActivityRecord {
+  const { event, drift, safety, anomaly } = result;
+  const record = {
+    requestId: event.requestId,
+    timestamp: event.timestamp,
+    endpoint: event.endpoint,
+    modelName: event.modelName,
+    environment: event.environment || null,
+    tenantId: event.tenantId || null,
+    tokensTotal: event.tokensTotal,
+    driftScore: drift.driftScore,
+    baselineReady: drift.baselineReady,
+    safetyLabel: safety.safetyLabel,
+    safetyScore: safety.safetyScore,
+    isAnomaly: anomaly.isAnomaly,
+    zScore: anomaly.zScore,
+  };
+  return { ...record, severity: classifySeverity(record) };
+}
+
+/**
+ * Whether a record is in the filter's time range and tenant, and, unless
+ * `dimensions` is false, its environment and model
+ */
+export function matchesFilter(record: ActivityRecord, filter: AnalyticsFilter, dimensions = true): boolean {
+  const time = Date.parse(record.timestamp);
+  if (time < Date.parse(filter.from) || time >= Date.parse(filter.to)) {
+    return false;
+  }
+  if (filter.tenantId && record.tenantId !== filter.tenantId) {
+    return false;
+  }
+  if (!dimensions) {
+    return true;
+  }
+  return (!filter.environment || record.environment === filter.environment) &&
+    (!filter.modelName || record.modelName === filter.modelName);
+}
+
+/**
+ * Aggregate records the way the BigQuery summary query does
+ */
+export function summarize(records: ActivityRecord[], filter: AnalyticsFilter): AnalyticsSummary {
+  const inRange = records.filter(record => matchesFilter(record, filter, false));
+  const matching = inRange.filter(record => matchesFilter(record, filter));
+  const drift = matching.filter(record => record.baselineReady);
+
+  const summary: AnalyticsSummary = {
+    requests: matching.length,
+    tokens: matching.reduce((sum, record) => sum + (record.tokensTotal || 0), 0),
+    anomalies: matching.filter(record => record.isAnomaly).length,
+    severity: { critical: 0, warning: 0, clean: 0 },
+    safetyLabels: {},
+    avgDriftScore: drift.length > 0 ? drift.reduce((sum, record) => sum + record.driftScore, 0) / drift.length : null,
+    environments: distinct(inRange.map(record => record.environment)),
+    models: distinct(inRange.map(record => record.modelName)),
+  };
+  for (const record of matching) {
+    summary.severity[record.severity]++;
+    summary.safetyLabels[record.safetyLabel] = (summary.safetyLabels[record.safetyLabel] || 0) + 1;
+  }
+  return summary;
+}
+
+function distinct(values: Array<string | null>): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))].sort();
+}
@@ -1,4 +1,4 @@
-import { TelemetryEvent } from '../types/telemetry.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { BigQueryWriter } from './bigqueryWriter.js';
 import { Config } from '../config.js';
 
@@ -1,63 +1,178 @@
-import { BigQuery } from '@google-cloud/bigquery';
-import { TelemetryEvent } from '../types/telemetry.js';
+import { BigQuery, BigQueryTimestamp, Query, SimpleQueryRowsResponse } from '@google-cloud/bigquery';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { Config } from '../config.js';
+import { DriftResult } from '../engines/driftEngine.js';
+import { SafetyResult } from '../engines/safetyEngine.js';
+import { AnomalyResult } from '../engines/anomalyEngine.js';
+import { PatternDetectionResult } from '../engines/patternEngine.js';
+import { ShadowComparison } from '../engines/shadowComparator.js';
+import { RuleMatch } from '../engines/ruleEngine.js';
+import { InsertBuffer, InsertBufferStats, InsertRow } from './insertBuffer.js';
+import { ReplayResult } from './replayRunner.js';
+import {
+  ActivityRecord,
+  AnalyticsFilter,
+  AnalyticsSummary,
+  CRITICAL_LABELS,
+  DRIFT_WARNING_THRESHOLD,
+  Severity,
+  WARNING_LABELS,
+} from './analytics.js';
+import { ConcurrencyPool } from '../utils/concurrencyPool.js';
+
+/**
+ * Everything the engines concluded about one event, stored next to the raw
+ * event so scores can be audited and thresholds retrained from history
+ */
+export interface AnalysisResult {
+  event: TelemetryEvent;
+  analyzedAt: string;
+  drift: DriftResult & { processingTimeMs: number };
+  safety: SafetyResult & { processingTimeMs: number };
+  anomaly: AnomalyResult;
+  patterns: PatternDetectionResult[]; // Attack patterns active when the event was recorded
+  processingTimeMs: number; // From receipt until the results were ready, excluding storage
+  ruleMatches?: RuleMatch[]; // Detection rules the event matched; not stored
+}
 
 export class BigQueryWriter {
   private bigquery: BigQuery | null = null;
   private datasetId: string;
   private tableId: string;
   private baselineTableId: string;
+  private comparisonTableId: string;
+  private analysisTableId: string;
   private enabled: boolean;
+  private pool: ConcurrencyPool;
+  private buffer: InsertBuffer | null = null;
 
-  constructor(config: Config['bigquery']) {
+  constructor(config: Config['bigquery'], pool: ConcurrencyPool) {
     this.enabled = config.enabled && config.projectId !== '';
     this.datasetId = config.datasetId;
     this.tableId = config.tableId;
     this.baselineTableId = config.baselineTableId;
+    this.comparisonTableId = config.comparisonTableId;
+    this.analysisTableId = config.analysisTableId;
+    this.pool = pool;
 
     if (this.enabled) {
       this.bigquery = new BigQuery({
         projectId: config.projectId,
       });
+      // Events, analysis results and comparisons are written in batches
+      this.buffer = new InsertBuffer(config.buffer, async (tableId, rows) => {
+        await this.insert(tableId, rows, true);
+        console.log(`[BigQuery] Wrote ${rows.length} rows to ${this.datasetId}.${tableId}`);
+      });
     }
   }
 
+  /**
+   * Queue an event for the events table. Rows are written in batches, retried
+   * and spooled by the buffer, so this never fails.
+   */
   async writeEvent(event: TelemetryEvent): Promise<void> {
-    if (!this.enabled || !this.bigquery) {
+    if (!this.buffer) {
       console.log('[BigQuery] Stub mode - event not written:', event.requestId);
       return;
     }
 
-    try {
-      const rows = [
-        {
-          requestId: event.requestId,
-          timestamp: event.timestamp,
-          endpoint: event.endpoint,
-          method: event.method,
-          prompt: event.prompt,
-          promptLength: event.promptLength,
-          response: event.response,
-          responseLength: event.responseLength,
-          modelName: event.modelName,
-          modelVersion: event.modelVersion,
-          tokensIn: event.tokensIn,
-          tokensOut: event.tokensOut,
-          tokensTotal: event.tokensTotal,
-          latencyMs: event.latencyMs,
-          status: event.status,
-          errorMessage: event.errorMessage || null,
-          environment: event.environment || null,
-          service: event.service,
-        },
-      ];
+    this.buffer.add(this.tableId, {
+      insertId: event.requestId,
+      json: {
+        requestId: event.requestId,
+        timestamp: event.timestamp,
+        endpoint: event.endpoint,
+        method: event.method,
+        tenantId: event.tenantId || null,
+        appId: event.appId || null,
+        prompt: event.prompt,
+        promptLength: event.promptLength,
+        conversationId: event.conversationId || null,
+        turnIndex: event.turnIndex ?? null,
+        historyTurns: event.historyTurns ?? null,
+        historyTokens: event.historyTokens ?? null,
+        response: event.response,
+        responseLength: event.responseLength,
+        modelName: event.modelName,
+        modelVersion: event.modelVersion,
+        provider: event.provider || null,
+        routingPolicy: event.routingPolicy || null,
+        requestedModel: event.requestedModel || null,
+        fallbackCount: event.fallbackCount ?? null,
+        routingAttempts: event.routingAttempts ?? [],
+        tokensIn: event.tokensIn,
+        tokensOut: event.tokensOut,
+        tokensTotal: event.tokensTotal,
+        latencyMs: event.latencyMs,
+        streaming: event.streaming ?? false,
+        timeToFirstTokenMs: event.timeToFirstTokenMs ?? null,
+        cacheHit: event.cacheHit ?? null,
+        cacheSimilarity: event.cacheSimilarity ?? null,
+        cacheSavedTokens: event.cacheSavedTokens ?? null,
+        shadowRequestId: event.shadowRequestId || null,
+        shadowOf: event.shadowOf || null,
+        guardrailAction: event.guardrailAction || null,
+        guardrailLabels: event.guardrailLabels ?? [],
+        guardrailRedactions: event.guardrailRedactions ?? null,
+        outputFilterAction: event.outputFilterAction || null,
+        outputPiiCount: event.outputPiiCounts
+          ? Object.values(event.outputPiiCounts).reduce((sum, count) => sum + count, 0)
+          : null,
+        outputPiiCategories: Object.keys(event.outputPiiCounts || {}),
+        // embeddingInput is deliberately not stored
+        scrubMode: event.scrubMode || null,
+        status: event.status,
+        errorMessage: event.errorMessage || null,
+        environment: event.environment || null,
+        service: event.service,
+      },
+    });
+  }
 
-      await this.bigquery.dataset(this.datasetId).table(this.tableId).insert(rows);
-      console.log(`[BigQuery] Wrote event ${event.requestId} to ${this.datasetId}.${this.tableId}`);
-    } catch (error) {
-      console.error(`[BigQuery] Failed to write event ${event.requestId}:`, error);
-      // Don't throw - BigQuery failures shouldn't break processing
+  /**
+   * Write the engine outputs for an event to the analysis results table
+   */
+  async writeAnalysis(result: AnalysisResult): Promise<void> {
+    if (!this.buffer) {
+      console.log('[BigQuery] Stub mode - analysis not written:', result.event.requestId);
+      return;
     }
+
+    this.buffer.add(this.analysisTableId, { insertId: result.event.requestId, json: analysisRow(result) });
+  }
+
+  /**
+   * Write a primary/shadow comparison to BigQuery
+   */
+  async writeComparison(comparison: ShadowComparison): Promise<void> {
+    if (!this.buffer) {
+      console.log('[BigQuery] Stub mode - shadow comparison not written:', comparison.primaryRequestId);
+      return;
+    }
+
+    this.buffer.add(this.comparisonTableId, {
+      insertId: comparison.primaryRequestId,
+      json: {
+        primaryRequestId: comparison.primaryRequestId,
+        shadowRequestId: comparison.shadowRequestId,
+        timestamp: comparison.timestamp,
+        endpoint: comparison.endpoint,
+        tenantId: comparison.tenantId || null,
+        primaryModel: comparison.primaryModel,
+        shadowModel: comparison.shadowModel,
+        primaryProvider: comparison.primaryProvider || null,
+        shadowProvider: comparison.shadowProvider || null,
+        primaryStatus: comparison.primaryStatus,
+        shadowStatus: comparison.shadowStatus,
+        similarity: comparison.similarity ?? null,
+        primarySafetyLabel: comparison.primarySafetyLabel,
+        shadowSafetyLabel: comparison.shadowSafetyLabel,
+        labelDisagreement: comparison.labelDisagreement,
+        latencyDeltaMs: comparison.latencyDeltaMs,
+        costDeltaUsd: comparison.costDeltaUsd,
+      },
+    });
   }
 
   /**
@@ -82,7 +197,7 @@ export class BigQueryWriter {
         WHERE endpoint = @endpoint
       `;
 
-      await this.bigquery.query({
+      await this.query({
         query: deleteQuery,
         location: 'US',
         params: {
@@ -101,7 +216,7 @@ export class BigQueryWriter {
         },
       ];
 
-      await this.bigquery.dataset(this.datasetId).table(this.baselineTableId).insert(rows);
+      await this.insert(this.baselineTableId, rows);
       console.log(`[BigQuery] Persisted baseline for ${baseline.endpoint} to ${this.datasetId}.${this.baselineTableId}`);
     } catch (error) {
       console.error(`[BigQuery] Failed to write baseline for ${baseline.endpoint}:`, error);
@@ -131,7 +246,7 @@ export class BigQueryWriter {
         ORDER BY lastUpdated DESC
       `;
 
-      const [rows] = await this.bigquery.query({ query, location: 'US' });
+      const [rows] = await this.query({ query, location: 'US' });
       
       const baselines = rows.map((row: any) => ({
         endpoint: row.endpoint,
@@ -149,5 +264,378 @@ export class BigQueryWriter {
       return [];
     }
   }
+
+  /**
+   * Load raw events from the events table for a replay, oldest first. Rows
+   * come back as stored; the caller upcasts and validates them.
+   */
+  async loadEvents(filter: { since?: string; until?: string; endpoint?: string; limit?: number }): Promise<Record<string, unknown>[]> {
+    if (!this.enabled || !this.bigquery) {
+      throw new Error('BigQuery is disabled - set GOOGLE_CLOUD_PROJECT_ID and BIGQUERY_ENABLED');
+    }
+
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (filter.since) {
+      conditions.push('timestamp >= TIMESTAMP(@since)');
+      params.since = filter.since;
+    }
+    if (filter.until) {
+      conditions.push('timestamp < TIMESTAMP(@until)');
+      params.until = filter.until;
+    }
+    if (filter.endpoint) {
+      conditions.push('endpoint = @endpoint');
+      params.endpoint = filter.endpoint;
+    }
+
+    const [rows] = await this.query({
+      query: `
+        SELECT *
+        FROM \`${this.datasetId}.${this.tableId}\`
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY timestamp
+        ${filter.limit ? `LIMIT ${Math.floor(filter.limit)}` : ''}
+      `,
+      location: 'US',
+      params,
+    });
+    return rows.map(eventFromRow);
+  }
+
+  /**
+   * Load the stored analysis of an event, as written by writeAnalysis, or
+   * null if there is none (or BigQuery is disabled)
+   */
+  async loadAnalysis(requestId: string): Promise<Record<string, unknown> | null> {
+    if (!this.enabled || !this.bigquery) {
+      return null;
+    }
+
+    const [rows] = await this.query({
+      query: `
+        SELECT *
+        FROM \`${this.datasetId}.${this.analysisTableId}\`
+        WHERE requestId = @requestId
+        ORDER BY analyzedAt DESC
+        LIMIT 1
+      `,
+      location: 'US',
+      params: { requestId },
+    });
+    return rows.length > 0 ? unwrapTimestamps(rows[0]) : null;
+  }
+
+  /**
+   * Load stored analysis results in a time range with their raw events, newest
+   * first, for rule backtests. Returns null if BigQuery is disabled; the
+   * caller upcasts and validates the events.
+   */
+  async loadAnalysisHistory(filter: Pick<AnalyticsFilter, 'from' | 'to' | 'tenantId'>, limit: number): Promise<Array<{
+    event: Record<string, unknown>;
+    analysis: Record<string, unknown>;
+  }> | null> {
+    if (!this.enabled || !this.bigquery) {
+      return null;
+    }
+
+    // Redelivered events may have been analyzed (and stored) more than once
+    const [rows] = await this.query({
+      query: `
+        SELECT e AS event, a AS analysis
+        FROM \`${this.datasetId}.${this.analysisTableId}\` a
+        JOIN \`${this.datasetId}.${this.tableId}\` e
+          ON e.requestId = a.requestId
+          AND e.timestamp >= TIMESTAMP(@from) AND e.timestamp < TIMESTAMP(@to)
+        WHERE a.timestamp >= TIMESTAMP(@from) AND a.timestamp < TIMESTAMP(@to)
+          ${filter.tenantId ? 'AND a.tenantId = @tenantId' : ''}
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY a.requestId ORDER BY a.analyzedAt DESC) = 1
+        ORDER BY a.timestamp DESC
+        LIMIT ${Math.floor(limit)}
+      `,
+      location: 'US',
+      params: { from: filter.from, to: filter.to, ...(filter.tenantId && { tenantId: filter.tenantId }) },
+    });
+    return rows.map(row => ({ event: eventFromRow(row.event), analysis: unwrapTimestamps(row.analysis) }));
+  }
+
+  /**
+   * Aggregate stored analysis results for the dashboard, or null if BigQuery
+   * is disabled
+   */
+  async querySummary(filter: AnalyticsFilter): Promise<AnalyticsSummary | null> {
+    if (!this.enabled || !this.bigquery) {
+      return null;
+    }
+
+    const { sql, params } = this.activitySql(filter);
+    const [rows] = await this.query({
+      query: `
+        WITH ${sql}
+        SELECT
+          COUNT(*) AS requests,
+          IFNULL(SUM(tokensTotal), 0) AS tokens,
+          COUNTIF(isAnomaly) AS anomalies,
+          COUNTIF(severity = 'critical') AS critical,
+          COUNTIF(severity = 'warning') AS warning,
+          COUNTIF(severity = 'clean') AS clean,
+          AVG(IF(baselineReady, driftScore, NULL)) AS avgDriftScore,
+          ARRAY(SELECT AS STRUCT safetyLabel, COUNT(*) AS count FROM matching GROUP BY safetyLabel) AS safetyLabels,
+          ARRAY(SELECT DISTINCT environment FROM activity WHERE environment IS NOT NULL ORDER BY environment) AS environments,
+          ARRAY(SELECT DISTINCT modelName FROM activity WHERE modelName IS NOT NULL ORDER BY modelName) AS models
+        FROM matching
+      `,
+      location: 'US',
+      params,
+    });
+
+    const row = rows[0];
+    return {
+      requests: row.requests,
+      tokens: row.tokens,
+      anomalies: row.anomalies,
+      severity: { critical: row.critical, warning: row.warning, clean: row.clean },
+      safetyLabels: Object.fromEntries(row.safetyLabels.map((entry: { safetyLabel: string; count: number }) => [entry.safetyLabel, entry.count])),
+      avgDriftScore: row.avgDriftScore,
+      environments: row.environments,
+      models: row.models,
+    };
+  }
+
+  /**
+   * Stored analysis results matching a filter, newest first, or null if
+   * BigQuery is disabled
+   */
+  async queryActivity(filter: AnalyticsFilter, options: { severity?: Severity[]; limit: number }): Promise<ActivityRecord[] | null> {
+    if (!this.enabled || !this.bigquery) {
+      return null;
+    }
+
+    const { sql, params } = this.activitySql(filter);
+    const [rows] = await this.query({
+      query: `
+        WITH ${sql}
+        SELECT *
+        FROM matching
+        ${options.severity ? 'WHERE severity IN UNNEST(@severity)' : ''}
+        ORDER BY timestamp DESC
+        LIMIT ${Math.floor(options.limit)}
+      `,
+      location: 'US',
+      params: { ...params, ...(options.severity && { severity: options.severity }) },
+    });
+    return rows.map(row => unwrapTimestamps(row) as unknown as ActivityRecord);
+  }
+
+  /**
+   * Common table expressions for analytics queries: `activity` has the
+   * analysis results in the time range and tenant, with the event's
+   * environment and tokens and a severity computed as in classifySeverity;
+   * `matching` narrows it to the environment and model.
+   */
+  private activitySql(filter: AnalyticsFilter): { sql: string; params: Record<string, unknown> } {
+    const params: Record<string, unknown> = {
+      from: filter.from,
+      to: filter.to,
+      criticalLabels: CRITICAL_LABELS,
+      warningLabels: WARNING_LABELS,
+      driftWarning: DRIFT_WARNING_THRESHOLD,
+    };
+    const dimensions: string[] = [];
+    if (filter.tenantId) {
+      params.tenantId = filter.tenantId;
+    }
+    if (filter.environment) {
+      dimensions.push('environment = @environment');
+      params.environment = filter.environment;
+    }
+    if (filter.modelName) {
+      dimensions.push('modelName = @modelName');
+      params.modelName = filter.modelName;
+    }
+
+    const sql = `
+      activity AS (
+        SELECT
+          a.requestId, a.timestamp, a.endpoint, a.modelName, e.environment, a.tenantId, e.tokensTotal,
+          a.driftScore, a.baselineReady, a.safetyLabel, a.safetyScore, a.isAnomaly, a.zScore,
+          CASE
+            WHEN a.safetyLabel IN UNNEST(@criticalLabels) THEN 'critical'
+            WHEN a.safetyLabel IN UNNEST(@warningLabels) OR a.isAnomaly OR a.driftScore > @driftWarning THEN 'warning'
+            ELSE 'clean'
+          END AS severity
+        FROM \`${this.datasetId}.${this.analysisTableId}\` a
+        LEFT JOIN \`${this.datasetId}.${this.tableId}\` e
+          ON e.requestId = a.requestId
+          AND e.timestamp >= TIMESTAMP(@from) AND e.timestamp < TIMESTAMP(@to)
+        WHERE a.timestamp >= TIMESTAMP(@from) AND a.timestamp < TIMESTAMP(@to)
+          ${filter.tenantId ? 'AND a.tenantId = @tenantId' : ''}
+      ),
+      matching AS (
+        SELECT * FROM activity
+        ${dimensions.length > 0 ? `WHERE ${dimensions.join(' AND ')}` : ''}
+      )
+    `;
+    return { sql, params };
+  }
+
+  /**
+   * Write replay results to a table of their own, never the live tables
+   */
+  async writeReplayResults(tableId: string, runId: string, label: string | undefined, results: ReplayResult[]): Promise<void> {
+    if (!this.enabled || !this.bigquery) {
+      throw new Error('BigQuery is disabled - set GOOGLE_CLOUD_PROJECT_ID and BIGQUERY_ENABLED');
+    }
+    if (results.length === 0) {
+      return;
+    }
+
+    const rows: InsertRow[] = results.map(result => ({
+      insertId: `${runId}:${result.requestId}`,
+      json: {
+        runId,
+        runLabel: label || null,
+        ...result,
+        tenantId: result.tenantId || null,
+      },
+    }));
+    await this.insert(tableId, rows, true);
+    console.log(`[BigQuery] Wrote ${rows.length} replay results to ${this.datasetId}.${tableId}`);
+  }
+
+  /**
+   * Flush buffered rows; call before exiting. Rows BigQuery refuses are
+   * spooled and written on the next start.
+   */
+  async close(): Promise<void> {
+    await this.buffer?.close();
+  }
+
+  /**
+   * Insert buffer depth and row counts, or null when BigQuery is disabled
+   */
+  bufferStats(): InsertBufferStats | null {
+    return this.buffer?.stats() ?? null;
+  }
+
+  // All BigQuery requests go through the pool to cap how many run at once.
+  // Callers check that BigQuery is enabled first. Raw rows carry an insertId.
+  private insert(tableId: string, rows: object[], raw = false): Promise<unknown> {
+    return this.pool.run(() => this.bigquery!.dataset(this.datasetId).table(tableId).insert(rows, { raw }));
+  }
+
+  private query(options: Query): Promise<SimpleQueryRowsResponse> {
+    return this.pool.run(() => this.bigquery!.query(options));
+  }
+
+}
+
+/**
+ * An analysis result as stored in the analysis results table, without the
+ * event's text
+ */
+export function analysisRow(result: AnalysisResult): Record<string, unknown> {
+  const { event, drift, safety, anomaly } = result;
+  return {
+    requestId: event.requestId,
+    timestamp: event.timestamp,
+    analyzedAt: result.analyzedAt,
+    endpoint: event.endpoint,
+    modelName: event.modelName,
+    tenantId: event.tenantId || null,
+    driftScore: drift.driftScore,
+    similarityScore: drift.similarityScore,
+    baselineReady: drift.baselineReady,
+    driftProcessingTimeMs: drift.processingTimeMs,
+    safetyLabel: safety.safetyLabel,
+    safetyScore: safety.safetyScore,
+    isHighRisk: safety.isHighRisk,
+    safetyDetails: safety.details || null,
+    safetyProcessingTimeMs: safety.processingTimeMs,
+    isAnomaly: anomaly.isAnomaly,
+    zScore: anomaly.zScore,
+    anomalyMean: anomaly.mean,
+    anomalyStdDev: anomaly.stdDev,
+    anomalyThreshold: anomaly.threshold,
+    patterns: result.patterns.map(pattern => ({
+      patternType: pattern.patternType || null,
+      confidence: pattern.confidence,
+      affectedRequests: pattern.affectedRequests,
+      firstSeen: pattern.firstSeen || null,
+      lastSeen: pattern.lastSeen || null,
+    })),
+    processingTimeMs: result.processingTimeMs,
+  };
 }
 
+/**
+ * The inverse of analysisRow, given the event the row was stored for.
+ * Pattern request IDs and details aren't stored, so they come back empty.
+ */
+export function analysisResultFromRow(event: TelemetryEvent, row: Record<string, any>): AnalysisResult {
+  return {
+    event,
+    analyzedAt: row.analyzedAt,
+    drift: {
+      driftScore: row.driftScore,
+      similarityScore: row.similarityScore,
+      baselineReady: row.baselineReady,
+      processingTimeMs: row.driftProcessingTimeMs,
+    },
+    safety: {
+      safetyLabel: row.safetyLabel,
+      safetyScore: row.safetyScore,
+      isHighRisk: row.isHighRisk,
+      ...(row.safetyDetails && { details: row.safetyDetails }),
+      processingTimeMs: row.safetyProcessingTimeMs,
+    },
+    anomaly: {
+      isAnomaly: row.isAnomaly,
+      zScore: row.zScore,
+      mean: row.anomalyMean,
+      stdDev: row.anomalyStdDev,
+      threshold: row.anomalyThreshold,
+    },
+    patterns: (row.patterns ?? []).map((pattern: Record<string, any>) => ({
+      patternDetected: true,
+      ...(pattern.patternType && { patternType: pattern.patternType }),
+      confidence: pattern.confidence,
+      affectedRequests: pattern.affectedRequests,
+      timeWindow: 0,
+      details: '',
+      requestIds: [],
+      firstSeen: pattern.firstSeen ?? '',
+      lastSeen: pattern.lastSeen ?? '',
+    })),
+    processingTimeMs: row.processingTimeMs,
+  };
+}
+
+// Drop NULL columns (absent optional fields) and unwrap TIMESTAMP values
+function eventFromRow(row: Record<string, any>): Record<string, unknown> {
+  const event: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    event[key] = key === 'timestamp' && typeof value === 'object' ? value.value : value;
+  }
+  return event;
+}
+
+// TIMESTAMP values, also inside REPEATED RECORDs, as ISO strings
+function unwrapTimestamps(row: Record<string, any>): Record<string, unknown> {
+  const unwrap = (value: unknown): unknown => {
+    if (value instanceof BigQueryTimestamp) {
+      return value.value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(unwrap);
+    }
+    if (value && typeof value === 'object') {
+      return unwrapTimestamps(value as Record<string, any>);
+    }
+    return value;
+  };
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, unwrap(value)]));
+}
@@ -1,21 +1,28 @@
 import { v1, client } from '@datadog/datadog-api-client';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
 import { Config } from '../config.js';
-import { TelemetryEvent } from '../types/telemetry.js';
 import { DriftResult } from '../engines/driftEngine.js';
 import { SafetyResult } from '../engines/safetyEngine.js';
 import { AnomalyResult } from '../engines/anomalyEngine.js';
 import { CostOptimizer } from '../engines/costOptimizer.js';
 import { PatternDetectionResult } from '../engines/patternEngine.js';
+import { ShadowComparison } from '../engines/shadowComparator.js';
+import { DetectionRule } from '../engines/ruleEngine.js';
+import { ConcurrencyPool, PoolStats } from '../utils/concurrencyPool.js';
+import { InsertBufferStats } from './insertBuffer.js';
 
 export class DatadogClient {
   private metricsApi: v1.MetricsApi;
   private eventsApi: v1.EventsApi;
   private enabled: boolean;
   private environment: string;
+  private pool: ConcurrencyPool;
+  private lastBufferStats: InsertBufferStats | null = null; // To turn cumulative row counts into counts per interval
 
-  constructor(config: Config['datadog'], environment: string) {
+  constructor(config: Config['datadog'], environment: string, pool: ConcurrencyPool) {
     this.enabled = config.enabled && !!config.apiKey;
     this.environment = environment;
+    this.pool = pool;
 
     if (this.enabled) {
       const configuration = client.createConfiguration({
@@ -98,11 +105,6 @@ export class DatadogClient {
           tags: [...tags, `baseline_ready:${driftResult.baselineReady}`],
         },
         // Safety metrics
-        {
-          metric: 'llm.safety.score',
-          points: [[timestamp, safetyResult.safetyScore]],
-          tags: [...tags, `safety_label:${safetyResult.safetyLabel}`],
-        },
         {
           metric: 'llm.safety.event.count',
           points: [[timestamp, 1]],
@@ -116,6 +118,15 @@ export class DatadogClient {
         },
       ];
 
+      // Scrubbed events weren't classified, so they have no score to average in
+      if (safetyResult.safetyLabel !== 'SKIPPED') {
+        metrics.push({
+          metric: 'llm.safety.score',
+          points: [[timestamp, safetyResult.safetyScore]],
+          tags: [...tags, `safety_label:${safetyResult.safetyLabel}`],
+        });
+      }
+
       // Add processing time metrics if available
       if ('processingTimeMs' in driftResult && typeof driftResult.processingTimeMs === 'number') {
         metrics.push({
@@ -133,6 +144,26 @@ export class DatadogClient {
         });
       }
 
+      // Time-to-first-token is only reported by streaming requests
+      if (typeof event.timeToFirstTokenMs === 'number') {
+        metrics.push({
+          metric: 'llm.time_to_first_token_ms',
+          points: [[timestamp, event.timeToFirstTokenMs]],
+          tags,
+        });
+      }
+
+      // Output leaks (PII in the model response) are tracked apart from input-side safety labels
+      for (const [category, count] of Object.entries(event.outputPiiCounts || {})) {
+        if (count > 0) {
+          metrics.push({
+            metric: 'llm.output.pii.count',
+            points: [[timestamp, count]],
+            tags: [...tags, `pii_category:${category}`, `output_filter:${event.outputFilterAction || 'none'}`],
+          });
+        }
+      }
+
       // Add error count if status is error
       if (event.status === 'error') {
         metrics.push({
@@ -169,7 +200,7 @@ export class DatadogClient {
         });
       }
 
-      await this.metricsApi.submitMetrics({
+      await this.submitMetrics({
         body: {
           series: metrics,
         },
@@ -238,16 +269,23 @@ export class DatadogClient {
         });
       }
 
-      // Emit cache hit rate if available
+      // Emit the gateway response cache hit rate if the cache is enabled
       if (analysis.cacheHitRate !== undefined) {
         metrics.push({
           metric: 'llm.cache.hit_rate',
           points: [[timestamp, analysis.cacheHitRate]],
-          tags,
+          tags: [...tags, 'cache:response'],
+        });
+      }
+      if (event.cacheHit) {
+        metrics.push({
+          metric: 'llm.cache.saved_tokens',
+          points: [[timestamp, event.cacheSavedTokens || 0]],
+          tags: [...tags, 'cache:response'],
         });
       }
 
-      await this.metricsApi.submitMetrics({
+      await this.submitMetrics({
         body: {
           series: metrics,
         },
@@ -261,7 +299,8 @@ export class DatadogClient {
   }
 
   /**
-   * Emit cache performance metrics
+   * Emit embedding cache performance metrics (tagged cache:embeddings to keep
+   * them apart from the gateway response cache)
    */
   async emitCacheMetrics(
     cacheStats: { size: number; hits: number; misses: number; hitRate: number }
@@ -272,7 +311,7 @@ export class DatadogClient {
 
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const tags = [`env:${this.environment}`, 'service:sentinel-analyzer'];
+      const tags = [`env:${this.environment}`, 'service:sentinel-analyzer', 'cache:embeddings'];
 
       const metrics: v1.Series[] = [
         {
@@ -297,7 +336,7 @@ export class DatadogClient {
         },
       ];
 
-      await this.metricsApi.submitMetrics({
+      await this.submitMetrics({
         body: {
           series: metrics,
         },
@@ -310,6 +349,194 @@ export class DatadogClient {
     }
   }
 
+  /**
+   * Emit consumer queue depth and dependency pool saturation
+   */
+  async emitFlowControlMetrics(flow: { inFlight: number; maxInFlight: number; pools: PoolStats[] }): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const tags = [`env:${this.environment}`, 'service:sentinel-analyzer'];
+
+      const metrics: v1.Series[] = [
+        {
+          metric: 'llm.analyzer.messages.in_flight',
+          points: [[timestamp, flow.inFlight]],
+          tags,
+        },
+        {
+          metric: 'llm.analyzer.messages.saturation',
+          points: [[timestamp, flow.inFlight / flow.maxInFlight]],
+          tags,
+        },
+      ];
+      for (const pool of flow.pools) {
+        const poolTags = [...tags, `pool:${pool.name}`];
+        metrics.push(
+          {
+            metric: 'llm.analyzer.pool.active',
+            points: [[timestamp, pool.active]],
+            tags: poolTags,
+          },
+          {
+            metric: 'llm.analyzer.pool.queued',
+            points: [[timestamp, pool.queued]],
+            tags: poolTags,
+          },
+          {
+            metric: 'llm.analyzer.pool.saturation',
+            points: [[timestamp, pool.saturation]],
+            tags: poolTags,
+          }
+        );
+      }
+
+      await this.submitMetrics({
+        body: {
+          series: metrics,
+        },
+      });
+    } catch (error: any) {
+      console.error('[Datadog] Failed to emit flow control metrics:', error.message);
+      // Don't throw - metrics failures shouldn't break processing
+    }
+  }
+
+  /**
+   * Emit BigQuery insert buffer depth and the rows written, spooled, replayed
+   * and dropped since the last call
+   */
+  async emitBigQueryBufferMetrics(stats: InsertBufferStats): Promise<void> {
+    const last = this.lastBufferStats ?? { buffered: 0, written: 0, retried: 0, spooled: 0, replayed: 0, dropped: 0 };
+    this.lastBufferStats = stats;
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const tags = [`env:${this.environment}`, 'service:sentinel-analyzer'];
+      const count = (metric: string, value: number): v1.Series => ({
+        metric,
+        type: 'count',
+        points: [[timestamp, value]],
+        tags,
+      });
+
+      await this.submitMetrics({
+        body: {
+          series: [
+            {
+              metric: 'llm.analyzer.bigquery.buffered_rows',
+              points: [[timestamp, stats.buffered]],
+              tags,
+            },
+            count('llm.analyzer.bigquery.rows_written', stats.written - last.written),
+            count('llm.analyzer.bigquery.insert_retries', stats.retried - last.retried),
+            count('llm.analyzer.bigquery.rows_spooled', stats.spooled - last.spooled),
+            count('llm.analyzer.bigquery.rows_replayed', stats.replayed - last.replayed),
+            count('llm.analyzer.bigquery.rows_dropped', stats.dropped - last.dropped),
+          ],
+        },
+      });
+    } catch (error: any) {
+      console.error('[Datadog] Failed to emit BigQuery buffer metrics:', error.message);
+      // Don't throw - metrics failures shouldn't break processing
+    }
+  }
+
+  /**
+   * Emit the comparison of a primary response with its shadow (candidate model)
+   */
+  async emitShadowComparison(comparison: ShadowComparison): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const timestamp = Math.floor(new Date(comparison.timestamp).getTime() / 1000);
+      const tags = [
+        `env:${this.environment}`,
+        'service:sentinel-analyzer',
+        `endpoint:${comparison.endpoint}`,
+        `model:${comparison.primaryModel}`,
+        `shadow_model:${comparison.shadowModel}`,
+        `shadow_status:${comparison.shadowStatus}`,
+        `tenant:${comparison.tenantId || 'none'}`,
+      ];
+
+      const metrics: v1.Series[] = [
+        {
+          metric: 'llm.shadow.comparisons',
+          points: [[timestamp, 1]],
+          tags,
+        },
+        {
+          metric: 'llm.shadow.label_disagreement',
+          points: [[timestamp, comparison.labelDisagreement ? 1 : 0]],
+          tags: [...tags, `safety_label:${comparison.primarySafetyLabel}`, `shadow_safety_label:${comparison.shadowSafetyLabel}`],
+        },
+        {
+          metric: 'llm.shadow.latency_delta_ms',
+          points: [[timestamp, comparison.latencyDeltaMs]],
+          tags,
+        },
+        {
+          metric: 'llm.shadow.cost_delta_usd',
+          points: [[timestamp, comparison.costDeltaUsd]],
+          tags,
+        },
+      ];
+      if (comparison.similarity !== undefined) {
+        metrics.push({
+          metric: 'llm.shadow.similarity',
+          points: [[timestamp, comparison.similarity]],
+          tags,
+        });
+      }
+
+      await this.submitMetrics({
+        body: {
+          series: metrics,
+        },
+      });
+
+      console.log(`[Datadog] Emitted ${metrics.length} shadow comparison metrics for ${comparison.primaryRequestId}`);
+    } catch (error: any) {
+      console.error(`[Datadog] Failed to emit shadow comparison for ${comparison.primaryRequestId}:`, error.message);
+      // Don't throw - metrics failures shouldn't break processing
+    }
+  }
+
+  /**
+   * Count a telemetry message forwarded to the dead-letter topic
+   */
+  async emitDeadLetter(reason: string, stage: string): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.submitMetrics({
+        body: {
+          series: [
+            {
+              metric: 'llm.telemetry.dead_lettered',
+              points: [[Math.floor(Date.now() / 1000), 1]],
+              tags: [`env:${this.environment}`, 'service:sentinel-analyzer', `reason:${reason}`, `stage:${stage}`],
+            },
+          ],
+        },
+      });
+    } catch (error: any) {
+      console.error('[Datadog] Failed to emit dead-letter metric:', error.message);
+      // Don't throw - metrics failures shouldn't break processing
+    }
+  }
+
   async emitSafetyEvent(event: TelemetryEvent, safetyResult: SafetyResult): Promise<void> {
     if (!this.enabled || !safetyResult.isHighRisk) {
       return;
@@ -329,9 +556,10 @@ export class DatadogClient {
 
 **Model:** ${event.modelName} (${event.modelVersion})
 **Endpoint:** ${event.endpoint}
+**Conversation:** ${event.conversationId ? `${event.conversationId} (turn ${(event.turnIndex ?? 0) + 1})` : 'n/a'}
 **Environment:** ${this.environment}`;
 
-      await this.eventsApi.createEvent({
+      await this.createEvent({
         body: {
           title,
           text,
@@ -375,7 +603,7 @@ export class DatadogClient {
 
 ⚠️ **Action Required:** Review affected requests and consider rate limiting or blocking suspicious sources.`;
 
-      await this.eventsApi.createEvent({
+      await this.createEvent({
         body: {
           title,
           text,
@@ -397,6 +625,42 @@ export class DatadogClient {
     }
   }
 
+  async emitRuleEvent(event: TelemetryEvent, rule: DetectionRule, alertType: 'error' | 'warning' | 'info'): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const title = `Detection Rule Matched: ${rule.name}`;
+      const text = `**Rule:** ${rule.name} (${rule.id})
+**Expression:** \`${rule.expression}\`
+
+**Request ID:** ${event.requestId}
+**Model:** ${event.modelName} (${event.modelVersion})
+**Endpoint:** ${event.endpoint}
+**Tenant:** ${event.tenantId || 'n/a'}
+**Conversation:** ${event.conversationId ? `${event.conversationId} (turn ${(event.turnIndex ?? 0) + 1})` : 'n/a'}
+**Environment:** ${this.environment}`;
+
+      await this.createEvent({
+        body: {
+          title,
+          text,
+          alertType,
+          tags: [
+            ...this.buildTags(event, { safetyLabel: 'CLEAN', safetyScore: 1.0, isHighRisk: false }).filter(tag => !tag.startsWith('safety_label:')),
+            `rule_id:${rule.id}`,
+          ],
+          sourceTypeName: 'sentinel-rule',
+        },
+      });
+
+      console.log(`[Datadog] Emitted rule event for ${event.requestId}: ${rule.name}`);
+    } catch (error: any) {
+      console.error(`[Datadog] Failed to emit rule event for ${event.requestId}:`, error.message);
+    }
+  }
+
   private buildTags(event: TelemetryEvent, safetyResult: SafetyResult): string[] {
     return [
       `env:${this.environment}`,
@@ -405,9 +669,26 @@ export class DatadogClient {
       `method:${event.method}`,
       `model:${event.modelName}`,
       `model_version:${event.modelVersion}`,
+      `provider:${event.provider || 'vertex'}`,
+      `routing_policy:${event.routingPolicy || 'none'}`,
+      `model_fallback:${(event.fallbackCount ?? 0) > 0}`,
+      `tenant:${event.tenantId || 'none'}`,
       `status:${event.status}`,
+      `guardrail_action:${event.guardrailAction || 'none'}`,
       `safety_label:${safetyResult.safetyLabel}`,
+      `multi_turn:${(event.turnIndex ?? 0) > 0}`,
     ];
   }
+
+  // Every Datadog request goes through the pool, so a burst of events can't
+  // open an unbounded number of API calls
+  private submitMetrics(params: v1.MetricsApiSubmitMetricsRequest): Promise<v1.IntakePayloadAccepted> {
+    return this.pool.run(() => this.metricsApi.submitMetrics(params));
+  }
+
+  private createEvent(params: v1.EventsApiCreateEventRequest): Promise<v1.EventCreateResponse> {
+    return this.pool.run(() => this.eventsApi.createEvent(params));
+  }
+
 }
 
@@ -0,0 +1,223 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BigQuery } from '@google-cloud/bigquery';
+import { Config } from '../config.js';
+
+export type DeadLetterReason =
+  | 'invalid_json'
+  | 'unsupported_schema_version'
+  | 'invalid_event'
+  | 'max_attempts_exceeded';
+
+/** Where processing of a message stopped ('metrics' only in records from before metrics followed storage) */
+export type ProcessingStage = 'validation' | 'drift' | 'safety' | 'analysis' | 'metrics' | 'storage';
+
+/**
+ * A message that can never be processed, however often it is redelivered
+ */
+export interface InvalidMessage {
+  reason: DeadLetterReason;
+  errors: string[];
+}
+
+/**
+ * A quarantined message: the original payload plus why and where it failed
+ */
+export interface DeadLetterRecord {
+  deadLetterId: string;
+  quarantinedAt: string;
+  messageId: string;
+  publishTime: string;
+  deliveryAttempts: number;
+  reason: DeadLetterReason;
+  stage: ProcessingStage;
+  errors: string[];
+  requestId?: string; // When the payload could be parsed
+  payload: string; // Original message data, replayed as is
+  replayedAt?: string;
+}
+
+export interface DeadLetterQuery {
+  ids?: string[];
+  reason?: string;
+  stage?: string;
+  since?: string; // ISO 8601; quarantined at or after
+  includeReplayed?: boolean;
+  limit?: number;
+}
+
+/**
+ * Storage for quarantined messages. write() throws when the record could not
+ * be stored, so the consumer nacks the message instead of losing it.
+ */
+export interface DeadLetterSink {
+  readonly name: string;
+  write(record: DeadLetterRecord): Promise<void>;
+  list(query: DeadLetterQuery): Promise<DeadLetterRecord[]>;
+  markReplayed(ids: string[], replayedAt: string): Promise<void>;
+}
+
+/**
+ * One JSON record per line in a local file. Suited to development and
+ * single-instance deployments with a persistent volume.
+ */
+export class JsonlDeadLetterSink implements DeadLetterSink {
+  readonly name = 'jsonl';
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async write(record: DeadLetterRecord): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  async list(query: DeadLetterQuery): Promise<DeadLetterRecord[]> {
+    const matching = (await this.readAll()).filter(record => matches(record, query));
+    return query.limit ? matching.slice(0, query.limit) : matching;
+  }
+
+  async markReplayed(ids: string[], replayedAt: string): Promise<void> {
+    const replayed = new Set(ids);
+    const records = (await this.readAll()).map(record =>
+      replayed.has(record.deadLetterId) ? { ...record, replayedAt } : record
+    );
+
+    // Write a copy and swap it in so a crash never leaves a truncated file
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, records.map(record => JSON.stringify(record) + '\n').join(''), 'utf8');
+    await rename(temporary, this.path);
+  }
+
+  private async readAll(): Promise<DeadLetterRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: DeadLetterRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        console.warn(`[DeadLetter] Skipping unreadable line in ${this.path}`);
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * A BigQuery table (dead_letters by default), queryable next to the events
+ */
+export class BigQueryDeadLetterSink implements DeadLetterSink {
+  readonly name = 'bigquery';
+  private bigquery: BigQuery;
+  private datasetId: string;
+  private tableId: string;
+
+  constructor(config: Config['bigquery']) {
+    this.bigquery = new BigQuery({ projectId: config.projectId });
+    this.datasetId = config.datasetId;
+    this.tableId = config.deadLetterTableId;
+  }
+
+  async write(record: DeadLetterRecord): Promise<void> {
+    await this.bigquery.dataset(this.datasetId).table(this.tableId).insert([
+      {
+        ...record,
+        requestId: record.requestId || null,
+        replayedAt: record.replayedAt || null,
+      },
+    ]);
+  }
+
+  async list(query: DeadLetterQuery): Promise<DeadLetterRecord[]> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (query.ids) {
+      conditions.push('deadLetterId IN UNNEST(@ids)');
+      params.ids = query.ids;
+    }
+    if (query.reason) {
+      conditions.push('reason = @reason');
+      params.reason = query.reason;
+    }
+    if (query.stage) {
+      conditions.push('stage = @stage');
+      params.stage = query.stage;
+    }
+    if (query.since) {
+      conditions.push('quarantinedAt >= TIMESTAMP(@since)');
+      params.since = query.since;
+    }
+    if (!query.includeReplayed) {
+      conditions.push('replayedAt IS NULL');
+    }
+
+    const [rows] = await this.bigquery.query({
+      query: `
+        SELECT *
+        FROM \`${this.datasetId}.${this.tableId}\`
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY quarantinedAt
+        ${query.limit ? `LIMIT ${Math.floor(query.limit)}` : ''}
+      `,
+      location: 'US',
+      params,
+    });
+
+    return rows.map((row: any) => ({
+      ...row,
+      quarantinedAt: timestampValue(row.quarantinedAt),
+      publishTime: timestampValue(row.publishTime),
+      requestId: row.requestId || undefined,
+      replayedAt: row.replayedAt ? timestampValue(row.replayedAt) : undefined,
+    }));
+  }
+
+  /**
+   * Rows still in BigQuery's streaming buffer (recently quarantined) can't be
+   * updated yet; BigQuery rejects the statement and the caller reports it.
+   */
+  async markReplayed(ids: string[], replayedAt: string): Promise<void> {
+    await this.bigquery.query({
+      query: `
+        UPDATE \`${this.datasetId}.${this.tableId}\`
+        SET replayedAt = TIMESTAMP(@replayedAt)
+        WHERE deadLetterId IN UNNEST(@ids)
+      `,
+      location: 'US',
+      params: { ids, replayedAt },
+    });
+  }
+}
+
+export function createDeadLetterSink(config: Config): DeadLetterSink {
+  return config.deadLetter.sink === 'bigquery'
+    ? new BigQueryDeadLetterSink(config.bigquery)
+    : new JsonlDeadLetterSink(config.deadLetter.filePath);
+}
+
+function matches(record: DeadLetterRecord, query: DeadLetterQuery): boolean {
+  return (!query.ids || query.ids.includes(record.deadLetterId))
+    && (!query.reason || record.reason === query.reason)
+    && (!query.stage || record.stage === query.stage)
+    && (!query.since || record.quarantinedAt >= new Date(query.since).toISOString())
+    && (query.includeReplayed || !record.replayedAt);
+}
+
+// BigQuery returns TIMESTAMP columns as { value: string }
+function timestampValue(value: any): string {
+  return typeof value === 'string' ? value : value?.value;
+}
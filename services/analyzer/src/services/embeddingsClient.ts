@@ -2,6 +2,7 @@ import { VertexAI } from '@google-cloud/vertexai';
 import { GoogleAuth } from 'google-auth-library';
 import { createHash } from 'crypto';
 import { Config } from '../config.js';
+import { ConcurrencyPool } from '../utils/concurrencyPool.js';
 
 interface CacheEntry {
   embedding: number[];
@@ -18,8 +19,9 @@ export class EmbeddingsClient {
   private readonly maxCacheSize = 1000; // Maximum cache entries
   private cacheHits = 0;
   private cacheMisses = 0;
+  private pool: ConcurrencyPool;
 
-  constructor(config: Config['vertex']) {
+  constructor(config: Config['vertex'], pool: ConcurrencyPool) {
     this.vertexAI = new VertexAI({
       project: config.projectId,
       location: config.location,
@@ -27,6 +29,7 @@ export class EmbeddingsClient {
     this.projectId = config.projectId;
     this.location = config.location;
     this.model = config.embeddingModel;
+    this.pool = pool;
   }
 
   /**
@@ -73,7 +76,7 @@ export class EmbeddingsClient {
 
     for (const modelName of modelVariants) {
       try {
-        const embedding = await this.tryGetEmbedding(text, modelName);
+        const embedding = await this.pool.run(() => this.tryGetEmbedding(text, modelName));
         if (embedding) {
           // Cache the result
           this.cache.set(cacheKey, {
@@ -0,0 +1,146 @@
+import { ServerResponse } from 'http';
+import { activityRecord, ActivityRecord, Severity, SEVERITIES } from './analytics.js';
+import { AnalysisResult } from './bigqueryWriter.js';
+import { RuleMatch } from '../engines/ruleEngine.js';
+
+/**
+ * What a subscriber wants to see. Unset fields match everything.
+ */
+export interface StreamFilter {
+  tenantId?: string;
+  labels?: string[]; // Safety labels
+  minSeverity: Severity;
+  environment?: string;
+  modelName?: string;
+  matchedRules?: boolean; // Only events that matched a detection rule
+}
+
+/**
+ * One processed event as pushed to subscribers: its scores, the attack
+ * patterns active when it was analyzed and the detection rules it matched
+ */
+export interface StreamEvent extends ActivityRecord {
+  analyzedAt: string;
+  processingTimeMs: number;
+  patterns: Array<{ patternType: string | null; confidence: number; affectedRequests: number; details: string }>;
+  ruleMatches: RuleMatch[];
+}
+
+interface Subscriber {
+  res: ServerResponse;
+  filter: StreamFilter;
+  dropped: number; // Events skipped while the client was not reading
+}
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Pushes each analyzed event to Server-Sent Events subscribers as soon as the
+ * engines are done with it. Nothing is buffered for reconnecting clients;
+ * they backfill from the query API. Clients that stop reading miss events
+ * rather than holding memory.
+ */
+export class EventStream {
+  private subscribers: Set<Subscriber> = new Set();
+  private maxSubscribers: number;
+  private timer: NodeJS.Timeout;
+
+  constructor(maxSubscribers: number) {
+    this.maxSubscribers = maxSubscribers;
+    this.timer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Start streaming to a response. Returns false without writing anything if
+   * there are already maxSubscribers.
+   */
+  subscribe(res: ServerResponse, filter: StreamFilter): boolean {
+    if (this.subscribers.size >= this.maxSubscribers) {
+      return false;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(': connected\n\n');
+
+    const subscriber: Subscriber = { res, filter, dropped: 0 };
+    this.subscribers.add(subscriber);
+    console.log(`[EventStream] Subscriber connected (${this.subscribers.size} total)`);
+
+    res.on('close', () => {
+      this.subscribers.delete(subscriber);
+      console.log(`[EventStream] Subscriber disconnected (${this.subscribers.size} total${subscriber.dropped ? `, ${subscriber.dropped} events dropped` : ''})`);
+    });
+    return true;
+  }
+
+  /**
+   * Send an analysis to every subscriber whose filter it matches. Never throws.
+   */
+  publish(result: AnalysisResult): void {
+    if (this.subscribers.size === 0) {
+      return;
+    }
+
+    const event = streamEvent(result);
+    const message = `event: analysis\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const subscriber of this.subscribers) {
+      if (!matches(event, subscriber.filter)) {
+        continue;
+      }
+      if (subscriber.res.writableNeedDrain) {
+        subscriber.dropped++;
+        continue;
+      }
+      subscriber.res.write(message);
+    }
+  }
+
+  get size(): number {
+    return this.subscribers.size;
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+    for (const subscriber of this.subscribers) {
+      subscriber.res.end();
+    }
+    this.subscribers.clear();
+  }
+
+  private heartbeat(): void {
+    for (const subscriber of this.subscribers) {
+      subscriber.res.write(': heartbeat\n\n');
+    }
+  }
+}
+
+export function streamEvent(result: AnalysisResult): StreamEvent {
+  return {
+    ...activityRecord(result),
+    analyzedAt: result.analyzedAt,
+    processingTimeMs: result.processingTimeMs,
+    patterns: result.patterns.map(pattern => ({
+      patternType: pattern.patternType || null,
+      confidence: pattern.confidence,
+      affectedRequests: pattern.affectedRequests,
+      details: pattern.details,
+    })),
+    ruleMatches: result.ruleMatches ?? [],
+  };
+}
+
+function matches(event: StreamEvent, filter: StreamFilter): boolean {
+  return SEVERITIES.indexOf(event.severity) >= SEVERITIES.indexOf(filter.minSeverity) &&
+    (!filter.tenantId || event.tenantId === filter.tenantId) &&
+    (!filter.labels || filter.labels.includes(event.safetyLabel)) &&
+    (!filter.environment || event.environment === filter.environment) &&
+    (!filter.modelName || event.modelName === filter.modelName) &&
+    (!filter.matchedRules || event.ruleMatches.length > 0);
+}
@@ -0,0 +1,299 @@
+import { createReadStream } from 'fs';
+import { appendFile, rename, stat, unlink } from 'fs/promises';
+import { createInterface } from 'readline';
+import { Config } from '../config.js';
+
+/**
+ * A row in BigQuery's raw insert format. BigQuery drops rows whose insertId
+ * it has seen in the last minute or so, so retried batches aren't duplicated.
+ */
+export interface InsertRow {
+  insertId: string;
+  json: Record<string, unknown>;
+}
+
+export type InsertRows = (tableId: string, rows: InsertRow[]) => Promise<unknown>;
+
+// Cumulative since startup, except buffered
+export interface InsertBufferStats {
+  buffered: number; // Rows waiting in memory for the next flush
+  written: number;
+  retried: number; // Failed insert requests that were retried
+  spooled: number; // Rows appended to the spool file
+  replayed: number; // Spooled rows written on recovery
+  dropped: number; // Rows lost: rejected by BigQuery, over maxBufferedRows, or unspoolable
+}
+
+// How long to wait before replaying again after BigQuery refused a replay
+const SPOOL_REPLAY_BACKOFF_MS = 60000;
+
+interface SpooledRow extends InsertRow {
+  tableId: string;
+}
+
+/**
+ * Batches streaming inserts per table and flushes them by size or time.
+ * Failed batches are retried with backoff, then spooled to a local file that
+ * is replayed once BigQuery accepts writes again. Rows still in memory are
+ * lost if the process crashes; close() flushes them on shutdown.
+ */
+export class InsertBuffer {
+  private insertRows: InsertRows;
+  private maxBatchRows: number;
+  private maxBufferedRows: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private spoolPath: string;
+  private tables: Map<string, InsertRow[]> = new Map();
+  private buffered = 0;
+  private counters = { written: 0, retried: 0, spooled: 0, replayed: 0, dropped: 0 };
+  private flushing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private replayAfter = 0; // Backoff after a failed replay, which rewrites the spool
+
+  constructor(config: Config['bigquery']['buffer'], insertRows: InsertRows) {
+    this.insertRows = insertRows;
+    this.maxBatchRows = config.maxBatchRows;
+    this.maxBufferedRows = config.maxBufferedRows;
+    this.maxRetries = config.maxRetries;
+    this.retryBaseDelayMs = config.retryBaseDelayMs;
+    this.spoolPath = config.spoolPath;
+
+    // Each tick also replays the spool, including one left by a previous run
+    this.timer = setInterval(() => {
+      this.flush({ replaySpool: true }).catch(error => console.error('[BigQuery] Flush failed:', error));
+    }, config.flushIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Queue a row for the next flush. Never throws; rows that don't fit are dropped.
+   */
+  add(tableId: string, row: InsertRow): void {
+    if (this.buffered >= this.maxBufferedRows) {
+      this.counters.dropped++;
+      console.warn(`[BigQuery] Buffer full (${this.buffered} rows), dropping row ${row.insertId} for ${tableId}`);
+      return;
+    }
+
+    const rows = this.tables.get(tableId) ?? [];
+    rows.push(row);
+    this.tables.set(tableId, rows);
+    this.buffered++;
+
+    if (rows.length >= this.maxBatchRows) {
+      this.flush().catch(error => console.error('[BigQuery] Flush failed:', error));
+    }
+  }
+
+  /**
+   * Write everything buffered so far; waits for a flush already running
+   */
+  async flush(options: { replaySpool?: boolean } = {}): Promise<void> {
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.buffered === 0 && !options.replaySpool) {
+      return;
+    }
+
+    this.flushing = this.flushBuffered()
+      .then(async (healthy) => {
+        if (healthy && options.replaySpool) {
+          await this.replaySpool();
+        }
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+  }
+
+  /**
+   * Stop the timer and flush the buffer. Anything BigQuery refuses is spooled
+   * for the next run.
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+    // Rows added while the last flush was running
+    await this.flush();
+  }
+
+  stats(): InsertBufferStats {
+    return { buffered: this.buffered, ...this.counters };
+  }
+
+  // Returns false if BigQuery refused a batch, in which case the rest of the
+  // buffer is spooled without trying
+  private async flushBuffered(): Promise<boolean> {
+    let healthy = true;
+
+    for (const [tableId, rows] of this.tables) {
+      while (rows.length > 0) {
+        const batch = rows.splice(0, this.maxBatchRows);
+        this.buffered -= batch.length;
+
+        const { written, failed } = healthy ? await this.insertWithRetry(tableId, batch) : { written: 0, failed: batch };
+        this.counters.written += written;
+        if (failed.length > 0) {
+          healthy = false;
+          if (await this.spool(tableId, failed)) {
+            this.counters.spooled += failed.length;
+          }
+        }
+      }
+      this.tables.delete(tableId);
+    }
+    return healthy;
+  }
+
+  // Returns how many rows were written and the rows that still failed after
+  // the last retry. Rows BigQuery rejected are neither.
+  private async insertWithRetry(tableId: string, rows: InsertRow[]): Promise<{ written: number; failed: InsertRow[] }> {
+    let pending = rows;
+    let written = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.insertRows(tableId, pending);
+        return { written: written + pending.length, failed: [] };
+      } catch (error) {
+        const { retryable, rejected } = this.partitionFailures(tableId, pending, error);
+        written += pending.length - retryable.length - rejected;
+        pending = retryable;
+        if (pending.length === 0) {
+          return { written, failed: [] };
+        }
+        if (attempt >= this.maxRetries) {
+          console.error(`[BigQuery] Insert of ${pending.length} rows to ${tableId} failed after ${attempt + 1} attempts:`, errorMessage(error));
+          return { written, failed: pending };
+        }
+        this.counters.retried++;
+        await new Promise(resolve => setTimeout(resolve, this.retryBaseDelayMs * 2 ** attempt));
+      }
+    }
+  }
+
+  // A partial failure lists the failed rows; the others were inserted. Invalid
+  // rows will never be accepted and are dropped; the rest were only held back.
+  private partitionFailures(tableId: string, rows: InsertRow[], error: unknown): { retryable: InsertRow[]; rejected: number } {
+    const failures = error as { name?: string; errors?: Array<{ row: InsertRow; errors: Array<{ reason?: string; message?: string }> }> };
+    if (failures.name !== 'PartialFailureError' || !Array.isArray(failures.errors)) {
+      return { retryable: rows, rejected: 0 };
+    }
+
+    const retryable: InsertRow[] = [];
+    let rejected = 0;
+    for (const failure of failures.errors) {
+      const invalid = failure.errors.find(rowError => rowError.reason === 'invalid');
+      if (invalid) {
+        rejected++;
+        this.counters.dropped++;
+        console.error(`[BigQuery] Dropping row ${failure.row.insertId} rejected by ${tableId}: ${invalid.message}`);
+      } else {
+        retryable.push(failure.row);
+      }
+    }
+    return { retryable, rejected };
+  }
+
+  // Returns false if the rows had to be dropped
+  private async spool(tableId: string, rows: InsertRow[]): Promise<boolean> {
+    if (!this.spoolPath) {
+      this.counters.dropped += rows.length;
+      console.error(`[BigQuery] Dropping ${rows.length} rows for ${tableId} (spooling disabled)`);
+      return false;
+    }
+
+    try {
+      const lines = rows.map(row => JSON.stringify({ tableId, ...row } satisfies SpooledRow));
+      await appendFile(this.spoolPath, lines.join('\n') + '\n', 'utf8');
+      console.warn(`[BigQuery] Spooled ${rows.length} rows for ${tableId} to ${this.spoolPath}`);
+      return true;
+    } catch (error) {
+      this.counters.dropped += rows.length;
+      console.error(`[BigQuery] Failed to spool ${rows.length} rows for ${tableId}, dropping them:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Write spooled rows back to BigQuery. The spool is moved aside first, so
+   * rows spooled meanwhile (and rows that fail again) go to a fresh file.
+   */
+  private async replaySpool(): Promise<void> {
+    if (!this.spoolPath || Date.now() < this.replayAfter) {
+      return;
+    }
+
+    const replaying = `${this.spoolPath}.replaying`;
+    // A previous replay may have been interrupted; finish that one first
+    if (!(await exists(replaying))) {
+      if (!(await exists(this.spoolPath))) {
+        return;
+      }
+      await rename(this.spoolPath, replaying);
+    }
+
+    console.log(`[BigQuery] Replaying spooled rows from ${this.spoolPath}`);
+    const lines = createInterface({ input: createReadStream(replaying, 'utf8'), crlfDelay: Infinity });
+    const batches: Map<string, InsertRow[]> = new Map();
+    let healthy = true;
+
+    const writeBatch = async (tableId: string) => {
+      const batch = batches.get(tableId) ?? [];
+      batches.delete(tableId);
+      const { written, failed } = healthy ? await this.insertWithRetry(tableId, batch) : { written: 0, failed: batch };
+      this.counters.replayed += written;
+      if (failed.length > 0) {
+        healthy = false;
+        await this.spool(tableId, failed);
+      }
+    };
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let spooled: SpooledRow;
+      try {
+        spooled = JSON.parse(line);
+      } catch {
+        this.counters.dropped++;
+        console.error(`[BigQuery] Dropping unreadable spool line: ${line.slice(0, 200)}`);
+        continue;
+      }
+
+      const batch = batches.get(spooled.tableId) ?? [];
+      batch.push({ insertId: spooled.insertId, json: spooled.json });
+      batches.set(spooled.tableId, batch);
+      if (batch.length >= this.maxBatchRows) {
+        await writeBatch(spooled.tableId);
+      }
+    }
+    for (const tableId of [...batches.keys()]) {
+      await writeBatch(tableId);
+    }
+
+    await unlink(replaying);
+    this.replayAfter = healthy ? 0 : Date.now() + SPOOL_REPLAY_BACKOFF_MS;
+    console.log(`[BigQuery] Spool replay ${healthy ? 'complete' : 'stopped, BigQuery is still failing'}`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
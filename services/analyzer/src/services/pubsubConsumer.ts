@@ -1,29 +1,70 @@
-import { PubSub, Message } from '@google-cloud/pubsub';
+import { randomUUID } from 'crypto';
 import tracer from 'dd-trace';
-import { TelemetryEvent } from '../types/telemetry.js';
+import {
+  TelemetryEvent,
+  UnsupportedSchemaVersionError,
+  upcastTelemetryEvent,
+  validateTelemetryEvent,
+} from '@sentinel/telemetry-schema';
 import { Config } from '../config.js';
-import { computeDrift } from '../engines/driftEngine.js';
-import { checkSafety } from '../engines/safetyEngine.js';
-import { AnomalyDetector } from '../engines/anomalyEngine.js';
-import { CostOptimizer } from '../engines/costOptimizer.js';
-import { PatternDetector } from '../engines/patternEngine.js';
-import { BigQueryWriter } from './bigqueryWriter.js';
+import { computeDrift, embeddingText, hasDriftInput } from '../engines/driftEngine.js';
+import { checkSafety, SafetyResult } from '../engines/safetyEngine.js';
+import { AnomalyDetector, NO_ANOMALY } from '../engines/anomalyEngine.js';
+import { CostAnalysis, CostOptimizer } from '../engines/costOptimizer.js';
+import { PatternDetectionResult, PatternDetector } from '../engines/patternEngine.js';
+import { ShadowComparator, ShadowComparison } from '../engines/shadowComparator.js';
+import { ConcurrencyPool, DependencyPools } from '../utils/concurrencyPool.js';
+import { AnalysisResult, BigQueryWriter } from './bigqueryWriter.js';
 import { EmbeddingsClient } from './embeddingsClient.js';
 import { BaselineStore } from './baselineStore.js';
 import { SafetyClassifier } from './safetyClassifier.js';
 import { DatadogClient } from './datadogClient.js';
+import { TelemetryMessage, TelemetrySource } from './telemetrySource.js';
+import { DeadLetterRecord, DeadLetterSink, InvalidMessage, ProcessingStage } from './deadLetterSink.js';
+import { EventStream } from './eventStream.js';
+import { DetectionRule, RuleEngine } from '../engines/ruleEngine.js';
+import { ruleContext } from '../engines/ruleExpression.js';
+import { RuleActions } from './ruleActions.js';
+
+// Failed attempts are tracked for at most this many messages at a time
+const MAX_TRACKED_MESSAGES = 10000;
+
+// Recent analysis results kept for the query API; older ones are in BigQuery
+const MAX_RECENT_RESULTS = 1000;
+
+// An analyzed event that hasn't been stored yet, with the rules it matched and
+// the shadow comparison its arrival completed
+interface PendingAnalysis {
+  analysis: AnalysisResult;
+  matchedRules: DetectionRule[];
+  comparison?: ShadowComparison;
+}
 
 export class PubSubConsumer {
-  private pubsub: PubSub;
-  private subscriptionName: string;
+  private source: TelemetrySource;
   private bigQueryWriter: BigQueryWriter;
   private embeddingsClient: EmbeddingsClient;
   private baselineStore: BaselineStore;
   private safetyClassifier: SafetyClassifier;
   private datadogClient: DatadogClient;
+  private deadLetters: DeadLetterSink;
+  private eventStream: EventStream;
+  private ruleEngine: RuleEngine;
+  private ruleActions: RuleActions;
+  private maxDeliveryAttempts: number;
+  private failedAttempts: Map<string, number> = new Map();
+  private recentResults: Map<string, AnalysisResult> = new Map();
+  private pendingAnalyses: Map<string, PendingAnalysis> = new Map();
+  private pendingComparisons: Map<string, ShadowComparison | null> = new Map(); // Shadow events not stored yet
+  private maxInFlight: number;
+  private inFlight = 0;
+  private pools: ConcurrencyPool[];
+  private metricsIntervalMs: number;
+  private metricsTimer: NodeJS.Timeout | null = null;
   private anomalyDetector: AnomalyDetector;
   private costOptimizer: CostOptimizer;
   private patternDetector: PatternDetector;
+  private shadowComparator: ShadowComparator;
   private isRunning: boolean = false;
 
   constructor(
@@ -32,20 +73,32 @@ export class PubSubConsumer {
     embeddingsClient: EmbeddingsClient,
     baselineStore: BaselineStore,
     safetyClassifier: SafetyClassifier,
-    datadogClient: DatadogClient
+    datadogClient: DatadogClient,
+    deadLetters: DeadLetterSink,
+    pools: DependencyPools,
+    source: TelemetrySource,
+    eventStream: EventStream,
+    ruleEngine: RuleEngine,
+    ruleActions: RuleActions
   ) {
-    this.pubsub = new PubSub({
-      projectId: config.pubsub.projectId,
-    });
-    this.subscriptionName = config.pubsub.subscriptionName;
+    this.source = source;
     this.bigQueryWriter = bigQueryWriter;
     this.embeddingsClient = embeddingsClient;
     this.baselineStore = baselineStore;
     this.safetyClassifier = safetyClassifier;
     this.datadogClient = datadogClient;
+    this.deadLetters = deadLetters;
+    this.eventStream = eventStream;
+    this.ruleEngine = ruleEngine;
+    this.ruleActions = ruleActions;
+    this.maxDeliveryAttempts = config.deadLetter.maxDeliveryAttempts;
+    this.maxInFlight = config.flowControl.maxInFlight;
+    this.pools = Object.values(pools);
+    this.metricsIntervalMs = config.flowControl.metricsIntervalMs;
     this.anomalyDetector = new AnomalyDetector();
-    this.costOptimizer = new CostOptimizer(embeddingsClient);
+    this.costOptimizer = new CostOptimizer();
     this.patternDetector = new PatternDetector();
+    this.shadowComparator = new ShadowComparator(event => this.costOptimizer.getCostPerRequest(event));
   }
 
   async start(): Promise<void> {
@@ -55,96 +108,284 @@ export class PubSubConsumer {
     }
 
     this.isRunning = true;
-    const subscription = this.pubsub.subscription(this.subscriptionName);
 
-    console.log(`[Consumer] Starting to listen on subscription: ${this.subscriptionName}`);
+    console.log(`[Consumer] Starting to listen on ${this.source.name} transport: ${this.source.description}`);
+    console.log(`[Consumer] Quarantining to ${this.deadLetters.name} dead-letter sink after ${this.maxDeliveryAttempts} attempt(s)`);
 
-    subscription.on('message', async (message: Message) => {
-      await this.handleMessage(message);
+    // The source delivers at most maxInFlight messages at once. When the
+    // dependency pools saturate, messages take longer to finish and delivery
+    // slows down with them instead of piling up in memory.
+    await this.source.start(async (message: TelemetryMessage) => {
+      this.inFlight++;
+      try {
+        await this.handleMessage(message);
+      } finally {
+        this.inFlight--;
+      }
     });
 
-    subscription.on('error', (error: Error) => {
-      console.error('[Consumer] Subscription error:', error);
-    });
+    this.metricsTimer = setInterval(() => this.reportFlowControl(), this.metricsIntervalMs);
+    this.metricsTimer.unref();
 
     console.log('[Consumer] Consumer started and listening for messages');
   }
 
   async stop(): Promise<void> {
     this.isRunning = false;
+    await this.source.stop();
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+    }
     console.log('[Consumer] Stopping consumer');
   }
 
-  private async handleMessage(message: Message): Promise<void> {
+  private async handleMessage(message: TelemetryMessage): Promise<void> {
     const span = tracer.startSpan('analyzer.process_message');
-    
+
+    const parsed = this.parseMessage(message);
+    if ('error' in parsed) {
+      // Redelivering a message that can't be parsed never helps
+      await this.quarantine(message, parsed.error, 'validation', this.recordFailedAttempt(message), span);
+      span?.finish();
+      return;
+    }
+
+    // Where processing is, so a failure can be quarantined with its stage
+    let stage: ProcessingStage = 'analysis';
+    const receivedAt = Date.now();
+
     try {
-      const event = this.parseMessage(message);
-      
+      const event = parsed.event;
+
       // Set trace tags
       span?.setTag('request.id', event.requestId);
       span?.setTag('llm.endpoint', event.endpoint);
       span?.setTag('llm.model', event.modelName);
       span?.setTag('llm.environment', event.environment);
+      if (event.tenantId) {
+        span?.setTag('tenant.id', event.tenantId);
+      }
+      if (event.conversationId) {
+        span?.setTag('llm.conversation.id', event.conversationId);
+        span?.setTag('llm.conversation.turn_index', event.turnIndex ?? 0);
+      }
       
       console.log(`[Consumer] Processing event ${event.requestId}`);
 
-      // Process in parallel with timing
-      const driftStart = Date.now();
-      const safetyStart = Date.now();
-      
-      const [driftResult, safetyResult] = await Promise.all([
-        computeDrift(event, this.embeddingsClient, this.baselineStore).then(result => {
-          const driftTime = Date.now() - driftStart;
-          console.log(`[Consumer] Drift computation took ${driftTime}ms`);
-          return { ...result, processingTimeMs: driftTime };
-        }),
-        checkSafety(event, this.safetyClassifier).then(result => {
-          const safetyTime = Date.now() - safetyStart;
-          console.log(`[Consumer] Safety check took ${safetyTime}ms`);
-          return { ...result, processingTimeMs: safetyTime };
-        }),
-      ]);
-
-      // Detect anomalies in drift scores
-      const anomalyResult = this.anomalyDetector.detectAnomaly(
-        event.endpoint,
-        driftResult.driftScore
-      );
-
-      // Log results
-      console.log(`[Consumer] Event ${event.requestId}:`, {
-        drift: driftResult,
-        safety: safetyResult,
-        anomaly: anomalyResult.isAnomaly ? { zScore: anomalyResult.zScore } : null,
-      });
-
-      // Record event for cost analysis
-      this.costOptimizer.recordEvent(event);
-
-      // Record event for pattern detection
-      this.patternDetector.recordEvent(event, safetyResult);
-
-      // Detect attack patterns
-      const patterns = this.patternDetector.detectPatterns();
-      if (patterns.length > 0) {
-        for (const pattern of patterns) {
-          await this.datadogClient.emitPatternEvent(event, pattern);
+      // A shadow event is a candidate model's answer to a mirrored request. It is
+      // only compared with its primary and must not feed drift baselines, cost
+      // analysis or attack pattern detection.
+      if (event.shadowOf) {
+        span?.setTag('llm.shadow.of', event.shadowOf);
+        // Pairing consumes the other half, so a redelivery reuses the comparison
+        let comparison = this.pendingComparisons.get(event.requestId);
+        if (comparison === undefined) {
+          stage = 'safety';
+          const safetyResult = await checkSafety(event, this.safetyClassifier);
+          stage = 'analysis';
+          comparison = (await this.pairShadow(event, safetyResult)) ?? null;
+          remember(this.pendingComparisons, event.requestId, comparison);
+        }
+        stage = 'storage';
+        await this.bigQueryWriter.writeEvent(event);
+
+        this.pendingComparisons.delete(event.requestId);
+        this.failedAttempts.delete(message.id);
+        message.ack();
+        console.log(`[Consumer] Processed and acknowledged shadow event ${event.requestId}`);
+        if (comparison) {
+          await this.reportComparison(comparison);
         }
+        span?.finish();
+        return;
       }
 
+      // Analyzing feeds drift baselines and the anomaly, cost, pattern and
+      // rule windows, so a redelivered event reuses its earlier analysis
+      let pending = this.pendingAnalyses.get(event.requestId);
+      if (pending) {
+        console.log(`[Consumer] Event ${event.requestId} was analyzed on an earlier delivery, storing it again`);
+      } else {
+        // Process in parallel with timing
+        const driftStart = Date.now();
+        const safetyStart = Date.now();
+
+        const [driftResult, safetyResult] = await Promise.all([
+          computeDrift(event, this.embeddingsClient, this.baselineStore).then(result => {
+            const driftTime = Date.now() - driftStart;
+            console.log(`[Consumer] Drift computation took ${driftTime}ms`);
+            return { ...result, processingTimeMs: driftTime };
+          }).catch(error => {
+            stage = 'drift';
+            throw error;
+          }),
+          checkSafety(event, this.safetyClassifier).then(result => {
+            const safetyTime = Date.now() - safetyStart;
+            console.log(`[Consumer] Safety check took ${safetyTime}ms`);
+            return { ...result, processingTimeMs: safetyTime };
+          }).catch(error => {
+            stage = 'safety';
+            throw error;
+          }),
+        ]);
+
+        // Detect anomalies in drift scores. Events without text to compare
+        // (errors, scrubbed text) have no score and stay out of the history.
+        const anomalyResult = hasDriftInput(event)
+          ? this.anomalyDetector.detectAnomaly(event.endpoint, driftResult.driftScore)
+          : NO_ANOMALY;
+
+        // Log results
+        console.log(`[Consumer] Event ${event.requestId}:`, {
+          drift: driftResult,
+          safety: safetyResult,
+          anomaly: anomalyResult.isAnomaly ? { zScore: anomalyResult.zScore } : null,
+        });
+
+        // Record event for cost analysis
+        this.costOptimizer.recordEvent(event);
+
+        const comparison = event.shadowRequestId ? await this.pairShadow(event, safetyResult) : undefined;
+
+        // Record event for pattern detection
+        this.patternDetector.recordEvent(event, safetyResult);
+
+        // Detect attack patterns
+        const patterns = this.patternDetector.detectPatterns();
+
+        const analysis: AnalysisResult = {
+          event,
+          analyzedAt: new Date().toISOString(),
+          drift: driftResult,
+          safety: safetyResult,
+          anomaly: anomalyResult,
+          patterns,
+          processingTimeMs: Date.now() - receivedAt,
+        };
+
+        // Detection rules see the finished analysis; their actions run once it is stored
+        const sessionTags = event.conversationId ? this.ruleActions.getSessionTags(event.conversationId) : [];
+        const matchedRules = this.ruleEngine.evaluate(ruleContext(analysis, sessionTags), Date.parse(event.timestamp) || Date.now());
+        if (matchedRules.length > 0) {
+          analysis.ruleMatches = matchedRules.map(rule => ({ ruleId: rule.id, name: rule.name, actions: rule.actions.map(action => action.type) }));
+          console.log(`[Consumer] Event ${event.requestId} matched rules: ${matchedRules.map(rule => rule.name).join(', ')}`);
+        }
+
+        pending = { analysis, matchedRules, comparison };
+        remember(this.pendingAnalyses, event.requestId, pending);
+      }
+
+      const { analysis, matchedRules } = pending;
+
       // Set trace tags for results
-      span?.setTag('llm.drift.score', driftResult.driftScore);
-      span?.setTag('llm.safety.score', safetyResult.safetyScore);
-      span?.setTag('llm.safety.label', safetyResult.safetyLabel);
-      span?.setTag('llm.baseline.ready', driftResult.baselineReady);
-      if (anomalyResult.isAnomaly) {
+      span?.setTag('llm.drift.score', analysis.drift.driftScore);
+      if (analysis.safety.safetyLabel !== 'SKIPPED') {
+        span?.setTag('llm.safety.score', analysis.safety.safetyScore);
+      }
+      span?.setTag('llm.safety.label', analysis.safety.safetyLabel);
+      span?.setTag('llm.baseline.ready', analysis.drift.baselineReady);
+      if (analysis.anomaly.isAnomaly) {
         span?.setTag('llm.anomaly.detected', true);
-        span?.setTag('llm.anomaly.z_score', anomalyResult.zScore);
+        span?.setTag('llm.anomaly.z_score', analysis.anomaly.zScore);
+      }
+      if (matchedRules.length > 0) {
+        span?.setTag('llm.rules.matched', matchedRules.map(rule => rule.id).join(','));
+      }
+
+      // Write the event and what the engines concluded about it to BigQuery
+      stage = 'storage';
+      this.rememberResult(analysis);
+      await this.bigQueryWriter.writeEvent(event);
+      await this.bigQueryWriter.writeAnalysis(analysis);
+
+      // Acknowledge message
+      this.pendingAnalyses.delete(event.requestId);
+      this.failedAttempts.delete(message.id);
+      message.ack();
+      console.log(`[Consumer] Processed and acknowledged event ${event.requestId}`);
+
+      // Only now that the event won't be redelivered: what must happen once
+      this.eventStream.publish(analysis);
+      await this.reportAnalysis(pending);
+
+      span?.finish();
+    } catch (error) {
+      console.error(`[Consumer] Error processing message at stage ${stage}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      // Set error tags on span
+      span?.setTag('error', true);
+      span?.setTag('error.message', errorMessage);
+      span?.setTag('error.type', error instanceof Error ? error.constructor.name : 'Unknown');
+      span?.setTag('analyzer.stage', stage);
+      
+      const attempts = this.recordFailedAttempt(message);
+      if (attempts >= this.maxDeliveryAttempts) {
+        // A poison message: stop redelivering it and keep it for replay
+        this.pendingAnalyses.delete(parsed.event.requestId);
+        this.pendingComparisons.delete(parsed.event.requestId);
+        await this.quarantine(message, { reason: 'max_attempts_exceeded', errors: [errorMessage] }, stage, attempts, span);
+      } else {
+        // Nack message to retry later
+        message.nack();
+      }
+      
+      span?.finish();
+    }
+  }
+
+  /**
+   * Drift score statistics per endpoint, as used for anomaly detection
+   */
+  getAnomalyStats(): Array<{ endpoint: string; count: number; mean: number; stdDev: number }> {
+    return this.anomalyDetector.getEndpoints().flatMap(endpoint => {
+      const stats = this.anomalyDetector.getStats(endpoint);
+      return stats ? [{ endpoint, ...stats }] : [];
+    });
+  }
+
+  /**
+   * Recent safety labels and the attack patterns currently detected
+   */
+  getPatterns(): { statistics: ReturnType<PatternDetector['getStatistics']>; active: PatternDetectionResult[] } {
+    return {
+      statistics: this.patternDetector.getStatistics(),
+      active: this.patternDetector.detectPatterns(),
+    };
+  }
+
+  getCostAnalysis(): CostAnalysis {
+    return this.costOptimizer.analyzeCosts();
+  }
+
+  /**
+   * The analysis of a recently processed event, if it is still in memory
+   */
+  getRecentResult(requestId: string): AnalysisResult | undefined {
+    return this.recentResults.get(requestId);
+  }
+
+  /**
+   * Recently processed events still in memory, oldest first
+   */
+  getRecentResults(): AnalysisResult[] {
+    return [...this.recentResults.values()];
+  }
+
+  /**
+   * Emit metrics and Datadog events for a stored analysis and run the
+   * actions of the rules it matched. Never throws.
+   */
+  private async reportAnalysis({ analysis, matchedRules, comparison }: PendingAnalysis): Promise<void> {
+    const { event, drift, safety, anomaly, patterns } = analysis;
+    try {
+      for (const pattern of patterns) {
+        await this.datadogClient.emitPatternEvent(event, pattern);
       }
 
       // Emit Datadog metrics (including anomaly if detected)
-      await this.datadogClient.emitMetrics(event, driftResult, safetyResult, anomalyResult);
+      await this.datadogClient.emitMetrics(event, drift, safety, anomaly);
 
       // Emit cost metrics
       await this.datadogClient.emitCostMetrics(event, this.costOptimizer);
@@ -158,41 +399,206 @@ export class PubSubConsumer {
       }
 
       // Emit Datadog event for high-risk safety issues
-      await this.datadogClient.emitSafetyEvent(event, safetyResult);
+      await this.datadogClient.emitSafetyEvent(event, safety);
+    } catch (error) {
+      console.error(`[Consumer] Failed to emit metrics for ${event.requestId}:`, error);
+    }
 
-      // Write to BigQuery
-      await this.bigQueryWriter.writeEvent(event);
+    if (comparison) {
+      await this.reportComparison(comparison);
+    }
 
-      // Acknowledge message
-      message.ack();
-      console.log(`[Consumer] Processed and acknowledged event ${event.requestId}`);
-      
-      span?.finish();
+    // Failed actions are only logged
+    if (matchedRules.length > 0) {
+      await this.ruleActions.run(matchedRules, analysis);
+    }
+  }
+
+  private rememberResult(result: AnalysisResult): void {
+    this.recentResults.set(result.event.requestId, result);
+    if (this.recentResults.size > MAX_RECENT_RESULTS) {
+      const oldest = this.recentResults.keys().next().value;
+      if (oldest !== undefined) {
+        this.recentResults.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Export queue depth, pool saturation and BigQuery buffer depth, and log
+   * when calls are waiting
+   */
+  private reportFlowControl(): void {
+    const pools = this.pools.map(pool => pool.stats());
+    const waiting = pools.filter(pool => pool.queued > 0);
+    if (waiting.length > 0) {
+      console.warn(`[Consumer] Backpressure: ${this.inFlight}/${this.maxInFlight} messages in flight, waiting on ${waiting.map(pool => `${pool.name} (${pool.queued} queued)`).join(', ')}`);
+    }
+
+    this.datadogClient.emitFlowControlMetrics({ inFlight: this.inFlight, maxInFlight: this.maxInFlight, pools })
+      .catch(error => console.error('[Consumer] Failed to report flow control:', error));
+
+    const buffer = this.bigQueryWriter.bufferStats();
+    if (buffer) {
+      this.datadogClient.emitBigQueryBufferMetrics(buffer)
+        .catch(error => console.error('[Consumer] Failed to report BigQuery buffer:', error));
+    }
+  }
+
+  /**
+   * Record one half of a primary/shadow pair and, once both halves have
+   * arrived, emit the comparison. Never throws.
+   */
+  /**
+   * Record one half of a primary/shadow pair; returns the comparison once both
+   * halves have arrived
+   */
+  private async pairShadow(event: TelemetryEvent, safetyResult: SafetyResult): Promise<ShadowComparison | undefined> {
+    let embedding: number[] | undefined;
+    const text = event.status === 'success' ? embeddingText(event) : undefined;
+    if (text) {
+      try {
+        embedding = await this.embeddingsClient.getEmbedding(text);
+      } catch (error) {
+        console.error(`[Consumer] Failed to embed ${event.requestId} for shadow comparison:`, error);
+      }
+    }
+
+    return this.shadowComparator.record({ event, safetyLabel: safetyResult.safetyLabel, embedding });
+  }
+
+  /**
+   * Emit and store a comparison, once the event that completed it is stored.
+   * Never throws.
+   */
+  private async reportComparison(comparison: ShadowComparison): Promise<void> {
+    console.log(`[Consumer] Shadow comparison ${comparison.primaryModel} vs ${comparison.shadowModel} for ${comparison.primaryRequestId}:`, {
+      similarity: comparison.similarity,
+      labelDisagreement: comparison.labelDisagreement,
+      latencyDeltaMs: comparison.latencyDeltaMs,
+      costDeltaUsd: comparison.costDeltaUsd,
+    });
+    try {
+      await this.datadogClient.emitShadowComparison(comparison);
+      await this.bigQueryWriter.writeComparison(comparison);
     } catch (error) {
-      console.error('[Consumer] Error processing message:', error);
-      
-      // Set error tags on span
-      span?.setTag('error', true);
-      span?.setTag('error.message', error instanceof Error ? error.message : String(error));
-      span?.setTag('error.type', error instanceof Error ? error.constructor.name : 'Unknown');
-      
-      // Nack message to retry later
-      message.nack();
-      
-      span?.finish();
+      console.error(`[Consumer] Failed to report shadow comparison for ${comparison.primaryRequestId}:`, error);
+    }
+  }
+
+  /**
+   * Decode a message into a current-schema event, upcasting older versions.
+   * Returns an error for messages that can never be processed.
+   */
+  private parseMessage(message: TelemetryMessage): { event: TelemetryEvent } | { error: InvalidMessage } {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(message.data.toString());
+    } catch (error) {
+      return { error: { reason: 'invalid_json', errors: [error instanceof Error ? error.message : String(error)] } };
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return { error: { reason: 'invalid_event', errors: ['event must be an object'] } };
+    }
+
+    let upcast: Record<string, unknown>;
+    try {
+      upcast = upcastTelemetryEvent(raw as Record<string, unknown>);
+    } catch (error) {
+      if (error instanceof UnsupportedSchemaVersionError) {
+        return { error: { reason: 'unsupported_schema_version', errors: [error.message] } };
+      }
+      throw error;
+    }
+
+    const validation = validateTelemetryEvent(upcast);
+    if (!validation.valid) {
+      return { error: { reason: 'invalid_event', errors: validation.errors } };
     }
+    return { event: validation.event };
   }
 
-  private parseMessage(message: Message): TelemetryEvent {
-    const data = message.data.toString();
-    const event: TelemetryEvent = JSON.parse(data);
-    
-    // Validate required fields
-    if (!event.requestId || !event.timestamp) {
-      throw new Error('Invalid telemetry event: missing required fields');
+  /**
+   * Count a failed attempt at a message and return the total so far. Pub/Sub
+   * only reports delivery attempts on subscriptions with a dead-letter policy,
+   * so failures are also counted here (per instance, forgotten on restart).
+   */
+  private recordFailedAttempt(message: TelemetryMessage): number {
+    const attempts = Math.max(message.deliveryAttempt || 0, (this.failedAttempts.get(message.id) || 0) + 1);
+
+    // Re-insert so the map stays ordered by last failure, then forget the oldest
+    this.failedAttempts.delete(message.id);
+    this.failedAttempts.set(message.id, attempts);
+    if (this.failedAttempts.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.failedAttempts.keys().next().value;
+      if (oldest !== undefined) {
+        this.failedAttempts.delete(oldest);
+      }
     }
+    return attempts;
+  }
+
+  /**
+   * Store a message in the dead-letter sink and ack it. If the sink can't be
+   * written the message is nacked, so it is never lost.
+   */
+  private async quarantine(
+    message: TelemetryMessage,
+    invalid: InvalidMessage,
+    stage: ProcessingStage,
+    attempts: number,
+    span: ReturnType<typeof tracer.startSpan>
+  ): Promise<void> {
+    console.warn(`[Consumer] Quarantining message ${message.id} after ${attempts} attempt(s) (${invalid.reason} at ${stage}): ${invalid.errors.join('; ')}`);
+    span?.setTag('error', true);
+    span?.setTag('error.type', invalid.reason === 'max_attempts_exceeded' ? 'PoisonMessage' : 'InvalidTelemetryEvent');
+    span?.setTag('error.message', invalid.errors.join('; '));
+    span?.setTag('telemetry.dead_letter.reason', invalid.reason);
+    span?.setTag('telemetry.dead_letter.stage', stage);
 
-    return event;
+    const payload = message.data.toString();
+    const record: DeadLetterRecord = {
+      deadLetterId: randomUUID(),
+      quarantinedAt: new Date().toISOString(),
+      messageId: message.id,
+      publishTime: message.publishTime.toISOString(),
+      deliveryAttempts: attempts,
+      reason: invalid.reason,
+      stage,
+      errors: invalid.errors,
+      requestId: requestIdOf(payload),
+      payload,
+    };
+
+    try {
+      await this.deadLetters.write(record);
+      this.failedAttempts.delete(message.id);
+      await this.datadogClient.emitDeadLetter(invalid.reason, stage);
+      message.ack();
+    } catch (error) {
+      console.error(`[Consumer] Failed to quarantine message ${message.id}, will retry:`, error);
+      message.nack();
+    }
+  }
+}
+
+// Best effort: the requestId of a payload that may not be valid JSON
+function requestIdOf(payload: string): string | undefined {
+  try {
+    const requestId = JSON.parse(payload)?.requestId;
+    return typeof requestId === 'string' ? requestId : undefined;
+  } catch {
+    return undefined;
   }
 }
 
+// Map.set that drops the oldest entry beyond MAX_TRACKED_MESSAGES
+function remember<T>(map: Map<string, T>, key: string, value: T): void {
+  map.set(key, value);
+  if (map.size > MAX_TRACKED_MESSAGES) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) {
+      map.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { analysisRow, BigQueryWriter } from './bigqueryWriter.js';
+import { activityRecord, AnalyticsFilter, matchesFilter, Severity, SEVERITIES, summarize } from './analytics.js';
+import { BaselineStore } from './baselineStore.js';
+import { EmbeddingsClient } from './embeddingsClient.js';
+import { EventStream, StreamFilter } from './eventStream.js';
+import { PubSubConsumer } from './pubsubConsumer.js';
+
+// What the consumer has learned from the events it processed
+export type AnalyzerState = Pick<PubSubConsumer, 'getAnomalyStats' | 'getPatterns' | 'getCostAnalysis' | 'getRecentResult' | 'getRecentResults'>;
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ACTIVITY_LIMIT = 100;
+const MAX_ACTIVITY_LIMIT = 1000;
+
+// Shared with the rules API
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Read-only JSON API over the analyzer's in-memory state, served on the
+ * health check port:
+ *
+ *   GET /api/baselines              Drift baselines per endpoint (without embeddings)
+ *   GET /api/anomalies[/:endpoint]  Drift score statistics per endpoint
+ *   GET /api/patterns               Recent safety labels and active attack patterns
+ *   GET /api/cost                   Cost analysis and recommendations
+ *   GET /api/cache                  Embeddings cache statistics
+ *   GET /api/results/:requestId     Analysis of one event, from memory or BigQuery
+ *   GET /api/summary                Fleet-wide totals, severities and safety labels
+ *   GET /api/activity               Analyzed events, newest first
+ *   GET /api/stream                 Server-Sent Events: each event as it is analyzed
+ *
+ * Endpoints containing slashes are URL-encoded or appended as is, e.g.
+ * /api/anomalies/api/chat.
+ *
+ * Summary and activity take `from` and `to` (ISO timestamps, the last 24
+ * hours by default), `environment`, `model` and `tenant`; activity also takes
+ * `severity` (comma-separated) and `limit`. They aggregate the analysis
+ * results table, or the recent results in memory when BigQuery is disabled.
+ * The stream takes `tenant`, `label` (comma-separated safety labels),
+ * `minSeverity`, `environment`, `model` and `matchedRules=true` (only events
+ * that matched a detection rule). Rules are managed through RulesApi.
+ */
+export class QueryApi {
+  static readonly PREFIX = '/api/';
+  private baselineStore: BaselineStore;
+  private embeddingsClient: EmbeddingsClient;
+  private bigQueryWriter: BigQueryWriter;
+  private eventStream: EventStream;
+  private state: () => AnalyzerState | null;
+
+  /**
+   * @param state - The consumer, or null while the analyzer is starting
+   */
+  constructor(
+    baselineStore: BaselineStore,
+    embeddingsClient: EmbeddingsClient,
+    bigQueryWriter: BigQueryWriter,
+    eventStream: EventStream,
+    state: () => AnalyzerState | null
+  ) {
+    this.baselineStore = baselineStore;
+    this.embeddingsClient = embeddingsClient;
+    this.bigQueryWriter = bigQueryWriter;
+    this.eventStream = eventStream;
+    this.state = state;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+      if (pathname === '/api/stream') {
+        if (!this.eventStream.subscribe(res, parseStreamFilter(searchParams))) {
+          throw new HttpError(503, 'Too many stream subscribers');
+        }
+        return;
+      }
+      sendJson(res, 200, await this.route(pathname.slice(QueryApi.PREFIX.length), searchParams));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('[QueryApi] Request failed:', error);
+        sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  }
+
+  private async route(path: string, query: URLSearchParams): Promise<unknown> {
+    const [resource, ...rest] = path.split('/');
+    const param = rest.length > 0 ? decodeURIComponent(rest.join('/')) : undefined;
+
+    switch (resource) {
+      case 'baselines':
+        return { baselines: this.baselines() };
+      case 'anomalies':
+        return param === undefined ? { endpoints: this.requireState().getAnomalyStats() } : this.anomalies(param);
+      case 'patterns':
+        return this.requireState().getPatterns();
+      case 'cost': {
+        const analysis = this.requireState().getCostAnalysis();
+        return { ...analysis, modelUsage: Object.fromEntries(analysis.modelUsage) };
+      }
+      case 'cache':
+        return this.embeddingsClient.getCacheStats();
+      case 'results':
+        if (!param) {
+          throw new HttpError(404, 'Usage: /api/results/:requestId');
+        }
+        return this.result(param);
+      case 'summary':
+        return this.summary(parseFilter(query));
+      case 'activity':
+        return this.activity(parseFilter(query), query);
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private baselines() {
+    return this.baselineStore.getAllBaselines().map(baseline => ({
+      endpoint: baseline.endpoint,
+      ready: this.baselineStore.isBaselineReady(baseline.endpoint),
+      sampleCount: baseline.sampleCount,
+      dimensions: baseline.embedding.length,
+      lastUpdated: baseline.lastUpdated,
+      createdAt: baseline.createdAt,
+    }));
+  }
+
+  private anomalies(endpoint: string) {
+    const normalized = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+    const stats = this.requireState().getAnomalyStats().find(entry => entry.endpoint === normalized);
+    if (!stats) {
+      throw new HttpError(404, `No drift scores for ${normalized}`);
+    }
+    return stats;
+  }
+
+  private async result(requestId: string) {
+    const recent = this.requireState().getRecentResult(requestId);
+    if (recent) {
+      return { source: 'memory', result: analysisRow(recent) };
+    }
+
+    const stored = await this.bigQueryWriter.loadAnalysis(requestId);
+    if (!stored) {
+      throw new HttpError(404, `No analysis for ${requestId}`);
+    }
+    return { source: 'bigquery', result: stored };
+  }
+
+  private async summary(filter: AnalyticsFilter) {
+    const stored = await this.bigQueryWriter.querySummary(filter);
+    if (stored) {
+      return { source: 'bigquery', ...filter, ...stored };
+    }
+    const records = this.requireState().getRecentResults().map(activityRecord);
+    return { source: 'memory', ...filter, ...summarize(records, filter) };
+  }
+
+  private async activity(filter: AnalyticsFilter, query: URLSearchParams) {
+    const severity = query.get('severity')?.split(',').filter(Boolean) as Severity[] | undefined;
+    if (severity?.some(value => !SEVERITIES.includes(value))) {
+      throw new HttpError(400, `severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    const limit = Number(query.get('limit') || DEFAULT_ACTIVITY_LIMIT);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new HttpError(400, 'limit must be a positive integer');
+    }
+    const options = { severity, limit: Math.min(limit, MAX_ACTIVITY_LIMIT) };
+
+    const stored = await this.bigQueryWriter.queryActivity(filter, options);
+    if (stored) {
+      return { source: 'bigquery', ...filter, events: stored };
+    }
+    const events = this.requireState().getRecentResults()
+      .map(activityRecord)
+      .filter(record => matchesFilter(record, filter) && (!severity || severity.includes(record.severity)))
+      .reverse()
+      .slice(0, options.limit);
+    return { source: 'memory', ...filter, events };
+  }
+
+  private requireState(): AnalyzerState {
+    const state = this.state();
+    if (!state) {
+      throw new HttpError(503, 'Analyzer is starting');
+    }
+    return state;
+  }
+}
+
+function parseFilter(query: URLSearchParams): AnalyticsFilter {
+  const to = parseTime(query, 'to') ?? Date.now();
+  const from = parseTime(query, 'from') ?? to - DEFAULT_RANGE_MS;
+  if (from >= to) {
+    throw new HttpError(400, 'from must be before to');
+  }
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    ...(query.get('environment') && { environment: query.get('environment')! }),
+    ...(query.get('model') && { modelName: query.get('model')! }),
+    ...(query.get('tenant') && { tenantId: query.get('tenant')! }),
+  };
+}
+
+function parseStreamFilter(query: URLSearchParams): StreamFilter {
+  const minSeverity = (query.get('minSeverity') || 'clean') as Severity;
+  if (!SEVERITIES.includes(minSeverity)) {
+    throw new HttpError(400, `minSeverity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  const labels = query.get('label')?.split(',').map(label => label.trim().toUpperCase()).filter(Boolean);
+  return {
+    minSeverity,
+    ...(labels?.length && { labels }),
+    ...(query.get('environment') && { environment: query.get('environment')! }),
+    ...(query.get('model') && { modelName: query.get('model')! }),
+    ...(query.get('tenant') && { tenantId: query.get('tenant')! }),
+    ...(query.get('matchedRules') === 'true' && { matchedRules: true }),
+  };
+}
+
+function parseTime(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new HttpError(400, `${name} must be an ISO timestamp`);
+  }
+  return time;
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
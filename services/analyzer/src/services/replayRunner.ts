@@ -0,0 +1,172 @@
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { computeDrift, hasDriftInput } from '../engines/driftEngine.js';
+import { checkSafety, SafetyLabel } from '../engines/safetyEngine.js';
+import { AnomalyDetector, NO_ANOMALY } from '../engines/anomalyEngine.js';
+import { AttackPattern, PatternDetectionResult, PatternDetector } from '../engines/patternEngine.js';
+import { EmbeddingsClient } from './embeddingsClient.js';
+import { BaselineStore } from './baselineStore.js';
+import { SafetyClassifier } from './safetyClassifier.js';
+
+/**
+ * What the engines concluded about one historical event
+ */
+export interface ReplayResult {
+  requestId: string;
+  timestamp: string;
+  endpoint: string;
+  modelName: string;
+  tenantId?: string;
+  driftScore: number;
+  similarityScore: number;
+  baselineReady: boolean;
+  safetyLabel: SafetyLabel;
+  safetyScore: number;
+  isHighRisk: boolean;
+  isAnomaly: boolean;
+  zScore: number;
+  patterns: AttackPattern[]; // Patterns first detected at this event
+}
+
+export interface ReplayReport {
+  events: number;
+  skipped: number; // Shadow events, which the live analyzer doesn't score either
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  baselinesReady: number; // Endpoints whose baseline was ready by the end
+  highRisk: number;
+  safetyLabels: Partial<Record<SafetyLabel, number>>;
+  anomalies: number;
+  maxDriftScore: number;
+  meanDriftScore: number;
+  patterns: PatternDetectionResult[]; // One per campaign: detections of the same pattern and tenants with overlapping windows are merged
+}
+
+/**
+ * Runs historical events through the same engines as the live consumer, in
+ * timestamp order, with pattern windows measured in event time. Starts from
+ * empty baselines and history and emits nothing to Datadog.
+ */
+export class ReplayRunner {
+  private embeddingsClient: EmbeddingsClient;
+  private safetyClassifier: SafetyClassifier;
+  private baselineStore = new BaselineStore(); // Never persisted
+  private anomalyDetector = new AnomalyDetector();
+  private patternDetector: PatternDetector;
+  private simulatedNow = 0;
+
+  constructor(embeddingsClient: EmbeddingsClient, safetyClassifier: SafetyClassifier) {
+    this.embeddingsClient = embeddingsClient;
+    this.safetyClassifier = safetyClassifier;
+    this.patternDetector = new PatternDetector(() => this.simulatedNow);
+  }
+
+  /**
+   * Replay the events; onResult is called as each one is scored.
+   */
+  async run(events: TelemetryEvent[], onResult?: (result: ReplayResult) => Promise<void> | void): Promise<ReplayReport> {
+    const ordered = [...events].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const report: ReplayReport = {
+      events: 0,
+      skipped: 0,
+      baselinesReady: 0,
+      highRisk: 0,
+      safetyLabels: {},
+      anomalies: 0,
+      maxDriftScore: 0,
+      meanDriftScore: 0,
+      patterns: [],
+    };
+    const openPatterns = new Map<string, PatternDetectionResult>(); // pattern identity -> its latest campaign in the report
+    const tenants = new Map<string, string>(); // requestId -> tenantId
+    let driftTotal = 0;
+
+    for (const event of ordered) {
+      if (event.shadowOf) {
+        report.skipped++;
+        continue;
+      }
+      this.simulatedNow = Date.parse(event.timestamp);
+
+      // Sequential, unlike the live consumer, so baselines evolve in event order
+      const driftResult = await computeDrift(event, this.embeddingsClient, this.baselineStore);
+      const safetyResult = await checkSafety(event, this.safetyClassifier);
+      const anomalyResult = hasDriftInput(event)
+        ? this.anomalyDetector.detectAnomaly(event.endpoint, driftResult.driftScore)
+        : NO_ANOMALY;
+
+      if (event.tenantId) {
+        tenants.set(event.requestId, event.tenantId);
+      }
+      this.patternDetector.recordEvent(event, safetyResult);
+      // A pattern is detected again for every event while it lasts, with its
+      // window sliding along. Detections that overlap the campaign already
+      // reported for the same pattern and tenants extend it instead.
+      const newPatterns: PatternDetectionResult[] = [];
+      for (const pattern of this.patternDetector.detectPatterns()) {
+        const key = patternIdentity(pattern, tenants);
+        const open = openPatterns.get(key);
+        if (open && Date.parse(pattern.firstSeen) <= Date.parse(open.lastSeen)) {
+          mergePattern(open, pattern);
+          continue;
+        }
+        const campaign = { ...pattern, requestIds: [...pattern.requestIds] };
+        openPatterns.set(key, campaign);
+        newPatterns.push(campaign);
+      }
+
+      const result: ReplayResult = {
+        requestId: event.requestId,
+        timestamp: event.timestamp,
+        endpoint: event.endpoint,
+        modelName: event.modelName,
+        tenantId: event.tenantId,
+        driftScore: driftResult.driftScore,
+        similarityScore: driftResult.similarityScore,
+        baselineReady: driftResult.baselineReady,
+        safetyLabel: safetyResult.safetyLabel,
+        safetyScore: safetyResult.safetyScore,
+        isHighRisk: safetyResult.isHighRisk,
+        isAnomaly: anomalyResult.isAnomaly,
+        zScore: anomalyResult.zScore,
+        patterns: newPatterns.flatMap(pattern => (pattern.patternType ? [pattern.patternType] : [])),
+      };
+
+      report.events++;
+      report.firstTimestamp ??= event.timestamp;
+      report.lastTimestamp = event.timestamp;
+      report.safetyLabels[result.safetyLabel] = (report.safetyLabels[result.safetyLabel] || 0) + 1;
+      report.highRisk += result.isHighRisk ? 1 : 0;
+      report.anomalies += result.isAnomaly ? 1 : 0;
+      report.maxDriftScore = Math.max(report.maxDriftScore, result.driftScore);
+      report.patterns.push(...newPatterns);
+      driftTotal += result.driftScore;
+
+      await onResult?.(result);
+    }
+
+    report.meanDriftScore = report.events > 0 ? driftTotal / report.events : 0;
+    report.baselinesReady = this.baselineStore.getAllBaselines()
+      .filter(baseline => this.baselineStore.isBaselineReady(baseline.endpoint)).length;
+    return report;
+  }
+}
+
+/**
+ * Pattern type and the tenants whose requests it involves ('-' for requests
+ * without a tenant), which stay the same while the detection window slides
+ */
+function patternIdentity(pattern: PatternDetectionResult, tenants: Map<string, string>): string {
+  const scope = [...new Set(pattern.requestIds.map(requestId => tenants.get(requestId) ?? '-'))].sort();
+  return `${pattern.patternType}:${scope.join(',')}`;
+}
+
+/**
+ * Extend a reported campaign with a later detection of it
+ */
+function mergePattern(campaign: PatternDetectionResult, detection: PatternDetectionResult): void {
+  campaign.requestIds = [...new Set([...campaign.requestIds, ...detection.requestIds])];
+  campaign.affectedRequests = campaign.requestIds.length;
+  campaign.confidence = Math.max(campaign.confidence, detection.confidence);
+  campaign.lastSeen = detection.lastSeen > campaign.lastSeen ? detection.lastSeen : campaign.lastSeen;
+  campaign.details = detection.details;
+}
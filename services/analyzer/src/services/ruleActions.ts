@@ -0,0 +1,140 @@
+import { BlockTarget, DetectionRule, RuleAction } from '../engines/ruleEngine.js';
+import { AnalysisResult } from './bigqueryWriter.js';
+import { DatadogClient } from './datadogClient.js';
+import { streamEvent } from './eventStream.js';
+import { postWebhook } from './webhooks.js';
+
+/**
+ * A tenant, app or conversation the gateway should refuse until expiresAt
+ */
+export interface BlockEntry {
+  target: BlockTarget;
+  value: string;
+  ruleId: string;
+  ruleName: string;
+  requestId: string; // The event that triggered the block
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Tagged conversations kept in memory; the least recently tagged are forgotten
+const MAX_TAGGED_SESSIONS = 10000;
+
+const BLOCK_FIELDS: Record<BlockTarget, 'tenantId' | 'appId' | 'conversationId'> = {
+  tenant: 'tenantId',
+  app: 'appId',
+  conversation: 'conversationId',
+};
+
+/**
+ * Carries out what matched detection rules ask for: webhooks, Datadog
+ * events, session tags and gateway blocks. Tags and blocks are held in
+ * memory per instance; the gateway polls the block list.
+ */
+export class RuleActions {
+  private datadogClient: DatadogClient;
+  private webhookTimeoutMs: number;
+  private sessionTags: Map<string, Set<string>> = new Map();
+  private blocks: Map<string, BlockEntry> = new Map();
+
+  constructor(datadogClient: DatadogClient, webhookTimeoutMs: number) {
+    this.datadogClient = datadogClient;
+    this.webhookTimeoutMs = webhookTimeoutMs;
+  }
+
+  /**
+   * Run the actions of every matched rule. Never throws; failed actions are
+   * logged.
+   */
+  async run(rules: DetectionRule[], result: AnalysisResult): Promise<void> {
+    await Promise.all(rules.flatMap(rule => rule.actions.map(action =>
+      this.runAction(rule, action, result).catch(error => {
+        console.error(`[RuleActions] ${action.type} action of rule ${rule.id} failed for ${result.event.requestId}:`, error instanceof Error ? error.message : error);
+      })
+    )));
+  }
+
+  /**
+   * Tags set on a conversation by tag_session actions
+   */
+  getSessionTags(conversationId: string): string[] {
+    return [...(this.sessionTags.get(conversationId) ?? [])];
+  }
+
+  /**
+   * Blocks that have not expired
+   */
+  getBlockList(): BlockEntry[] {
+    const now = new Date().toISOString();
+    for (const [key, entry] of this.blocks) {
+      if (entry.expiresAt <= now) {
+        this.blocks.delete(key);
+      }
+    }
+    return [...this.blocks.values()];
+  }
+
+  unblock(target: BlockTarget, value: string): boolean {
+    return this.blocks.delete(`${target}:${value}`);
+  }
+
+  private async runAction(rule: DetectionRule, action: RuleAction, result: AnalysisResult): Promise<void> {
+    const { event } = result;
+    switch (action.type) {
+      case 'webhook': {
+        const status = await postWebhook(action.url, {
+          rule: { id: rule.id, name: rule.name, expression: rule.expression },
+          matchedAt: new Date().toISOString(),
+          event: streamEvent(result),
+        }, this.webhookTimeoutMs);
+        if (status < 200 || status >= 300) {
+          throw new Error(`webhook returned ${status}`);
+        }
+        return;
+      }
+      case 'datadog':
+        await this.datadogClient.emitRuleEvent(event, rule, action.alertType);
+        return;
+      case 'tag_session': {
+        if (!event.conversationId) {
+          return; // Not part of a conversation
+        }
+        const tags = this.sessionTags.get(event.conversationId) ?? new Set<string>();
+        tags.add(action.tag);
+        this.sessionTags.delete(event.conversationId);
+        this.sessionTags.set(event.conversationId, tags);
+        if (this.sessionTags.size > MAX_TAGGED_SESSIONS) {
+          const oldest = this.sessionTags.keys().next().value;
+          if (oldest !== undefined) {
+            this.sessionTags.delete(oldest);
+          }
+        }
+        return;
+      }
+      case 'block': {
+        const value = event[BLOCK_FIELDS[action.target]];
+        if (!value) {
+          console.warn(`[RuleActions] Rule ${rule.id} can't block ${action.target} of ${event.requestId}: event has no ${BLOCK_FIELDS[action.target]}`);
+          return;
+        }
+        const key = `${action.target}:${value}`;
+        const expiresAt = new Date(Date.now() + action.durationMinutes * 60 * 1000).toISOString();
+        const existing = this.blocks.get(key);
+        if (existing && existing.expiresAt >= expiresAt) {
+          return;
+        }
+        this.blocks.set(key, {
+          target: action.target,
+          value,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          requestId: event.requestId,
+          createdAt: existing?.createdAt ?? new Date().toISOString(),
+          expiresAt,
+        });
+        console.warn(`[RuleActions] Rule "${rule.name}" blocked ${action.target} ${value} until ${expiresAt}`);
+        return;
+      }
+    }
+  }
+}
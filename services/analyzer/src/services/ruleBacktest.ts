@@ -0,0 +1,177 @@
+import { upcastTelemetryEvent, validateTelemetryEvent } from '@sentinel/telemetry-schema';
+import { DetectionRule, RuleEngine } from '../engines/ruleEngine.js';
+import { ruleContext } from '../engines/ruleExpression.js';
+import { ActivityRecord, AnalyticsFilter, activityRecord, matchesFilter } from './analytics.js';
+import { AnalysisResult, analysisResultFromRow, BigQueryWriter } from './bigqueryWriter.js';
+import { AnalyzerState } from './queryApi.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_SAMPLE_SIZE = 10;
+
+// Id of a rule that hasn't been saved yet
+export const DRAFT_RULE_ID = 'draft';
+
+export type BacktestRange = Pick<AnalyticsFilter, 'from' | 'to' | 'tenantId'>;
+
+/**
+ * Stored events a backtest runs over, oldest first
+ */
+export interface BacktestHistory {
+  source: 'bigquery' | 'memory';
+  results: AnalysisResult[];
+  truncated: boolean; // More events were in the range than the limit; only the newest were loaded
+  skipped: number; // Stored events that no longer validate
+}
+
+/**
+ * An existing rule that matched some of the same events as the backtested one
+ */
+export interface RuleOverlap {
+  ruleId: string;
+  name: string;
+  matches: number; // Events the existing rule matched
+  shared: number; // Of those, events the backtested rule matched too
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  events: number;
+  matches: number;
+  matchRate: number; // Share of events matched
+  matchesPerHour: number; // Averaged over the range
+  peakHour: { hour: string; matches: number } | null;
+  hourly: Array<{ hour: string; matches: number }>; // Hours with matches, oldest first
+  samples: ActivityRecord[]; // The latest matches, newest first
+  overlap: RuleOverlap[]; // Most shared matches first
+}
+
+/**
+ * Evaluate a rule against past events as if it had been enabled, next to the
+ * existing enabled rules. Events are evaluated in timestamp order with fresh
+ * count() windows, and session tags come only from tag_session actions of
+ * these rules during the backtest. Nothing is sent anywhere.
+ */
+export function backtestRule(
+  rule: DetectionRule,
+  existing: DetectionRule[],
+  results: AnalysisResult[],
+  range: Pick<BacktestRange, 'from' | 'to'>,
+  sampleSize = DEFAULT_SAMPLE_SIZE
+): BacktestReport {
+  const others = existing.filter(other => other.id !== rule.id && other.enabled);
+  const engine = new RuleEngine();
+  engine.setRules([{ ...rule, enabled: true }, ...others]);
+
+  const ordered = [...results].sort((a, b) => Date.parse(a.event.timestamp) - Date.parse(b.event.timestamp));
+  const sessionTags = new Map<string, string[]>();
+  const hourly = new Map<string, number>();
+  const overlap = new Map<string, RuleOverlap>(others.map(other => [other.id, { ruleId: other.id, name: other.name, matches: 0, shared: 0 }]));
+  const samples: ActivityRecord[] = [];
+  let matches = 0;
+
+  for (const result of ordered) {
+    const at = Date.parse(result.event.timestamp);
+    const conversationId = result.event.conversationId;
+    const matched = engine.evaluate(ruleContext(result, conversationId ? sessionTags.get(conversationId) : []), at);
+    const matchedRule = matched.some(match => match.id === rule.id);
+
+    if (matchedRule) {
+      matches++;
+      const hour = new Date(Math.floor(at / HOUR_MS) * HOUR_MS).toISOString();
+      hourly.set(hour, (hourly.get(hour) ?? 0) + 1);
+      samples.push(activityRecord(result));
+      if (samples.length > sampleSize) {
+        samples.shift();
+      }
+    }
+
+    for (const match of matched) {
+      const entry = overlap.get(match.id);
+      if (entry) {
+        entry.matches++;
+        entry.shared += matchedRule ? 1 : 0;
+      }
+      if (!conversationId) {
+        continue;
+      }
+      for (const action of match.actions) {
+        const tags = sessionTags.get(conversationId) ?? [];
+        if (action.type === 'tag_session' && !tags.includes(action.tag)) {
+          sessionTags.set(conversationId, [...tags, action.tag]);
+        }
+      }
+    }
+  }
+
+  const hours = Math.max(1, (Date.parse(range.to) - Date.parse(range.from)) / HOUR_MS);
+  const buckets = [...hourly.entries()].map(([hour, count]) => ({ hour, matches: count })).sort((a, b) => a.hour.localeCompare(b.hour));
+  return {
+    from: range.from,
+    to: range.to,
+    events: ordered.length,
+    matches,
+    matchRate: ordered.length > 0 ? round(matches / ordered.length, 4) : 0,
+    matchesPerHour: round(matches / hours, 2),
+    peakHour: buckets.reduce<BacktestReport['peakHour']>((peak, bucket) => (!peak || bucket.matches > peak.matches ? bucket : peak), null),
+    hourly: buckets,
+    samples: samples.reverse(),
+    overlap: [...overlap.values()]
+      .filter(entry => entry.shared > 0)
+      .sort((a, b) => b.shared - a.shared || b.matches - a.matches),
+  };
+}
+
+/**
+ * Where backtests get past events: the analysis results table joined with the
+ * events table, or, when BigQuery is disabled, the last events this instance
+ * analyzed
+ */
+export class RuleHistory {
+  private bigQueryWriter: BigQueryWriter;
+  private state: () => AnalyzerState | null;
+  private maxEvents: number;
+
+  constructor(bigQueryWriter: BigQueryWriter, state: () => AnalyzerState | null, maxEvents: number) {
+    this.bigQueryWriter = bigQueryWriter;
+    this.state = state;
+    this.maxEvents = maxEvents;
+  }
+
+  /**
+   * Events in the range, or null when BigQuery is disabled and the analyzer
+   * hasn't started
+   */
+  async load(range: BacktestRange): Promise<BacktestHistory | null> {
+    const rows = await this.bigQueryWriter.loadAnalysisHistory(range, this.maxEvents);
+    if (rows) {
+      const results: AnalysisResult[] = [];
+      let skipped = 0;
+      for (const row of rows.reverse()) {
+        try {
+          const validation = validateTelemetryEvent(upcastTelemetryEvent(row.event));
+          if (validation.valid) {
+            results.push(analysisResultFromRow(validation.event, row.analysis));
+            continue;
+          }
+        } catch {
+          // Unsupported schema version
+        }
+        skipped++;
+      }
+      return { source: 'bigquery', results, truncated: rows.length >= this.maxEvents, skipped };
+    }
+
+    const state = this.state();
+    if (!state) {
+      return null;
+    }
+    const results = state.getRecentResults().filter(result => matchesFilter(activityRecord(result), range, false));
+    return { source: 'memory', results, truncated: false, skipped: 0 };
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
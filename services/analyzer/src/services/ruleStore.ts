@@ -0,0 +1,229 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BlockTarget, DetectionRule, RuleAction } from '../engines/ruleEngine.js';
+import { parseRuleExpression, RuleSyntaxError } from '../engines/ruleExpression.js';
+import { webhookUrlProblem } from './webhooks.js';
+
+/**
+ * The editable part of a rule, as sent by clients
+ */
+export interface RuleInput {
+  name: string;
+  description?: string;
+  expression: string;
+  actions: RuleAction[];
+  enabled: boolean;
+}
+
+export class RuleValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(errors.join('; '));
+    this.name = 'RuleValidationError';
+  }
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_ACTIONS = 10;
+const MAX_BLOCK_MINUTES = 7 * 24 * 60;
+const ALERT_TYPES = ['error', 'warning', 'info'];
+const BLOCK_TARGETS: BlockTarget[] = ['tenant', 'app', 'conversation'];
+
+/**
+ * Detection rules, kept in memory and saved to a JSON file on every change.
+ * The file is read once at startup and each instance keeps its own copy, so
+ * the analyzer must run as a single instance (see infra/cloudrun.tf).
+ */
+export class RuleStore {
+  private path: string;
+  private rules: Map<string, DetectionRule> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Read the rules file. A missing file means no rules; rules that no longer
+   * validate are kept, and skipped by the engine.
+   */
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${this.path}: expected a JSON array of rules`);
+    }
+    this.rules = new Map(parsed.map((rule: DetectionRule) => [rule.id, rule]));
+  }
+
+  /**
+   * All rules, or only those a tenant created
+   */
+  list(tenantId?: string): DetectionRule[] {
+    const rules = [...this.rules.values()];
+    return tenantId ? rules.filter(rule => rule.tenantId === tenantId) : rules;
+  }
+
+  get(id: string): DetectionRule | undefined {
+    return this.rules.get(id);
+  }
+
+  async create(input: RuleInput, tenantId?: string): Promise<DetectionRule> {
+    const now = new Date().toISOString();
+    const rule: DetectionRule = { id: randomUUID(), ...input, ...(tenantId && { tenantId }), createdAt: now, updatedAt: now };
+    this.rules.set(rule.id, rule);
+    await this.save();
+    return rule;
+  }
+
+  async update(id: string, input: RuleInput): Promise<DetectionRule | undefined> {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const rule: DetectionRule = {
+      id,
+      ...input,
+      ...(existing.tenantId && { tenantId: existing.tenantId }),
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    this.rules.set(id, rule);
+    await this.save();
+    return rule;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.rules.delete(id)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  // One write at a time: concurrent changes would share the temporary file.
+  // Each write saves the rules as they are when it starts.
+  private save(): Promise<void> {
+    const write = this.saving.then(() => this.write());
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    // Write a copy and swap it in so a crash never leaves a truncated file
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, JSON.stringify([...this.rules.values()], null, 2) + '\n', 'utf8');
+    await rename(temporary, this.path);
+  }
+}
+
+/**
+ * Check a rule sent by a client and fill in defaults. Throws
+ * RuleValidationError listing every problem.
+ */
+export function validateRuleInput(value: unknown): RuleInput {
+  const errors: string[] = [];
+  const body = (typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {}) as Record<string, any>;
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (typeof body.expression !== 'string' || !body.expression.trim() || body.expression.length > MAX_EXPRESSION_LENGTH) {
+    errors.push(`expression must be a non-empty string of at most ${MAX_EXPRESSION_LENGTH} characters`);
+  } else {
+    try {
+      parseRuleExpression(body.expression);
+    } catch (error) {
+      if (!(error instanceof RuleSyntaxError)) {
+        throw error;
+      }
+      errors.push(`expression: ${error.message}`);
+    }
+  }
+
+  const actions: RuleAction[] = [];
+  if (!Array.isArray(body.actions ?? [])) {
+    errors.push('actions must be an array');
+  } else if ((body.actions ?? []).length > MAX_ACTIONS) {
+    errors.push(`at most ${MAX_ACTIONS} actions are allowed`);
+  } else {
+    (body.actions ?? []).forEach((action: unknown, index: number) => {
+      const checked = validateAction(action, `actions[${index}]`, errors);
+      if (checked) {
+        actions.push(checked);
+      }
+    });
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    throw new RuleValidationError(errors);
+  }
+  return {
+    name,
+    ...(body.description && { description: body.description.trim() }),
+    expression: body.expression.trim(),
+    actions,
+    enabled: body.enabled ?? true,
+  };
+}
+
+function validateAction(value: unknown, path: string, errors: string[]): RuleAction | undefined {
+  const action = (typeof value === 'object' && value !== null ? value : {}) as Record<string, any>;
+  switch (action.type) {
+    case 'webhook': {
+      const problem = webhookUrlProblem(action.url);
+      if (problem) {
+        errors.push(`${path}.url ${problem}`);
+        return undefined;
+      }
+      return { type: 'webhook', url: action.url };
+    }
+    case 'datadog': {
+      const alertType = action.alertType ?? 'warning';
+      if (!ALERT_TYPES.includes(alertType)) {
+        errors.push(`${path}.alertType must be one of ${ALERT_TYPES.join(', ')}`);
+        return undefined;
+      }
+      return { type: 'datadog', alertType };
+    }
+    case 'tag_session':
+      if (typeof action.tag !== 'string' || !/^[\w.:-]{1,64}$/.test(action.tag)) {
+        errors.push(`${path}.tag must be 1-64 letters, digits or . _ : -`);
+        return undefined;
+      }
+      return { type: 'tag_session', tag: action.tag };
+    case 'block':
+      if (!BLOCK_TARGETS.includes(action.target)) {
+        errors.push(`${path}.target must be one of ${BLOCK_TARGETS.join(', ')}`);
+        return undefined;
+      }
+      if (!Number.isInteger(action.durationMinutes) || action.durationMinutes <= 0 || action.durationMinutes > MAX_BLOCK_MINUTES) {
+        errors.push(`${path}.durationMinutes must be a whole number of minutes up to ${MAX_BLOCK_MINUTES}`);
+        return undefined;
+      }
+      return { type: 'block', target: action.target, durationMinutes: action.durationMinutes };
+    default:
+      errors.push(`${path}.type must be one of webhook, datadog, tag_session, block`);
+      return undefined;
+  }
+}
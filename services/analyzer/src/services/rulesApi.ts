@@ -0,0 +1,224 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { BlockTarget, RuleEngine } from '../engines/ruleEngine.js';
+import { RULE_FIELDS } from '../engines/ruleExpression.js';
+import { HttpError, sendJson } from './queryApi.js';
+import { RuleActions } from './ruleActions.js';
+import { backtestRule, DRAFT_RULE_ID, RuleHistory } from './ruleBacktest.js';
+import { RuleStore, RuleValidationError, validateRuleInput } from './ruleStore.js';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_BACKTEST_DAYS = 7;
+const MAX_BACKTEST_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * JSON API for detection rules and what their actions left behind:
+ *
+ *   GET    /api/rules                        Rules, with the fields expressions can use
+ *   POST   /api/rules                        Create a rule
+ *   POST   /api/rules/validate               Check a rule without saving it
+ *   POST   /api/rules/backtest               Evaluate a rule against the last `days` of stored events
+ *   GET    /api/rules/:id                    One rule
+ *   PUT    /api/rules/:id                    Replace a rule's name, expression, actions and enabled flag
+ *   DELETE /api/rules/:id                    Delete a rule
+ *   GET    /api/blocklist                    Active blocks, polled by the gateway
+ *   DELETE /api/blocklist/:target/:value     Lift a block early
+ *   GET    /api/sessions/:conversationId     Tags set on a conversation
+ *
+ * Rule routes take `tenant`: rules created with it only match that tenant's
+ * events, and other tenants' rules look like missing ones. Invalid rules are
+ * rejected with 400 and every problem in `errors`. A backtest of an edited
+ * rule takes its `ruleId`, so the saved version isn't counted as overlap.
+ */
+export class RulesApi {
+  static readonly PREFIXES = ['/api/rules', '/api/blocklist', '/api/sessions'];
+  private ruleStore: RuleStore;
+  private ruleEngine: RuleEngine;
+  private ruleActions: RuleActions;
+  private ruleHistory: RuleHistory;
+
+  constructor(ruleStore: RuleStore, ruleEngine: RuleEngine, ruleActions: RuleActions, ruleHistory: RuleHistory) {
+    this.ruleStore = ruleStore;
+    this.ruleEngine = ruleEngine;
+    this.ruleActions = ruleActions;
+    this.ruleHistory = ruleHistory;
+  }
+
+  static matches(url: string): boolean {
+    const pathname = url.split('?')[0];
+    return RulesApi.PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+      const [resource, ...rest] = pathname.slice('/api/'.length).split('/').map(decodeURIComponent);
+      const tenantId = searchParams.get('tenant') || undefined;
+
+      switch (resource) {
+        case 'rules':
+          await this.rules(req, res, rest, searchParams, tenantId);
+          return;
+        case 'blocklist':
+          this.blockList(req, res, rest);
+          return;
+        case 'sessions':
+          if (req.method !== 'GET' || rest.length !== 1) {
+            throw new HttpError(404, 'Usage: GET /api/sessions/:conversationId');
+          }
+          sendJson(res, 200, { conversationId: rest[0], tags: this.ruleActions.getSessionTags(rest[0]) });
+          return;
+      }
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        sendJson(res, 400, { error: 'Invalid rule', errors: error.errors });
+      } else if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('[RulesApi] Request failed:', error);
+        sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  }
+
+  private async rules(
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string[],
+    query: URLSearchParams,
+    tenantId: string | undefined
+  ): Promise<void> {
+    const [id, ...extra] = path;
+    if (extra.length > 0) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    if (id === undefined) {
+      if (req.method === 'GET') {
+        sendJson(res, 200, { rules: this.ruleStore.list(tenantId), fields: RULE_FIELDS });
+      } else if (req.method === 'POST') {
+        const rule = await this.ruleStore.create(validateRuleInput(await readJson(req)), tenantId);
+        this.reload();
+        console.log(`[RulesApi] Created rule ${rule.id} (${rule.name}): ${rule.expression}`);
+        sendJson(res, 201, { rule });
+      } else {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      return;
+    }
+
+    if (id === 'validate') {
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      sendJson(res, 200, { valid: true, rule: validateRuleInput(await readJson(req)) });
+      return;
+    }
+
+    if (id === 'backtest') {
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      sendJson(res, 200, await this.backtest(await readJson(req), query, tenantId));
+      return;
+    }
+
+    // Rules of other tenants look like missing ones
+    const existing = this.ruleStore.get(id);
+    if (!existing || (tenantId && existing.tenantId !== tenantId)) {
+      throw new HttpError(404, `No rule ${id}`);
+    }
+
+    switch (req.method) {
+      case 'GET':
+        sendJson(res, 200, { rule: existing });
+        return;
+      case 'PUT': {
+        const rule = await this.ruleStore.update(id, validateRuleInput(await readJson(req)));
+        this.reload();
+        console.log(`[RulesApi] Updated rule ${id} (${rule?.name}): ${rule?.expression}${rule?.enabled ? '' : ' [disabled]'}`);
+        sendJson(res, 200, { rule });
+        return;
+      }
+      case 'DELETE':
+        await this.ruleStore.delete(id);
+        this.reload();
+        console.log(`[RulesApi] Deleted rule ${id} (${existing.name})`);
+        sendJson(res, 200, { deleted: id });
+        return;
+      default:
+        throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  private async backtest(body: unknown, query: URLSearchParams, tenantId: string | undefined) {
+    const input = validateRuleInput(body);
+    const days = Number(query.get('days') || DEFAULT_BACKTEST_DAYS);
+    if (!(days > 0 && days <= MAX_BACKTEST_DAYS)) {
+      throw new HttpError(400, `days must be more than 0 and at most ${MAX_BACKTEST_DAYS}`);
+    }
+    const ruleId = query.get('ruleId');
+    const saved = ruleId ? this.ruleStore.get(ruleId) : undefined;
+    if (ruleId && (!saved || (tenantId && saved.tenantId !== tenantId))) {
+      throw new HttpError(404, `No rule ${ruleId}`);
+    }
+
+    const to = Date.now();
+    const range = { from: new Date(to - days * DAY_MS).toISOString(), to: new Date(to).toISOString(), ...(tenantId && { tenantId }) };
+    const history = await this.ruleHistory.load(range);
+    if (!history) {
+      throw new HttpError(503, 'Analyzer is starting');
+    }
+
+    const now = new Date(to).toISOString();
+    const rule = {
+      id: saved?.id ?? DRAFT_RULE_ID,
+      ...input,
+      ...((saved?.tenantId ?? tenantId) && { tenantId: saved?.tenantId ?? tenantId }),
+      createdAt: saved?.createdAt ?? now,
+      updatedAt: now,
+    };
+    const report = backtestRule(rule, this.ruleStore.list(tenantId), history.results, range);
+    console.log(`[RulesApi] Backtested ${rule.expression} over ${days}d: ${report.matches}/${report.events} events (${history.source})`);
+    return { source: history.source, truncated: history.truncated, skipped: history.skipped, ...report };
+  }
+
+  private blockList(req: IncomingMessage, res: ServerResponse, path: string[]): void {
+    if (path.length === 0 && req.method === 'GET') {
+      sendJson(res, 200, { blocks: this.ruleActions.getBlockList() });
+      return;
+    }
+    if (path.length === 2 && req.method === 'DELETE') {
+      const [target, value] = path;
+      if (!this.ruleActions.unblock(target as BlockTarget, value)) {
+        throw new HttpError(404, `No block on ${target} ${value}`);
+      }
+      console.log(`[RulesApi] Lifted block on ${target} ${value}`);
+      sendJson(res, 200, { unblocked: { target, value } });
+      return;
+    }
+    throw new HttpError(404, 'Usage: GET /api/blocklist or DELETE /api/blocklist/:target/:value');
+  }
+
+  private reload(): void {
+    this.ruleEngine.setRules(this.ruleStore.list());
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+}
@@ -2,6 +2,7 @@ import { VertexAI } from '@google-cloud/vertexai';
 import { GoogleAuth } from 'google-auth-library';
 import { Config } from '../config.js';
 import { SafetyLabel } from '../engines/safetyEngine.js';
+import { ConcurrencyPool } from '../utils/concurrencyPool.js';
 
 export class SafetyClassifier {
   private vertexAI: VertexAI;
@@ -9,8 +10,9 @@ export class SafetyClassifier {
   private location: string;
   private model: string;
   private auth: GoogleAuth;
+  private pool: ConcurrencyPool;
 
-  constructor(config: Config['vertex']) {
+  constructor(config: Config['vertex'], pool: ConcurrencyPool) {
     this.vertexAI = new VertexAI({
       project: config.projectId,
       location: config.location,
@@ -24,6 +26,7 @@ export class SafetyClassifier {
       scopes: ['https://www.googleapis.com/auth/cloud-platform'],
       projectId: config.projectId,
     });
+    this.pool = pool;
   }
 
   async classifySafety(prompt: string, response: string): Promise<{ label: SafetyLabel; score: number; details?: string }> {
@@ -39,7 +42,7 @@ export class SafetyClassifier {
           model: modelName,
         });
 
-        const result = await model.generateContent({
+        const result = await this.pool.run(() => model.generateContent({
           contents: [{ role: 'user', parts: [{ text: classificationPrompt }] }],
           // Don't block any content for safety classification - we want to analyze everything
           safetySettings: [
@@ -52,7 +55,7 @@ export class SafetyClassifier {
               threshold: 1, // BLOCK_NONE
             },
           ] as any,
-        });
+        }));
 
         const text = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
         
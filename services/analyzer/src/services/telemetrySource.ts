@@ -0,0 +1,387 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { open, readFile, stat, writeFile } from 'fs/promises';
+import { PubSub, Subscription } from '@google-cloud/pubsub';
+import { Config } from '../config.js';
+
+/**
+ * One delivery of a telemetry message. Shaped like a Pub/Sub message so the
+ * consumer handles every transport the same way: ack when done, nack to have
+ * the message delivered again.
+ */
+export interface TelemetryMessage {
+  id: string;
+  data: Buffer;
+  publishTime: Date;
+  deliveryAttempt: number;
+  attributes: Record<string, string>;
+  ack(): void;
+  nack(): void;
+}
+
+export type MessageHandler = (message: TelemetryMessage) => Promise<void>;
+
+/**
+ * Where the analyzer receives telemetry from. Each source delivers at most
+ * maxInFlight messages at a time and redelivers nacked ones.
+ */
+export interface TelemetrySource {
+  readonly name: string;
+  readonly description: string;
+  start(handler: MessageHandler): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * A Pub/Sub subscription - the production transport
+ */
+export class PubSubTelemetrySource implements TelemetrySource {
+  readonly name = 'pubsub';
+  readonly description: string;
+  private pubsub: PubSub;
+  private subscriptionName: string;
+  private maxInFlight: number;
+  private subscription: Subscription | null = null;
+
+  constructor(config: Config['pubsub'], maxInFlight: number) {
+    this.pubsub = new PubSub({
+      projectId: config.projectId,
+    });
+    this.subscriptionName = config.subscriptionName;
+    this.maxInFlight = maxInFlight;
+    this.description = `subscription ${config.subscriptionName}`;
+  }
+
+  async start(handler: MessageHandler): Promise<void> {
+    // Pub/Sub holds back further messages while maxInFlight are unacked. When
+    // the dependency pools saturate, messages take longer to finish and
+    // delivery slows down with them instead of piling up in memory.
+    this.subscription = this.pubsub.subscription(this.subscriptionName, {
+      flowControl: { maxMessages: this.maxInFlight, allowExcessMessages: false },
+    });
+
+    this.subscription.on('message', handler);
+    this.subscription.on('error', (error: Error) => {
+      console.error('[Consumer] Subscription error:', error);
+    });
+  }
+
+  async stop(): Promise<void> {
+    await this.subscription?.close();
+    this.subscription = null;
+  }
+}
+
+interface QueuedMessage {
+  id: string;
+  data: Buffer;
+  publishTime: Date;
+  attributes: Record<string, string>;
+  attempts: number;
+}
+
+/**
+ * An in-process queue. Messages are lost when the process exits, so it suits
+ * tests and local runs; the file and HTTP sources build on it.
+ */
+export class MemoryTelemetrySource implements TelemetrySource {
+  readonly name: string = 'memory';
+  readonly description: string = 'in-process queue';
+  private maxInFlight: number;
+  private maxQueued: number;
+  private retryDelayMs: number;
+  private queue: QueuedMessage[] = [];
+  private retries: Set<NodeJS.Timeout> = new Set();
+  private active = 0;
+  private handler: MessageHandler | null = null;
+
+  constructor(maxInFlight: number, options: { maxQueued?: number; retryDelayMs?: number } = {}) {
+    this.maxInFlight = maxInFlight;
+    this.maxQueued = options.maxQueued ?? 10000;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Add a message for delivery. Returns false when the queue is full.
+   */
+  enqueue(data: string | Buffer, attributes: Record<string, string> = {}, id: string = randomUUID()): boolean {
+    if (this.queue.length >= this.maxQueued) {
+      return false;
+    }
+    this.queue.push({
+      id,
+      data: Buffer.isBuffer(data) ? data : Buffer.from(data),
+      publishTime: new Date(),
+      attributes,
+      attempts: 0,
+    });
+    this.pump();
+    return true;
+  }
+
+  async start(handler: MessageHandler): Promise<void> {
+    this.handler = handler;
+    this.pump();
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+    this.retries.forEach(timer => clearTimeout(timer));
+    this.retries.clear();
+  }
+
+  /** Called once for every acked message */
+  protected acknowledged(_id: string): void {}
+
+  private pump(): void {
+    while (this.handler && this.active < this.maxInFlight && this.queue.length > 0) {
+      this.deliver(this.handler, this.queue.shift()!);
+    }
+  }
+
+  private deliver(handler: MessageHandler, queued: QueuedMessage): void {
+    this.active++;
+    queued.attempts++;
+
+    let settled = false;
+    const settle = (acked: boolean): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (acked) {
+        this.acknowledged(queued.id);
+      } else {
+        this.redeliverLater(queued);
+      }
+    };
+    const message: TelemetryMessage = {
+      id: queued.id,
+      data: queued.data,
+      publishTime: queued.publishTime,
+      deliveryAttempt: queued.attempts,
+      attributes: queued.attributes,
+      ack: () => settle(true),
+      nack: () => settle(false),
+    };
+
+    handler(message)
+      .catch(error => console.error(`[Consumer] Unhandled error for message ${queued.id}:`, error))
+      .finally(() => {
+        // A message the handler neither acked nor nacked is redelivered, as Pub/Sub would
+        settle(false);
+        this.active--;
+        this.pump();
+      });
+  }
+
+  private redeliverLater(queued: QueuedMessage): void {
+    const timer = setTimeout(() => {
+      this.retries.delete(timer);
+      this.queue.unshift(queued);
+      this.pump();
+    }, this.retryDelayMs);
+    timer.unref();
+    this.retries.add(timer);
+  }
+}
+
+/**
+ * Tails a JSONL file the gateway appends events to (one event per line). The
+ * position up to which every line is acked is kept in `<file>.offset`, so a
+ * restarted analyzer continues where it stopped.
+ */
+export class JsonlTelemetrySource extends MemoryTelemetrySource {
+  readonly name = 'jsonl';
+  readonly description: string;
+  private path: string;
+  private pollIntervalMs: number;
+  private offset = 0; // Read up to here
+  private committed = 0; // Acked up to here
+  private pending: Map<string, { end: number; acked: boolean }> = new Map(); // In file order
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(path: string, maxInFlight: number, pollIntervalMs: number) {
+    super(maxInFlight);
+    this.path = path;
+    this.pollIntervalMs = pollIntervalMs;
+    this.description = `file ${path}`;
+  }
+
+  async start(handler: MessageHandler): Promise<void> {
+    this.committed = this.offset = await this.readCommittedOffset();
+    await super.start(handler);
+    this.schedulePoll();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await super.stop();
+  }
+
+  protected acknowledged(id: string): void {
+    const line = this.pending.get(id);
+    if (!line) {
+      return;
+    }
+    line.acked = true;
+
+    // Advance over the acked prefix; later lines may finish first
+    let committed = this.committed;
+    for (const [pendingId, pendingLine] of this.pending) {
+      if (!pendingLine.acked) {
+        break;
+      }
+      committed = pendingLine.end;
+      this.pending.delete(pendingId);
+    }
+    if (committed !== this.committed) {
+      this.committed = committed;
+      writeFile(`${this.path}.offset`, String(committed), 'utf8')
+        .catch(error => console.error(`[Consumer] Failed to save offset for ${this.path}:`, error));
+    }
+  }
+
+  private schedulePoll(): void {
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch(error => console.error(`[Consumer] Failed to read ${this.path}:`, error))
+        .finally(() => {
+          if (this.timer) {
+            this.schedulePoll();
+          }
+        });
+    }, this.pollIntervalMs);
+  }
+
+  private async poll(): Promise<void> {
+    // Read more only once the previous lines are handed out (backpressure)
+    if (this.queued > 0) {
+      return;
+    }
+
+    let size: number;
+    try {
+      size = (await stat(this.path)).size;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return; // Nothing published yet
+      }
+      throw error;
+    }
+
+    if (size < this.offset) {
+      console.warn(`[Consumer] ${this.path} was truncated, reading from the start`);
+      this.offset = this.committed = 0;
+      this.pending.clear();
+    }
+    if (size === this.offset) {
+      return;
+    }
+
+    const file = await open(this.path, 'r');
+    let chunk: Buffer;
+    try {
+      chunk = Buffer.alloc(size - this.offset);
+      await file.read(chunk, 0, chunk.length, this.offset);
+    } finally {
+      await file.close();
+    }
+
+    // Only complete lines; a partly written last line is read on the next poll
+    const end = chunk.lastIndexOf('\n');
+    if (end === -1) {
+      return;
+    }
+    let position = this.offset;
+    for (const line of chunk.subarray(0, end).toString('utf8').split('\n')) {
+      const lineEnd = position + Buffer.byteLength(line) + 1;
+      if (line.trim()) {
+        const id = randomUUID();
+        this.pending.set(id, { end: lineEnd, acked: false });
+        if (!this.enqueue(line, {}, id)) {
+          // Queue full; the rest is read on a later poll
+          this.pending.delete(id);
+          break;
+        }
+      }
+      position = lineEnd;
+    }
+    this.offset = position;
+  }
+
+  private async readCommittedOffset(): Promise<number> {
+    try {
+      return parseInt(await readFile(`${this.path}.offset`, 'utf8'), 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+/**
+ * Receives events the gateway POSTs to /telemetry on the analyzer's port.
+ * Requests are answered once an event is queued, not processed, so the
+ * gateway isn't held up; a full queue answers 503.
+ */
+export class HttpTelemetrySource extends MemoryTelemetrySource {
+  readonly name = 'http';
+  readonly description: string;
+  static readonly PATH = '/telemetry';
+  private static readonly MAX_BODY_BYTES = 1024 * 1024;
+
+  constructor(port: number, maxInFlight: number) {
+    super(maxInFlight);
+    this.description = `POST http://localhost:${port}${HttpTelemetrySource.PATH}`;
+  }
+
+  handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > HttpTelemetrySource.MAX_BODY_BYTES) {
+        res.writeHead(413, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Event too large' }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (res.writableEnded) {
+        return;
+      }
+      if (!this.enqueue(Buffer.concat(chunks))) {
+        res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '1' });
+        res.end(JSON.stringify({ error: 'Analyzer queue full' }));
+        return;
+      }
+      res.writeHead(202);
+      res.end();
+    });
+  }
+}
+
+export function createTelemetrySource(config: Config, port: number): TelemetrySource {
+  const maxInFlight = config.flowControl.maxInFlight;
+  switch (config.telemetry.transport) {
+    case 'jsonl':
+      return new JsonlTelemetrySource(config.telemetry.filePath, maxInFlight, config.telemetry.pollIntervalMs);
+    case 'http':
+      return new HttpTelemetrySource(port, maxInFlight);
+    case 'memory':
+      return new MemoryTelemetrySource(maxInFlight);
+    default:
+      return new PubSubTelemetrySource(config.pubsub, maxInFlight);
+  }
+}
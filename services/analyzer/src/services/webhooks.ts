@@ -0,0 +1,131 @@
+import http from 'http';
+import https from 'https';
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Addresses webhooks may not reach. Rules are created by tenants but their
+// webhooks are sent from inside the private network, next to the metadata
+// server and the other services.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including the metadata server
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['::', 96], // IPv4-compatible (deprecated), e.g. ::127.0.0.1
+  ['64:ff9b::', 96], // NAT64
+  ['2001::', 32], // Teredo, tunnels to an embedded IPv4 address
+  ['2002::', 16], // 6to4, tunnels to an embedded IPv4 address
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not a
+ * public internet address. Anything that isn't an IP address is blocked.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i); // IPv4-mapped IPv6
+  if (mapped) {
+    return isBlockedAddress(mapped[1]);
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * What's wrong with a webhook URL that can be told without resolving it, or
+ * null. Host names are checked again after DNS resolution when sending.
+ */
+export function webhookUrlProblem(value: unknown): string | null {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return 'must be an http(s) URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'must be an http(s) URL';
+  }
+  const host = hostOf(url);
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || (isIP(host) && isBlockedAddress(host))) {
+    return 'must point at a public host, not a loopback, private or link-local address';
+  }
+  return null;
+}
+
+/**
+ * POST JSON to a webhook and resolve with the response status. Refuses
+ * hosts that resolve to a blocked address, checked on the address actually
+ * connected to, and doesn't follow redirects.
+ */
+export function postWebhook(url: string, body: unknown, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) {
+      reject(new Error(`webhook URL ${problem}`));
+      return;
+    }
+
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      lookup: publicLookup,
+      timeout: timeoutMs,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('timeout', () => request.destroy(new Error(`webhook timed out after ${timeoutMs}ms`)));
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+}
+
+// dns.lookup that fails for host names with any blocked address
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`${hostname} resolves to ${blocked?.address ?? 'nothing'}, which webhooks may not reach`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Host name without the brackets of IPv6 literals
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
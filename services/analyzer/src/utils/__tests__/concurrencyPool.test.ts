@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyPool } from '../concurrencyPool.js';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyPool', () => {
+  it('queues calls beyond the limit and runs them in order', async () => {
+    const pool = new ConcurrencyPool('test', 2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, i) => pool.run(async () => {
+      started.push(i);
+      await gate.promise;
+      return i;
+    }));
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+    expect(pool.stats()).toMatchObject({ active: 2, queued: 1, saturation: 1 });
+    expect(pool.saturated).toBe(true);
+
+    gates[1].resolve();
+    await runs[1];
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1, 2]);
+    expect(pool.stats()).toMatchObject({ active: 2, queued: 0 });
+
+    gates[0].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(pool.stats()).toMatchObject({ active: 0, queued: 0, saturation: 0 });
+  });
+
+  it('releases the slot when a call fails', async () => {
+    const pool = new ConcurrencyPool('test', 1);
+
+    await expect(pool.run(async () => {
+      throw new Error('quota exceeded');
+    })).rejects.toThrow('quota exceeded');
+
+    expect(await pool.run(async () => 'next')).toBe('next');
+    expect(pool.stats().active).toBe(0);
+  });
+});
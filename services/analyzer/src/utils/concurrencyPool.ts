@@ -0,0 +1,76 @@
+import { Config } from '../config.js';
+
+export interface PoolStats {
+  name: string;
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+  saturation: number; // active / maxConcurrent
+}
+
+/**
+ * Limits concurrent calls to one dependency. Calls beyond the limit wait in
+ * FIFO order; they never fail because the pool is full.
+ */
+export class ConcurrencyPool {
+  readonly name: string;
+  readonly maxConcurrent: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(name: string, maxConcurrent: number) {
+    this.name = name;
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // The releasing call hands its slot over, so active stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  get saturated(): boolean {
+    return this.active >= this.maxConcurrent;
+  }
+
+  stats(): PoolStats {
+    return {
+      name: this.name,
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queued: this.waiting.length,
+      saturation: this.active / this.maxConcurrent,
+    };
+  }
+}
+
+/** One pool per external dependency of the analyzer */
+export interface DependencyPools {
+  embeddings: ConcurrencyPool;
+  classifier: ConcurrencyPool;
+  bigquery: ConcurrencyPool;
+  datadog: ConcurrencyPool;
+}
+
+export function createDependencyPools(config: Config['flowControl']['pools']): DependencyPools {
+  return {
+    embeddings: new ConcurrencyPool('embeddings', config.embeddings),
+    classifier: new ConcurrencyPool('classifier', config.classifier),
+    bigquery: new ConcurrencyPool('bigquery', config.bigquery),
+    datadog: new ConcurrencyPool('datadog', config.datadog),
+  };
+}
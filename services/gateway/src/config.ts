@@ -1,4 +1,16 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
 import dotenv from 'dotenv';
+import { GuardrailAction, GuardrailLabel } from './utils/guardrails.js';
+import { OutputFilterMode } from './utils/outputFilter.js';
+import { ScrubMode } from './services/telemetryScrubber.js';
+import { TelemetryTransportName } from './services/telemetryTransport.js';
+import { ApiKeyRecord } from './services/apiKeyStore.js';
+import { QuotaLimits } from './services/quotaManager.js';
+import { RateLimitDimension, RateLimits } from './services/rateLimitManager.js';
+import { PiiCategory } from './utils/demoScorer.js';
+
+const PII_CATEGORIES: PiiCategory[] = ['ssn', 'credit_card', 'email', 'phone'];
 
 dotenv.config();
 
@@ -11,11 +23,87 @@ export interface Config {
     location: string;
     model: string;
   };
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    enabled: boolean;
+  };
+  providers: {
+    defaultProvider: string;
+    routes: Record<string, string>; // endpoint -> provider name
+    allowRequestOverride: boolean;
+  };
+  routing: {
+    policyFile: string; // JSON routing policies (primary, fallbacks, retry budget); see routingPolicies.ts
+  };
+  shadow: {
+    enabled: boolean;
+    model: string; // Candidate model that sampled /api/chat requests are mirrored to
+    provider: string; // Provider serving the candidate; defaults to LLM_PROVIDER
+    samplePercent: number; // 0-100
+    maxConcurrent: number; // Mirrors in flight beyond this are skipped, not queued
+  };
+  proxy: {
+    enabled: boolean;
+    forwardModel: boolean; // Pass the client's `model` through instead of the provider default
+  };
+  auth: {
+    enabled: boolean;
+    keys: ApiKeyRecord[];
+    keysFile: string; // JSON array of { keyHash, tenantId, appId? }
+  };
+  quotas: {
+    defaults: QuotaLimits; // Applied to every tenant unless overridden
+    tenantsFile: string; // JSON map of tenantId -> QuotaLimits overrides
+    store: 'memory' | 'file';
+    storePath: string;
+  };
+  rateLimit: {
+    limits: Record<RateLimitDimension, RateLimits>;
+    store: 'memory' | 'redis';
+    redisUrl: string;
+  };
+  responseCache: {
+    enabled: boolean;
+    ttlMs: number;
+    similarityThreshold: number; // Cosine similarity for near matches; 1 = exact matches only
+    maxEntries: number;
+    scope: 'tenant' | 'global'; // Whether cached responses may be shared between tenants
+    embeddingModel: string;
+  };
+  guardrails: {
+    enabled: boolean;
+    policies: Record<GuardrailLabel, GuardrailAction>;
+  };
+  outputFilter: {
+    mode: OutputFilterMode;
+    categories: PiiCategory[];
+  };
+  telemetryScrub: {
+    mode: ScrubMode;
+    dictionaryTerms: string[];
+    dictionaryFile: string; // One term per line
+    hashSalt: string;
+    allowEmbeddings: boolean; // Send a masked response for drift embeddings in hash/drop-text modes
+  };
   pubsub: {
     projectId: string;
     topicName: string;
     enabled: boolean;
   };
+  telemetry: {
+    transport: TelemetryTransportName;
+    filePath: string; // jsonl transport; the analyzer reads the same file
+    httpUrl: string; // http transport; the analyzer's /telemetry endpoint
+    httpTimeoutMs: number;
+  };
+  analyzer: {
+    url: string; // Analyzer base URL, for the fleet-wide analytics behind /api/analytics
+    timeoutMs: number;
+    idToken: boolean; // Send a Google ID token, for an analyzer on Cloud Run that requires authentication
+    blockListPollMs: number; // How often detection rule blocks are fetched; 0 disables blocking
+  };
 }
 
 export function loadConfig(): Config {
@@ -29,11 +117,214 @@ export function loadConfig(): Config {
       location: process.env.VERTEX_LOCATION || process.env.GOOGLE_CLOUD_LOCATION || 'us-central1',
       model: process.env.VERTEX_MODEL || 'gemini-2.0-flash', // Will try multiple variants automatically
     },
+    openai: {
+      // Any OpenAI-compatible server (vLLM, Ollama, LiteLLM, scripts/mock-openai-server.ts)
+      baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8000/v1',
+      apiKey: process.env.OPENAI_API_KEY || '',
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      enabled: !!process.env.OPENAI_BASE_URL || !!process.env.OPENAI_API_KEY,
+    },
+    providers: {
+      defaultProvider: process.env.LLM_PROVIDER || 'vertex',
+      routes: parseProviderRoutes(process.env.LLM_PROVIDER_ROUTES || ''),
+      allowRequestOverride: process.env.LLM_PROVIDER_OVERRIDE === 'true',
+    },
+    routing: {
+      policyFile: process.env.ROUTING_POLICY_FILE || '',
+    },
+    shadow: {
+      enabled: !!process.env.SHADOW_MODEL,
+      model: process.env.SHADOW_MODEL || '',
+      provider: process.env.SHADOW_PROVIDER || process.env.LLM_PROVIDER || 'vertex',
+      samplePercent: Math.min(100, parseOptionalNumber(process.env.SHADOW_SAMPLE_PERCENT) ?? 10),
+      maxConcurrent: parseOptionalNumber(process.env.SHADOW_MAX_CONCURRENT) ?? 10,
+    },
+    proxy: {
+      enabled: process.env.OPENAI_PROXY_ENABLED !== 'false',
+      forwardModel: process.env.OPENAI_PROXY_FORWARD_MODEL === 'true',
+    },
+    auth: {
+      enabled: process.env.AUTH_ENABLED === 'true',
+      keys: parseApiKeys(process.env.API_KEYS || ''),
+      keysFile: process.env.API_KEYS_FILE || '',
+    },
+    quotas: {
+      defaults: {
+        dailyTokens: parseOptionalNumber(process.env.QUOTA_DAILY_TOKENS),
+        monthlyTokens: parseOptionalNumber(process.env.QUOTA_MONTHLY_TOKENS),
+        dailyCostUsd: parseOptionalNumber(process.env.QUOTA_DAILY_COST_USD),
+        monthlyCostUsd: parseOptionalNumber(process.env.QUOTA_MONTHLY_COST_USD),
+      },
+      tenantsFile: process.env.QUOTA_TENANTS_FILE || '',
+      store: process.env.QUOTA_STORE === 'file' ? 'file' : 'memory',
+      storePath: process.env.QUOTA_STORE_PATH || 'quota-usage.json',
+    },
+    rateLimit: {
+      // 60 requests/min per API key and per IP unless configured; set a limit to 'off' to disable it
+      limits: {
+        key: {
+          requestsPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_KEY_RPM ?? '60'),
+          tokensPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_KEY_TPM),
+        },
+        ip: {
+          requestsPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_IP_RPM ?? '60'),
+          tokensPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_IP_TPM),
+        },
+        model: {
+          requestsPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_MODEL_RPM),
+          tokensPerMinute: parseOptionalNumber(process.env.RATE_LIMIT_MODEL_TPM),
+        },
+      },
+      store: process.env.RATE_LIMIT_STORE === 'redis' ? 'redis' : 'memory',
+      redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    },
+    responseCache: {
+      enabled: process.env.RESPONSE_CACHE_ENABLED === 'true',
+      ttlMs: (parseOptionalNumber(process.env.RESPONSE_CACHE_TTL_SECONDS) ?? 3600) * 1000,
+      similarityThreshold: parseOptionalNumber(process.env.RESPONSE_CACHE_SIMILARITY) ?? 0.95,
+      maxEntries: parseOptionalNumber(process.env.RESPONSE_CACHE_MAX_ENTRIES) ?? 1000,
+      scope: process.env.RESPONSE_CACHE_SCOPE === 'global' ? 'global' : 'tenant',
+      embeddingModel: process.env.RESPONSE_CACHE_EMBEDDING_MODEL || 'text-embedding-004',
+    },
+    guardrails: {
+      enabled: process.env.GUARDRAILS_ENABLED !== 'false',
+      // Default to observe-only; set a label to 'redact' or 'block' to enforce it
+      policies: {
+        PII: parseGuardrailAction(process.env.GUARDRAIL_PII, 'warn'),
+        JAILBREAK: parseGuardrailAction(process.env.GUARDRAIL_JAILBREAK, 'warn'),
+        PROMPT_INJECTION: parseGuardrailAction(process.env.GUARDRAIL_PROMPT_INJECTION, 'warn'),
+      },
+    },
+    outputFilter: {
+      mode: parseOutputFilterMode(process.env.OUTPUT_FILTER_MODE),
+      categories: parsePiiCategories(process.env.OUTPUT_FILTER_CATEGORIES || ''),
+    },
+    telemetryScrub: {
+      mode: parseScrubMode(process.env.TELEMETRY_SCRUB_MODE),
+      dictionaryTerms: (process.env.TELEMETRY_SCRUB_DICTIONARY || '').split(',').map(term => term.trim()).filter(Boolean),
+      dictionaryFile: process.env.TELEMETRY_SCRUB_DICTIONARY_FILE || '',
+      hashSalt: process.env.TELEMETRY_SCRUB_HASH_SALT || '',
+      allowEmbeddings: process.env.TELEMETRY_SCRUB_ALLOW_EMBEDDINGS === 'true',
+    },
     pubsub: {
       projectId: process.env.GOOGLE_CLOUD_PROJECT_ID || '',
       topicName: process.env.PUBSUB_TOPIC_NAME || 'sentinel-llm-telemetry',
       enabled: process.env.PUBSUB_ENABLED !== 'false',
     },
+    telemetry: {
+      transport: parseTelemetryTransport(process.env.TELEMETRY_TRANSPORT),
+      filePath: process.env.TELEMETRY_FILE || join(tmpdir(), 'sentinel-telemetry.jsonl'),
+      httpUrl: process.env.TELEMETRY_HTTP_URL || 'http://localhost:8080/telemetry',
+      httpTimeoutMs: parseInt(process.env.TELEMETRY_HTTP_TIMEOUT_MS || '5000', 10),
+    },
+    analyzer: {
+      url: (process.env.ANALYZER_URL || 'http://localhost:8080').replace(/\/+$/, ''),
+      timeoutMs: parseInt(process.env.ANALYZER_TIMEOUT_MS || '10000', 10),
+      idToken: process.env.ANALYZER_ID_TOKEN === 'true',
+      blockListPollMs: parseInt(process.env.ANALYZER_BLOCKLIST_POLL_MS || '15000', 10),
+    },
   };
 }
 
+/**
+ * Parse LLM_PROVIDER_ROUTES, e.g. "/api/chat=vertex,/api/chat/stream=openai".
+ */
+function parseProviderRoutes(value: string): Record<string, string> {
+  const routes: Record<string, string> = {};
+  for (const entry of value.split(',')) {
+    const [endpoint, provider] = entry.split('=').map(part => part.trim());
+    if (endpoint && provider) {
+      routes[endpoint] = provider;
+    }
+  }
+  return routes;
+}
+
+/**
+ * Parse a guardrail policy (allow, warn, redact or block), falling back on unknown values.
+ */
+function parseGuardrailAction(value: string | undefined, fallback: GuardrailAction): GuardrailAction {
+  const action = value?.trim().toLowerCase();
+  if (action === 'allow' || action === 'warn' || action === 'redact' || action === 'block') {
+    return action;
+  }
+  if (action) {
+    console.warn(`[Config] Unknown guardrail policy '${value}', using '${fallback}'`);
+  }
+  return fallback;
+}
+
+/**
+ * Parse OUTPUT_FILTER_MODE (off, detect, mask or block). Defaults to detect.
+ */
+function parseOutputFilterMode(value: string | undefined): OutputFilterMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'off' || mode === 'detect' || mode === 'mask' || mode === 'block') {
+    return mode;
+  }
+  if (mode) {
+    console.warn(`[Config] Unknown output filter mode '${value}', using 'detect'`);
+  }
+  return 'detect';
+}
+
+/**
+ * Parse OUTPUT_FILTER_CATEGORIES, e.g. "email,phone". Empty means all categories.
+ */
+function parsePiiCategories(value: string): PiiCategory[] {
+  const requested = value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+  if (requested.length === 0) {
+    return PII_CATEGORIES;
+  }
+  return PII_CATEGORIES.filter(category => requested.includes(category));
+}
+
+/**
+ * Parse TELEMETRY_SCRUB_MODE (none, mask, hash or drop-text). Defaults to none.
+ */
+function parseScrubMode(value: string | undefined): ScrubMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'none' || mode === 'mask' || mode === 'hash' || mode === 'drop-text') {
+    return mode;
+  }
+  if (mode) {
+    console.warn(`[Config] Unknown telemetry scrub mode '${value}', using 'none'`);
+  }
+  return 'none';
+}
+
+/**
+ * Parse TELEMETRY_TRANSPORT (pubsub, jsonl, http or memory). Defaults to pubsub.
+ */
+function parseTelemetryTransport(value: string | undefined): TelemetryTransportName {
+  const transport = value?.trim().toLowerCase();
+  if (transport === 'pubsub' || transport === 'jsonl' || transport === 'http' || transport === 'memory') {
+    return transport;
+  }
+  if (transport) {
+    console.warn(`[Config] Unknown telemetry transport '${value}', using 'pubsub'`);
+  }
+  return 'pubsub';
+}
+
+/**
+ * Parse API_KEYS, e.g. "<sha256 hex>:acme,<sha256 hex>:globex:support-bot".
+ */
+function parseApiKeys(value: string): ApiKeyRecord[] {
+  const keys: ApiKeyRecord[] = [];
+  for (const entry of value.split(',')) {
+    const [keyHash, tenantId, appId] = entry.split(':').map(part => part.trim());
+    if (keyHash && tenantId) {
+      keys.push({ keyHash, tenantId, ...(appId && { appId }) });
+    }
+  }
+  return keys;
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
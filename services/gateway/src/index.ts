@@ -3,9 +3,33 @@ import cors from 'cors';
 import tracer from 'dd-trace';
 import { loadConfig } from './config.js';
 import { VertexClient } from './vertexClient.js';
+import { OpenAIProvider } from './providers/openaiProvider.js';
+import { ProviderRegistry } from './providers/providerRegistry.js';
+import { CachingProvider } from './providers/cachingProvider.js';
+import { LLMProvider } from './providers/types.js';
 import { TelemetryPublisher } from './services/telemetryPublisher.js';
+import { createTelemetryTransport } from './services/telemetryTransport.js';
+import { TelemetryScrubber } from './services/telemetryScrubber.js';
 import { createChatRouter } from './routes/chat.js';
-import { chatRateLimiter } from './middleware/rateLimiter.js';
+import { createOpenAICompatRouter } from './routes/openaiCompat.js';
+import { createCacheRouter } from './routes/cache.js';
+import { createAnalyticsRouter } from './routes/analytics.js';
+import { createRulesRouter } from './routes/rules.js';
+import { createRateLimiter } from './middleware/rateLimiter.js';
+import { createApiKeyAuth } from './middleware/apiKeyAuth.js';
+import { ApiKeyStore } from './services/apiKeyStore.js';
+import { createQuotaGuard, QUOTA_HEADERS } from './middleware/quotaGuard.js';
+import { createBlockGuard } from './middleware/blockGuard.js';
+import { QuotaManager } from './services/quotaManager.js';
+import { FileUsageStore, InMemoryUsageStore } from './services/usageStore.js';
+import { RateLimitManager } from './services/rateLimitManager.js';
+import { MemoryRateLimitStore, RedisRateLimitStore } from './services/rateLimitStore.js';
+import { ResponseCache } from './services/responseCache.js';
+import { EmbeddingsClient } from './services/embeddingsClient.js';
+import { loadRoutingPolicies } from './services/routingPolicies.js';
+import { ShadowTraffic } from './services/shadowTraffic.js';
+import { AnalyzerClient } from './services/analyzerClient.js';
+import { BlockList } from './services/blockList.js';
 
 // Initialize Datadog APM tracing
 tracer.init({
@@ -23,21 +47,116 @@ const app = express();
 app.use(cors({
   origin: true, // Allow all origins
   credentials: true,
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Sentinel-Provider', 'X-Sentinel-Conversation-Id'],
+  exposedHeaders: [
+    'X-Sentinel-Guardrail-Action',
+    'X-Sentinel-Guardrail-Labels',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'Retry-After',
+    ...QUOTA_HEADERS,
+  ],
 }));
 app.use(express.json());
 
-// Apply rate limiting to API routes
-app.use('/api', chatRateLimiter);
+// API key authentication - runs before rate limiting so limits apply per tenant
+if (config.auth.enabled) {
+  const keyStore = new ApiKeyStore(config.auth);
+  if (keyStore.size === 0) {
+    console.warn('[Auth] AUTH_ENABLED=true but no API keys are configured - all requests will be rejected');
+  }
+  app.use('/api', createApiKeyAuth(keyStore));
+  app.use('/v1', createApiKeyAuth(keyStore, 'openai'));
+}
+
+// Opt-in response cache in front of every provider (exact and near-duplicate prompts)
+const responseCache = config.responseCache.enabled
+  ? new ResponseCache(
+    config.responseCache,
+    new EmbeddingsClient(config.vertex, config.responseCache.embeddingModel, config.useStub)
+  )
+  : null;
+const withCache = (provider: LLMProvider): LLMProvider =>
+  responseCache ? new CachingProvider(provider, responseCache) : provider;
 
 const vertexClient = new VertexClient(config.vertex, config.useStub);
-const telemetryPublisher = new TelemetryPublisher(config.pubsub, !config.useStub);
+const openaiProvider = config.openai.enabled ? new OpenAIProvider(config.openai) : null;
+const routing = loadRoutingPolicies(config.routing.policyFile);
+const providers = new ProviderRegistry(config.providers, routing);
+providers.register(withCache(vertexClient));
+if (openaiProvider) {
+  providers.register(withCache(openaiProvider));
+}
+
+// Requests and tokens per minute by API key, IP and model - shared across instances with the Redis store
+const rateLimits = new RateLimitManager(
+  config.rateLimit,
+  config.rateLimit.store === 'redis' ? new RedisRateLimitStore(config.rateLimit.redisUrl) : new MemoryRateLimitStore()
+);
+const rateLimiter = createRateLimiter(rateLimits, (req) => {
+  const endpoint = req.originalUrl.split('?')[0];
+  if (!['/api/chat', '/api/chat/stream', '/v1/chat/completions'].includes(endpoint)) {
+    return undefined;
+  }
+  if (endpoint.startsWith('/v1') && config.proxy.forwardModel && typeof req.body?.model === 'string') {
+    return req.body.model;
+  }
+  const requested = endpoint.startsWith('/v1') ? req.header('x-sentinel-provider') : req.body?.provider;
+  const selection = providers.resolve(endpoint, requested);
+  return 'provider' in selection ? selection.provider.defaultModel : undefined;
+});
+app.use('/api', rateLimiter);
+app.use('/v1', rateLimiter);
+
+// Tenants, apps and conversations blocked by detection rules in the analyzer
+const analyzer = new AnalyzerClient(config.analyzer);
+const blockList = new BlockList(analyzer, config.analyzer.blockListPollMs);
+blockList.start();
+app.use('/api/chat', createBlockGuard(blockList));
+app.use('/v1/chat', createBlockGuard(blockList, 'openai'));
+
+// Token and spend budgets per tenant, checked before the model is called
+const quotas = new QuotaManager(
+  config.quotas,
+  config.quotas.store === 'file' ? new FileUsageStore(config.quotas.storePath) : new InMemoryUsageStore()
+);
+app.use('/api/chat', createQuotaGuard(quotas));
+app.use('/v1/chat', createQuotaGuard(quotas, 'openai'));
+
+const telemetryTransport = createTelemetryTransport(config);
+const telemetryPublisher = new TelemetryPublisher(
+  telemetryTransport,
+  new TelemetryScrubber(config.telemetryScrub)
+);
+
+// Check the topic (or file) on startup
+telemetryPublisher.checkTransport().catch(console.error);
+
+// Shadow traffic to a candidate model - uses the uncached provider so every mirror is a real call
+const shadowProvider = [vertexClient, openaiProvider].find(provider => provider?.name === config.shadow.provider);
+if (config.shadow.enabled && !shadowProvider) {
+  console.warn(`[Shadow] Provider '${config.shadow.provider}' is not configured - shadow traffic disabled`);
+}
+const shadow = config.shadow.enabled && shadowProvider
+  ? new ShadowTraffic(config.shadow, shadowProvider, telemetryPublisher, config.outputFilter)
+  : null;
+
+app.use(createChatRouter(providers, telemetryPublisher, quotas, rateLimits, shadow, config));
 
-// Check topic existence on startup
-telemetryPublisher.ensureTopicExists().catch(console.error);
+if (responseCache) {
+  app.use(createCacheRouter(responseCache));
+}
 
-app.use(createChatRouter(vertexClient, telemetryPublisher, config));
+// Fleet-wide analytics for the dashboard and detection rules, from the analyzer
+app.use(createAnalyticsRouter(analyzer));
+app.use(createRulesRouter(analyzer));
+
+// OpenAI-compatible reverse proxy (/v1/chat/completions)
+if (config.proxy.enabled) {
+  app.use(createOpenAICompatRouter(providers, telemetryPublisher, quotas, rateLimits, config));
+}
 
 // Liveness probe - simple alive check
 app.get('/health/liveness', (req: express.Request, res: express.Response): void => {
@@ -71,13 +190,13 @@ app.get('/health/readiness', async (req: express.Request, res: express.Response)
       checks.vertexAI = 'stub_mode';
     }
 
-    // Check Pub/Sub (if enabled)
-    if (config.pubsub.enabled) {
+    // Check the telemetry transport (if enabled)
+    if (telemetryTransport) {
       try {
-        await telemetryPublisher.ensureTopicExists();
-        checks.pubsub = 'healthy';
+        await telemetryPublisher.checkTransport();
+        checks[telemetryTransport.name] = 'healthy';
       } catch (error) {
-        checks.pubsub = 'unhealthy';
+        checks[telemetryTransport.name] = 'unhealthy';
         allHealthy = false;
       }
     } else {
@@ -112,7 +231,7 @@ app.get('/health', (req: express.Request, res: express.Response): void => {
   res.json({ 
     status: 'ok',
     mode: config.useStub ? 'stub' : 'vertex-ai',
-    telemetry: config.pubsub.enabled ? 'enabled' : 'disabled',
+    telemetry: telemetryTransport ? 'enabled' : 'disabled',
     timestamp: new Date().toISOString()
   });
 });
@@ -121,7 +240,13 @@ app.get('/api/health', (req: express.Request, res: express.Response): void => {
   res.json({ 
     status: 'ok',
     mode: config.useStub ? 'stub' : 'vertex-ai',
-    telemetry: config.pubsub.enabled ? 'enabled' : 'disabled',
+    providers: providers.list(),
+    defaultProvider: config.providers.defaultProvider,
+    auth: config.auth.enabled ? 'enabled' : 'disabled',
+    responseCache: responseCache ? 'enabled' : 'disabled',
+    shadow: shadow ? { model: shadow.model, provider: shadow.providerName, samplePercent: config.shadow.samplePercent } : 'disabled',
+    telemetry: telemetryTransport ? 'enabled' : 'disabled',
+    telemetryTransport: telemetryTransport?.name,
     timestamp: new Date().toISOString()
   });
 });
@@ -133,10 +258,54 @@ app.listen(config.port, () => {
   } else {
     console.log(`Vertex AI config: ${config.vertex.projectId}/${config.vertex.location}/${config.vertex.model}`);
   }
-  if (config.pubsub.enabled) {
-    console.log(`📊 Telemetry enabled: ${config.pubsub.topicName}`);
+  if (config.openai.enabled) {
+    console.log(`OpenAI-compatible provider: ${config.openai.baseUrl} (${config.openai.model})`);
+  }
+  console.log(`Default provider: ${config.providers.defaultProvider}`);
+  for (const policy of Object.values(routing.policies)) {
+    const fallbacks = policy.fallbacks.map(target => (target.provider ? `${target.provider}:` : '') + target.model);
+    console.log(`🔀 Routing policy '${policy.name}': ${policy.primary.model} -> [${fallbacks.join(', ')}] on ${policy.retryOn.join('/')}, max ${policy.maxAttempts} attempts`);
+  }
+  console.log(config.auth.enabled ? '🔑 API key authentication enabled' : '⚠️  API key authentication disabled (AUTH_ENABLED=false)');
+  if (config.proxy.enabled) {
+    console.log('🔁 OpenAI-compatible proxy enabled at /v1/chat/completions');
+  }
+  if (config.guardrails.enabled) {
+    const policies = Object.entries(config.guardrails.policies).map(([label, action]) => `${label}=${action}`);
+    console.log(`🛡️  Guardrails enabled: ${policies.join(', ')}`);
+  }
+  if (responseCache) {
+    const { ttlMs, similarityThreshold, scope } = config.responseCache;
+    console.log(`🗄️  Response cache enabled (TTL ${ttlMs / 1000}s, similarity >= ${similarityThreshold}, ${scope} scope)`);
+  }
+  if (shadow) {
+    console.log(`👥 Shadow traffic: ${config.shadow.samplePercent}% of /api/chat mirrored to ${shadow.providerName}:${shadow.model}`);
+  }
+  if (rateLimits.enabled) {
+    console.log(`⏱️  Rate limits enabled (${config.rateLimit.store} store)`);
+  }
+  if (quotas.enabled) {
+    console.log(`💰 Quotas enabled (${config.quotas.store} usage store)`);
+  }
+  if (telemetryTransport) {
+    console.log(`📊 Telemetry enabled: ${telemetryTransport.name} -> ${telemetryTransport.destination} (scrub mode: ${config.telemetryScrub.mode})`);
   } else {
     console.log('📊 Telemetry disabled');
   }
+  console.log(`📈 Analytics from analyzer at ${config.analyzer.url}${config.analyzer.idToken ? ' (ID token auth)' : ''}`);
+  if (blockList.enabled) {
+    console.log(`🚫 Detection rule blocks refreshed every ${config.analyzer.blockListPollMs / 1000}s`);
+  }
 });
 
+// Persist quota usage and release the rate limit store before exiting
+async function shutdown(signal: string): Promise<void> {
+  console.log(`[${signal}] Shutting down gateway...`);
+  blockList.stop();
+  await quotas.close();
+  await rateLimits.close();
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
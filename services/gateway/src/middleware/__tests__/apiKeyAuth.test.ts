@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createApiKeyAuth, tenantFields } from '../apiKeyAuth.js';
+import { ApiKeyStore, hashApiKey } from '../../services/apiKeyStore.js';
+
+describe('createApiKeyAuth', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  async function listen(errorFormat: 'sentinel' | 'openai' = 'sentinel'): Promise<void> {
+    const keyStore = new ApiKeyStore({
+      enabled: true,
+      keys: [
+        { keyHash: hashApiKey('sk-acme'), tenantId: 'acme', appId: 'support-bot' },
+        { keyHash: hashApiKey('sk-globex').toUpperCase(), tenantId: 'globex' },
+      ],
+      keysFile: '',
+    });
+    const app = express();
+    app.use(createApiKeyAuth(keyStore, errorFormat));
+    app.get(['/health', '/api/whoami'], (_req, res) => res.json({ ...tenantFields(res), apiKeyId: res.locals.apiKeyId }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(async () => {
+    await listen();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('identifies the tenant from a bearer token', async () => {
+    const response = await fetch(`${baseUrl}/api/whoami`, { headers: { Authorization: 'Bearer sk-acme' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tenantId: 'acme', appId: 'support-bot', apiKeyId: hashApiKey('sk-acme').slice(0, 16) });
+  });
+
+  it('accepts X-API-Key and key hashes in any case', async () => {
+    const response = await fetch(`${baseUrl}/api/whoami`, { headers: { 'X-API-Key': ' sk-globex ' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ tenantId: 'globex' });
+  });
+
+  it('rejects missing and unknown keys', async () => {
+    const missing = await fetch(`${baseUrl}/api/whoami`);
+    const invalid = await fetch(`${baseUrl}/api/whoami`, { headers: { Authorization: 'Bearer sk-nope' } });
+
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: 'Unauthorized', details: 'Missing API key (use Authorization: Bearer <key> or X-API-Key)' });
+    expect(invalid.status).toBe(401);
+    expect(await invalid.json()).toEqual({ error: 'Unauthorized', details: 'Invalid API key' });
+  });
+
+  it('leaves health checks unauthenticated', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({});
+  });
+
+  it('reports rejections in the OpenAI error shape for /v1 clients', async () => {
+    await new Promise(resolve => server.close(resolve));
+    await listen('openai');
+
+    const response = await fetch(`${baseUrl}/api/whoami`, { headers: { Authorization: 'Bearer sk-nope' } });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: { message: 'Invalid API key', type: 'invalid_request_error', param: null, code: 'invalid_api_key' },
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createRateLimiter, rateLimitSubject } from '../rateLimiter.js';
+import { RateLimitManager } from '../../services/rateLimitManager.js';
+import { MemoryRateLimitStore } from '../../services/rateLimitStore.js';
+
+describe('createRateLimiter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let rateLimits: RateLimitManager;
+
+  async function listen(limits: ConstructorParameters<typeof RateLimitManager>[0]['limits']): Promise<void> {
+    rateLimits = new RateLimitManager({ limits, store: 'memory', redisUrl: '' }, new MemoryRateLimitStore());
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.apiKeyId = req.header('X-Test-Key');
+      next();
+    });
+    app.use(createRateLimiter(rateLimits, req => req.body?.model));
+    app.all('/api/chat', (_req, res) => res.json({ subject: rateLimitSubject(res) }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function chat(key: string, model = 'gemini-1.5-pro'): Promise<Response> {
+    return fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Test-Key': key },
+      body: JSON.stringify({ model }),
+    });
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rateLimits.close();
+  });
+
+  it('admits requests under the limit with RateLimit headers and remembers the subject', async () => {
+    await listen({ key: { requestsPerMinute: 2 }, ip: {}, model: {} });
+
+    const response = await chat('key-1');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Limit')).toBe('2');
+    expect(response.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(((await response.json()) as { subject: unknown }).subject).toMatchObject({ key: 'key-1', model: 'gemini-1.5-pro' });
+  });
+
+  it('rejects requests over the limit with 429 and Retry-After', async () => {
+    await listen({ key: {}, ip: {}, model: { requestsPerMinute: 1 } });
+
+    await chat('key-1');
+    const rejected = await chat('key-2');
+
+    expect(rejected.status).toBe(429);
+    expect(Number(rejected.headers.get('Retry-After'))).toBeGreaterThanOrEqual(1);
+    expect(await rejected.json()).toMatchObject({
+      error: 'Rate limit exceeded',
+      message: expect.stringContaining('for this model (limit 1)'),
+    });
+    expect((await chat('key-1', 'gemini-1.5-flash')).status).toBe(200);
+  });
+
+  it('passes everything through when no limits are configured', async () => {
+    await listen({ key: {}, ip: {}, model: {} });
+
+    const response = await chat('key-1');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Limit')).toBeNull();
+    expect(((await response.json()) as { subject: unknown }).subject).toEqual({});
+  });
+});
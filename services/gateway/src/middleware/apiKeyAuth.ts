@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ApiKeyStore } from '../services/apiKeyStore.js';
+
+/**
+ * API key authentication for /api and /v1.
+ * Accepts `Authorization: Bearer <key>` (what OpenAI SDKs send) or `X-API-Key`.
+ * The matched tenant is stored in `res.locals.tenantId` / `res.locals.appId`
+ * for quotas and telemetry, and a short key fingerprint in `res.locals.apiKeyId`
+ * for per-key rate limits. Health checks are not authenticated.
+ *
+ * `errorFormat: 'openai'` returns 401s in the OpenAI error shape for /v1 clients.
+ */
+export function createApiKeyAuth(
+  keyStore: ApiKeyStore,
+  errorFormat: 'sentinel' | 'openai' = 'sentinel'
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'OPTIONS' || req.path === '/health') {
+      return next();
+    }
+
+    const rawKey = extractApiKey(req);
+    const record = rawKey ? keyStore.lookup(rawKey) : undefined;
+
+    if (!record) {
+      if (tracer.dogstatsd) {
+        tracer.dogstatsd.increment('llm.auth.rejected', 1, {
+          endpoint: req.originalUrl.split('?')[0],
+          reason: rawKey ? 'invalid_key' : 'missing_key',
+        });
+      }
+
+      const message = rawKey ? 'Invalid API key' : 'Missing API key (use Authorization: Bearer <key> or X-API-Key)';
+      if (errorFormat === 'openai') {
+        return res.status(401).json({
+          error: { message, type: 'invalid_request_error', param: null, code: 'invalid_api_key' },
+        });
+      }
+      return res.status(401).json({ error: 'Unauthorized', details: message });
+    }
+
+    res.locals.tenantId = record.tenantId;
+    res.locals.appId = record.appId;
+    res.locals.apiKeyId = record.keyHash.slice(0, 16);
+
+    const span = tracer.scope().active();
+    span?.setTag('tenant.id', record.tenantId);
+    if (record.appId) {
+      span?.setTag('tenant.app_id', record.appId);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Tenant identity set by the auth middleware, for stamping onto telemetry.
+ * Empty when authentication is disabled.
+ */
+export function tenantFields(res: Response): Pick<TelemetryEvent, 'tenantId' | 'appId'> {
+  return {
+    ...(res.locals.tenantId && { tenantId: res.locals.tenantId }),
+    ...(res.locals.appId && { appId: res.locals.appId }),
+  };
+}
+
+function extractApiKey(req: Request): string | undefined {
+  const authorization = req.header('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || undefined;
+  }
+  return req.header('x-api-key')?.trim() || undefined;
+}
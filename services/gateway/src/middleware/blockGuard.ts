@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import tracer from 'dd-trace';
+import { BlockList } from '../services/blockList.js';
+
+/**
+ * Rejects chat requests from tenants, apps and conversations that a
+ * detection rule has blocked, with 403 and Retry-After set to when the block
+ * expires. The conversation comes from the body (`/api/chat`) or the
+ * X-Sentinel-Conversation-Id header (`/v1`).
+ */
+export function createBlockGuard(
+  blockList: BlockList,
+  errorFormat: 'sentinel' | 'openai' = 'sentinel'
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'POST' || !blockList.enabled) {
+      return next();
+    }
+
+    const conversationId = errorFormat === 'openai' ? req.header('x-sentinel-conversation-id') : req.body?.conversationId;
+    const block = blockList.find({
+      tenantId: res.locals.tenantId,
+      appId: res.locals.appId,
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+    });
+    if (!block) {
+      return next();
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((Date.parse(block.expiresAt) - Date.now()) / 1000));
+    const message = `This ${block.target} is blocked by detection rule "${block.ruleName}" until ${block.expiresAt}`;
+
+    const span = tracer.scope().active();
+    span?.setTag('rules.blocked', `${block.target}:${block.ruleId}`);
+    if (tracer.dogstatsd) {
+      tracer.dogstatsd.increment('llm.rules.blocked', 1, {
+        endpoint: req.originalUrl.split('?')[0],
+        tenant: res.locals.tenantId || 'none',
+        target: block.target,
+        rule_id: block.ruleId,
+      });
+    }
+
+    res.setHeader('Retry-After', String(retryAfter));
+    if (errorFormat === 'openai') {
+      return res.status(403).json({
+        error: { message, type: 'permission_error', param: null, code: 'blocked_by_rule' },
+      });
+    }
+    return res.status(403).json({
+      error: 'Request blocked',
+      details: message,
+      errorType: 'rule_blocked',
+      ruleId: block.ruleId,
+      blockedUntil: block.expiresAt,
+      retryAfter,
+    });
+  };
+}
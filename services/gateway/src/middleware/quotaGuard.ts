@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import tracer from 'dd-trace';
+import { QuotaManager, QuotaLimit } from '../services/quotaManager.js';
+
+const HEADER_NAMES: Record<QuotaLimit, string> = {
+  dailyTokens: 'X-Sentinel-Quota-Remaining-Daily-Tokens',
+  monthlyTokens: 'X-Sentinel-Quota-Remaining-Monthly-Tokens',
+  dailyCostUsd: 'X-Sentinel-Quota-Remaining-Daily-Cost-Usd',
+  monthlyCostUsd: 'X-Sentinel-Quota-Remaining-Monthly-Cost-Usd',
+};
+
+export const QUOTA_HEADERS = Object.values(HEADER_NAMES);
+
+/**
+ * Rejects chat requests from tenants that have used up a token or cost budget:
+ * 429 for token budgets, 402 for spend budgets, with Retry-After set to the
+ * next period. Remaining budgets (before this request) are sent as headers.
+ */
+export function createQuotaGuard(
+  quotas: QuotaManager,
+  errorFormat: 'sentinel' | 'openai' = 'sentinel'
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'POST' || !quotas.enabled) {
+      return next();
+    }
+
+    const tenantId = quotaTenant(res);
+    const status = await quotas.check(tenantId);
+
+    for (const [limit, remaining] of Object.entries(status.remaining) as [QuotaLimit, number][]) {
+      res.setHeader(HEADER_NAMES[limit], limit.endsWith('CostUsd') ? remaining.toFixed(4) : String(remaining));
+    }
+
+    if (status.allowed) {
+      return next();
+    }
+
+    const limit = status.exceeded!;
+    const isSpend = limit.endsWith('CostUsd');
+    const httpStatus = isSpend ? 402 : 429;
+    const retryAfter = Math.max(1, Math.ceil((status.resetAt!.getTime() - Date.now()) / 1000));
+    const message = `${isSpend ? 'Spend' : 'Token'} quota exceeded (${limit}) for tenant '${tenantId}'`;
+
+    const span = tracer.scope().active();
+    span?.setTag('quota.exceeded', limit);
+    if (tracer.dogstatsd) {
+      tracer.dogstatsd.increment('llm.quota.exceeded', 1, {
+        endpoint: req.originalUrl.split('?')[0],
+        tenant: tenantId,
+        limit,
+      });
+    }
+
+    res.setHeader('Retry-After', String(retryAfter));
+    if (errorFormat === 'openai') {
+      return res.status(httpStatus).json({
+        error: { message, type: 'insufficient_quota', param: null, code: 'insufficient_quota' },
+      });
+    }
+    return res.status(httpStatus).json({
+      error: 'Quota exceeded',
+      details: message,
+      errorType: isSpend ? 'budget_exceeded' : 'quota_exceeded',
+      limit,
+      resetAt: status.resetAt!.toISOString(),
+      retryAfter,
+    });
+  };
+}
+
+/**
+ * Budget owner for a request: the authenticated tenant, or one shared
+ * 'anonymous' budget when authentication is disabled.
+ */
+export function quotaTenant(res: Response): string {
+  return res.locals.tenantId || 'anonymous';
+}
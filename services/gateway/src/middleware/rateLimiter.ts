@@ -1,30 +1,73 @@
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import tracer from 'dd-trace';
+import { RateLimitManager, RateLimitSubject } from '../services/rateLimitManager.js';
 
 /**
- * Rate limiter for chat API endpoints.
- * Limits to 60 requests per minute per IP.
+ * Rate limiter for the API routes. Each request is counted against the
+ * requests-per-minute buckets of its API key, client IP and (for chat
+ * completions) model, and rejected while any tokens-per-minute bucket is spent.
+ *
+ * `modelFor` returns the model a request will be served by, or undefined for
+ * requests that don't call a model.
  */
-export const chatRateLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 60, // 60 requests per minute
-  message: 'Too many requests, please try again later',
-  standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
-  legacyHeaders: false, // Disable `X-RateLimit-*` headers
-  handler: (req, res) => {
+export function createRateLimiter(
+  rateLimits: RateLimitManager,
+  modelFor: (req: Request) => string | undefined
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'OPTIONS' || !rateLimits.enabled) {
+      return next();
+    }
+
+    const subject: RateLimitSubject = {
+      ...(res.locals.apiKeyId && { key: res.locals.apiKeyId }),
+      ...(req.ip && { ip: req.ip }),
+      ...(req.method === 'POST' && { model: modelFor(req) }),
+    };
+    res.locals.rateLimitSubject = subject;
+
+    const status = await rateLimits.check(subject);
+    const retryAfter = Math.max(1, Math.ceil((status.resetAt.getTime() - Date.now()) / 1000));
+
+    // Same `RateLimit-*` headers express-rate-limit sent, for the tightest request bucket
+    if (status.requests) {
+      res.setHeader('RateLimit-Limit', String(status.requests.limit));
+      res.setHeader('RateLimit-Remaining', String(status.requests.remaining));
+      res.setHeader('RateLimit-Reset', String(retryAfter));
+    }
+
+    if (status.allowed) {
+      return next();
+    }
+
+    const { dimension, bucket, limit } = status.exceeded!;
+    const span = tracer.scope().active();
+    span?.setTag('rate_limit.exceeded', `${dimension}.${bucket}`);
+
     // Emit Datadog metric for rate limit exceeded
     if (tracer.dogstatsd) {
       tracer.dogstatsd.increment('llm.rate_limit.exceeded', 1, {
-        endpoint: req.path || 'unknown',
+        endpoint: req.originalUrl.split('?')[0] || 'unknown',
         method: req.method || 'unknown',
+        tenant: res.locals.tenantId || 'none',
+        dimension,
+        bucket,
       });
     }
 
+    res.setHeader('Retry-After', String(retryAfter));
     res.status(429).json({
       error: 'Rate limit exceeded',
-      message: 'Too many requests, please try again later',
-      retryAfter: res.getHeader('Retry-After'),
+      message: `Too many ${bucket} per minute for this ${dimension === 'key' ? 'API key' : dimension} (limit ${limit}), please try again later`,
+      retryAfter,
     });
-  },
-});
+  };
+}
 
+/**
+ * Buckets the current request was admitted under, for charging its tokens
+ * once the completion finishes. Empty when rate limiting is disabled.
+ */
+export function rateLimitSubject(res: Response): RateLimitSubject {
+  return res.locals.rateLimitSubject || {};
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CachingProvider, cacheFields } from '../cachingProvider.js';
+import { ChatResponse, LLMProvider } from '../types.js';
+import { ResponseCache } from '../../services/responseCache.js';
+
+const CONFIG = { enabled: true, ttlMs: 60000, similarityThreshold: 1, maxEntries: 100, scope: 'tenant' as const, embeddingModel: 'test' };
+
+const ROUTED: ChatResponse = {
+  text: 'Paris',
+  tokensIn: 12,
+  tokensOut: 3,
+  modelName: 'gemini-1.5-flash',
+  modelVersion: '1',
+  routing: {
+    policy: 'fast',
+    requestedModel: 'gemini-1.5-pro',
+    provider: 'vertex',
+    attempts: [
+      { provider: 'vertex', model: 'gemini-1.5-pro', outcome: 'rate_limit', latencyMs: 50 },
+      { provider: 'vertex', model: 'gemini-1.5-flash', outcome: 'success', latencyMs: 80 },
+    ],
+  },
+};
+
+function makeProvider() {
+  return {
+    name: 'vertex',
+    defaultModel: 'gemini-1.5-pro',
+    chatCompletion: vi.fn().mockResolvedValue(ROUTED),
+    chatCompletionStream: vi.fn(async (_prompt: string, onToken: (text: string) => void) => {
+      onToken(ROUTED.text);
+      return ROUTED;
+    }),
+  } satisfies LLMProvider;
+}
+
+describe('CachingProvider', () => {
+  it('serves repeated prompts from the cache with zero tokens', async () => {
+    const inner = makeProvider();
+    const provider = new CachingProvider(inner, new ResponseCache(CONFIG, {} as any));
+
+    const miss = await provider.chatCompletion('Capital of France?', [], { cacheScope: 'acme' });
+    const hit = await provider.chatCompletion('Capital of France?', [], { cacheScope: 'acme' });
+
+    expect(inner.chatCompletion).toHaveBeenCalledTimes(1);
+    expect(miss.cache).toEqual({ hit: false });
+    expect(hit).toMatchObject({ text: 'Paris', tokensIn: 0, tokensOut: 0, cache: { hit: true, similarity: 1, savedTokens: 15 } });
+    expect(cacheFields(hit)).toEqual({ cacheHit: true, cacheSimilarity: 1, cacheSavedTokens: 15 });
+  });
+
+  it("doesn't report the routing of the completion that filled the cache on hits", async () => {
+    const provider = new CachingProvider(makeProvider(), new ResponseCache(CONFIG, {} as any));
+    const onToken = vi.fn();
+
+    await provider.chatCompletionStream('Capital of France?', onToken);
+    const hit = await provider.chatCompletionStream('Capital of France?', onToken);
+
+    expect(hit.cache?.hit).toBe(true);
+    expect(hit.routing).toBeUndefined();
+    expect(onToken).toHaveBeenLastCalledWith('Paris');
+  });
+
+  it('keeps tenants apart', async () => {
+    const inner = makeProvider();
+    const provider = new CachingProvider(inner, new ResponseCache(CONFIG, {} as any));
+
+    await provider.chatCompletion('Capital of France?', [], { cacheScope: 'acme' });
+    const other = await provider.chatCompletion('Capital of France?', [], { cacheScope: 'globex' });
+
+    expect(other.cache).toEqual({ hit: false });
+    expect(inner.chatCompletion).toHaveBeenCalledTimes(2);
+  });
+});
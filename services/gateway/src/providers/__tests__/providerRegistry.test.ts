@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import tracer from 'dd-trace';
+import { ProviderRegistry } from '../providerRegistry.js';
+import { CachingProvider } from '../cachingProvider.js';
+import { ChatResponse, LLMProvider } from '../types.js';
+import { ResponseCache } from '../../services/responseCache.js';
+
+const CACHE_CONFIG = { enabled: true, ttlMs: 60000, similarityThreshold: 1, maxEntries: 100, scope: 'tenant' as const, embeddingModel: 'test' };
+
+const POLICIES = {
+  routes: {},
+  policies: {
+    default: {
+      name: 'default',
+      primary: { model: 'gemini-1.5-pro' },
+      fallbacks: [{ model: 'gemini-1.5-flash' }],
+      retryOn: ['rate_limit' as const],
+      maxAttempts: 3,
+      retriesPerModel: 0,
+      backoffMs: 0,
+    },
+  },
+};
+
+function makeProvider() {
+  const response: ChatResponse = { text: 'Paris', tokensIn: 12, tokensOut: 3, modelName: 'gemini-1.5-pro', modelVersion: '1' };
+  return {
+    name: 'vertex',
+    defaultModel: 'gemini-1.5-pro',
+    chatCompletion: vi.fn().mockResolvedValue(response),
+    chatCompletionStream: vi.fn(),
+  } satisfies LLMProvider;
+}
+
+describe('ProviderRegistry', () => {
+  it('applies the routing policy to model calls but not to cache hits', async () => {
+    const base = makeProvider();
+    const registry = new ProviderRegistry({ defaultProvider: 'vertex', routes: {}, allowRequestOverride: false }, POLICIES);
+    registry.register(new CachingProvider(base, new ResponseCache(CACHE_CONFIG, {} as any)));
+    const increment = tracer.dogstatsd ? vi.spyOn(tracer.dogstatsd, 'increment') : undefined;
+
+    const resolved = registry.resolve('/api/chat');
+    if (!('provider' in resolved)) {
+      throw new Error(resolved.error);
+    }
+    const miss = await resolved.provider.chatCompletion('Capital of France?');
+    increment?.mockClear();
+    const hit = await resolved.provider.chatCompletion('Capital of France?');
+
+    expect(base.chatCompletion).toHaveBeenCalledTimes(1);
+    expect(miss.routing).toMatchObject({ policy: 'default', requestedModel: 'gemini-1.5-pro' });
+    expect(hit.cache?.hit).toBe(true);
+    expect(hit.routing).toBeUndefined();
+    expect(increment?.mock.calls.filter(([metric]) => String(metric).startsWith('llm.routing.')) ?? []).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RoutedProvider, RoutingError, routingErrorFields, routingFields } from '../routedProvider.js';
+import { ChatOptions, ChatResponse, LLMProvider, ProviderError, SafetyBlockError } from '../types.js';
+import { RoutingPolicy } from '../../services/routingPolicies.js';
+
+function makePolicy(overrides: Partial<RoutingPolicy> = {}): RoutingPolicy {
+  return {
+    name: 'resilient',
+    primary: { model: 'gemini-1.5-pro' },
+    fallbacks: [{ model: 'gemini-1.5-flash' }],
+    retryOn: ['rate_limit', 'timeout', 'safety_block', 'server_error', 'not_found'],
+    maxAttempts: 5,
+    retriesPerModel: 1,
+    backoffMs: 0,
+    ...overrides,
+  };
+}
+
+function makeResponse(model: string): ChatResponse {
+  return { text: `Hello from ${model}`, tokensIn: 10, tokensOut: 5, modelName: model, modelVersion: '1' };
+}
+
+/**
+ * Provider whose calls to each model fail with the queued errors, in order,
+ * and then succeed
+ */
+function makeProvider(name: string, failures: Record<string, unknown[]> = {}) {
+  const next = async (options: ChatOptions = {}) => {
+    const error = failures[options.model!]?.shift();
+    if (error) {
+      throw error;
+    }
+    return makeResponse(options.model!);
+  };
+  return {
+    name,
+    defaultModel: 'gemini-1.5-pro',
+    chatCompletion: vi.fn((_prompt: string, _history?: unknown, options?: ChatOptions) => next(options)),
+    chatCompletionStream: vi.fn(async (_prompt: string, onToken: (text: string) => void, _history?: unknown, options?: ChatOptions) => {
+      const response = await next(options);
+      onToken(response.text);
+      return response;
+    }),
+  } satisfies LLMProvider;
+}
+
+const RATE_LIMITED = new ProviderError('Too Many Requests', 429);
+const UNAVAILABLE = new ProviderError('upstream returned 503', 503);
+
+describe('RoutedProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries the primary, then falls back, recording every attempt', async () => {
+    const base = makeProvider('vertex', { 'gemini-1.5-pro': [RATE_LIMITED, UNAVAILABLE] });
+    const provider = new RoutedProvider(makePolicy(), base, () => undefined);
+
+    const response = await provider.chatCompletion('Hi');
+
+    expect(response.modelName).toBe('gemini-1.5-flash');
+    expect(response.routing).toMatchObject({
+      policy: 'resilient',
+      requestedModel: 'gemini-1.5-pro',
+      provider: 'vertex',
+      attempts: [
+        { provider: 'vertex', model: 'gemini-1.5-pro', outcome: 'rate_limit' },
+        { provider: 'vertex', model: 'gemini-1.5-pro', outcome: 'server_error' },
+        { provider: 'vertex', model: 'gemini-1.5-flash', outcome: 'success' },
+      ],
+    });
+    expect(routingFields(response.routing)).toMatchObject({ provider: 'vertex', routingPolicy: 'resilient', fallbackCount: 1 });
+  });
+
+  it('falls back to a model on another registered provider', async () => {
+    const base = makeProvider('vertex', { 'gemini-1.5-pro': [UNAVAILABLE] });
+    const openai = makeProvider('openai');
+    const policy = makePolicy({ fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }], retriesPerModel: 0 });
+    const provider = new RoutedProvider(policy, base, name => (name === 'openai' ? openai : undefined));
+
+    const response = await provider.chatCompletion('Hi', [], { systemPrompt: 'Be brief' });
+
+    expect(openai.chatCompletion).toHaveBeenCalledWith('Hi', [], { systemPrompt: 'Be brief', model: 'gpt-4o-mini' });
+    expect(response.routing?.provider).toBe('openai');
+  });
+
+  it('uses a model forwarded by the client in place of the primary', async () => {
+    const base = makeProvider('vertex');
+    const provider = new RoutedProvider(makePolicy(), base, () => undefined);
+
+    const response = await provider.chatCompletion('Hi', [], { model: 'gemini-1.0-pro' });
+
+    expect(response.routing?.requestedModel).toBe('gemini-1.0-pro');
+    expect(response.routing?.attempts).toHaveLength(1);
+  });
+
+  it("doesn't retry or fall back on failures the policy doesn't list", async () => {
+    const base = makeProvider('vertex', { 'gemini-1.5-pro': [RATE_LIMITED] });
+    const provider = new RoutedProvider(makePolicy({ retryOn: ['server_error'] }), base, () => undefined);
+
+    const error = await provider.chatCompletion('Hi').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RoutingError);
+    expect(error).toMatchObject({ status: 429, message: 'Too Many Requests' });
+    expect(base.chatCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('never retries unclassified errors', async () => {
+    const base = makeProvider('vertex', { 'gemini-1.5-pro': [new Error('bad request body')] });
+    const provider = new RoutedProvider(makePolicy(), base, () => undefined);
+
+    const error = await provider.chatCompletion('Hi').catch(caught => caught);
+
+    expect(error.routing.attempts).toEqual([expect.objectContaining({ outcome: 'error' })]);
+    expect(error.status).toBe(500);
+  });
+
+  it('moves straight to the fallback when the model is missing or refused', async () => {
+    for (const failure of [new ProviderError('model NOT_FOUND', 404), new SafetyBlockError('SAFETY')]) {
+      const base = makeProvider('vertex', { 'gemini-1.5-pro': [failure] });
+      const provider = new RoutedProvider(makePolicy({ retriesPerModel: 2 }), base, () => undefined);
+
+      const response = await provider.chatCompletion('Hi');
+
+      expect(response.routing?.attempts.map(attempt => attempt.model)).toEqual(['gemini-1.5-pro', 'gemini-1.5-flash']);
+    }
+  });
+
+  it('stops at maxAttempts and reports the routing of the failed request', async () => {
+    const base = makeProvider('vertex', {
+      'gemini-1.5-pro': [UNAVAILABLE, UNAVAILABLE],
+      'gemini-1.5-flash': [UNAVAILABLE],
+    });
+    const provider = new RoutedProvider(makePolicy({ maxAttempts: 3 }), base, () => undefined);
+
+    const error = await provider.chatCompletion('Hi').catch(caught => caught);
+
+    expect(base.chatCompletion).toHaveBeenCalledTimes(3);
+    expect(error.status).toBe(503);
+    expect(routingErrorFields(error)).toMatchObject({
+      routingPolicy: 'resilient',
+      requestedModel: 'gemini-1.5-pro',
+      fallbackCount: 1,
+    });
+    expect(routingErrorFields(UNAVAILABLE)).toEqual({});
+  });
+
+  it('times out slow attempts and ignores their late tokens', async () => {
+    vi.useFakeTimers();
+    const onToken = vi.fn();
+    const base = makeProvider('vertex');
+    base.chatCompletionStream.mockImplementationOnce(async (_prompt, emit) => {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      emit('late');
+      return makeResponse('gemini-1.5-pro');
+    });
+    const provider = new RoutedProvider(makePolicy({ timeoutMs: 1000, retriesPerModel: 0 }), base, () => undefined);
+
+    const pending = provider.chatCompletionStream('Hi', onToken);
+    await vi.advanceTimersByTimeAsync(5000);
+    const response = await pending;
+
+    expect(response.routing?.attempts.map(attempt => attempt.outcome)).toEqual(['timeout', 'success']);
+    expect(onToken.mock.calls).toEqual([['Hello from gemini-1.5-flash']]);
+  });
+
+  it("doesn't fall back once a stream has relayed tokens", async () => {
+    const onToken = vi.fn();
+    const base = makeProvider('vertex');
+    base.chatCompletionStream.mockImplementationOnce(async (_prompt, emit) => {
+      emit('Hel');
+      throw UNAVAILABLE;
+    });
+    const provider = new RoutedProvider(makePolicy(), base, () => undefined);
+
+    const error = await provider.chatCompletionStream('Hi', onToken).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RoutingError);
+    expect(base.chatCompletionStream).toHaveBeenCalledTimes(1);
+    expect(onToken.mock.calls).toEqual([['Hel']]);
+  });
+});
@@ -0,0 +1,112 @@
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ResponseCache, CacheMatch } from '../services/responseCache.js';
+import { ChatOptions, ChatResponse, ChatTurn, LLMProvider } from './types.js';
+
+/**
+ * Serves completions from the response cache in front of another provider.
+ * Cache hits report zero tokens (no model call was made) and the tokens the
+ * original completion used as `cache.savedTokens`; streamed hits are relayed
+ * to onToken as a single chunk.
+ */
+export class CachingProvider implements LLMProvider {
+  private provider: LLMProvider;
+  private cache: ResponseCache;
+
+  constructor(provider: LLMProvider, cache: ResponseCache) {
+    this.provider = provider;
+    this.cache = cache;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get defaultModel(): string {
+    return this.provider.defaultModel;
+  }
+
+  async chatCompletion(prompt: string, history: ChatTurn[] = [], options: ChatOptions = {}): Promise<ChatResponse> {
+    const { key, match } = await this.cache.lookup(this.cacheRequest(prompt, history, options));
+    this.recordLookup(key.model, match);
+    if (match) {
+      return cachedResponse(match);
+    }
+
+    const response = await this.provider.chatCompletion(prompt, history, options);
+    this.cache.store(key, response);
+    return { ...response, cache: { hit: false } };
+  }
+
+  async chatCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history: ChatTurn[] = [],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const { key, match } = await this.cache.lookup(this.cacheRequest(prompt, history, options));
+    this.recordLookup(key.model, match);
+    if (match) {
+      onToken(match.response.text);
+      return cachedResponse(match);
+    }
+
+    const response = await this.provider.chatCompletionStream(prompt, onToken, history, options);
+    this.cache.store(key, response);
+    return { ...response, cache: { hit: false } };
+  }
+
+  private cacheRequest(prompt: string, history: ChatTurn[], options: ChatOptions) {
+    return {
+      model: options.model || this.provider.defaultModel,
+      prompt,
+      history,
+      systemPrompt: options.systemPrompt,
+      scope: options.cacheScope,
+    };
+  }
+
+  private recordLookup(model: string, match?: CacheMatch): void {
+    const span = tracer.scope().active();
+    span?.setTag('llm.cache.hit', !!match);
+    if (match) {
+      span?.setTag('llm.cache.similarity', match.similarity);
+    }
+
+    if (tracer.dogstatsd) {
+      tracer.dogstatsd.increment('llm.cache.lookup', 1, {
+        provider: this.provider.name,
+        model,
+        result: !match ? 'miss' : match.similarity === 1 ? 'exact' : 'semantic',
+      });
+    }
+  }
+}
+
+/**
+ * Cache outcome for telemetry. Empty when the response cache is disabled.
+ */
+export function cacheFields(response: ChatResponse): Pick<
+  TelemetryEvent,
+  'cacheHit' | 'cacheSimilarity' | 'cacheSavedTokens'
+> {
+  if (!response.cache) {
+    return {};
+  }
+  return {
+    cacheHit: response.cache.hit,
+    ...(response.cache.similarity !== undefined && { cacheSimilarity: response.cache.similarity }),
+    ...(response.cache.savedTokens !== undefined && { cacheSavedTokens: response.cache.savedTokens }),
+  };
+}
+
+// A hit made no model call, so it has no routing of its own to report
+function cachedResponse(match: CacheMatch): ChatResponse {
+  const { response: { routing: _routing, ...response }, similarity } = match;
+  return {
+    ...response,
+    tokensIn: 0,
+    tokensOut: 0,
+    cache: { hit: true, similarity, savedTokens: response.tokensIn + response.tokensOut },
+  };
+}
@@ -0,0 +1,157 @@
+import { Config } from '../config.js';
+import { ChatOptions, ChatResponse, ChatTurn, LLMProvider, ProviderError, SafetyBlockError } from './types.js';
+
+interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Provider for any server implementing the OpenAI Chat Completions API
+ * (OpenAI itself, vLLM, Ollama, LiteLLM, or a local mock server).
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private config: Config['openai'];
+
+  constructor(config: Config['openai']) {
+    this.config = config;
+  }
+
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  async chatCompletion(prompt: string, history: ChatTurn[] = [], options: ChatOptions = {}): Promise<ChatResponse> {
+    const model = options.model || this.config.model;
+    const response = await this.post({
+      model,
+      messages: this.buildMessages(prompt, history, options.systemPrompt),
+    });
+
+    const result: any = await response.json();
+    const text = result.choices?.[0]?.message?.content || '';
+    const usage: OpenAIUsage = result.usage || {};
+    if (!text && result.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new SafetyBlockError('content_filter');
+    }
+
+    return {
+      text,
+      tokensIn: usage.prompt_tokens || 0,
+      tokensOut: usage.completion_tokens || 0,
+      modelName: result.model || model,
+      modelVersion: result.system_fingerprint || 'unknown',
+    };
+  }
+
+  async chatCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history: ChatTurn[] = [],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const response = await this.post({
+      model: options.model || this.config.model,
+      messages: this.buildMessages(prompt, history, options.systemPrompt),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    if (!response.body) {
+      throw new ProviderError('OpenAI-compatible provider returned an empty stream', 502);
+    }
+
+    let text = '';
+    let modelName = options.model || this.config.model;
+    let modelVersion = 'unknown';
+    let usage: OpenAIUsage = {};
+    let finishReason: string | undefined;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) {
+          continue;
+        }
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') {
+          continue;
+        }
+
+        const parsed: any = JSON.parse(data);
+        modelName = parsed.model || modelName;
+        modelVersion = parsed.system_fingerprint || modelVersion;
+        if (parsed.usage) {
+          usage = parsed.usage;
+        }
+
+        finishReason = parsed.choices?.[0]?.finish_reason || finishReason;
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+    }
+
+    if (!text && finishReason === 'content_filter') {
+      throw new SafetyBlockError('content_filter');
+    }
+
+    // Servers that ignore stream_options never report usage - estimate it instead
+    const historyLength = history.reduce((sum, turn) => sum + turn.content.length, 0);
+
+    return {
+      text,
+      tokensIn: usage.prompt_tokens ?? Math.ceil((prompt.length + historyLength) / 4),
+      tokensOut: usage.completion_tokens ?? Math.ceil(text.length / 4),
+      modelName,
+      modelVersion,
+    };
+  }
+
+  private buildMessages(prompt: string, history: ChatTurn[], systemPrompt?: string): OpenAIChatMessage[] {
+    return [
+      ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...history.map(turn => ({ role: turn.role, content: turn.content })),
+      { role: 'user', content: prompt },
+    ];
+  }
+
+  private async post(body: Record<string, unknown>): Promise<globalThis.Response> {
+    const url = `${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        `OpenAI-compatible provider returned ${response.status}: ${errorText.substring(0, 200)}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,67 @@
+import { Config } from '../config.js';
+import { RoutingPolicies, policyFor } from '../services/routingPolicies.js';
+import { RoutedProvider } from './routedProvider.js';
+import { LLMProvider } from './types.js';
+
+/**
+ * Holds the configured LLM providers and decides which one serves a request.
+ * Precedence: per-request override (if allowed) > per-route mapping > default.
+ *
+ * When a routing policy applies to the endpoint, the resolved provider is
+ * wrapped so the policy chooses the model and its fallbacks. An explicitly
+ * requested provider bypasses routing policies.
+ */
+export class ProviderRegistry {
+  private providers: Map<string, LLMProvider> = new Map();
+  private config: Config['providers'];
+  private routing: RoutingPolicies;
+
+  constructor(config: Config['providers'], routing: RoutingPolicies = { policies: {}, routes: {} }) {
+    this.config = config;
+    this.routing = routing;
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Resolve the provider for an endpoint, honouring a requested provider name
+   * when request-level overrides are enabled.
+   * Returns an error (with the HTTP status to report) when selection is not possible.
+   */
+  resolve(
+    endpoint: string,
+    requested?: unknown
+  ): { provider: LLMProvider } | { error: string; status: number } {
+    if (requested !== undefined) {
+      if (!this.config.allowRequestOverride) {
+        return { error: 'Per-request provider selection is disabled (set LLM_PROVIDER_OVERRIDE=true)', status: 400 };
+      }
+      if (typeof requested !== 'string' || !this.providers.has(requested)) {
+        return { error: `Unknown provider '${String(requested)}'. Available: ${this.list().join(', ')}`, status: 400 };
+      }
+      return { provider: this.providers.get(requested)! };
+    }
+
+    const name = this.config.routes[endpoint] || this.config.defaultProvider;
+    const provider = this.providers.get(name);
+    if (!provider) {
+      return { error: `Provider '${name}' for ${endpoint} is not configured`, status: 503 };
+    }
+
+    const policy = policyFor(this.routing, endpoint);
+    if (policy) {
+      return { provider: new RoutedProvider(policy, provider, providerName => this.providers.get(providerName)) };
+    }
+    return { provider };
+  }
+}
@@ -0,0 +1,292 @@
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { RoutingPolicy, ModelTarget } from '../services/routingPolicies.js';
+import {
+  ChatOptions,
+  ChatResponse,
+  ChatTurn,
+  FallbackCondition,
+  LLMProvider,
+  ProviderError,
+  ProviderTimeoutError,
+  RoutingAttempt,
+  RoutingResult,
+  SafetyBlockError,
+} from './types.js';
+
+interface AttemptContext {
+  abandoned: boolean; // Timed out - the call may still be running but its output is ignored
+  markStarted: () => void;
+}
+
+/**
+ * Raised when every attempt allowed by a routing policy failed. Keeps the last
+ * attempt's status and message so errors are classified as before.
+ */
+export class RoutingError extends ProviderError {
+  routing: Omit<RoutingResult, 'provider'>;
+
+  constructor(cause: unknown, routing: Omit<RoutingResult, 'provider'>) {
+    const status = cause && typeof cause === 'object' && typeof (cause as any).status === 'number'
+      ? (cause as any).status
+      : 500;
+    super(cause instanceof Error ? cause.message : String(cause), status);
+    this.name = 'RoutingError';
+    this.routing = routing;
+  }
+}
+
+/**
+ * Applies a routing policy in front of the registered providers: the primary
+ * model first, then same-model retries and ordered fallbacks for the failure
+ * conditions the policy lists, within its retry budget. Every attempt is
+ * recorded on the response (`routing`), the active span and as metrics, so a
+ * fallback to another model never goes unnoticed.
+ *
+ * Streams only fall back before the first token has been relayed.
+ */
+export class RoutedProvider implements LLMProvider {
+  private policy: RoutingPolicy;
+  private base: LLMProvider;
+  private lookup: (name: string) => LLMProvider | undefined;
+
+  constructor(policy: RoutingPolicy, base: LLMProvider, lookup: (name: string) => LLMProvider | undefined) {
+    this.policy = policy;
+    this.base = base;
+    this.lookup = lookup;
+  }
+
+  get name(): string {
+    return this.resolveTarget(this.policy.primary).provider.name;
+  }
+
+  get defaultModel(): string {
+    return this.resolveTarget(this.policy.primary).model;
+  }
+
+  async chatCompletion(prompt: string, history: ChatTurn[] = [], options: ChatOptions = {}): Promise<ChatResponse> {
+    return this.route(options, (provider, attemptOptions) => provider.chatCompletion(prompt, history, attemptOptions));
+  }
+
+  async chatCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history: ChatTurn[] = [],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    let emitted = false;
+
+    return this.route(options, (provider, attemptOptions, attempt) => {
+      return provider.chatCompletionStream(prompt, (text) => {
+        // Drop late tokens from an attempt that already timed out
+        if (attempt.abandoned) {
+          return;
+        }
+        emitted = true;
+        attempt.markStarted();
+        onToken(text);
+      }, history, attemptOptions);
+    }, () => emitted);
+  }
+
+  private async route(
+    options: ChatOptions,
+    call: (provider: LLMProvider, options: ChatOptions, attempt: AttemptContext) => Promise<ChatResponse>,
+    emitted: () => boolean = () => false
+  ): Promise<ChatResponse> {
+    const primary = this.resolveTarget(this.policy.primary);
+    // A model forwarded by the client replaces the policy's primary on the same provider
+    const targets = [
+      options.model ? { provider: primary.provider, model: options.model } : primary,
+      ...this.policy.fallbacks.map(target => this.resolveTarget(target)),
+    ];
+    const requestedModel = targets[0].model;
+    const attempts: RoutingAttempt[] = [];
+    let lastError: unknown;
+
+    for (const target of targets) {
+      for (let retry = 0; retry <= this.policy.retriesPerModel; retry++) {
+        if (attempts.length >= this.policy.maxAttempts) {
+          break;
+        }
+        if (retry > 0 && this.policy.backoffMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.policy.backoffMs * 2 ** (retry - 1)));
+        }
+
+        const startTime = Date.now();
+        try {
+          const response = await this.withTimeout(
+            attempt => call(target.provider, { ...options, model: target.model }, attempt),
+            target.model
+          );
+          // A cache hit made no model call, so there is no routing to report
+          if (response.cache?.hit) {
+            return response;
+          }
+          attempts.push({ provider: target.provider.name, model: target.model, outcome: 'success', latencyMs: Date.now() - startTime });
+
+          const routing: RoutingResult = { policy: this.policy.name, requestedModel, provider: target.provider.name, attempts };
+          this.recordRouting(routing);
+          return { ...response, routing };
+        } catch (error) {
+          const outcome = fallbackCondition(error);
+          attempts.push({ provider: target.provider.name, model: target.model, outcome, latencyMs: Date.now() - startTime });
+          lastError = error;
+
+          if (outcome === 'error' || !this.policy.retryOn.includes(outcome) || emitted()) {
+            throw this.exhausted(lastError, requestedModel, attempts);
+          }
+          console.warn(`[Routing] ${target.provider.name}:${target.model} failed (${outcome}), policy '${this.policy.name}' moving on`);
+          // Retrying the same model can't help when it doesn't exist or refused on safety grounds
+          if (outcome === 'not_found' || outcome === 'safety_block') {
+            break;
+          }
+        }
+      }
+    }
+
+    throw this.exhausted(lastError, requestedModel, attempts);
+  }
+
+  /**
+   * Resolve a policy target. "provider:model" names a registered provider;
+   * otherwise the whole string is a model on the endpoint's provider
+   * (so model names containing ':' still work).
+   */
+  private resolveTarget(target: ModelTarget): { provider: LLMProvider; model: string } {
+    if (target.provider) {
+      const provider = this.lookup(target.provider);
+      if (provider) {
+        return { provider, model: target.model };
+      }
+      return { provider: this.base, model: `${target.provider}:${target.model}` };
+    }
+    return { provider: this.base, model: target.model };
+  }
+
+  private async withTimeout(
+    run: (attempt: AttemptContext) => Promise<ChatResponse>,
+    model: string
+  ): Promise<ChatResponse> {
+    const timeoutMs = this.policy.timeoutMs;
+    const attempt: AttemptContext = { abandoned: false, markStarted: () => undefined };
+    if (!timeoutMs) {
+      return run(attempt);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        attempt.abandoned = true;
+        reject(new ProviderTimeoutError(model, timeoutMs));
+      }, timeoutMs);
+    });
+    // Streams stop the clock at their first token
+    attempt.markStarted = () => clearTimeout(timer);
+
+    try {
+      return await Promise.race([run(attempt), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private exhausted(error: unknown, requestedModel: string, attempts: RoutingAttempt[]): RoutingError {
+    const routing = { policy: this.policy.name, requestedModel, attempts };
+    this.recordRouting({ ...routing, provider: attempts[attempts.length - 1]?.provider || this.base.name });
+    return new RoutingError(error, routing);
+  }
+
+  private recordRouting(routing: RoutingResult): void {
+    const final = routing.attempts[routing.attempts.length - 1];
+    const span = tracer.scope().active();
+    span?.setTag('llm.routing.policy', routing.policy);
+    span?.setTag('llm.routing.requested_model', routing.requestedModel);
+    span?.setTag('llm.routing.model_used', final?.outcome === 'success' ? final.model : 'none');
+    span?.setTag('llm.routing.fallback_count', fallbackCount(routing));
+    span?.setTag('llm.routing.attempts', routing.attempts.map(formatAttempt).join(','));
+
+    if (tracer.dogstatsd) {
+      for (const attempt of routing.attempts.filter(attempt => attempt.outcome !== 'success')) {
+        tracer.dogstatsd.increment('llm.routing.attempt_failed', 1, {
+          policy: routing.policy,
+          provider: attempt.provider,
+          model: attempt.model,
+          condition: attempt.outcome,
+        });
+      }
+      if (final?.outcome === 'success' && final.model !== routing.requestedModel) {
+        tracer.dogstatsd.increment('llm.routing.fallback', 1, {
+          policy: routing.policy,
+          requested_model: routing.requestedModel,
+          model_used: final.model,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Routing outcome for telemetry. `provider` is the provider that actually
+ * served the response, which differs from the endpoint's after a cross-provider
+ * fallback, so spread this after the event's own `provider`.
+ */
+export function routingFields(routing: Omit<RoutingResult, 'provider'> & { provider?: string } | undefined): Pick<
+  TelemetryEvent,
+  'provider' | 'routingPolicy' | 'requestedModel' | 'fallbackCount' | 'routingAttempts'
+> {
+  if (!routing) {
+    return {};
+  }
+  return {
+    ...(routing.provider && { provider: routing.provider }),
+    routingPolicy: routing.policy,
+    requestedModel: routing.requestedModel,
+    fallbackCount: fallbackCount(routing),
+    routingAttempts: routing.attempts,
+  };
+}
+
+/**
+ * Routing outcome of a failed request, when a routing policy was applied.
+ */
+export function routingErrorFields(error: unknown): ReturnType<typeof routingFields> {
+  return error instanceof RoutingError ? routingFields(error.routing) : {};
+}
+
+/**
+ * Fallback targets tried after the requested model (retries of a model don't count)
+ */
+function fallbackCount(routing: Pick<RoutingResult, 'attempts'>): number {
+  const targets = new Set(routing.attempts.map(attempt => `${attempt.provider}:${attempt.model}`));
+  return Math.max(0, targets.size - 1);
+}
+
+function formatAttempt(attempt: RoutingAttempt): string {
+  return `${attempt.provider}:${attempt.model}=${attempt.outcome}`;
+}
+
+/**
+ * Map a provider failure to the routing condition it counts as.
+ */
+function fallbackCondition(error: unknown): FallbackCondition | 'error' {
+  if (error instanceof SafetyBlockError) {
+    return 'safety_block';
+  }
+  if (error instanceof ProviderTimeoutError) {
+    return 'timeout';
+  }
+
+  const status = error && typeof error === 'object' ? (error as any).status ?? (error as any).code : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /\b429\b|Too Many Requests|RESOURCE_EXHAUSTED/.test(message)) {
+    return 'rate_limit';
+  }
+  if (status === 404 || /\b404\b|NOT_FOUND/.test(message)) {
+    return 'not_found';
+  }
+  if ((typeof status === 'number' && status >= 500) || /\b50[0234]\b|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED/.test(message)) {
+    return 'server_error';
+  }
+  return 'error';
+}
@@ -0,0 +1,106 @@
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  /** Overrides the provider's configured model */
+  model?: string;
+  /** Replaces the provider's default system instruction */
+  systemPrompt?: string;
+  /** Tenant a cached response may be shared with (see CachingProvider) */
+  cacheScope?: string;
+}
+
+export interface CacheResult {
+  hit: boolean;
+  similarity?: number; // Prompt similarity to the cached entry, 1 for exact matches
+  savedTokens?: number; // Tokens the original completion used
+}
+
+/**
+ * Failure classes a routing policy can fall back on ('error' is anything else
+ * and never triggers a fallback).
+ */
+export type FallbackCondition = 'rate_limit' | 'timeout' | 'safety_block' | 'server_error' | 'not_found';
+
+export interface RoutingAttempt {
+  provider: string;
+  model: string;
+  outcome: 'success' | FallbackCondition | 'error';
+  latencyMs: number;
+}
+
+export interface RoutingResult {
+  policy: string;
+  requestedModel: string; // The policy's primary (or the client's model, if forwarded)
+  provider: string; // Provider that produced the response
+  attempts: RoutingAttempt[]; // In order; the last one succeeded
+}
+
+export interface ChatResponse {
+  text: string;
+  tokensIn: number;
+  tokensOut: number;
+  modelName: string;
+  modelVersion: string;
+  /** Set when the response cache was consulted */
+  cache?: CacheResult;
+  /** Set when a routing policy chose the model */
+  routing?: RoutingResult;
+}
+
+/**
+ * A chat-capable LLM backend the gateway can route requests to.
+ * Implementations report token usage and the model identity that actually served
+ * the request, so telemetry stays comparable across providers.
+ */
+export interface LLMProvider {
+  /** Provider identifier recorded in telemetry (e.g. 'vertex', 'openai') */
+  readonly name: string;
+  /** Model used when a request does not resolve to a more specific one */
+  readonly defaultModel: string;
+
+  chatCompletion(prompt: string, history?: ChatTurn[], options?: ChatOptions): Promise<ChatResponse>;
+  chatCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history?: ChatTurn[],
+    options?: ChatOptions
+  ): Promise<ChatResponse>;
+}
+
+/**
+ * Error raised by HTTP-based providers. `status` mirrors the upstream HTTP status
+ * so the chat route can map 429s the same way it does for Vertex AI.
+ */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * The provider refused to answer on safety grounds (e.g. Gemini finishReason
+ * SAFETY or a blocked prompt). Routing policies can fall back on it.
+ */
+export class SafetyBlockError extends ProviderError {
+  constructor(reason: string) {
+    super(`Response blocked by provider safety filters (${reason})`, 422);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+/**
+ * A model call exceeded its routing policy's timeout.
+ */
+export class ProviderTimeoutError extends ProviderError {
+  constructor(model: string, timeoutMs: number) {
+    super(`Model ${model} did not respond within ${timeoutMs}ms`, 504);
+    this.name = 'ProviderTimeoutError';
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createCacheRouter } from '../cache.js';
+import { ResponseCache } from '../../services/responseCache.js';
+
+const CONFIG = { enabled: true, ttlMs: 60000, similarityThreshold: 1, maxEntries: 100, scope: 'tenant' as const, embeddingModel: 'test' };
+
+describe('POST /api/cache/invalidate', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let cache: ResponseCache;
+
+  async function fill(scope: string | undefined, model: string, prompt: string): Promise<void> {
+    const { key } = await cache.lookup({ model, prompt, history: [], scope });
+    cache.store(key, { text: `Answer to ${prompt}`, tokensIn: 1, tokensOut: 1, modelName: model, modelVersion: '1' });
+  }
+
+  beforeEach(async () => {
+    cache = new ResponseCache(CONFIG, {} as any);
+    await fill('acme', 'gemini-1.5-pro', 'a');
+    await fill('acme', 'gemini-1.5-flash', 'b');
+    await fill('globex', 'gemini-1.5-pro', 'c');
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.tenantId = req.header('X-Test-Tenant');
+      next();
+    });
+    app.use(createCacheRouter(cache));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function invalidate(body: object, tenant?: string): Promise<Response> {
+    return fetch(`${baseUrl}/api/cache/invalidate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(tenant && { 'X-Test-Tenant': tenant }) },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("only drops the caller's tenant's entries", async () => {
+    const response = await invalidate({}, 'acme');
+
+    expect(await response.json()).toEqual({ invalidated: 2, model: null, remaining: 0 });
+    expect(cache.size).toBe(1);
+    expect(cache.sizeFor('globex')).toBe(1);
+  });
+
+  it("drops one model of the caller's tenant", async () => {
+    const response = await invalidate({ model: 'gemini-1.5-pro' }, 'globex');
+
+    expect(await response.json()).toEqual({ invalidated: 1, model: 'gemini-1.5-pro', remaining: 0 });
+    expect(cache.sizeFor('acme')).toBe(2);
+  });
+
+  it('drops every entry without authentication', async () => {
+    const response = await invalidate({ model: 'gemini-1.5-pro' });
+
+    expect(await response.json()).toEqual({ invalidated: 2, model: 'gemini-1.5-pro', remaining: 1 });
+  });
+
+  it('rejects an invalid model', async () => {
+    const response = await invalidate({ model: ' ' }, 'acme');
+
+    expect(response.status).toBe(400);
+    expect(cache.size).toBe(3);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createChatRouter } from '../chat.js';
+import { loadConfig } from '../../config.js';
+import { ProviderRegistry } from '../../providers/providerRegistry.js';
+import { LLMProvider } from '../../providers/types.js';
+
+describe('chat routes', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let publish: ReturnType<typeof vi.fn>;
+  let recordUsage: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    const config = loadConfig();
+    const provider: LLMProvider = {
+      name: 'test',
+      defaultModel: 'test-model',
+      chatCompletion: vi.fn(async () => ({ text: 'Hello there', tokensIn: 3, tokensOut: 2, modelName: 'test-model', modelVersion: '1' })),
+      chatCompletionStream: vi.fn(async (_prompt: string, onToken: (text: string) => void) => {
+        onToken('Hello there');
+        return { text: 'Hello there', tokensIn: 3, tokensOut: 2, modelName: 'test-model', modelVersion: '1' };
+      }),
+    };
+    const providers = new ProviderRegistry({ ...config.providers, defaultProvider: 'test', routes: {} });
+    providers.register(provider);
+    publish = vi.fn().mockResolvedValue(undefined);
+    recordUsage = vi.fn().mockResolvedValue(undefined);
+
+    const app = express();
+    app.use(express.json());
+    app.use(createChatRouter(
+      providers,
+      { publish } as any,
+      { record: recordUsage } as any,
+      { recordTokens: vi.fn().mockResolvedValue(undefined) } as any,
+      null,
+      config
+    ));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('streams tokens and a done event, then publishes telemetry', async () => {
+    const response = await fetch(`${baseUrl}/api/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Hi' }),
+    });
+    const body = await response.text();
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(body).toContain('event: token');
+    expect(body).toContain('event: done');
+    await vi.waitFor(() => expect(publish).toHaveBeenCalledWith(expect.objectContaining({ status: 'success', streaming: true })));
+  });
+
+  it('only logs bookkeeping failures once the response has ended', async () => {
+    recordUsage.mockRejectedValue(new Error('usage store down'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await fetch(`${baseUrl}/api/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Hi' }),
+    });
+    const body = await response.text();
+
+    expect(body).toContain('event: done');
+    expect(body).not.toContain('event: error');
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('Chat stream bookkeeping error:', expect.any(Error)));
+    expect(publish.mock.calls.map(([event]) => event.status)).toEqual(['success']);
+    consoleError.mockRestore();
+  });
+
+  it("answers /api/chat without waiting for usage bookkeeping, and only logs its failures", async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const chat = () => fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Hi' }),
+    });
+
+    recordUsage.mockReturnValueOnce(new Promise(() => {}));
+    const stalled = await chat();
+    recordUsage.mockRejectedValueOnce(new Error('usage store down'));
+    const failed = await chat();
+
+    expect(stalled.status).toBe(200);
+    expect(failed.status).toBe(200);
+    expect(await failed.json()).toMatchObject({ response: 'Hello there' });
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('Chat bookkeeping error:', expect.any(Error)));
+    expect(publish.mock.calls.map(([event]) => event.status)).toEqual(['success', 'success']);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createOpenAICompatRouter } from '../openaiCompat.js';
+import { MAX_HISTORY_TURNS, MAX_MESSAGE_LENGTH } from '../chat.js';
+import { loadConfig } from '../../config.js';
+import { ProviderRegistry } from '../../providers/providerRegistry.js';
+import { LLMProvider } from '../../providers/types.js';
+
+describe('POST /v1/chat/completions', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let provider: LLMProvider;
+
+  beforeEach(async () => {
+    const config = loadConfig();
+    provider = {
+      name: 'test',
+      defaultModel: 'test-model',
+      chatCompletion: vi.fn(async () => ({ text: 'Hello there', tokensIn: 3, tokensOut: 2, modelName: 'test-model', modelVersion: '1' })),
+      chatCompletionStream: vi.fn(),
+    };
+    const providers = new ProviderRegistry({ ...config.providers, defaultProvider: 'test', routes: {} });
+    providers.register(provider);
+
+    const app = express();
+    app.use(express.json({ limit: '5mb' }));
+    app.use(createOpenAICompatRouter(
+      providers,
+      { publish: vi.fn().mockResolvedValue(undefined) } as any,
+      { record: vi.fn().mockResolvedValue(undefined) } as any,
+      { recordTokens: vi.fn().mockResolvedValue(undefined) } as any,
+      config
+    ));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function complete(messages: Array<{ role: string; content: string }>) {
+    return fetch(`${baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'gpt-4o', messages }),
+    });
+  }
+
+  it('answers in the OpenAI format', async () => {
+    const response = await complete([{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }]);
+
+    expect(response.status).toBe(200);
+    const body = await response.json() as { choices: Array<{ message: unknown }> };
+    expect(body.choices[0].message).toEqual({ role: 'assistant', content: 'Hello there' });
+  });
+
+  it('rejects requests larger than /api/chat accepts', async () => {
+    const long = 'a'.repeat(MAX_MESSAGE_LENGTH + 1);
+    const history = Array.from({ length: MAX_HISTORY_TURNS + 1 }, (_, i) => ({ role: i % 2 ? 'assistant' : 'user', content: 'Earlier' }));
+    const cases = [
+      [{ role: 'user', content: long }],
+      [{ role: 'user', content: long }, { role: 'assistant', content: 'Sure' }, { role: 'user', content: 'Hi' }],
+      [{ role: 'system', content: long.slice(1) }, { role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }],
+      [...history, { role: 'user', content: 'Hi' }],
+    ];
+
+    for (const messages of cases) {
+      const response = await complete(messages);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { type: 'invalid_request_error', code: 'context_length_exceeded' } });
+    }
+    expect(provider.chatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { once } from 'events';
+import { Router, Request, Response } from 'express';
+import { AnalyzerClient } from '../services/analyzerClient.js';
+
+// Query parameters passed through to the analyzer
+const FILTER_PARAMS = ['from', 'to', 'environment', 'model', 'severity', 'limit'];
+const STREAM_PARAMS = ['label', 'minSeverity', 'environment', 'model', 'matchedRules'];
+
+/**
+ * Fleet-wide analytics for the web client, proxied from the analyzer's query
+ * API, which is not reachable from browsers:
+ *
+ *   GET /api/analytics/summary              Totals, severities and safety labels
+ *   GET /api/analytics/activity             Analyzed events, newest first
+ *   GET /api/analytics/results/:requestId   Analyzer scores for one request
+ *   GET /api/analytics/stream               Server-Sent Events: each request as it is analyzed
+ *
+ * Authenticated callers only see their own tenant's traffic.
+ */
+export function createAnalyticsRouter(analyzer: AnalyzerClient): Router {
+  const router = Router();
+
+  router.get(['/api/analytics/summary', '/api/analytics/activity'], async (req: Request, res: Response) => {
+    const resource = req.path.slice('/api/analytics'.length);
+    await forward(res, () => analyzer.get(`/api${resource}`, analyzerQuery(req, res, FILTER_PARAMS)));
+  });
+
+  router.get('/api/analytics/stream', async (req: Request, res: Response) => {
+    const upstream = new AbortController();
+    res.on('close', () => upstream.abort());
+
+    try {
+      const response = await analyzer.open('/api/stream', analyzerQuery(req, res, STREAM_PARAMS), upstream.signal);
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({ error: 'Analyzer stream unavailable' }));
+        res.status(response.status).json(body);
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Cloud Run front end)
+      });
+      res.flushHeaders();
+
+      // Relay events as they arrive; the analyzer's heartbeats keep the connection open.
+      // While a slow client catches up, stop reading: the analyzer then drops
+      // events for this subscriber instead of either side buffering them.
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        if (!res.write(value)) {
+          await once(res, 'drain', { signal: upstream.signal });
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (upstream.signal.aborted) {
+        return; // The client went away
+      }
+      console.error('[Analytics] Analyzer stream failed:', error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(502).json({ error: 'Analyzer unavailable', details: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+
+  router.get('/api/analytics/results/:requestId', async (req: Request, res: Response) => {
+    await forward(res, async () => {
+      const response = await analyzer.get(`/api/results/${encodeURIComponent(req.params.requestId)}`);
+      const result = (response.body as { result?: { tenantId?: string | null } }).result;
+      // Results from other tenants look like missing ones
+      if (response.status === 200 && res.locals.tenantId && result?.tenantId !== res.locals.tenantId) {
+        return { status: 404, body: { error: `No analysis for ${req.params.requestId}` } };
+      }
+      return response;
+    });
+  });
+
+  return router;
+}
+
+// Filters from the client, and the tenant authenticated callers are limited to
+export function analyzerQuery(req: Request, res: Response, names: string[]): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const name of names) {
+    if (typeof req.query[name] === 'string') {
+      query.set(name, req.query[name] as string);
+    }
+  }
+  if (res.locals.tenantId) {
+    query.set('tenant', res.locals.tenantId);
+  }
+  return query;
+}
+
+export async function forward(res: Response, request: () => Promise<{ status: number; body: unknown }>): Promise<void> {
+  try {
+    const { status, body } = await request();
+    res.status(status).json(body);
+  } catch (error) {
+    console.error('[Analytics] Analyzer request failed:', error);
+    res.status(502).json({ error: 'Analyzer unavailable', details: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import tracer from 'dd-trace';
+import { ResponseCache } from '../services/responseCache.js';
+
+export function createCacheRouter(cache: ResponseCache): Router {
+  const router = Router();
+
+  /**
+   * Drop cached responses, e.g. after a model upgrade changes its answers.
+   * Body: { "model": "gemini-2.0-flash" } to invalidate one model, or {} for all.
+   * Authenticated callers only drop entries stored for their own tenant.
+   */
+  router.post('/api/cache/invalidate', (req: Request, res: Response) => {
+    const model = req.body?.model;
+    if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+      return res.status(400).json({ error: 'Invalid request', details: 'model must be a non-empty string' });
+    }
+
+    const tenantId: string | undefined = res.locals.tenantId;
+    const invalidated = cache.invalidate(model?.trim(), tenantId);
+    console.log(`[Cache] Invalidated ${invalidated} entries${model ? ` for model ${model.trim()}` : ''}${tenantId ? ` of tenant ${tenantId}` : ''}`);
+
+    if (tracer.dogstatsd) {
+      tracer.dogstatsd.increment('llm.cache.invalidated', invalidated, { model: model?.trim() || 'all', tenant: tenantId || 'none' });
+    }
+
+    res.json({
+      invalidated,
+      model: model?.trim() || null,
+      remaining: tenantId ? cache.sizeFor(tenantId) : cache.size,
+    });
+  });
+
+  return router;
+}
@@ -1,15 +1,53 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import tracer from 'dd-trace';
-import { VertexClient } from '../vertexClient.js';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ChatTurn, LLMProvider } from '../providers/types.js';
+import { ProviderRegistry } from '../providers/providerRegistry.js';
+import { cacheFields } from '../providers/cachingProvider.js';
+import { routingErrorFields, routingFields } from '../providers/routedProvider.js';
 import { TelemetryPublisher } from '../services/telemetryPublisher.js';
-import { TelemetryEvent } from '../types/telemetry.js';
 import { Config } from '../config.js';
 import { calculateDemoScores } from '../utils/demoScorer.js';
+import { classifyError } from '../utils/errorClassifier.js';
+import { tenantFields } from '../middleware/apiKeyAuth.js';
+import { quotaTenant } from '../middleware/quotaGuard.js';
+import { QuotaManager } from '../services/quotaManager.js';
+import { rateLimitSubject } from '../middleware/rateLimiter.js';
+import { RateLimitManager } from '../services/rateLimitManager.js';
+import { ShadowTraffic } from '../services/shadowTraffic.js';
+import {
+  applyGuardrails,
+  blockedReason,
+  guardrailFields,
+  recordGuardrailDecision,
+  GuardrailDecision,
+} from '../utils/guardrails.js';
+import {
+  filterOutput,
+  outputFilterFields,
+  outputFilterSummary,
+  recordOutputFilter,
+  OutputFilter,
+} from '../utils/outputFilter.js';
+
+// Shared with the OpenAI-compatible proxy so neither route takes larger requests
+export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_HISTORY_TURNS = 50;
+
+interface ConversationContext {
+  conversationId: string;
+  history: ChatTurn[];
+  turnIndex: number;
+  historyTokens: number;
+}
 
 export function createChatRouter(
-  vertexClient: VertexClient,
+  providers: ProviderRegistry,
   telemetryPublisher: TelemetryPublisher,
+  quotas: QuotaManager,
+  rateLimits: RateLimitManager,
+  shadow: ShadowTraffic | null,
   config: Config
 ): Router {
   const router = Router();
@@ -21,123 +59,179 @@ export function createChatRouter(
     const startTime = Date.now();
     let status: 'success' | 'error' = 'success';
     let errorMessage: string | undefined;
+    let conversation: ConversationContext | undefined;
+    let provider: LLMProvider | undefined;
+    let guardrail: GuardrailDecision | undefined;
+    let prompt: string | undefined; // Message as sent to the model (after any redaction)
 
     // Set trace tags
     span?.setTag('request.id', requestId);
-    span?.setTag('llm.model', config.vertex.model);
     span?.setTag('llm.endpoint', '/api/chat');
 
     try {
-      const { message } = req.body;
+      const validation = validateMessage(req.body.message);
+      if ('error' in validation) {
+        return res.status(400).json(validation.error);
+      }
+      const sanitizedMessage = validation.message;
 
-      // Input validation
-      if (!message || typeof message !== 'string') {
-        return res.status(400).json({
-          error: 'Invalid request',
-          details: 'Message must be a non-empty string',
-        });
+      const parsedConversation = parseConversation(req.body);
+      if ('error' in parsedConversation) {
+        return res.status(400).json(parsedConversation.error);
       }
+      conversation = parsedConversation.conversation;
+      span?.setTag('llm.conversation.id', conversation.conversationId);
+      span?.setTag('llm.conversation.turn_index', conversation.turnIndex);
 
-      // Length validation
-      if (message.length > 10000) {
-        return res.status(400).json({
-          error: 'Message too long',
-          details: 'Maximum message length is 10,000 characters',
-          maxLength: 10000,
-        });
+      const selection = providers.resolve('/api/chat', req.body.provider);
+      if ('error' in selection) {
+        return res.status(selection.status).json({ error: 'Invalid provider', details: selection.error });
       }
+      provider = selection.provider;
+      span?.setTag('llm.provider', provider.name);
+      span?.setTag('llm.model', provider.defaultModel);
+
+      // Guardrails run before the model call so blocked requests spend no tokens
+      const guarded = applyGuardrails(sanitizedMessage, conversation.history, config.guardrails);
+      guardrail = guarded.decision;
+      recordGuardrailDecision(guardrail, '/api/chat');
+
+      if (guardrail.action === 'block') {
+        const reason = blockedReason(guardrail);
+
+        const telemetryEvent: TelemetryEvent = {
+          requestId,
+          timestamp: new Date().toISOString(),
+          endpoint: '/api/chat',
+          method: 'POST',
+          prompt: sanitizedMessage,
+          promptLength: sanitizedMessage.length,
+          response: '',
+          responseLength: 0,
+          modelName: provider.defaultModel,
+          modelVersion: 'unknown',
+          provider: provider.name,
+          tokensIn: 0,
+          tokensOut: 0,
+          tokensTotal: 0,
+          latencyMs: Date.now() - startTime,
+          ...guardrailFields(guardrail),
+          status: 'blocked',
+          errorMessage: reason,
+          ...conversationFields(conversation),
+          ...tenantFields(res),
+          environment: config.environment,
+          service: 'gateway',
+        };
+
+        await telemetryPublisher.publish(telemetryEvent);
 
-      // Sanitize: trim and limit length
-      const sanitizedMessage = message.trim();
-      
-      if (sanitizedMessage.length === 0) {
         return res.status(400).json({
-          error: 'Empty message',
-          details: 'Message cannot be empty or whitespace only',
+          requestId,
+          conversationId: conversation.conversationId,
+          error: 'Request blocked',
+          details: reason,
+          errorType: 'guardrail_blocked',
+          guardrailLabels: guardrail.labels,
         });
       }
+      prompt = guarded.prompt;
 
-      const response = await vertexClient.chatCompletion(sanitizedMessage);
+      const response = await provider.chatCompletion(prompt, guarded.history, { cacheScope: res.locals.tenantId });
       const latencyMs = Date.now() - startTime;
 
+      // Mask or withhold PII in the response before it reaches the client
+      const output = filterOutput(response.text, config.outputFilter);
+
       // Calculate demo scores for frontend visualization
-      const demoScores = calculateDemoScores(sanitizedMessage, response.text);
+      const demoScores = calculateDemoScores(prompt, output.text);
 
       // Set APM trace tags for successful response
       span?.setTag('llm.tokens.in', response.tokensIn);
       span?.setTag('llm.tokens.out', response.tokensOut);
       span?.setTag('llm.tokens.total', response.tokensIn + response.tokensOut);
       span?.setTag('llm.latency_ms', latencyMs);
-      span?.setTag('llm.response.length', response.text.length);
+      span?.setTag('llm.response.length', output.text.length);
       span?.setTag('llm.safety.score', demoScores.safetyScore);
       span?.setTag('llm.safety.label', demoScores.safetyLabel);
       span?.setTag('llm.drift.score', demoScores.driftScore);
+      recordOutputFilter(output, '/api/chat');
+
+      // Mirror a sample of live (uncached) requests to the candidate model
+      const shadowRequestId = shadow && !response.cache?.hit ? shadow.sample() : undefined;
+      if (shadow && shadowRequestId) {
+        span?.setTag('llm.shadow.request_id', shadowRequestId);
+        span?.setTag('llm.shadow.model', shadow.model);
+      }
 
       const telemetryEvent: TelemetryEvent = {
         requestId,
         timestamp: new Date().toISOString(),
         endpoint: '/api/chat',
         method: 'POST',
-        prompt: sanitizedMessage,
-        promptLength: sanitizedMessage.length,
-        response: response.text,
-        responseLength: response.text.length,
+        prompt,
+        promptLength: prompt.length,
+        response: output.text,
+        responseLength: output.text.length,
         modelName: response.modelName,
         modelVersion: response.modelVersion,
+        provider: provider.name,
         tokensIn: response.tokensIn,
         tokensOut: response.tokensOut,
         tokensTotal: response.tokensIn + response.tokensOut,
         latencyMs,
+        ...cacheFields(response),
+        ...routingFields(response.routing),
+        ...guardrailFields(guardrail),
+        ...outputFilterFields(output, config.outputFilter),
+        ...(shadowRequestId && { shadowRequestId }),
         status,
+        ...conversationFields(conversation),
+        ...tenantFields(res),
         environment: config.environment,
         service: 'gateway',
       };
 
-      await telemetryPublisher.publish(telemetryEvent);
-
       res.json({
         requestId,
-        response: response.text,
+        conversationId: conversation.conversationId,
+        turnIndex: conversation.turnIndex,
+        response: output.text,
         tokensIn: response.tokensIn,
         tokensOut: response.tokensOut,
         modelName: response.modelName,
         modelVersion: response.modelVersion,
+        provider: response.routing?.provider ?? provider.name,
+        ...(response.routing && { routing: response.routing }),
+        ...(response.cache && { cache: response.cache }),
+        ...(guardrail.labels.length > 0 && { guardrail }),
+        outputFilter: outputFilterSummary(output, config.outputFilter),
         // Add safety and drift scores for frontend visualization
         safetyScore: demoScores.safetyScore,
         safetyLabel: demoScores.safetyLabel,
         driftScore: demoScores.driftScore,
         baselineReady: demoScores.baselineReady,
       });
+
+      // The client has its answer, so failures from here on are only logged
+      try {
+        await telemetryPublisher.publish(telemetryEvent);
+        await quotas.record(quotaTenant(res), response.modelName, response.tokensIn, response.tokensOut);
+        await rateLimits.recordTokens(rateLimitSubject(res), response.tokensIn + response.tokensOut);
+      } catch (error) {
+        console.error('Chat bookkeeping error:', error);
+      }
+
+      if (shadow && shadowRequestId) {
+        shadow.mirror(shadowRequestId, telemetryEvent, guarded.history);
+      }
     } catch (error) {
       status = 'error';
-      errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const latencyMs = Date.now() - startTime;
+      const { httpStatus, errorType, userFriendlyMessage, ...classified } = classifyError(error, provider?.name);
+      errorMessage = classified.errorMessage;
 
-      // Check for rate limit errors (429)
-      let httpStatus = 500;
-      let errorType = 'server_error';
-      let userFriendlyMessage = 'Failed to process chat request';
-      
-      // Check if it's a Vertex AI ClientError with 429 status
-      if (error && typeof error === 'object' && 'status' in error) {
-        const statusCode = (error as any).status;
-        if (statusCode === 429) {
-          httpStatus = 429;
-          errorType = 'rate_limit';
-          userFriendlyMessage = 'Rate limit exceeded';
-          errorMessage = 'Vertex AI rate limit exceeded. Please try again in a few moments.';
-          span?.setTag('error.rate_limit', true);
-        }
-      }
-      
-      // Also check error message for 429 indicators
-      if (errorMessage.includes('429') || errorMessage.includes('Too Many Requests') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-        httpStatus = 429;
-        errorType = 'rate_limit';
-        userFriendlyMessage = 'Rate limit exceeded';
-        if (!errorMessage.includes('try again')) {
-          errorMessage = 'Vertex AI rate limit exceeded. Please try again in a few moments.';
-        }
+      if (errorType === 'rate_limit') {
         span?.setTag('error.rate_limit', true);
       }
 
@@ -154,18 +248,23 @@ export function createChatRouter(
         timestamp: new Date().toISOString(),
         endpoint: '/api/chat',
         method: 'POST',
-        prompt: req.body.message || '',
-        promptLength: req.body.message?.length || 0,
+        prompt: prompt ?? (req.body.message || ''),
+        promptLength: prompt?.length ?? (req.body.message?.length || 0),
         response: '',
         responseLength: 0,
-        modelName: config.vertex.model,
+        modelName: provider?.defaultModel || config.vertex.model,
         modelVersion: 'unknown',
+        provider: provider?.name,
         tokensIn: 0,
         tokensOut: 0,
         tokensTotal: 0,
         latencyMs,
+        ...routingErrorFields(error),
+        ...(guardrail && guardrailFields(guardrail)),
         status,
         errorMessage,
+        ...(conversation && conversationFields(conversation)),
+        ...tenantFields(res),
         environment: config.environment,
         service: 'gateway',
       };
@@ -182,6 +281,262 @@ export function createChatRouter(
     }
   });
 
+  // Streaming chat endpoint - relays model output as Server-Sent Events
+  router.post('/api/chat/stream', async (req: Request, res: Response) => {
+    const span = tracer.scope().active();
+    const requestId = uuidv4();
+    const startTime = Date.now();
+    let firstTokenAt: number | undefined;
+    let clientClosed = false;
+
+    span?.setTag('request.id', requestId);
+    span?.setTag('llm.endpoint', '/api/chat/stream');
+    span?.setTag('llm.streaming', true);
+
+    const validation = validateMessage(req.body.message);
+    if ('error' in validation) {
+      return res.status(400).json(validation.error);
+    }
+    const sanitizedMessage = validation.message;
+
+    const parsedConversation = parseConversation(req.body);
+    if ('error' in parsedConversation) {
+      return res.status(400).json(parsedConversation.error);
+    }
+    const conversation = parsedConversation.conversation;
+    span?.setTag('llm.conversation.id', conversation.conversationId);
+    span?.setTag('llm.conversation.turn_index', conversation.turnIndex);
+
+    const selection = providers.resolve('/api/chat/stream', req.body.provider);
+    if ('error' in selection) {
+      return res.status(selection.status).json({ error: 'Invalid provider', details: selection.error });
+    }
+    const provider = selection.provider;
+    span?.setTag('llm.provider', provider.name);
+    span?.setTag('llm.model', provider.defaultModel);
+
+    // Decide before any SSE headers go out so a block is still a plain 4xx
+    const guarded = applyGuardrails(sanitizedMessage, conversation.history, config.guardrails);
+    const guardrail = guarded.decision;
+    const prompt = guarded.prompt;
+    recordGuardrailDecision(guardrail, '/api/chat/stream');
+
+    if (guardrail.action === 'block') {
+      const reason = blockedReason(guardrail);
+
+      const telemetryEvent: TelemetryEvent = {
+        requestId,
+        timestamp: new Date().toISOString(),
+        endpoint: '/api/chat/stream',
+        method: 'POST',
+        prompt: sanitizedMessage,
+        promptLength: sanitizedMessage.length,
+        response: '',
+        responseLength: 0,
+        modelName: provider.defaultModel,
+        modelVersion: 'unknown',
+        provider: provider.name,
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensTotal: 0,
+        latencyMs: Date.now() - startTime,
+        ...guardrailFields(guardrail),
+        status: 'blocked',
+        errorMessage: reason,
+        streaming: true,
+        ...conversationFields(conversation),
+        ...tenantFields(res),
+        environment: config.environment,
+        service: 'gateway',
+      };
+
+      await telemetryPublisher.publish(telemetryEvent);
+
+      return res.status(400).json({
+        requestId,
+        conversationId: conversation.conversationId,
+        error: 'Request blocked',
+        details: reason,
+        errorType: 'guardrail_blocked',
+        guardrailLabels: guardrail.labels,
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Cloud Run front end)
+    });
+    res.flushHeaders();
+
+    // Keep generating after a disconnect so telemetry still reflects the full completion
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        clientClosed = true;
+      }
+    });
+
+    // Tokens pass through the output filter, which holds back text that may be the start of PII
+    const outputFilter = new OutputFilter(config.outputFilter);
+
+    try {
+      const response = await provider.chatCompletionStream(prompt, (text) => {
+        if (firstTokenAt === undefined) {
+          firstTokenAt = Date.now();
+        }
+        const released = outputFilter.push(text);
+        if (released && !clientClosed) {
+          writeSseEvent(res, 'token', { text: released });
+        }
+      }, guarded.history, { cacheScope: res.locals.tenantId });
+      const latencyMs = Date.now() - startTime;
+      const timeToFirstTokenMs = (firstTokenAt ?? Date.now()) - startTime;
+
+      const tail = outputFilter.flush();
+      if (tail && !clientClosed) {
+        writeSseEvent(res, 'token', { text: tail });
+      }
+      const output = outputFilter.result();
+
+      const demoScores = calculateDemoScores(prompt, output.text);
+
+      span?.setTag('llm.tokens.in', response.tokensIn);
+      span?.setTag('llm.tokens.out', response.tokensOut);
+      span?.setTag('llm.tokens.total', response.tokensIn + response.tokensOut);
+      span?.setTag('llm.latency_ms', latencyMs);
+      span?.setTag('llm.ttft_ms', timeToFirstTokenMs);
+      span?.setTag('llm.response.length', output.text.length);
+      span?.setTag('llm.safety.score', demoScores.safetyScore);
+      span?.setTag('llm.safety.label', demoScores.safetyLabel);
+      span?.setTag('llm.drift.score', demoScores.driftScore);
+      recordOutputFilter(output, '/api/chat/stream');
+      if (clientClosed) {
+        span?.setTag('llm.stream.client_closed', true);
+      }
+
+      if (!clientClosed) {
+        writeSseEvent(res, 'done', {
+          requestId,
+          conversationId: conversation.conversationId,
+          turnIndex: conversation.turnIndex,
+          // Authoritative text: replaces the streamed tokens if the response was withheld
+          response: output.text,
+          tokensIn: response.tokensIn,
+          tokensOut: response.tokensOut,
+          modelName: response.modelName,
+          modelVersion: response.modelVersion,
+          provider: response.routing?.provider ?? provider.name,
+          ...(response.routing && { routing: response.routing }),
+          ...(response.cache && { cache: response.cache }),
+          ...(guardrail.labels.length > 0 && { guardrail }),
+          outputFilter: outputFilterSummary(output, config.outputFilter),
+          latencyMs,
+          timeToFirstTokenMs,
+          safetyScore: demoScores.safetyScore,
+          safetyLabel: demoScores.safetyLabel,
+          driftScore: demoScores.driftScore,
+          baselineReady: demoScores.baselineReady,
+        });
+        res.end();
+      }
+
+      const telemetryEvent: TelemetryEvent = {
+        requestId,
+        timestamp: new Date().toISOString(),
+        endpoint: '/api/chat/stream',
+        method: 'POST',
+        prompt,
+        promptLength: prompt.length,
+        response: output.text,
+        responseLength: output.text.length,
+        modelName: response.modelName,
+        modelVersion: response.modelVersion,
+        provider: provider.name,
+        tokensIn: response.tokensIn,
+        tokensOut: response.tokensOut,
+        tokensTotal: response.tokensIn + response.tokensOut,
+        latencyMs,
+        ...cacheFields(response),
+        ...routingFields(response.routing),
+        ...guardrailFields(guardrail),
+        ...outputFilterFields(output, config.outputFilter),
+        status: 'success',
+        streaming: true,
+        timeToFirstTokenMs,
+        ...conversationFields(conversation),
+        ...tenantFields(res),
+        environment: config.environment,
+        service: 'gateway',
+      };
+
+      // The response is already finished, so failures from here on are only logged
+      try {
+        await telemetryPublisher.publish(telemetryEvent);
+        await quotas.record(quotaTenant(res), response.modelName, response.tokensIn, response.tokensOut);
+        await rateLimits.recordTokens(rateLimitSubject(res), response.tokensIn + response.tokensOut);
+      } catch (error) {
+        console.error('Chat stream bookkeeping error:', error);
+      }
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const { httpStatus, errorType, userFriendlyMessage, errorMessage } = classifyError(error, provider.name);
+
+      if (errorType === 'rate_limit') {
+        span?.setTag('error.rate_limit', true);
+      }
+      span?.setTag('error', true);
+      span?.setTag('error.message', errorMessage);
+      span?.setTag('error.type', error instanceof Error ? error.constructor.name : 'Unknown');
+      span?.setTag('error.http_status', httpStatus);
+
+      console.error('Chat stream error:', error);
+
+      // Headers are already sent, so the failure is reported in-band
+      if (!clientClosed && !res.writableEnded) {
+        writeSseEvent(res, 'error', {
+          requestId,
+          conversationId: conversation.conversationId,
+          error: userFriendlyMessage,
+          details: errorMessage,
+          errorType,
+          ...(httpStatus === 429 && { retryAfter: 60 }),
+        });
+        res.end();
+      }
+
+      const telemetryEvent: TelemetryEvent = {
+        requestId,
+        timestamp: new Date().toISOString(),
+        endpoint: '/api/chat/stream',
+        method: 'POST',
+        prompt,
+        promptLength: prompt.length,
+        response: '',
+        responseLength: 0,
+        modelName: provider.defaultModel,
+        modelVersion: 'unknown',
+        provider: provider.name,
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensTotal: 0,
+        latencyMs,
+        ...routingErrorFields(error),
+        ...guardrailFields(guardrail),
+        status: 'error',
+        errorMessage,
+        streaming: true,
+        ...(firstTokenAt !== undefined && { timeToFirstTokenMs: firstTokenAt - startTime }),
+        ...conversationFields(conversation),
+        ...tenantFields(res),
+        environment: config.environment,
+        service: 'gateway',
+      };
+
+      await telemetryPublisher.publish(telemetryEvent);
+    }
+  });
+
   // Feedback endpoint
   router.post('/api/feedback', async (req: Request, res: Response) => {
     const { requestId, rating, comment } = req.body;
@@ -223,3 +578,122 @@ export function createChatRouter(
   return router;
 }
 
+/**
+ * Validate and sanitize an incoming chat message.
+ * Returns the trimmed message, or the 400 response body describing why it was rejected.
+ */
+function validateMessage(message: unknown): { message: string } | { error: Record<string, unknown> } {
+  if (!message || typeof message !== 'string') {
+    return {
+      error: {
+        error: 'Invalid request',
+        details: 'Message must be a non-empty string',
+      },
+    };
+  }
+
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: {
+        error: 'Message too long',
+        details: 'Maximum message length is 10,000 characters',
+        maxLength: MAX_MESSAGE_LENGTH,
+      },
+    };
+  }
+
+  const sanitizedMessage = message.trim();
+
+  if (sanitizedMessage.length === 0) {
+    return {
+      error: {
+        error: 'Empty message',
+        details: 'Message cannot be empty or whitespace only',
+      },
+    };
+  }
+
+  return { message: sanitizedMessage };
+}
+
+/**
+ * Parse the optional conversation context of a chat request.
+ * Clients send prior turns with every request so any gateway instance can serve
+ * any turn; a conversationId is generated for the first turn if none is given.
+ */
+function parseConversation(body: any): { conversation: ConversationContext } | { error: Record<string, unknown> } {
+  const { conversationId, history = [] } = body;
+
+  if (conversationId !== undefined && (typeof conversationId !== 'string' || conversationId.length === 0 || conversationId.length > 128)) {
+    return {
+      error: {
+        error: 'Invalid conversationId',
+        details: 'conversationId must be a non-empty string of at most 128 characters',
+      },
+    };
+  }
+
+  if (!Array.isArray(history)) {
+    return {
+      error: {
+        error: 'Invalid history',
+        details: 'history must be an array of { role, content } turns',
+      },
+    };
+  }
+
+  if (history.length > MAX_HISTORY_TURNS) {
+    return {
+      error: {
+        error: 'History too long',
+        details: `A conversation may include at most ${MAX_HISTORY_TURNS} prior turns`,
+        maxTurns: MAX_HISTORY_TURNS,
+      },
+    };
+  }
+
+  const turns: ChatTurn[] = [];
+  for (const turn of history) {
+    if (
+      !turn ||
+      (turn.role !== 'user' && turn.role !== 'assistant') ||
+      typeof turn.content !== 'string' ||
+      turn.content.length > MAX_MESSAGE_LENGTH
+    ) {
+      return {
+        error: {
+          error: 'Invalid history',
+          details: "Each turn needs role 'user' or 'assistant' and content of at most 10,000 characters",
+        },
+      };
+    }
+    turns.push({ role: turn.role, content: turn.content });
+  }
+
+  const historyLength = turns.reduce((sum, turn) => sum + turn.content.length, 0);
+
+  return {
+    conversation: {
+      conversationId: conversationId || uuidv4(),
+      history: turns,
+      turnIndex: turns.filter(turn => turn.role === 'user').length,
+      historyTokens: Math.ceil(historyLength / 4), // ~4 characters per token
+    },
+  };
+}
+
+function conversationFields(conversation: ConversationContext): Pick<
+  TelemetryEvent,
+  'conversationId' | 'turnIndex' | 'historyTurns' | 'historyTokens'
+> {
+  return {
+    conversationId: conversation.conversationId,
+    turnIndex: conversation.turnIndex,
+    historyTurns: conversation.history.length,
+    historyTokens: conversation.historyTokens,
+  };
+}
+
+function writeSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -0,0 +1,430 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ChatOptions, ChatTurn } from '../providers/types.js';
+import { ProviderRegistry } from '../providers/providerRegistry.js';
+import { cacheFields } from '../providers/cachingProvider.js';
+import { routingErrorFields, routingFields } from '../providers/routedProvider.js';
+import { TelemetryPublisher } from '../services/telemetryPublisher.js';
+import { Config } from '../config.js';
+import { classifyError } from '../utils/errorClassifier.js';
+import { tenantFields } from '../middleware/apiKeyAuth.js';
+import { quotaTenant } from '../middleware/quotaGuard.js';
+import { QuotaManager } from '../services/quotaManager.js';
+import { rateLimitSubject } from '../middleware/rateLimiter.js';
+import { RateLimitManager } from '../services/rateLimitManager.js';
+import { applyGuardrails, blockedReason, guardrailFields, recordGuardrailDecision } from '../utils/guardrails.js';
+import { MAX_HISTORY_TURNS, MAX_MESSAGE_LENGTH } from './chat.js';
+import { OutputFilter, outputFilterFields, recordOutputFilter } from '../utils/outputFilter.js';
+
+const ENDPOINT = '/v1/chat/completions';
+
+interface ParsedCompletionRequest {
+  prompt: string;
+  history: ChatTurn[];
+  options: ChatOptions;
+  stream: boolean;
+  includeUsage: boolean;
+}
+
+/**
+ * OpenAI-compatible surface so existing OpenAI SDK clients can be monitored by
+ * pointing their base URL at the gateway. Requests are forwarded to the provider
+ * configured for /v1/chat/completions and emit the same TelemetryEvent as /api/chat.
+ *
+ * Optional headers:
+ * - X-Sentinel-Provider: pick a provider (requires LLM_PROVIDER_OVERRIDE=true)
+ * - X-Sentinel-Conversation-Id: group requests into a conversation in telemetry
+ *
+ * Guardrail decisions are reported in the X-Sentinel-Guardrail-Action and
+ * X-Sentinel-Guardrail-Labels response headers. Responses withheld by the output
+ * filter finish with `finish_reason: 'content_filter'`.
+ */
+export function createOpenAICompatRouter(
+  providers: ProviderRegistry,
+  telemetryPublisher: TelemetryPublisher,
+  quotas: QuotaManager,
+  rateLimits: RateLimitManager,
+  config: Config
+): Router {
+  const router = Router();
+
+  router.get('/v1/models', (req: Request, res: Response) => {
+    const created = Math.floor(Date.now() / 1000);
+    res.json({
+      object: 'list',
+      data: providers.list().map(name => ({
+        id: providers.get(name)!.defaultModel,
+        object: 'model',
+        created,
+        owned_by: name,
+      })),
+    });
+  });
+
+  router.post(ENDPOINT, async (req: Request, res: Response) => {
+    const span = tracer.scope().active();
+    const requestId = uuidv4();
+    const completionId = `chatcmpl-${requestId}`;
+    const created = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    let firstTokenAt: number | undefined;
+    let clientClosed = false;
+
+    span?.setTag('request.id', requestId);
+    span?.setTag('llm.endpoint', ENDPOINT);
+
+    const parsed = parseCompletionRequest(req.body, config.proxy.forwardModel);
+    if ('error' in parsed) {
+      return sendOpenAIError(res, 400, parsed.error, 'invalid_request_error', parsed.code);
+    }
+    const { stream, includeUsage } = parsed;
+    const options: ChatOptions = { ...parsed.options, cacheScope: res.locals.tenantId };
+
+    const selection = providers.resolve(ENDPOINT, req.header('x-sentinel-provider'));
+    if ('error' in selection) {
+      return sendOpenAIError(res, selection.status, selection.error, 'invalid_request_error');
+    }
+    const provider = selection.provider;
+    const requestedModel = options.model || provider.defaultModel;
+    const conversationId = req.header('x-sentinel-conversation-id');
+
+    span?.setTag('llm.provider', provider.name);
+    span?.setTag('llm.model', requestedModel);
+    span?.setTag('llm.streaming', stream);
+
+    const { prompt, history, decision: guardrail } = applyGuardrails(parsed.prompt, parsed.history, config.guardrails);
+    recordGuardrailDecision(guardrail, ENDPOINT);
+    if (guardrail.labels.length > 0) {
+      res.setHeader('X-Sentinel-Guardrail-Action', guardrail.action);
+      res.setHeader('X-Sentinel-Guardrail-Labels', guardrail.labels.join(','));
+    }
+
+    const historyLength = history.reduce((sum, turn) => sum + turn.content.length, 0);
+    const baseEvent = {
+      requestId,
+      endpoint: ENDPOINT,
+      method: 'POST',
+      prompt,
+      promptLength: prompt.length,
+      provider: provider.name,
+      ...(conversationId && { conversationId }),
+      turnIndex: history.filter(turn => turn.role === 'user').length,
+      historyTurns: history.length,
+      historyTokens: Math.ceil(historyLength / 4), // ~4 characters per token
+      streaming: stream,
+      ...guardrailFields(guardrail),
+      ...tenantFields(res),
+      environment: config.environment,
+      service: 'gateway',
+    };
+
+    if (guardrail.action === 'block') {
+      const reason = blockedReason(guardrail);
+      sendOpenAIError(res, 400, reason, 'invalid_request_error', 'guardrail_blocked');
+
+      const telemetryEvent: TelemetryEvent = {
+        ...baseEvent,
+        timestamp: new Date().toISOString(),
+        response: '',
+        responseLength: 0,
+        modelName: requestedModel,
+        modelVersion: 'unknown',
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensTotal: 0,
+        latencyMs: Date.now() - startTime,
+        status: 'blocked',
+        errorMessage: reason,
+      };
+
+      await telemetryPublisher.publish(telemetryEvent);
+      return;
+    }
+
+    if (stream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          clientClosed = true;
+        }
+      });
+
+      writeChunk(res, {
+        id: completionId,
+        object: 'chat.completion.chunk',
+        created,
+        model: requestedModel,
+        choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }],
+      });
+    }
+
+    const outputFilter = new OutputFilter(config.outputFilter);
+    const sendDelta = (content: string) => {
+      if (content && !clientClosed) {
+        writeChunk(res, {
+          id: completionId,
+          object: 'chat.completion.chunk',
+          created,
+          model: requestedModel,
+          choices: [{ index: 0, delta: { content }, finish_reason: null }],
+        });
+      }
+    };
+
+    try {
+      const response = stream
+        ? await provider.chatCompletionStream(prompt, (text) => {
+          if (firstTokenAt === undefined) {
+            firstTokenAt = Date.now();
+          }
+          sendDelta(outputFilter.push(text));
+        }, history, options)
+        : await provider.chatCompletion(prompt, history, options);
+      const latencyMs = Date.now() - startTime;
+
+      if (stream) {
+        sendDelta(outputFilter.flush());
+      } else {
+        outputFilter.push(response.text);
+        outputFilter.flush();
+      }
+      const output = outputFilter.result();
+      const finishReason = output.blocked ? 'content_filter' : 'stop';
+
+      const usage = {
+        prompt_tokens: response.tokensIn,
+        completion_tokens: response.tokensOut,
+        total_tokens: response.tokensIn + response.tokensOut,
+      };
+
+      span?.setTag('llm.model', response.modelName);
+      span?.setTag('llm.tokens.in', response.tokensIn);
+      span?.setTag('llm.tokens.out', response.tokensOut);
+      span?.setTag('llm.tokens.total', usage.total_tokens);
+      span?.setTag('llm.latency_ms', latencyMs);
+      span?.setTag('llm.response.length', output.text.length);
+      recordOutputFilter(output, ENDPOINT);
+
+      if (stream) {
+        if (!clientClosed) {
+          writeChunk(res, {
+            id: completionId,
+            object: 'chat.completion.chunk',
+            created,
+            model: response.modelName,
+            choices: [{ index: 0, delta: {}, finish_reason: finishReason }],
+          });
+          if (includeUsage) {
+            writeChunk(res, {
+              id: completionId,
+              object: 'chat.completion.chunk',
+              created,
+              model: response.modelName,
+              choices: [],
+              usage,
+            });
+          }
+          res.write('data: [DONE]\n\n');
+          res.end();
+        }
+      } else {
+        res.json({
+          id: completionId,
+          object: 'chat.completion',
+          created,
+          model: response.modelName,
+          system_fingerprint: response.modelVersion,
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content: output.text },
+            finish_reason: finishReason,
+          }],
+          usage,
+        });
+      }
+
+      const telemetryEvent: TelemetryEvent = {
+        ...baseEvent,
+        timestamp: new Date().toISOString(),
+        response: output.text,
+        responseLength: output.text.length,
+        modelName: response.modelName,
+        modelVersion: response.modelVersion,
+        tokensIn: response.tokensIn,
+        tokensOut: response.tokensOut,
+        tokensTotal: usage.total_tokens,
+        latencyMs,
+        ...cacheFields(response),
+        ...routingFields(response.routing),
+        ...(stream && { timeToFirstTokenMs: (firstTokenAt ?? Date.now()) - startTime }),
+        ...outputFilterFields(output, config.outputFilter),
+        status: 'success',
+      };
+
+      // The response is already sent, so failures from here on are only logged
+      try {
+        await telemetryPublisher.publish(telemetryEvent);
+        await quotas.record(quotaTenant(res), response.modelName, response.tokensIn, response.tokensOut);
+        await rateLimits.recordTokens(rateLimitSubject(res), response.tokensIn + response.tokensOut);
+      } catch (error) {
+        console.error('OpenAI proxy bookkeeping error:', error);
+      }
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const { httpStatus, errorType, errorMessage } = classifyError(error, provider.name);
+
+      if (errorType === 'rate_limit') {
+        span?.setTag('error.rate_limit', true);
+      }
+      span?.setTag('error', true);
+      span?.setTag('error.message', errorMessage);
+      span?.setTag('error.type', error instanceof Error ? error.constructor.name : 'Unknown');
+      span?.setTag('error.http_status', httpStatus);
+
+      console.error('OpenAI proxy error:', error);
+
+      const errorBody = {
+        message: errorMessage,
+        type: errorType === 'rate_limit' ? 'rate_limit_error' : 'api_error',
+        param: null,
+        code: errorType,
+      };
+
+      if (stream) {
+        // Headers are already sent - report the failure in-band like OpenAI does
+        if (!clientClosed && !res.writableEnded) {
+          writeChunk(res, { error: errorBody });
+          res.end();
+        }
+      } else if (!res.headersSent) {
+        res.status(httpStatus).json({ error: errorBody });
+      }
+
+      const telemetryEvent: TelemetryEvent = {
+        ...baseEvent,
+        timestamp: new Date().toISOString(),
+        response: '',
+        responseLength: 0,
+        modelName: requestedModel,
+        modelVersion: 'unknown',
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensTotal: 0,
+        latencyMs,
+        ...routingErrorFields(error),
+        status: 'error',
+        errorMessage,
+      };
+
+      await telemetryPublisher.publish(telemetryEvent);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Translate an OpenAI chat completions body into prompt, prior turns and options.
+ * System (and developer) messages become the system prompt; the final message
+ * must come from the user. Size limits are those of /api/chat.
+ */
+function parseCompletionRequest(
+  body: any,
+  forwardModel: boolean
+): ParsedCompletionRequest | { error: string; code?: string } {
+  if (!body || !Array.isArray(body.messages) || body.messages.length === 0) {
+    return { error: "'messages' must be a non-empty array" };
+  }
+
+  const systemParts: string[] = [];
+  const turns: ChatTurn[] = [];
+
+  for (const message of body.messages) {
+    const text = messageText(message?.content);
+    if (text === null) {
+      return { error: 'Message content must be a string or an array of text parts' };
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return { error: `Each message may be at most ${MAX_MESSAGE_LENGTH} characters`, code: 'context_length_exceeded' };
+    }
+
+    if (message.role === 'system' || message.role === 'developer') {
+      systemParts.push(text);
+    } else if (message.role === 'user' || message.role === 'assistant') {
+      turns.push({ role: message.role, content: text });
+    } else {
+      return { error: `Unsupported message role '${message?.role}'` };
+    }
+  }
+
+  const last = turns.pop();
+  if (!last || last.role !== 'user' || last.content.trim().length === 0) {
+    return { error: 'The last message must be a non-empty user message' };
+  }
+  if (turns.length > MAX_HISTORY_TURNS) {
+    return { error: `A conversation may include at most ${MAX_HISTORY_TURNS} prior user and assistant messages`, code: 'context_length_exceeded' };
+  }
+  const systemPrompt = systemParts.join('\n\n');
+  if (systemPrompt.length > MAX_MESSAGE_LENGTH) {
+    return { error: `System messages may be at most ${MAX_MESSAGE_LENGTH} characters combined`, code: 'context_length_exceeded' };
+  }
+
+  return {
+    prompt: last.content,
+    history: turns,
+    options: {
+      ...(forwardModel && typeof body.model === 'string' && { model: body.model }),
+      ...(systemParts.length > 0 && { systemPrompt }),
+    },
+    stream: body.stream === true,
+    includeUsage: body.stream_options?.include_usage === true,
+  };
+}
+
+/**
+ * Flatten OpenAI message content (string or content parts) to plain text.
+ * Returns null for content we cannot forward.
+ */
+function messageText(content: unknown): string | null {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (content === null || content === undefined) {
+    return '';
+  }
+  if (Array.isArray(content)) {
+    const parts: string[] = [];
+    for (const part of content) {
+      if (part?.type !== 'text' || typeof part.text !== 'string') {
+        return null;
+      }
+      parts.push(part.text);
+    }
+    return parts.join('');
+  }
+  return null;
+}
+
+function writeChunk(res: Response, data: unknown): void {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function sendOpenAIError(res: Response, status: number, message: string, type: string, code: string | null = null): Response {
+  return res.status(status).json({
+    error: {
+      message,
+      type,
+      param: null,
+      code,
+    },
+  });
+}
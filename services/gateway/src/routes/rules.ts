@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { AnalyzerClient } from '../services/analyzerClient.js';
+import { analyzerQuery, forward } from './analytics.js';
+
+/**
+ * Detection rules, stored and evaluated by the analyzer:
+ *
+ *   GET    /api/rules            Rules and the fields their expressions can use
+ *   POST   /api/rules            Create a rule
+ *   POST   /api/rules/validate   Check a rule without saving it
+ *   POST   /api/rules/backtest   Evaluate a rule against the last `days` of stored events
+ *   GET    /api/rules/:id        One rule
+ *   PUT    /api/rules/:id        Replace a rule
+ *   DELETE /api/rules/:id        Delete a rule
+ *
+ * Rules created by an authenticated caller only match, and are only visible
+ * to, their own tenant.
+ */
+export function createRulesRouter(analyzer: AnalyzerClient): Router {
+  const router = Router();
+
+  router.get('/api/rules', async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.get('/api/rules', analyzerQuery(req, res, [])));
+  });
+
+  router.post(['/api/rules', '/api/rules/validate'], async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.request('POST', req.path, analyzerQuery(req, res, []), req.body));
+  });
+
+  router.post('/api/rules/backtest', async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.request('POST', req.path, analyzerQuery(req, res, ['days', 'ruleId']), req.body));
+  });
+
+  router.get('/api/rules/:id', async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.get(rulePath(req), analyzerQuery(req, res, [])));
+  });
+
+  router.put('/api/rules/:id', async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.request('PUT', rulePath(req), analyzerQuery(req, res, []), req.body));
+  });
+
+  router.delete('/api/rules/:id', async (req: Request, res: Response) => {
+    await forward(res, () => analyzer.request('DELETE', rulePath(req), analyzerQuery(req, res, [])));
+  });
+
+  return router;
+}
+
+function rulePath(req: Request): string {
+  return `/api/rules/${encodeURIComponent(req.params.id)}`;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QuotaLimits, QuotaManager } from '../quotaManager.js';
+import { InMemoryUsageStore, UsageStore } from '../usageStore.js';
+
+const NOW = new Date('2024-05-31T10:00:00.000Z');
+
+function makeManager(defaults: QuotaLimits, tenantsFile = '', store: UsageStore = new InMemoryUsageStore()): QuotaManager {
+  return new QuotaManager({ defaults, tenantsFile, store: 'memory', storePath: '' }, store);
+}
+
+describe('QuotaManager', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sentinel-quotas-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('is disabled without limits and records nothing then', async () => {
+    const store = new InMemoryUsageStore();
+    const manager = makeManager({}, '', store);
+
+    await manager.record('acme', 'gemini-1.5-pro', 100, 100, NOW);
+
+    expect(manager.enabled).toBe(false);
+    expect(await store.get('acme', 'day:2024-05-31')).toEqual({ tokens: 0, costUsd: 0 });
+    expect(await manager.check('acme', NOW)).toEqual({ allowed: true, remaining: {} });
+  });
+
+  it('reports what is left of each configured budget', async () => {
+    const manager = makeManager({ dailyTokens: 1000, monthlyCostUsd: 10 });
+
+    await manager.record('acme', 'gemini-1.5-pro', 200, 100, NOW);
+
+    expect(await manager.check('acme', NOW)).toEqual({
+      allowed: true,
+      remaining: { dailyTokens: 700, monthlyCostUsd: 10 - (200 * 1.25 + 100 * 5) / 1000000 },
+    });
+    expect((await manager.check('globex', NOW)).remaining).toEqual({ dailyTokens: 1000, monthlyCostUsd: 10 });
+  });
+
+  it('rejects a tenant once a daily budget is spent, until the next UTC day', async () => {
+    const manager = makeManager({ dailyTokens: 1000, monthlyTokens: 5000 });
+
+    await manager.record('acme', 'gemini-1.5-pro', 600, 400, NOW);
+
+    expect(await manager.check('acme', NOW)).toEqual({
+      allowed: false,
+      exceeded: 'dailyTokens',
+      resetAt: new Date('2024-06-01T00:00:00.000Z'),
+      remaining: { dailyTokens: 0, monthlyTokens: 4000 },
+    });
+    expect(await manager.check('acme', new Date('2024-05-31T23:59:59.000Z'))).toMatchObject({ allowed: false });
+    expect(await manager.check('acme', new Date('2024-06-01T00:00:00.000Z'))).toMatchObject({ allowed: true });
+  });
+
+  it('resets monthly budgets at the start of the next UTC month', async () => {
+    const manager = makeManager({ monthlyCostUsd: 1 });
+
+    await manager.record('acme', 'gemini-1.5-pro', 1000000, 0, new Date('2024-05-02T10:00:00.000Z'));
+
+    expect(await manager.check('acme', NOW)).toMatchObject({
+      allowed: false,
+      exceeded: 'monthlyCostUsd',
+      resetAt: new Date('2024-06-01T00:00:00.000Z'),
+    });
+  });
+
+  it('applies per-tenant overrides from the tenants file', async () => {
+    const file = join(directory, 'tenants.json');
+    await writeFile(file, JSON.stringify({ acme: { dailyTokens: 5000 }, globex: { monthlyTokens: 100 } }));
+
+    const manager = makeManager({ dailyTokens: 1000 }, file);
+
+    expect(manager.limitsFor('acme')).toEqual({ dailyTokens: 5000 });
+    expect(manager.limitsFor('globex')).toEqual({ dailyTokens: 1000, monthlyTokens: 100 });
+    expect(manager.limitsFor('initech')).toEqual({ dailyTokens: 1000 });
+    expect(makeManager({}, file).enabled).toBe(true);
+  });
+
+  it('fails open when the usage store is broken', async () => {
+    const store: UsageStore = {
+      get: vi.fn().mockRejectedValue(new Error('disk full')),
+      add: vi.fn().mockRejectedValue(new Error('disk full')),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    const manager = makeManager({ dailyTokens: 1 }, '', store);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await manager.check('acme', NOW)).toEqual({ allowed: true, remaining: {} });
+    await expect(manager.record('acme', 'gemini-1.5-pro', 10, 10, NOW)).resolves.toBeUndefined();
+  });
+});
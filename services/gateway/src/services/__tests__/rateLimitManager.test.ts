@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimitManager, RateLimits } from '../rateLimitManager.js';
+import { MemoryRateLimitStore, RateLimitStore } from '../rateLimitStore.js';
+
+const NOW = new Date('2024-05-01T10:00:30.000Z');
+
+function makeManager(limits: Partial<Record<'key' | 'ip' | 'model', RateLimits>>, store: RateLimitStore = new MemoryRateLimitStore()): RateLimitManager {
+  return new RateLimitManager({
+    limits: { key: {}, ip: {}, model: {}, ...limits },
+    store: 'memory',
+    redisUrl: '',
+  }, store);
+}
+
+describe('RateLimitManager', () => {
+  it('is disabled without limits', () => {
+    expect(makeManager({}).enabled).toBe(false);
+    expect(makeManager({ ip: { tokensPerMinute: 100 } }).enabled).toBe(true);
+  });
+
+  it('counts requests per window and rejects the one over the limit', async () => {
+    const manager = makeManager({ key: { requestsPerMinute: 2 } });
+
+    const first = await manager.check({ key: 'key-1' }, NOW);
+    const second = await manager.check({ key: 'key-1' }, NOW);
+    const third = await manager.check({ key: 'key-1' }, NOW);
+
+    expect(first).toEqual({ allowed: true, resetAt: new Date('2024-05-01T10:01:00.000Z'), requests: { limit: 2, remaining: 1 } });
+    expect(second).toMatchObject({ allowed: true, requests: { remaining: 0 } });
+    expect(third).toMatchObject({ allowed: false, exceeded: { dimension: 'key', bucket: 'requests', limit: 2 }, requests: { remaining: 0 } });
+
+    // Other keys and the next window start from zero
+    expect(await manager.check({ key: 'key-2' }, NOW)).toMatchObject({ allowed: true });
+    expect(await manager.check({ key: 'key-1' }, new Date('2024-05-01T10:01:00.000Z'))).toMatchObject({ allowed: true, requests: { remaining: 1 } });
+    await manager.close();
+  });
+
+  it('reports the tightest request bucket and skips dimensions without a value', async () => {
+    const manager = makeManager({ key: { requestsPerMinute: 100 }, ip: { requestsPerMinute: 3 }, model: { requestsPerMinute: 1 } });
+
+    const status = await manager.check({ key: 'key-1', ip: '10.0.0.1' }, NOW);
+
+    expect(status).toMatchObject({ allowed: true, requests: { limit: 3, remaining: 2 } });
+    await manager.close();
+  });
+
+  it('rejects requests once recorded tokens reach the limit', async () => {
+    const manager = makeManager({ model: { tokensPerMinute: 1000 } });
+    const subject = { model: 'gemini-1.5-pro' };
+
+    await manager.recordTokens(subject, 600, NOW);
+    expect(await manager.check(subject, NOW)).toMatchObject({ allowed: true });
+
+    await manager.recordTokens(subject, 400, NOW);
+    expect(await manager.check(subject, NOW)).toMatchObject({
+      allowed: false,
+      exceeded: { dimension: 'model', bucket: 'tokens', limit: 1000 },
+    });
+    expect(await manager.check(subject, new Date('2024-05-01T10:01:00.000Z'))).toMatchObject({ allowed: true });
+    await manager.close();
+  });
+
+  it('fails open when the store is unreachable', async () => {
+    const store: RateLimitStore = {
+      get: vi.fn().mockRejectedValue(new Error('connection refused')),
+      increment: vi.fn().mockRejectedValue(new Error('connection refused')),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    const manager = makeManager({ key: { requestsPerMinute: 1, tokensPerMinute: 10 } }, store);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await manager.check({ key: 'key-1' }, NOW)).toEqual({ allowed: true, resetAt: new Date('2024-05-01T10:01:00.000Z') });
+    await expect(manager.recordTokens({ key: 'key-1' }, 50, NOW)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { connect } from 'net';
+import { MemoryRateLimitStore, RedisRateLimitStore } from '../rateLimitStore.js';
+
+const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+
+// Whether a Redis server accepts connections, so its tests can be skipped without one
+async function redisAvailable(url: string): Promise<boolean> {
+  const { hostname, port } = new URL(url);
+  return new Promise(resolve => {
+    const socket = connect({ host: hostname, port: Number(port) || 6379, timeout: 500 });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('adds to counters until they expire', async () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T10:00:00.000Z') });
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.get('a')).toBe(0);
+    expect(await store.increment('a', 1, 60000)).toBe(1);
+    expect(await store.increment('a', 5, 60000)).toBe(6);
+    expect(await store.get('b')).toBe(0);
+
+    vi.advanceTimersByTime(60000);
+    expect(await store.get('a')).toBe(0);
+    expect(await store.increment('a', 2, 60000)).toBe(2);
+    await store.close();
+  });
+
+  it('keeps the expiry of the first increment', async () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T10:00:00.000Z') });
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('a', 1, 60000);
+    vi.advanceTimersByTime(30000);
+    await store.increment('a', 1, 60000);
+    vi.advanceTimersByTime(30000);
+
+    expect(await store.get('a')).toBe(0);
+    await store.close();
+  });
+});
+
+describe.skipIf(!(await redisAvailable(REDIS_URL)))('RedisRateLimitStore', () => {
+  it('adds to shared counters that expire', async () => {
+    const store = new RedisRateLimitStore(REDIS_URL);
+    const key = `ratelimit:test:${Date.now()}:${Math.random()}`;
+    try {
+      expect(await store.get(key)).toBe(0);
+      expect(await store.increment(key, 1, 200)).toBe(1);
+      expect(await store.increment(key, 4, 200)).toBe(5);
+      expect(await store.get(key)).toBe(5);
+
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(await store.get(key)).toBe(0);
+    } finally {
+      await store.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ResponseCache } from '../responseCache.js';
+import { ChatResponse } from '../../providers/types.js';
+
+function makeConfig(overrides: { similarityThreshold?: number; maxEntries?: number; scope?: 'tenant' | 'global' } = {}) {
+  return { enabled: true, ttlMs: 60000, similarityThreshold: 1, maxEntries: 100, scope: 'tenant' as const, embeddingModel: 'test', ...overrides };
+}
+
+function makeResponse(text: string, modelName = 'gemini-1.5-pro'): ChatResponse {
+  return { text, tokensIn: 10, tokensOut: 5, modelName, modelVersion: '1' };
+}
+
+// Embeddings looked up from a table, so tests choose how similar prompts are
+function makeEmbeddings(vectors: Record<string, number[]>) {
+  return { getEmbedding: vi.fn(async (text: string) => vectors[text]) };
+}
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves exact matches of model, system prompt, history and prompt', async () => {
+    const cache = new ResponseCache(makeConfig(), makeEmbeddings({}) as any);
+    const request = { model: 'gemini-1.5-pro', prompt: 'Hi', history: [{ role: 'user' as const, content: 'Earlier' }], systemPrompt: 'Be brief' };
+
+    const { key, match } = await cache.lookup(request);
+    cache.store(key, makeResponse('Hello'));
+
+    expect(match).toBeUndefined();
+    expect((await cache.lookup(request)).match).toEqual({ response: makeResponse('Hello'), similarity: 1 });
+    expect((await cache.lookup({ ...request, model: 'gemini-1.5-flash' })).match).toBeUndefined();
+    expect((await cache.lookup({ ...request, systemPrompt: 'Be verbose' })).match).toBeUndefined();
+    expect((await cache.lookup({ ...request, history: [] })).match).toBeUndefined();
+  });
+
+  it('only embeds prompts when near matches are enabled', async () => {
+    const embeddings = makeEmbeddings({ Hi: [1, 0] });
+    const cache = new ResponseCache(makeConfig(), embeddings as any);
+
+    await cache.lookup({ model: 'gemini-1.5-pro', prompt: 'Hi', history: [] });
+
+    expect(embeddings.getEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('serves the most similar prompt above the threshold within the same context', async () => {
+    const embeddings = makeEmbeddings({
+      'What is the capital of France?': [1, 0, 0],
+      "What's France's capital?": [0.99, 0.1, 0],
+      'Capital city of France?': [0.9, 0.3, 0],
+      'Tell me a joke': [0, 0, 1],
+    });
+    const cache = new ResponseCache(makeConfig({ similarityThreshold: 0.95 }), embeddings as any);
+    for (const prompt of ['What is the capital of France?', 'Capital city of France?']) {
+      const { key } = await cache.lookup({ model: 'gemini-1.5-pro', prompt, history: [] });
+      cache.store(key, makeResponse(`Answer to ${prompt}`));
+    }
+
+    const near = await cache.lookup({ model: 'gemini-1.5-pro', prompt: "What's France's capital?", history: [] });
+    const unrelated = await cache.lookup({ model: 'gemini-1.5-pro', prompt: 'Tell me a joke', history: [] });
+    const otherModel = await cache.lookup({ model: 'gemini-1.5-flash', prompt: "What's France's capital?", history: [] });
+
+    expect(near.match?.response.text).toBe('Answer to What is the capital of France?');
+    expect(near.match?.similarity).toBeGreaterThan(0.99);
+    expect(unrelated.match).toBeUndefined();
+    expect(otherModel.match).toBeUndefined();
+  });
+
+  it('keeps tenants apart unless the scope is global', async () => {
+    for (const [scope, shared] of [['tenant', false], ['global', true]] as const) {
+      const cache = new ResponseCache(makeConfig({ scope }), makeEmbeddings({}) as any);
+      const { key } = await cache.lookup({ model: 'gemini-1.5-pro', prompt: 'Hi', history: [], scope: 'acme' });
+      cache.store(key, makeResponse('Hello'));
+
+      const other = await cache.lookup({ model: 'gemini-1.5-pro', prompt: 'Hi', history: [], scope: 'globex' });
+
+      expect(other.match !== undefined, scope).toBe(shared);
+    }
+  });
+
+  it('expires entries after the TTL and evicts the oldest beyond maxEntries', async () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T10:00:00.000Z') });
+    const cache = new ResponseCache(makeConfig({ maxEntries: 2 }), makeEmbeddings({}) as any);
+    const request = (prompt: string) => ({ model: 'gemini-1.5-pro', prompt, history: [] });
+    for (const prompt of ['a', 'b', 'c']) {
+      cache.store((await cache.lookup(request(prompt))).key, makeResponse(prompt));
+    }
+
+    expect(cache.size).toBe(2);
+    expect((await cache.lookup(request('a'))).match).toBeUndefined();
+    expect((await cache.lookup(request('c'))).match).toBeDefined();
+
+    vi.advanceTimersByTime(60000);
+    expect((await cache.lookup(request('c'))).match).toBeUndefined();
+  });
+
+  it("doesn't cache empty completions", async () => {
+    const cache = new ResponseCache(makeConfig(), makeEmbeddings({}) as any);
+
+    cache.store((await cache.lookup({ model: 'gemini-1.5-pro', prompt: 'Hi', history: [] })).key, makeResponse(''));
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('invalidates by requested or serving model, optionally for one tenant', async () => {
+    const cache = new ResponseCache(makeConfig(), makeEmbeddings({}) as any);
+    const fill = async (model: string, servedBy: string, scope: string) =>
+      cache.store((await cache.lookup({ model, prompt: `${model} ${scope}`, history: [], scope })).key, makeResponse('Hello', servedBy));
+    await fill('gemini-1.5-pro', 'gemini-1.5-pro', 'acme');
+    await fill('fast', 'gemini-1.5-flash', 'acme');
+    await fill('gemini-1.5-pro', 'gemini-1.5-pro', 'globex');
+
+    expect(cache.invalidate('gemini-1.5-flash', 'globex')).toBe(0);
+    expect(cache.invalidate('gemini-1.5-flash', 'acme')).toBe(1);
+    expect(cache.sizeFor('acme')).toBe(1);
+    expect(cache.invalidate('gemini-1.5-pro')).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+});
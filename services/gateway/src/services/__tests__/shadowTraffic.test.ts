@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ShadowTraffic } from '../shadowTraffic.js';
+import { LLMProvider } from '../../providers/types.js';
+
+const PRIMARY: TelemetryEvent = {
+  requestId: 'req-1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  endpoint: '/api/chat',
+  method: 'POST',
+  prompt: 'Write to jane@example.com',
+  promptLength: 25,
+  response: 'Done',
+  responseLength: 4,
+  modelName: 'gemini-1.5-pro',
+  modelVersion: '1',
+  tokensIn: 10,
+  tokensOut: 2,
+  tokensTotal: 12,
+  latencyMs: 100,
+  status: 'success',
+  service: 'gateway',
+  tenantId: 'acme',
+  conversationId: 'conv-1',
+};
+
+function makeConfig(overrides: { samplePercent?: number; maxConcurrent?: number } = {}) {
+  return { enabled: true, model: 'gemini-1.5-flash', provider: 'vertex', samplePercent: 100, maxConcurrent: 10, ...overrides };
+}
+
+function makeProvider(chatCompletion: LLMProvider['chatCompletion']) {
+  return {
+    name: 'vertex',
+    defaultModel: 'gemini-1.5-pro',
+    chatCompletion: vi.fn(chatCompletion),
+    chatCompletionStream: vi.fn(),
+  } satisfies LLMProvider;
+}
+
+describe('ShadowTraffic', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('samples the configured share of requests', () => {
+    const shadow = new ShadowTraffic(makeConfig({ samplePercent: 25 }), makeProvider(vi.fn()), { publish: vi.fn() } as any, { mode: 'off', categories: [] });
+
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.2).mockReturnValueOnce(0.3);
+
+    expect(shadow.sample()).toEqual(expect.any(String));
+    expect(shadow.sample()).toBeUndefined();
+  });
+
+  it('publishes the filtered shadow response linked to the primary', async () => {
+    const provider = makeProvider(async () => ({ text: 'Sent to jane@example.com', tokensIn: 10, tokensOut: 4, modelName: 'gemini-1.5-flash', modelVersion: '2' }));
+    const publisher = { publish: vi.fn().mockResolvedValue(undefined) };
+    const shadow = new ShadowTraffic(makeConfig(), provider, publisher as any, { mode: 'mask', categories: ['email'] });
+    const history = [{ role: 'user' as const, content: 'Earlier' }];
+
+    shadow.mirror('shadow-1', PRIMARY, history);
+    await vi.waitFor(() => expect(publisher.publish).toHaveBeenCalled());
+
+    expect(provider.chatCompletion).toHaveBeenCalledWith(PRIMARY.prompt, history, { model: 'gemini-1.5-flash' });
+    expect(publisher.publish.mock.calls[0][0]).toMatchObject({
+      requestId: 'shadow-1',
+      shadowOf: 'req-1',
+      tenantId: 'acme',
+      conversationId: 'conv-1',
+      response: 'Sent to [REDACTED:EMAIL]',
+      modelName: 'gemini-1.5-flash',
+      tokensTotal: 14,
+      outputFilterAction: 'mask',
+      status: 'success',
+    });
+  });
+
+  it('publishes failures as error events', async () => {
+    const provider = makeProvider(async () => {
+      throw new Error('model unavailable');
+    });
+    const publisher = { publish: vi.fn().mockResolvedValue(undefined) };
+    const shadow = new ShadowTraffic(makeConfig(), provider, publisher as any, { mode: 'off', categories: [] });
+
+    shadow.mirror('shadow-1', PRIMARY, []);
+    await vi.waitFor(() => expect(publisher.publish).toHaveBeenCalled());
+
+    expect(publisher.publish.mock.calls[0][0]).toMatchObject({
+      requestId: 'shadow-1',
+      shadowOf: 'req-1',
+      modelName: 'gemini-1.5-flash',
+      tokensTotal: 0,
+      status: 'error',
+      errorMessage: 'model unavailable',
+    });
+  });
+
+  it('skips sampled requests while maxConcurrent mirrors are in flight', async () => {
+    let finish: () => void = () => undefined;
+    const provider = makeProvider(() => new Promise((_, reject) => {
+      finish = () => reject(new Error('cancelled'));
+    }));
+    const publisher = { publish: vi.fn().mockResolvedValue(undefined) };
+    const shadow = new ShadowTraffic(makeConfig({ maxConcurrent: 1 }), provider, publisher as any, { mode: 'off', categories: [] });
+
+    shadow.mirror(shadow.sample()!, PRIMARY, []);
+    expect(shadow.sample()).toBeUndefined();
+
+    finish();
+    await vi.waitFor(() => expect(publisher.publish).toHaveBeenCalled());
+    await vi.waitFor(() => expect(shadow.sample()).toEqual(expect.any(String)));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { ScrubMode, TelemetryScrubber } from '../telemetryScrubber.js';
+
+const EVENT: TelemetryEvent = {
+  requestId: 'req-1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  endpoint: '/api/chat',
+  method: 'POST',
+  prompt: 'Email jane@example.com about Project Falcon',
+  promptLength: 43,
+  response: 'Done, jane@example.com knows about project falcon.',
+  responseLength: 51,
+  modelName: 'gemini-1.5-pro',
+  modelVersion: '1.0',
+  tokensIn: 10,
+  tokensOut: 20,
+  tokensTotal: 30,
+  latencyMs: 100,
+  status: 'success',
+  service: 'gateway',
+};
+
+function makeScrubber(mode: ScrubMode, overrides: { dictionaryTerms?: string[]; dictionaryFile?: string; allowEmbeddings?: boolean } = {}) {
+  return new TelemetryScrubber({
+    mode,
+    dictionaryTerms: overrides.dictionaryTerms ?? [],
+    dictionaryFile: overrides.dictionaryFile ?? '',
+    hashSalt: 'salt',
+    allowEmbeddings: overrides.allowEmbeddings ?? false,
+  });
+}
+
+describe('TelemetryScrubber', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sentinel-scrub-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('leaves events alone in none mode', () => {
+    expect(makeScrubber('none').scrub(EVENT)).toBe(EVENT);
+  });
+
+  it('masks PII and dictionary terms, whole words and any case', () => {
+    const scrubbed = makeScrubber('mask', { dictionaryTerms: ['Project Falcon', ' '] }).scrub(EVENT);
+
+    expect(scrubbed.prompt).toBe('Email [REDACTED:EMAIL] about [REDACTED:DICTIONARY]');
+    expect(scrubbed.response).toBe('Done, [REDACTED:EMAIL] knows about [REDACTED:DICTIONARY].');
+    expect(scrubbed.scrubMode).toBe('mask');
+    expect(scrubbed.embeddingInput).toBeUndefined();
+    expect(EVENT.prompt).toContain('jane@example.com');
+  });
+
+  it('reads dictionary terms from a file, skipping comments and blank lines', async () => {
+    const file = join(directory, 'terms.txt');
+    await writeFile(file, '# Code names\nfalcon\n\n  c++ \n');
+
+    const scrubbed = makeScrubber('mask', { dictionaryFile: file }).scrub({ ...EVENT, prompt: 'Falcon and falconry in c++' });
+
+    expect(scrubbed.prompt).toBe('[REDACTED:DICTIONARY] and falconry in [REDACTED:DICTIONARY]');
+  });
+
+  it('hashes texts with the salt so identical texts still group', () => {
+    const scrubber = makeScrubber('hash');
+
+    const scrubbed = scrubber.scrub(EVENT);
+
+    expect(scrubbed.prompt).toBe(`sha256:${createHash('sha256').update(`salt${EVENT.prompt}`).digest('hex')}`);
+    expect(scrubbed.response).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(scrubber.scrub({ ...EVENT }).prompt).toBe(scrubbed.prompt);
+    expect(scrubber.scrub({ ...EVENT, response: '' }).response).toBe('');
+    expect(scrubbed.scrubMode).toBe('hash');
+  });
+
+  it('drops texts, sending a masked response for embeddings only when allowed', () => {
+    expect(makeScrubber('drop-text').scrub(EVENT)).toMatchObject({ prompt: '', response: '', scrubMode: 'drop-text' });
+    expect(makeScrubber('drop-text').scrub(EVENT).embeddingInput).toBeUndefined();
+
+    const scrubbed = makeScrubber('drop-text', { allowEmbeddings: true }).scrub(EVENT);
+
+    expect(scrubbed.embeddingInput).toBe('Done, [REDACTED:EMAIL] knows about project falcon.');
+    expect(makeScrubber('hash', { allowEmbeddings: true }).scrub({ ...EVENT, response: '' }).embeddingInput).toBeUndefined();
+  });
+});
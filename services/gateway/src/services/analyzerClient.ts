@@ -0,0 +1,77 @@
+import { GoogleAuth, IdTokenClient } from 'google-auth-library';
+import { Config } from '../config.js';
+
+export interface AnalyzerResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Calls the analyzer's query and rules APIs (its /api routes). On Cloud Run the
+ * analyzer only accepts callers with an ID token for its URL, which the
+ * gateway's service account is allowed to request.
+ */
+export class AnalyzerClient {
+  private url: string;
+  private timeoutMs: number;
+  private idTokenClient: Promise<IdTokenClient> | null = null;
+
+  constructor(config: Config['analyzer']) {
+    this.url = config.url;
+    this.timeoutMs = config.timeoutMs;
+
+    if (config.idToken) {
+      this.idTokenClient = new GoogleAuth().getIdTokenClient(config.url);
+    }
+  }
+
+  /**
+   * GET a query API path, e.g. `/api/summary`. Error statuses from the
+   * analyzer are returned as is; network errors and timeouts throw.
+   */
+  async get(path: string, query: URLSearchParams = new URLSearchParams()): Promise<AnalyzerResponse> {
+    return this.request('GET', path, query);
+  }
+
+  /**
+   * Send a JSON request, e.g. to create a rule with POST `/api/rules`.
+   * Errors are handled as for get().
+   */
+  async request(method: string, path: string, query: URLSearchParams = new URLSearchParams(), body?: unknown): Promise<AnalyzerResponse> {
+    const response = await fetch(this.urlFor(path, query), {
+      method,
+      headers: {
+        ...(await this.headers()),
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  /**
+   * Open a long-lived response, e.g. the `/api/stream` event stream, without
+   * a timeout. Abort the signal to close it.
+   */
+  async open(path: string, query: URLSearchParams, signal: AbortSignal): Promise<Response> {
+    return fetch(this.urlFor(path, query), {
+      headers: { ...(await this.headers()), Accept: 'text/event-stream' },
+      signal,
+    });
+  }
+
+  private urlFor(path: string, query: URLSearchParams): string {
+    const search = query.toString();
+    return `${this.url}${path}${search ? `?${search}` : ''}`;
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    if (!this.idTokenClient) {
+      return {};
+    }
+    const client = await this.idTokenClient;
+    const requestHeaders = await client.getRequestHeaders();
+    return { Authorization: requestHeaders.Authorization };
+  }
+}
@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { Config } from '../config.js';
+
+export interface ApiKeyRecord {
+  keyHash: string; // SHA-256 hex digest of the raw key
+  tenantId: string;
+  appId?: string;
+}
+
+/**
+ * Lookup table of hashed API keys. Raw keys are never stored: incoming keys
+ * are hashed and matched against hashes from API_KEYS and API_KEYS_FILE.
+ */
+export class ApiKeyStore {
+  private keys: Map<string, ApiKeyRecord> = new Map();
+
+  constructor(config: Config['auth']) {
+    for (const record of [...config.keys, ...loadKeysFile(config.keysFile)]) {
+      this.keys.set(record.keyHash.toLowerCase(), record);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  lookup(rawKey: string): ApiKeyRecord | undefined {
+    return this.keys.get(hashApiKey(rawKey));
+  }
+}
+
+export function hashApiKey(rawKey: string): string {
+  return createHash('sha256').update(rawKey).digest('hex');
+}
+
+/**
+ * Read key records from a JSON file:
+ * [{ "keyHash": "<sha256 hex>", "tenantId": "acme", "appId": "support-bot" }]
+ */
+function loadKeysFile(path: string): ApiKeyRecord[] {
+  if (!path) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected a JSON array of key records');
+    }
+    return parsed.filter((record: any) => {
+      const valid = typeof record?.keyHash === 'string' && typeof record?.tenantId === 'string';
+      if (!valid) {
+        console.warn('[Auth] Skipping invalid API key record (needs keyHash and tenantId)');
+      }
+      return valid;
+    });
+  } catch (error) {
+    console.error(`[Auth] Failed to load API keys from ${path}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,100 @@
+import { AnalyzerClient } from './analyzerClient.js';
+
+export type BlockTarget = 'tenant' | 'app' | 'conversation';
+
+/**
+ * A block set by a detection rule's block action in the analyzer
+ */
+export interface BlockEntry {
+  target: BlockTarget;
+  value: string;
+  ruleId: string;
+  ruleName: string;
+  requestId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface BlockSubject {
+  tenantId?: string;
+  appId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Local copy of the analyzer's block list, refreshed every pollIntervalMs.
+ * When the analyzer can't be reached the last copy is kept, so blocks
+ * already known still apply (until they expire) and no new ones are added.
+ */
+export class BlockList {
+  private analyzer: AnalyzerClient;
+  private pollIntervalMs: number;
+  private entries: Map<string, BlockEntry> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private failing = false; // Log a failed refresh once, not on every poll
+
+  constructor(analyzer: AnalyzerClient, pollIntervalMs: number) {
+    this.analyzer = analyzer;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  get enabled(): boolean {
+    return this.pollIntervalMs > 0;
+  }
+
+  start(): void {
+    if (!this.enabled || this.timer) {
+      return;
+    }
+    this.refresh();
+    this.timer = setInterval(() => this.refresh(), this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * The block that applies to a request, if any: its tenant, app or
+   * conversation
+   */
+  find(subject: BlockSubject): BlockEntry | undefined {
+    const now = new Date().toISOString();
+    const keys = [
+      subject.tenantId && `tenant:${subject.tenantId}`,
+      subject.appId && `app:${subject.appId}`,
+      subject.conversationId && `conversation:${subject.conversationId}`,
+    ];
+    for (const key of keys) {
+      const entry = key ? this.entries.get(key) : undefined;
+      if (entry && entry.expiresAt > now) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const response = await this.analyzer.get('/api/blocklist');
+      if (response.status !== 200) {
+        throw new Error(`analyzer returned ${response.status}`);
+      }
+      const { blocks } = response.body as { blocks: BlockEntry[] };
+      this.entries = new Map(blocks.map(entry => [`${entry.target}:${entry.value}`, entry]));
+      if (this.failing) {
+        console.log(`[BlockList] Refreshed from analyzer again (${this.entries.size} active blocks)`);
+        this.failing = false;
+      }
+    } catch (error) {
+      if (!this.failing) {
+        console.warn('[BlockList] Failed to refresh from analyzer, keeping the last copy:', error instanceof Error ? error.message : error);
+        this.failing = true;
+      }
+    }
+  }
+}
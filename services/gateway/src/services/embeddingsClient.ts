@@ -0,0 +1,87 @@
+import { GoogleAuth } from 'google-auth-library';
+import { createHash } from 'crypto';
+import { Config } from '../config.js';
+
+const STUB_DIMENSIONS = 256;
+
+/**
+ * Prompt embeddings for the semantic response cache, from the Vertex AI
+ * embeddings endpoint (the same model family the analyzer uses for drift).
+ *
+ * In stub mode a local bag-of-words embedding is used instead, so near-match
+ * caching can be exercised without GCP credentials.
+ */
+export class EmbeddingsClient {
+  private config: Config['vertex'];
+  private model: string;
+  private useStub: boolean;
+  private auth: GoogleAuth | null = null;
+
+  constructor(config: Config['vertex'], model: string, useStub: boolean = false) {
+    this.config = config;
+    this.model = model;
+    this.useStub = useStub;
+
+    if (!useStub) {
+      this.auth = new GoogleAuth({
+        scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+        projectId: config.projectId,
+      });
+    }
+  }
+
+  /**
+   * Embed a text, or return undefined if the embeddings API is unavailable
+   * (the cache then falls back to exact matches only).
+   */
+  async getEmbedding(text: string): Promise<number[] | undefined> {
+    if (this.useStub) {
+      return stubEmbedding(text);
+    }
+
+    try {
+      const client = await this.auth!.getClient();
+      const token = await client.getAccessToken();
+      const { location, projectId } = this.config;
+      const apiEndpoint = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${this.model}:predict`;
+
+      const response = await fetch(apiEndpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          instances: [{ content: text, taskType: 'SEMANTIC_SIMILARITY' }],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[Embeddings] ${this.model} returned ${response.status}: ${errorText.substring(0, 200)}`);
+        return undefined;
+      }
+
+      const result: any = await response.json();
+      const embedding = result.predictions?.[0]?.embeddings?.values;
+      return embedding && embedding.length > 0 ? embedding : undefined;
+    } catch (error) {
+      console.error('[Embeddings] Failed to embed prompt:', error);
+      // Don't throw - a missing embedding only disables near matches
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Hashed bag of lowercased words: prompts sharing most of their words score
+ * a high cosine similarity.
+ */
+function stubEmbedding(text: string): number[] {
+  const vector = new Array(STUB_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9']+/g) || []) {
+    const bucket = createHash('sha256').update(word).digest().readUInt32BE(0) % STUB_DIMENSIONS;
+    vector[bucket] += 1;
+  }
+  return vector;
+}
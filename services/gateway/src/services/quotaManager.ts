@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { Config } from '../config.js';
+import { estimateCostUsd } from '../utils/pricing.js';
+import { UsageStore } from './usageStore.js';
+
+export interface QuotaLimits {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  dailyCostUsd?: number;
+  monthlyCostUsd?: number;
+}
+
+export type QuotaLimit = keyof QuotaLimits;
+
+export interface QuotaStatus {
+  allowed: boolean;
+  exceeded?: QuotaLimit;
+  resetAt?: Date; // When the exceeded budget refills
+  remaining: Partial<Record<QuotaLimit, number>>; // Only for configured limits
+}
+
+const LIMITS: QuotaLimit[] = ['dailyTokens', 'monthlyTokens', 'dailyCostUsd', 'monthlyCostUsd'];
+
+/**
+ * Per-tenant daily and monthly token and cost budgets (UTC calendar periods).
+ *
+ * A request is admitted while the tenant is under every budget; its actual
+ * usage is only known afterwards, so the last admitted request may overshoot.
+ */
+export class QuotaManager {
+  private defaults: QuotaLimits;
+  private tenants: Record<string, QuotaLimits>;
+  private store: UsageStore;
+
+  constructor(config: Config['quotas'], store: UsageStore) {
+    this.defaults = config.defaults;
+    this.tenants = loadTenantLimits(config.tenantsFile);
+    this.store = store;
+  }
+
+  get enabled(): boolean {
+    return [this.defaults, ...Object.values(this.tenants)].some(limits =>
+      LIMITS.some(limit => limits[limit] !== undefined)
+    );
+  }
+
+  limitsFor(tenantId: string): QuotaLimits {
+    return { ...this.defaults, ...this.tenants[tenantId] };
+  }
+
+  async check(tenantId: string, now: Date = new Date()): Promise<QuotaStatus> {
+    const limits = this.limitsFor(tenantId);
+    const { day, month } = periodsFor(now);
+
+    try {
+      const [daily, monthly] = await Promise.all([
+        this.store.get(tenantId, day),
+        this.store.get(tenantId, month),
+      ]);
+      const used: Record<QuotaLimit, number> = {
+        dailyTokens: daily.tokens,
+        monthlyTokens: monthly.tokens,
+        dailyCostUsd: daily.costUsd,
+        monthlyCostUsd: monthly.costUsd,
+      };
+
+      const status: QuotaStatus = { allowed: true, remaining: {} };
+      for (const limit of LIMITS) {
+        const max = limits[limit];
+        if (max === undefined) {
+          continue;
+        }
+        status.remaining[limit] = Math.max(0, max - used[limit]);
+        if (status.allowed && used[limit] >= max) {
+          status.allowed = false;
+          status.exceeded = limit;
+          status.resetAt = limit.startsWith('daily') ? nextUtcDay(now) : nextUtcMonth(now);
+        }
+      }
+      return status;
+    } catch (error) {
+      console.error(`[Quota] Failed to check quota for ${tenantId}:`, error);
+      // Fail open - a broken usage store shouldn't take the gateway down
+      return { allowed: true, remaining: {} };
+    }
+  }
+
+  async record(tenantId: string, model: string, tokensIn: number, tokensOut: number, now: Date = new Date()): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const { day, month } = periodsFor(now);
+    try {
+      await this.store.add(tenantId, [day, month], {
+        tokens: tokensIn + tokensOut,
+        costUsd: estimateCostUsd(model, tokensIn, tokensOut),
+      });
+    } catch (error) {
+      console.error(`[Quota] Failed to record usage for ${tenantId}:`, error);
+      // Don't throw - the response has already been produced
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+function periodsFor(now: Date): { day: string; month: string } {
+  const iso = now.toISOString();
+  return { day: `day:${iso.slice(0, 10)}`, month: `month:${iso.slice(0, 7)}` };
+}
+
+function nextUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function nextUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Read per-tenant overrides from a JSON file:
+ * { "acme": { "dailyTokens": 200000, "monthlyCostUsd": 50 } }
+ */
+function loadTenantLimits(path: string): Record<string, QuotaLimits> {
+  if (!path) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`[Quota] Failed to load tenant quotas from ${path}:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,116 @@
+import { Config } from '../config.js';
+import { RateLimitStore } from './rateLimitStore.js';
+
+export type RateLimitDimension = 'key' | 'ip' | 'model';
+export type RateLimitBucket = 'requests' | 'tokens';
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * The values a request is limited by. A dimension without a value (e.g. `key`
+ * when authentication is disabled) is not limited.
+ */
+export type RateLimitSubject = Partial<Record<RateLimitDimension, string>>;
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  exceeded?: { dimension: RateLimitDimension; bucket: RateLimitBucket; limit: number };
+  resetAt: Date; // End of the current window
+  // Tightest requests-per-minute bucket, for the RateLimit-* headers
+  requests?: { limit: number; remaining: number };
+}
+
+const DIMENSIONS: RateLimitDimension[] = ['key', 'ip', 'model'];
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Fixed one-minute windows of requests and tokens per API key, client IP and
+ * model. Request buckets are counted on admission; token buckets are checked
+ * on admission and charged once the completion's usage is known, so the last
+ * admitted request in a window may overshoot the token limit.
+ */
+export class RateLimitManager {
+  private limits: Record<RateLimitDimension, RateLimits>;
+  private store: RateLimitStore;
+
+  constructor(config: Config['rateLimit'], store: RateLimitStore) {
+    this.limits = config.limits;
+    this.store = store;
+  }
+
+  get enabled(): boolean {
+    return DIMENSIONS.some(dimension =>
+      this.limits[dimension].requestsPerMinute !== undefined || this.limits[dimension].tokensPerMinute !== undefined
+    );
+  }
+
+  async check(subject: RateLimitSubject, now: Date = new Date()): Promise<RateLimitStatus> {
+    const windowStart = windowStartFor(now);
+    const status: RateLimitStatus = { allowed: true, resetAt: new Date(windowStart + WINDOW_MS) };
+
+    try {
+      for (const dimension of DIMENSIONS) {
+        const value = subject[dimension];
+        const { requestsPerMinute, tokensPerMinute } = this.limits[dimension];
+        if (!value) {
+          continue;
+        }
+
+        if (requestsPerMinute !== undefined) {
+          const count = await this.store.increment(bucketKey('requests', dimension, value, windowStart), 1, WINDOW_MS);
+          const remaining = Math.max(0, requestsPerMinute - count);
+          if (!status.requests || remaining < status.requests.remaining) {
+            status.requests = { limit: requestsPerMinute, remaining };
+          }
+          if (status.allowed && count > requestsPerMinute) {
+            status.allowed = false;
+            status.exceeded = { dimension, bucket: 'requests', limit: requestsPerMinute };
+          }
+        }
+
+        if (tokensPerMinute !== undefined && status.allowed) {
+          const tokens = await this.store.get(bucketKey('tokens', dimension, value, windowStart));
+          if (tokens >= tokensPerMinute) {
+            status.allowed = false;
+            status.exceeded = { dimension, bucket: 'tokens', limit: tokensPerMinute };
+          }
+        }
+      }
+      return status;
+    } catch (error) {
+      console.error('[RateLimit] Failed to check rate limits:', error);
+      // Fail open - an unreachable store shouldn't take the gateway down
+      return { allowed: true, resetAt: status.resetAt };
+    }
+  }
+
+  async recordTokens(subject: RateLimitSubject, tokens: number, now: Date = new Date()): Promise<void> {
+    const windowStart = windowStartFor(now);
+    try {
+      for (const dimension of DIMENSIONS) {
+        const value = subject[dimension];
+        if (value && this.limits[dimension].tokensPerMinute !== undefined && tokens > 0) {
+          await this.store.increment(bucketKey('tokens', dimension, value, windowStart), tokens, WINDOW_MS);
+        }
+      }
+    } catch (error) {
+      console.error('[RateLimit] Failed to record token usage:', error);
+      // Don't throw - the response has already been produced
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+function windowStartFor(now: Date): number {
+  return Math.floor(now.getTime() / WINDOW_MS) * WINDOW_MS;
+}
+
+function bucketKey(bucket: RateLimitBucket, dimension: RateLimitDimension, value: string, windowStart: number): string {
+  return `ratelimit:${bucket}:${dimension}:${value}:${windowStart}`;
+}
@@ -0,0 +1,90 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Counter storage for the rate limiter. Keys already include the window start,
+ * so a store only has to add to a counter and expire it once the window is over.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<number>;
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * Counters in process memory - per instance and reset on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, { value: number; expiresAt: number }> = new Map();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    // Drop expired windows once a minute so the map doesn't grow unbounded
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const value = (await this.get(key)) + amount;
+    const existing = this.counters.get(key);
+    this.counters.set(key, {
+      value,
+      expiresAt: existing && existing.expiresAt > Date.now() ? existing.expiresAt : Date.now() + ttlMs,
+    });
+    return value;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters shared by all gateway instances through Redis (or any server that
+ * speaks the Redis protocol, e.g. Memorystore, Valkey, KeyDB).
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url, {
+      // Fail fast instead of queueing while disconnected - the limiter fails open
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+    this.redis.on('error', (error) => {
+      console.error('[RateLimit] Redis error:', error.message);
+    });
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.redis.get(key);
+    return value ? parseInt(value, 10) : 0;
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const results = await this.redis.multi().incrby(key, amount).pexpire(key, ttlMs).exec();
+    const [error, value] = results?.[0] || [new Error('Empty MULTI reply'), null];
+    if (error) {
+      throw error;
+    }
+    return Number(value);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { Config } from '../config.js';
+import { ChatResponse, ChatTurn } from '../providers/types.js';
+import { cosineSimilarity } from '../utils/cosineSimilarity.js';
+import { EmbeddingsClient } from './embeddingsClient.js';
+
+export interface CacheRequest {
+  model: string;
+  prompt: string;
+  history: ChatTurn[];
+  systemPrompt?: string;
+  scope?: string; // Tenant the response may be shared with
+}
+
+/**
+ * Precomputed keys for a request, returned by lookup() so a miss can be
+ * stored without hashing or embedding the prompt a second time.
+ */
+export interface CacheKey {
+  promptKey: string; // Exact match: context + prompt
+  contextKey: string; // Near matches are only considered within the same context
+  model: string;
+  scope: string; // Tenant whose request stored the entry, '' without authentication
+  embedding?: number[];
+}
+
+export interface CacheMatch {
+  response: ChatResponse;
+  similarity: number; // 1 for exact matches
+}
+
+interface CacheEntry extends CacheKey {
+  response: ChatResponse;
+  expiresAt: number;
+}
+
+/**
+ * Completions keyed by prompt. A request is served from the cache on an exact
+ * match (same model, system prompt, history and prompt), or on a near match:
+ * same model, system prompt and history, with a prompt embedding whose cosine
+ * similarity to a cached prompt is at least the configured threshold.
+ *
+ * Entries expire after the TTL and the oldest are evicted beyond maxEntries.
+ * With scope 'tenant', responses are never shared between tenants. Routing
+ * details of the completion that filled an entry are not kept; they describe
+ * that request, not the ones served from the cache.
+ */
+export class ResponseCache {
+  private config: Config['responseCache'];
+  private embeddings: EmbeddingsClient;
+  private entries: Map<string, CacheEntry> = new Map(); // Insertion order = age
+
+  constructor(config: Config['responseCache'], embeddings: EmbeddingsClient) {
+    this.config = config;
+    this.embeddings = embeddings;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Number of entries stored for a tenant
+   */
+  sizeFor(scope: string): number {
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      count += entry.scope === scope ? 1 : 0;
+    }
+    return count;
+  }
+
+  async lookup(request: CacheRequest): Promise<{ key: CacheKey; match?: CacheMatch }> {
+    const contextKey = hash([
+      this.config.scope === 'tenant' ? request.scope || '' : '',
+      request.model,
+      request.systemPrompt || '',
+      JSON.stringify(request.history),
+    ]);
+    const key: CacheKey = { promptKey: hash([contextKey, request.prompt]), contextKey, model: request.model, scope: request.scope || '' };
+
+    const exact = this.entries.get(key.promptKey);
+    if (exact && exact.expiresAt > Date.now()) {
+      return { key, match: { response: exact.response, similarity: 1 } };
+    }
+
+    if (this.config.similarityThreshold >= 1) {
+      return { key };
+    }
+
+    key.embedding = await this.embeddings.getEmbedding(request.prompt);
+    if (!key.embedding) {
+      return { key };
+    }
+
+    let best: CacheMatch | undefined;
+    for (const entry of this.entries.values()) {
+      if (entry.contextKey !== contextKey || !entry.embedding || entry.expiresAt <= Date.now()) {
+        continue;
+      }
+      if (entry.embedding.length !== key.embedding.length) {
+        continue; // Embedded with a different model
+      }
+      const similarity = Math.min(1, cosineSimilarity(key.embedding, entry.embedding));
+      if (similarity >= this.config.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { response: entry.response, similarity };
+      }
+    }
+    return { key, match: best };
+  }
+
+  store(key: CacheKey, response: ChatResponse): void {
+    if (!response.text) {
+      return; // Don't cache empty completions
+    }
+
+    const { routing: _routing, ...stored } = response;
+    this.entries.delete(key.promptKey);
+    this.entries.set(key.promptKey, { ...key, response: stored, expiresAt: Date.now() + this.config.ttlMs });
+    this.evict();
+  }
+
+  /**
+   * Drop cached responses for a model (matching either the requested model
+   * or the model that served the response), or for all models when no model
+   * is given. With a scope, only entries stored for that tenant are dropped.
+   * Returns the number of entries removed.
+   */
+  invalidate(model?: string, scope?: string): number {
+    let removed = 0;
+    for (const [promptKey, entry] of this.entries) {
+      if (scope !== undefined && entry.scope !== scope) {
+        continue;
+      }
+      if (!model || entry.model === model || entry.response.modelName === model) {
+        this.entries.delete(promptKey);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    for (const [promptKey, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(promptKey);
+      }
+    }
+
+    // Remove the oldest entries beyond the size limit
+    const excess = this.entries.size - this.config.maxEntries;
+    if (excess > 0) {
+      Array.from(this.entries.keys()).slice(0, excess).forEach(promptKey => this.entries.delete(promptKey));
+    }
+  }
+}
+
+function hash(parts: string[]): string {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex');
+}
@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs';
+import { FallbackCondition } from '../providers/types.js';
+
+const CONDITIONS: FallbackCondition[] = ['rate_limit', 'timeout', 'safety_block', 'server_error', 'not_found'];
+
+/** A model, optionally on another provider than the one the endpoint resolves to */
+export interface ModelTarget {
+  provider?: string;
+  model: string;
+}
+
+export interface RoutingPolicy {
+  name: string;
+  primary: ModelTarget;
+  fallbacks: ModelTarget[]; // Tried in order once the primary fails
+  retryOn: FallbackCondition[]; // Failures that move on to a retry or fallback
+  maxAttempts: number; // Retry budget: total model calls per request, across all targets
+  retriesPerModel: number; // Extra calls to the same model (rate limits, timeouts, 5xx only)
+  backoffMs: number; // Before a same-model retry, doubled each time
+  timeoutMs?: number; // Per attempt; for streams, until the first token
+}
+
+export interface RoutingPolicies {
+  policies: Record<string, RoutingPolicy>;
+  routes: Record<string, string>; // endpoint -> policy name; 'default' applies otherwise
+}
+
+/**
+ * Read routing policies from a JSON file:
+ *
+ * {
+ *   "routes": { "/api/chat/stream": "fast" },
+ *   "policies": {
+ *     "default": { "primary": "gemini-2.0-flash", "fallbacks": ["gemini-1.5-flash", "openai:gpt-4o-mini"],
+ *                  "retryOn": ["rate_limit", "timeout"], "maxAttempts": 3 },
+ *     "fast": { "primary": "gemini-2.0-flash", "timeoutMs": 5000, "retryOn": ["timeout"], "fallbacks": ["gemini-1.5-flash"] }
+ *   }
+ * }
+ *
+ * Targets are "model" (on the endpoint's provider) or "provider:model".
+ * Invalid policies are skipped with a warning rather than failing startup.
+ */
+export function loadRoutingPolicies(path: string): RoutingPolicies {
+  const empty: RoutingPolicies = { policies: {}, routes: {} };
+  if (!path) {
+    return empty;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`[Routing] Failed to load routing policies from ${path}:`, error);
+    return empty;
+  }
+
+  const policies: Record<string, RoutingPolicy> = {};
+  for (const [name, value] of Object.entries<any>(raw?.policies || {})) {
+    const policy = parsePolicy(name, value);
+    if (policy) {
+      policies[name] = policy;
+    }
+  }
+
+  const routes: Record<string, string> = {};
+  for (const [endpoint, name] of Object.entries<any>(raw?.routes || {})) {
+    if (typeof name === 'string' && policies[name]) {
+      routes[endpoint] = name;
+    } else {
+      console.warn(`[Routing] Route ${endpoint} refers to unknown policy '${name}', ignoring`);
+    }
+  }
+
+  console.log(`[Routing] Loaded ${Object.keys(policies).length} routing policies from ${path}`);
+  return { policies, routes };
+}
+
+export function policyFor(routing: RoutingPolicies, endpoint: string): RoutingPolicy | undefined {
+  return routing.policies[routing.routes[endpoint] || 'default'];
+}
+
+function parsePolicy(name: string, value: any): RoutingPolicy | undefined {
+  const primary = parseTarget(value?.primary);
+  if (!primary) {
+    console.warn(`[Routing] Policy '${name}' has no valid primary model, ignoring`);
+    return undefined;
+  }
+
+  const fallbacks = (Array.isArray(value.fallbacks) ? value.fallbacks : [])
+    .map(parseTarget)
+    .filter((target: ModelTarget | undefined): target is ModelTarget => !!target);
+  const retryOn = (Array.isArray(value.retryOn) ? value.retryOn : ['rate_limit', 'timeout', 'server_error'])
+    .filter((condition: string) => {
+      const known = CONDITIONS.includes(condition as FallbackCondition);
+      if (!known) {
+        console.warn(`[Routing] Policy '${name}' has unknown condition '${condition}', ignoring it`);
+      }
+      return known;
+    });
+  const retriesPerModel = nonNegativeInteger(value.retriesPerModel) ?? 0;
+
+  return {
+    name,
+    primary,
+    fallbacks,
+    retryOn,
+    maxAttempts: nonNegativeInteger(value.maxAttempts) || (1 + fallbacks.length) * (1 + retriesPerModel),
+    retriesPerModel,
+    backoffMs: nonNegativeInteger(value.backoffMs) ?? 500,
+    timeoutMs: nonNegativeInteger(value.timeoutMs) || undefined,
+  };
+}
+
+function parseTarget(value: unknown): ModelTarget | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const [first, ...rest] = value.trim().split(':');
+  return rest.length > 0 ? { provider: first, model: rest.join(':') } : { model: first };
+}
+
+function nonNegativeInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,144 @@
+import { v4 as uuidv4 } from 'uuid';
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { Config } from '../config.js';
+import { ChatTurn, LLMProvider } from '../providers/types.js';
+import { filterOutput, outputFilterFields } from '../utils/outputFilter.js';
+import { TelemetryPublisher } from './telemetryPublisher.js';
+
+/**
+ * Mirrors a sample of requests to a candidate model so it can be compared
+ * with the serving model on real traffic before a switch.
+ *
+ * The shadow call runs after the client has its answer and is never returned.
+ * Its result is published as a separate TelemetryEvent linked to the primary
+ * (`shadowOf` / `shadowRequestId`), which the analyzer pairs up. Shadow calls
+ * bypass the response cache and don't count against tenant quotas or rate limits.
+ */
+export class ShadowTraffic {
+  private config: Config['shadow'];
+  private provider: LLMProvider;
+  private telemetryPublisher: TelemetryPublisher;
+  private outputFilter: Config['outputFilter'];
+  private inFlight = 0;
+
+  constructor(
+    config: Config['shadow'],
+    provider: LLMProvider,
+    telemetryPublisher: TelemetryPublisher,
+    outputFilter: Config['outputFilter']
+  ) {
+    this.config = config;
+    this.provider = provider;
+    this.telemetryPublisher = telemetryPublisher;
+    this.outputFilter = outputFilter;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Decide whether to mirror a request. Returns the shadow's requestId, to be
+   * recorded on the primary event, or undefined when the request isn't sampled.
+   */
+  sample(): string | undefined {
+    if (Math.random() * 100 >= this.config.samplePercent) {
+      return undefined;
+    }
+    if (this.inFlight >= this.config.maxConcurrent) {
+      this.recordMirror('skipped');
+      return undefined;
+    }
+    return uuidv4();
+  }
+
+  /**
+   * Send the primary request's prompt and history to the candidate model and
+   * publish the outcome. Runs in the background; failures are only recorded.
+   */
+  mirror(shadowRequestId: string, primary: TelemetryEvent, history: ChatTurn[]): void {
+    this.inFlight++;
+    this.run(shadowRequestId, primary, history)
+      .catch(error => console.error(`[Shadow] Failed to mirror ${primary.requestId}:`, error))
+      .finally(() => {
+        this.inFlight--;
+      });
+  }
+
+  private async run(shadowRequestId: string, primary: TelemetryEvent, history: ChatTurn[]): Promise<void> {
+    const startTime = Date.now();
+    const base = {
+      requestId: shadowRequestId,
+      endpoint: primary.endpoint,
+      method: primary.method,
+      prompt: primary.prompt,
+      promptLength: primary.promptLength,
+      conversationId: primary.conversationId,
+      turnIndex: primary.turnIndex,
+      historyTurns: primary.historyTurns,
+      historyTokens: primary.historyTokens,
+      tenantId: primary.tenantId,
+      appId: primary.appId,
+      environment: primary.environment,
+      service: primary.service,
+      shadowOf: primary.requestId,
+    };
+
+    let event: TelemetryEvent;
+    try {
+      const response = await this.provider.chatCompletion(primary.prompt, history, { model: this.config.model });
+      // Filtered like the primary so the two responses are compared on equal terms
+      const output = filterOutput(response.text, this.outputFilter);
+
+      event = {
+        ...base,
+        timestamp: new Date().toISOString(),
+        response: output.text,
+        responseLength: output.text.length,
+        modelName: response.modelName,
+        modelVersion: response.modelVersion,
+        provider: this.provider.name,
+        tokensIn: response.tokensIn,
+        tokensOut: response.tokensOut,
+        tokensTotal: response.tokensIn + response.tokensOut,
+        latencyMs: Date.now() - startTime,
+        ...outputFilterFields(output, this.outputFilter),
+        status: 'success',
+      };
+    } catch (error) {
+      event = {
+        ...base,
+        timestamp: new Date().toISOString(),
+        response: '',
+        responseLength: 0,
+        modelName: this.config.model,
+        modelVersion: 'unknown',
+        provider: this.provider.name,
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensTotal: 0,
+        latencyMs: Date.now() - startTime,
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    this.recordMirror(event.status);
+    await this.telemetryPublisher.publish(event);
+  }
+
+  private recordMirror(outcome: string): void {
+    if (tracer.dogstatsd) {
+      tracer.dogstatsd.increment('llm.shadow.requests', 1, {
+        shadow_model: this.config.model,
+        provider: this.provider.name,
+        outcome,
+      });
+    }
+  }
+}
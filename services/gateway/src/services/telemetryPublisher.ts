@@ -1,58 +1,61 @@
-import { PubSub } from '@google-cloud/pubsub';
-import { TelemetryEvent } from '../types/telemetry.js';
-import { Config } from '../config.js';
+import tracer from 'dd-trace';
+import { TELEMETRY_SCHEMA_VERSION, TelemetryEvent, validateTelemetryEvent } from '@sentinel/telemetry-schema';
+import { TelemetryScrubber } from './telemetryScrubber.js';
+import { TelemetryTransport } from './telemetryTransport.js';
 
 export class TelemetryPublisher {
-  private pubsub: PubSub | null = null;
-  private topicName: string;
-  private enabled: boolean;
-  private projectId: string;
-
-  constructor(config: Config['pubsub'], enabled: boolean = true) {
-    this.projectId = config.projectId;
-    this.topicName = config.topicName;
-    this.enabled = enabled && config.enabled;
-
-    if (this.enabled && this.projectId) {
-      this.pubsub = new PubSub({
-        projectId: this.projectId,
-      });
-    }
+  private transport: TelemetryTransport | null;
+  private scrubber: TelemetryScrubber | null;
+
+  constructor(transport: TelemetryTransport | null, scrubber: TelemetryScrubber | null = null) {
+    this.transport = transport;
+    this.scrubber = scrubber;
+  }
+
+  get transportName(): string | null {
+    return this.transport?.name ?? null;
   }
 
   async publish(event: TelemetryEvent): Promise<void> {
-    if (!this.enabled || !this.pubsub) {
+    // Events that don't match the shared schema would only be dead-lettered by the analyzer
+    const versioned: TelemetryEvent = { ...event, schemaVersion: TELEMETRY_SCHEMA_VERSION };
+    const validation = validateTelemetryEvent(versioned);
+    if (!validation.valid) {
+      console.error(`[Telemetry] Dropping invalid event ${event.requestId}: ${validation.errors.join('; ')}`);
+      if (tracer.dogstatsd) {
+        tracer.dogstatsd.increment('llm.telemetry.invalid', 1, { endpoint: event.endpoint, stage: 'publish' });
+      }
+      return;
+    }
+
+    if (!this.transport) {
       console.log('[Telemetry] Stub mode - event not published:', event.requestId);
       return;
     }
 
     try {
-      const topic = this.pubsub.topic(this.topicName);
-      const messageBuffer = Buffer.from(JSON.stringify(event));
-
-      await topic.publishMessage({ data: messageBuffer });
-      console.log(`[Telemetry] Published event ${event.requestId} to ${this.topicName}`);
+      // Every route publishes through here, so scrubbing is applied consistently
+      const scrubbed = this.scrubber ? this.scrubber.scrub(versioned) : versioned;
+      await this.transport.send(JSON.stringify(scrubbed));
+      console.log(`[Telemetry] Published event ${event.requestId} to ${this.transport.destination}`);
     } catch (error) {
       console.error(`[Telemetry] Failed to publish event ${event.requestId}:`, error);
       // Don't throw - telemetry failures shouldn't break the request
     }
   }
 
-  async ensureTopicExists(): Promise<void> {
-    if (!this.enabled || !this.pubsub) {
+  /**
+   * Check the transport's destination. Logs rather than throws at startup.
+   */
+  async checkTransport(): Promise<void> {
+    if (!this.transport) {
       return;
     }
 
     try {
-      const topic = this.pubsub.topic(this.topicName);
-      const [exists] = await topic.exists();
-
-      if (!exists) {
-        console.warn(`[Telemetry] Topic ${this.topicName} does not exist. Create it with Terraform.`);
-      }
+      await this.transport.check();
     } catch (error) {
-      console.error(`[Telemetry] Failed to check topic existence:`, error);
+      console.error(`[Telemetry] Failed to check ${this.transport.name} transport:`, error);
     }
   }
 }
-
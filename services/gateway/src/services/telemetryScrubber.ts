@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { Config } from '../config.js';
+import { PII_PATTERNS } from '../utils/demoScorer.js';
+import { globalCopy } from '../utils/guardrails.js';
+
+export type ScrubMode = 'none' | 'mask' | 'hash' | 'drop-text';
+
+/**
+ * Removes sensitive text from telemetry before it leaves the gateway.
+ *
+ * - none: publish prompt and response verbatim
+ * - mask: replace PII and dictionary terms with `[REDACTED:<CATEGORY>]`
+ * - hash: replace prompt and response with a salted SHA-256 (identical texts still group)
+ * - drop-text: publish empty prompt and response
+ *
+ * With hash or drop-text the analyzer cannot embed the response for drift. When
+ * `allowEmbeddings` is set, a masked copy of the response is sent in
+ * `embeddingInput`, which the analyzer uses for embeddings and never stores.
+ */
+export class TelemetryScrubber {
+  private mode: ScrubMode;
+  private hashSalt: string;
+  private allowEmbeddings: boolean;
+  private dictionary: RegExp | null;
+
+  constructor(config: Config['telemetryScrub']) {
+    this.mode = config.mode;
+    this.hashSalt = config.hashSalt;
+    this.allowEmbeddings = config.allowEmbeddings;
+    this.dictionary = buildDictionaryPattern([
+      ...config.dictionaryTerms,
+      ...loadDictionaryFile(config.dictionaryFile),
+    ]);
+  }
+
+  scrub(event: TelemetryEvent): TelemetryEvent {
+    if (this.mode === 'none') {
+      return event;
+    }
+
+    const scrubbed: TelemetryEvent = { ...event, scrubMode: this.mode };
+
+    if (this.mode === 'mask') {
+      scrubbed.prompt = this.mask(event.prompt);
+      scrubbed.response = this.mask(event.response);
+      return scrubbed;
+    }
+
+    scrubbed.prompt = this.mode === 'hash' ? this.hash(event.prompt) : '';
+    scrubbed.response = this.mode === 'hash' ? this.hash(event.response) : '';
+
+    if (this.allowEmbeddings && event.response.length > 0) {
+      scrubbed.embeddingInput = this.mask(event.response);
+    }
+
+    return scrubbed;
+  }
+
+  private mask(text: string): string {
+    let result = text;
+    for (const [category, pattern] of Object.entries(PII_PATTERNS)) {
+      result = result.replace(globalCopy(pattern), `[REDACTED:${category.toUpperCase()}]`);
+    }
+    if (this.dictionary) {
+      result = result.replace(this.dictionary, '[REDACTED:DICTIONARY]');
+    }
+    return result;
+  }
+
+  private hash(text: string): string {
+    if (text.length === 0) {
+      return '';
+    }
+    return `sha256:${createHash('sha256').update(this.hashSalt + text).digest('hex')}`;
+  }
+}
+
+/**
+ * One case-insensitive, whole-word pattern for all dictionary terms. Word
+ * boundaries are lookarounds rather than \b, which never matches next to
+ * terms that start or end with punctuation (e.g. "c++").
+ */
+function buildDictionaryPattern(terms: string[]): RegExp | null {
+  const escaped = terms
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (escaped.length === 0) {
+    return null;
+  }
+  return new RegExp(`(?<!\\w)(?:${escaped.join('|')})(?!\\w)`, 'gi');
+}
+
+/**
+ * Read dictionary terms from a file, one per line (# starts a comment).
+ */
+function loadDictionaryFile(path: string): string[] {
+  if (!path) {
+    return [];
+  }
+
+  try {
+    return readFileSync(path, 'utf8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'));
+  } catch (error) {
+    console.error(`[Telemetry] Failed to load scrub dictionary from ${path}:`, error);
+    return [];
+  }
+}
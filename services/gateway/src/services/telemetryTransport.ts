@@ -0,0 +1,153 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { PubSub } from '@google-cloud/pubsub';
+import { Config } from '../config.js';
+
+export type TelemetryTransportName = 'pubsub' | 'jsonl' | 'http' | 'memory';
+
+/**
+ * Delivers serialized telemetry events to the analyzer. send() throws when
+ * the event could not be handed over; the publisher logs and drops it.
+ */
+export interface TelemetryTransport {
+  readonly name: TelemetryTransportName;
+  readonly destination: string;
+  send(data: string): Promise<void>;
+  // Warns about missing destinations at startup; throws when unreachable
+  check(): Promise<void>;
+}
+
+/**
+ * The production transport: a Pub/Sub topic the analyzer subscribes to
+ */
+export class PubSubTelemetryTransport implements TelemetryTransport {
+  readonly name = 'pubsub';
+  readonly destination: string;
+  private pubsub: PubSub;
+  private topicName: string;
+
+  constructor(config: Config['pubsub']) {
+    this.pubsub = new PubSub({
+      projectId: config.projectId,
+    });
+    this.topicName = config.topicName;
+    this.destination = config.topicName;
+  }
+
+  async send(data: string): Promise<void> {
+    await this.pubsub.topic(this.topicName).publishMessage({ data: Buffer.from(data) });
+  }
+
+  async check(): Promise<void> {
+    const [exists] = await this.pubsub.topic(this.topicName).exists();
+    if (!exists) {
+      console.warn(`[Telemetry] Topic ${this.topicName} does not exist. Create it with Terraform.`);
+    }
+  }
+}
+
+/**
+ * Appends one event per line to a file the analyzer tails. Both services
+ * must point at the same TELEMETRY_FILE.
+ */
+export class JsonlTelemetryTransport implements TelemetryTransport {
+  readonly name = 'jsonl';
+  readonly destination: string;
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+    this.destination = path;
+  }
+
+  async send(data: string): Promise<void> {
+    await appendFile(this.path, data + '\n', 'utf8');
+  }
+
+  async check(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+  }
+}
+
+/**
+ * POSTs each event to the analyzer's /telemetry endpoint (TELEMETRY_TRANSPORT=http
+ * on the analyzer). The analyzer answers once the event is queued.
+ */
+export class HttpTelemetryTransport implements TelemetryTransport {
+  readonly name = 'http';
+  readonly destination: string;
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+    this.destination = url;
+  }
+
+  async send(data: string): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: data,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Analyzer responded ${response.status}`);
+    }
+  }
+
+  async check(): Promise<void> {
+    // The analyzer may start after the gateway; unreachable sends are logged
+  }
+}
+
+/**
+ * Keeps the most recent events in process memory, for tests and for running
+ * the gateway on its own. Nothing reaches the analyzer.
+ */
+export class MemoryTelemetryTransport implements TelemetryTransport {
+  readonly name = 'memory';
+  readonly destination = 'in-process queue';
+  private maxEvents: number;
+  private events: string[] = [];
+
+  constructor(maxEvents: number = 1000) {
+    this.maxEvents = maxEvents;
+  }
+
+  async send(data: string): Promise<void> {
+    this.events.push(data);
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+  }
+
+  async check(): Promise<void> {}
+
+  /**
+   * Remove and return the queued events, oldest first
+   */
+  drain(): string[] {
+    return this.events.splice(0, this.events.length);
+  }
+}
+
+/**
+ * The configured transport, or null when telemetry is off. Pub/Sub is off in
+ * stub mode or without a project; the local transports always publish.
+ */
+export function createTelemetryTransport(config: Config): TelemetryTransport | null {
+  switch (config.telemetry.transport) {
+    case 'jsonl':
+      return new JsonlTelemetryTransport(config.telemetry.filePath);
+    case 'http':
+      return new HttpTelemetryTransport(config.telemetry.httpUrl, config.telemetry.httpTimeoutMs);
+    case 'memory':
+      return new MemoryTelemetryTransport();
+    default:
+      return config.pubsub.enabled && !config.useStub && config.pubsub.projectId
+        ? new PubSubTelemetryTransport(config.pubsub)
+        : null;
+  }
+}
@@ -0,0 +1,117 @@
+import { readFileSync, existsSync } from 'fs';
+import { writeFile, rename } from 'fs/promises';
+
+export interface Usage {
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Persistence for per-tenant usage counters, keyed by period
+ * (e.g. `day:2025-01-31`, `month:2025-01`).
+ */
+export interface UsageStore {
+  get(tenantId: string, period: string): Promise<Usage>;
+  add(tenantId: string, periods: string[], usage: Usage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Usage counters held in process memory. Counts reset when the gateway restarts
+ * and are not shared between instances.
+ */
+export class InMemoryUsageStore implements UsageStore {
+  protected usage: Map<string, Usage> = new Map();
+
+  async get(tenantId: string, period: string): Promise<Usage> {
+    return this.usage.get(usageKey(tenantId, period)) || { tokens: 0, costUsd: 0 };
+  }
+
+  async add(tenantId: string, periods: string[], usage: Usage): Promise<void> {
+    for (const period of periods) {
+      const key = usageKey(tenantId, period);
+      const current = this.usage.get(key) || { tokens: 0, costUsd: 0 };
+      this.usage.set(key, {
+        tokens: current.tokens + usage.tokens,
+        costUsd: current.costUsd + usage.costUsd,
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * In-memory counters persisted to a JSON file so usage survives restarts.
+ * Writes are batched (at most one per flush interval) and go through a temp
+ * file + rename so a crash never leaves a half-written file behind.
+ */
+export class FileUsageStore extends InMemoryUsageStore {
+  private path: string;
+  private flushIntervalMs: number;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(path: string, flushIntervalMs: number = 1000) {
+    super();
+    this.path = path;
+    this.flushIntervalMs = flushIntervalMs;
+    this.load();
+  }
+
+  async add(tenantId: string, periods: string[], usage: Usage): Promise<void> {
+    await super.add(tenantId, periods, usage);
+    this.scheduleFlush();
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const data: Record<string, Usage> = JSON.parse(readFileSync(this.path, 'utf8'));
+      for (const [key, usage] of Object.entries(data)) {
+        this.usage.set(key, usage);
+      }
+      console.log(`[Quota] Loaded usage for ${this.usage.size} tenant periods from ${this.path}`);
+    } catch (error) {
+      console.error(`[Quota] Failed to load usage from ${this.path}:`, error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(() => undefined);
+    }, this.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+
+  private async flush(): Promise<void> {
+    try {
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.usage)));
+      await rename(tmpPath, this.path);
+    } catch (error) {
+      console.error(`[Quota] Failed to persist usage to ${this.path}:`, error);
+      // Don't throw - counters stay in memory and the next flush retries
+    }
+  }
+}
+
+function usageKey(tenantId: string, period: string): string {
+  return `${tenantId}|${period}`;
+}
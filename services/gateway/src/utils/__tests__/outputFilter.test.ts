@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { filterOutput, OutputFilter, OutputFilterMode, outputFilterFields, outputFilterSummary, WITHHELD_MESSAGE } from '../outputFilter.js';
+import { PiiCategory } from '../demoScorer.js';
+
+const ALL_CATEGORIES: PiiCategory[] = ['ssn', 'credit_card', 'email', 'phone'];
+
+function makeConfig(mode: OutputFilterMode, categories: PiiCategory[] = ALL_CATEGORIES) {
+  return { mode, categories };
+}
+
+// Feed text through a streaming filter in chunks and collect what it releases
+function stream(chunks: string[], mode: OutputFilterMode): { delivered: string; filter: OutputFilter } {
+  const filter = new OutputFilter(makeConfig(mode));
+  let delivered = chunks.map(chunk => filter.push(chunk)).join('');
+  delivered += filter.flush();
+  return { delivered, filter };
+}
+
+describe('filterOutput', () => {
+  it('only counts matches in detect mode', () => {
+    const result = filterOutput('Mail jane@example.com or call 555-123-4567', makeConfig('detect'));
+
+    expect(result).toEqual({
+      text: 'Mail jane@example.com or call 555-123-4567',
+      blocked: false,
+      counts: { email: 1, phone: 1 },
+    });
+  });
+
+  it('masks matches in mask mode', () => {
+    const result = filterOutput('SSN 123-45-6789, card 4111 1111 1111 1111.', makeConfig('mask'));
+
+    expect(result.text).toBe('SSN [REDACTED:SSN], card [REDACTED:CREDIT_CARD].');
+    expect(result.counts).toEqual({ ssn: 1, credit_card: 1 });
+  });
+
+  it('withholds the whole response in block mode', () => {
+    const result = filterOutput('Sure: jane@example.com', makeConfig('block'));
+
+    expect(result).toEqual({ text: WITHHELD_MESSAGE, blocked: true, counts: { email: 1 } });
+  });
+
+  it('only looks for the configured categories', () => {
+    const result = filterOutput('jane@example.com 555-123-4567', makeConfig('mask', ['phone']));
+
+    expect(result.text).toBe('jane@example.com [REDACTED:PHONE]');
+    expect(result.counts).toEqual({ phone: 1 });
+  });
+
+  it('neither changes nor counts anything when off', () => {
+    expect(filterOutput('jane@example.com', makeConfig('off'))).toEqual({ text: 'jane@example.com', blocked: false, counts: {} });
+  });
+});
+
+describe('OutputFilter streaming', () => {
+  it('masks a number split across tokens', () => {
+    const { delivered, filter } = stream(['My SSN is 123', '-45-', '6789 thanks'], 'mask');
+
+    expect(delivered).toBe('My SSN is [REDACTED:SSN] thanks');
+    expect(filter.result().text).toBe(delivered);
+  });
+
+  it('holds back a trailing word until it is complete', () => {
+    const filter = new OutputFilter(makeConfig('mask'));
+
+    expect(filter.push('Write to jane@exa')).toBe('Write to');
+    expect(filter.push('mple.com today')).toBe(' [REDACTED:EMAIL]');
+    expect(filter.flush()).toBe(' today');
+  });
+
+  it('stops releasing text once blocked', () => {
+    const { delivered, filter } = stream(['Hello there, ', 'reach me at jane@example.com ', 'any time'], 'block');
+
+    expect(delivered).toBe('Hello there,');
+    expect(filter.result()).toMatchObject({ text: WITHHELD_MESSAGE, blocked: true });
+  });
+
+  it('passes tokens straight through in detect mode', () => {
+    const filter = new OutputFilter(makeConfig('detect'));
+
+    expect(filter.push('Call 555-')).toBe('Call 555-');
+    expect(filter.push('123-4567')).toBe('123-4567');
+    expect(filter.flush()).toBe('');
+    expect(filter.result().counts).toEqual({ phone: 1 });
+  });
+});
+
+describe('outputFilterFields and outputFilterSummary', () => {
+  it('report the mode and counts, or nothing', () => {
+    const config = makeConfig('mask');
+    const result = filterOutput('jane@example.com', config);
+
+    expect(outputFilterFields(result, config)).toEqual({ outputFilterAction: 'mask', outputPiiCounts: { email: 1 } });
+    expect(outputFilterSummary(result, config)).toEqual({ action: 'mask', categories: ['email'], counts: { email: 1 } });
+    expect(outputFilterFields(result, makeConfig('off'))).toEqual({});
+    expect(outputFilterSummary(filterOutput('Hello', config), config)).toBeUndefined();
+  });
+});
@@ -19,16 +19,18 @@ const TOXIC_PATTERNS = [
   /\b(fuck|shit|asshole|bitch)\b/gi,
 ];
 
-// PII patterns
-const PII_PATTERNS = [
-  /\b\d{3}-\d{2}-\d{4}\b/, // SSN
-  /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/, // Credit card
-  /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/, // Email
-  /\b\d{3}-\d{3}-\d{4}\b/, // Phone
-];
+export type PiiCategory = 'ssn' | 'credit_card' | 'email' | 'phone';
+
+// PII patterns, keyed by category
+export const PII_PATTERNS: Record<PiiCategory, RegExp> = {
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/,
+  credit_card: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/,
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/,
+  phone: /\b\d{3}-\d{3}-\d{4}\b/,
+};
 
 // Jailbreak patterns
-const JAILBREAK_PATTERNS = [
+export const JAILBREAK_PATTERNS = [
   /ignore\s+(previous|all|above)\s+(instructions?|rules?|guidelines?)/gi,
   /you\s+are\s+(now|a)\s+(different|uncensored|unrestricted)/gi,
   /system\s*:\s*you\s+are/gi,
@@ -37,7 +39,7 @@ const JAILBREAK_PATTERNS = [
 ];
 
 // Prompt injection patterns
-const INJECTION_PATTERNS = [
+export const INJECTION_PATTERNS = [
   /<\|(system|user|assistant)\|>/gi,
   /\[INST\]/gi,
   /###\s*(system|user|assistant)\s*:/gi,
@@ -91,7 +93,7 @@ export function calculateDemoSafety(prompt: string, response: string): {
   }
 
   // Check for PII
-  for (const pattern of PII_PATTERNS) {
+  for (const pattern of Object.values(PII_PATTERNS)) {
     if (pattern.test(text)) {
       return {
         safetyScore: 0.4,
@@ -0,0 +1,47 @@
+/**
+ * Map a model error to the HTTP status and client-facing message we report.
+ */
+export function classifyError(error: unknown, providerName: string = 'vertex'): {
+  httpStatus: number;
+  errorType: string;
+  userFriendlyMessage: string;
+  errorMessage: string;
+} {
+  let errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  let httpStatus = 500;
+  let errorType = 'server_error';
+  let userFriendlyMessage = 'Failed to process chat request';
+  const providerLabel = providerName === 'vertex' ? 'Vertex AI' : `Provider '${providerName}'`;
+
+  // Check for a provider error carrying a 429 status (Vertex AI ClientError, ProviderError)
+  if (error && typeof error === 'object' && 'status' in error && (error as any).status === 429) {
+    httpStatus = 429;
+    errorType = 'rate_limit';
+    userFriendlyMessage = 'Rate limit exceeded';
+    errorMessage = `${providerLabel} rate limit exceeded. Please try again in a few moments.`;
+  }
+
+  // Also check error message for 429 indicators
+  if (errorMessage.includes('429') || errorMessage.includes('Too Many Requests') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
+    httpStatus = 429;
+    errorType = 'rate_limit';
+    userFriendlyMessage = 'Rate limit exceeded';
+    if (!errorMessage.includes('try again')) {
+      errorMessage = `${providerLabel} rate limit exceeded. Please try again in a few moments.`;
+    }
+  }
+
+  // Safety refusals and routing-policy timeouts (see SafetyBlockError, ProviderTimeoutError)
+  const status = error && typeof error === 'object' && 'status' in error ? (error as any).status : undefined;
+  if (status === 422) {
+    httpStatus = 422;
+    errorType = 'safety_block';
+    userFriendlyMessage = 'Response blocked by model safety filters';
+  } else if (status === 504) {
+    httpStatus = 504;
+    errorType = 'timeout';
+    userFriendlyMessage = 'Model did not respond in time';
+  }
+
+  return { httpStatus, errorType, userFriendlyMessage, errorMessage };
+}
@@ -0,0 +1,142 @@
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { Config } from '../config.js';
+import { ChatTurn } from '../providers/types.js';
+import { PII_PATTERNS, JAILBREAK_PATTERNS, INJECTION_PATTERNS } from './demoScorer.js';
+
+export type GuardrailLabel = 'PII' | 'JAILBREAK' | 'PROMPT_INJECTION';
+export type GuardrailAction = 'allow' | 'warn' | 'redact' | 'block';
+
+export interface GuardrailDecision {
+  action: GuardrailAction; // Strictest action applied across all matched labels
+  labels: GuardrailLabel[]; // Labels that matched, whatever their policy
+  redactions: number;
+}
+
+export interface GuardrailResult {
+  prompt: string;
+  history: ChatTurn[];
+  decision: GuardrailDecision;
+}
+
+const DETECTORS: Record<GuardrailLabel, RegExp[]> = {
+  PII: Object.values(PII_PATTERNS),
+  JAILBREAK: JAILBREAK_PATTERNS,
+  PROMPT_INJECTION: INJECTION_PATTERNS,
+};
+
+// Ordered from least to most restrictive
+const ACTION_SEVERITY: GuardrailAction[] = ['allow', 'warn', 'redact', 'block'];
+
+/**
+ * Run the pre-request guardrails over the new prompt and the user turns of the
+ * conversation history (clients send history themselves, so it is untrusted too).
+ * Redaction replaces matches with `[REDACTED:<LABEL>]` before the model sees them.
+ */
+export function applyGuardrails(
+  prompt: string,
+  history: ChatTurn[],
+  config: Config['guardrails']
+): GuardrailResult {
+  const decision: GuardrailDecision = { action: 'allow', labels: [], redactions: 0 };
+
+  if (!config.enabled) {
+    return { prompt, history, decision };
+  }
+
+  const texts = [prompt, ...history.filter(turn => turn.role === 'user').map(turn => turn.content)];
+
+  for (const label of Object.keys(DETECTORS) as GuardrailLabel[]) {
+    const patterns = DETECTORS[label];
+    if (!texts.some(text => patterns.some(pattern => matches(pattern, text)))) {
+      continue;
+    }
+
+    decision.labels.push(label);
+    const action = config.policies[label];
+    if (ACTION_SEVERITY.indexOf(action) > ACTION_SEVERITY.indexOf(decision.action)) {
+      decision.action = action;
+    }
+  }
+
+  // Nothing to rewrite if the request is blocked or no redact policy matched
+  if (decision.action === 'block') {
+    return { prompt, history, decision };
+  }
+
+  const redactLabels = decision.labels.filter(label => config.policies[label] === 'redact');
+  if (redactLabels.length === 0) {
+    return { prompt, history, decision };
+  }
+
+  const redact = (text: string): string => {
+    let result = text;
+    for (const label of redactLabels) {
+      for (const pattern of DETECTORS[label]) {
+        result = result.replace(globalCopy(pattern), () => {
+          decision.redactions++;
+          return `[REDACTED:${label}]`;
+        });
+      }
+    }
+    return result;
+  };
+
+  return {
+    prompt: redact(prompt),
+    history: history.map(turn => (turn.role === 'user' ? { ...turn, content: redact(turn.content) } : turn)),
+    decision,
+  };
+}
+
+/**
+ * Tag the active span and emit a Datadog metric for a guardrail decision.
+ * Requests no policy acted on are not counted.
+ */
+export function recordGuardrailDecision(decision: GuardrailDecision, endpoint: string): void {
+  const span = tracer.scope().active();
+  span?.setTag('llm.guardrail.action', decision.action);
+  if (decision.labels.length > 0) {
+    span?.setTag('llm.guardrail.labels', decision.labels.join(','));
+  }
+
+  if (decision.action === 'allow' || !tracer.dogstatsd) {
+    return;
+  }
+
+  for (const label of decision.labels) {
+    tracer.dogstatsd.increment('llm.guardrail.triggered', 1, {
+      endpoint,
+      action: decision.action,
+      label,
+    });
+  }
+}
+
+export function guardrailFields(decision: GuardrailDecision): Pick<
+  TelemetryEvent,
+  'guardrailAction' | 'guardrailLabels' | 'guardrailRedactions'
+> {
+  return {
+    guardrailAction: decision.action,
+    guardrailLabels: decision.labels,
+    guardrailRedactions: decision.redactions,
+  };
+}
+
+/**
+ * Human-readable reason for a blocked request, shared by the chat and proxy routes.
+ */
+export function blockedReason(decision: GuardrailDecision): string {
+  return `Request blocked by guardrail policy: ${decision.labels.join(', ')}`;
+}
+
+// The detector regexes are shared and some carry the `g` flag, so never call
+// `test` on them directly - their lastIndex would leak between requests.
+function matches(pattern: RegExp, text: string): boolean {
+  return new RegExp(pattern.source, pattern.flags.replace('g', '')).test(text);
+}
+
+export function globalCopy(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+}
@@ -0,0 +1,194 @@
+import tracer from 'dd-trace';
+import { TelemetryEvent } from '@sentinel/telemetry-schema';
+import { Config } from '../config.js';
+import { PII_PATTERNS, PiiCategory } from './demoScorer.js';
+import { globalCopy } from './guardrails.js';
+
+export type OutputFilterMode = 'off' | 'detect' | 'mask' | 'block';
+
+export interface OutputFilterResult {
+  text: string; // Response as delivered to the client
+  blocked: boolean;
+  counts: Partial<Record<PiiCategory, number>>; // PII matches in the raw model output
+}
+
+export const WITHHELD_MESSAGE = 'This response was withheld because it contained sensitive information.';
+
+/**
+ * Response-side PII filter.
+ *
+ * - detect: pass the response through and only count matches
+ * - mask: replace matches with `[REDACTED:<CATEGORY>]`
+ * - block: withhold the whole response once a match is found
+ *
+ * Streamed text is fed through `push`, which holds back the trailing word (and
+ * any trailing run of digits) so a match split across tokens is never forwarded
+ * unfiltered. Call `flush` when the stream ends, then `result` for the outcome.
+ */
+export class OutputFilter {
+  private config: Config['outputFilter'];
+  private raw: string = '';
+  private pending: string = '';
+  private released: string = '';
+  private blocked: boolean = false;
+
+  constructor(config: Config['outputFilter']) {
+    this.config = config;
+  }
+
+  push(text: string): string {
+    this.raw += text;
+    if (!this.holdsBack()) {
+      return text;
+    }
+
+    this.pending += text;
+    const cut = safeCut(this.pending);
+    if (cut === 0) {
+      return '';
+    }
+
+    const segment = this.pending.slice(0, cut);
+    this.pending = this.pending.slice(cut);
+    return this.release(segment);
+  }
+
+  flush(): string {
+    if (!this.holdsBack()) {
+      return '';
+    }
+
+    const segment = this.pending;
+    this.pending = '';
+    return this.release(segment);
+  }
+
+  result(): OutputFilterResult {
+    return {
+      text: this.blocked ? WITHHELD_MESSAGE : this.holdsBack() ? this.released : this.raw,
+      blocked: this.blocked,
+      counts: this.config.mode === 'off' ? {} : countMatches(this.raw, this.config.categories),
+    };
+  }
+
+  private holdsBack(): boolean {
+    return this.config.mode === 'mask' || this.config.mode === 'block';
+  }
+
+  private release(segment: string): string {
+    if (this.blocked || segment.length === 0) {
+      return '';
+    }
+
+    const masked = maskText(segment, this.config.categories);
+    if (masked !== segment && this.config.mode === 'block') {
+      this.blocked = true;
+      return '';
+    }
+
+    this.released += masked;
+    return masked;
+  }
+}
+
+/**
+ * Filter a complete (non-streamed) response.
+ */
+export function filterOutput(text: string, config: Config['outputFilter']): OutputFilterResult {
+  const filter = new OutputFilter(config);
+  filter.push(text);
+  filter.flush();
+  return filter.result();
+}
+
+export function outputFilterFields(
+  result: OutputFilterResult,
+  config: Config['outputFilter']
+): Pick<TelemetryEvent, 'outputFilterAction' | 'outputPiiCounts'> {
+  if (config.mode === 'off') {
+    return {};
+  }
+  return {
+    outputFilterAction: config.mode,
+    outputPiiCounts: result.counts,
+  };
+}
+
+/**
+ * Summary returned to API clients when the filter found something.
+ */
+export function outputFilterSummary(result: OutputFilterResult, config: Config['outputFilter']) {
+  const categories = Object.keys(result.counts) as PiiCategory[];
+  if (categories.length === 0) {
+    return undefined;
+  }
+  return {
+    action: result.blocked ? 'block' : config.mode,
+    categories,
+    counts: result.counts,
+  };
+}
+
+/**
+ * Tag the active span and emit Datadog metrics for PII found in a response,
+ * kept apart from the input-side guardrail metrics.
+ */
+export function recordOutputFilter(result: OutputFilterResult, endpoint: string): void {
+  const span = tracer.scope().active();
+  const categories = Object.keys(result.counts) as PiiCategory[];
+  if (categories.length === 0) {
+    return;
+  }
+
+  span?.setTag('llm.output.pii.categories', categories.join(','));
+  span?.setTag('llm.output.blocked', result.blocked);
+
+  if (!tracer.dogstatsd) {
+    return;
+  }
+
+  for (const category of categories) {
+    tracer.dogstatsd.increment('llm.output.pii.detected', result.counts[category] || 0, {
+      endpoint,
+      category,
+      blocked: String(result.blocked),
+    });
+  }
+}
+
+function maskText(text: string, categories: PiiCategory[]): string {
+  let result = text;
+  for (const category of categories) {
+    result = result.replace(globalCopy(PII_PATTERNS[category]), `[REDACTED:${category.toUpperCase()}]`);
+  }
+  return result;
+}
+
+function countMatches(text: string, categories: PiiCategory[]): Partial<Record<PiiCategory, number>> {
+  const counts: Partial<Record<PiiCategory, number>> = {};
+  for (const category of categories) {
+    const found = text.match(globalCopy(PII_PATTERNS[category]))?.length || 0;
+    if (found > 0) {
+      counts[category] = found;
+    }
+  }
+  return counts;
+}
+
+/**
+ * How much of the buffered stream can be filtered and forwarded now: everything
+ * before the last whitespace, minus a trailing run of digits, spaces and dashes
+ * that may be the start of a card, phone or SSN number.
+ */
+function safeCut(buffer: string): number {
+  let cut = Math.max(buffer.lastIndexOf(' '), buffer.lastIndexOf('\n'));
+  if (cut <= 0) {
+    return 0;
+  }
+
+  const trailingNumber = /\d[\d\s-]*$/.exec(buffer.slice(0, cut));
+  if (trailingNumber) {
+    cut = trailingNumber.index;
+  }
+  return cut;
+}
@@ -0,0 +1,33 @@
+/**
+ * Model pricing (USD per 1M tokens), kept in the same shape as the analyzer's
+ * CostOptimizer MODEL_PRICING. These are estimates and should be updated based
+ * on actual pricing.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-exp': { input: 0.075, output: 0.30 },
+  'gemini-2.0-flash-thinking-exp': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-pro': { input: 0.50, output: 1.50 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+};
+
+// Unknown models are priced like gemini-1.5-pro, the same fallback CostOptimizer uses
+const DEFAULT_PRICING = MODEL_PRICING['gemini-1.5-pro'];
+
+/**
+ * Estimated cost of a completion in USD. Versioned model names
+ * (e.g. gemini-2.0-flash-001) use the pricing of their longest matching prefix.
+ */
+export function estimateCostUsd(model: string, tokensIn: number, tokensOut: number): number {
+  const pricing = MODEL_PRICING[model] || MODEL_PRICING[longestPrefix(model)] || DEFAULT_PRICING;
+  return (tokensIn / 1000000) * pricing.input + (tokensOut / 1000000) * pricing.output;
+}
+
+function longestPrefix(model: string): string {
+  return Object.keys(MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0] || '';
+}
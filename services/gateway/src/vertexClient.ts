@@ -1,15 +1,9 @@
-import { VertexAI } from '@google-cloud/vertexai';
+import { VertexAI, Content, GenerateContentResponse } from '@google-cloud/vertexai';
 import { Config } from './config.js';
+import { ChatOptions, ChatResponse, ChatTurn, LLMProvider, SafetyBlockError } from './providers/types.js';
 
-export interface ChatResponse {
-  text: string;
-  tokensIn: number;
-  tokensOut: number;
-  modelName: string;
-  modelVersion: string;
-}
-
-export class VertexClient {
+export class VertexClient implements LLMProvider {
+  readonly name = 'vertex';
   private vertexAI: VertexAI | null = null;
   private config: Config['vertex'];
   private useStub: boolean;
@@ -26,137 +20,184 @@ export class VertexClient {
     }
   }
 
-  async chatCompletion(prompt: string): Promise<ChatResponse> {
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Call exactly the requested model. Falling back to other models is the job
+   * of routing policies (see RoutedProvider), which record every attempt.
+   */
+  async chatCompletion(prompt: string, history: ChatTurn[] = [], options: ChatOptions = {}): Promise<ChatResponse> {
     if (this.useStub) {
-      return this.stubCompletion(prompt);
+      return this.stubCompletion(prompt, history, options);
     }
 
-    if (!this.vertexAI) {
-      throw new Error('Vertex AI client not initialized');
+    const modelName = options.model || this.config.model;
+    try {
+      const result = await this.getModel(modelName).generateContent({
+        contents: this.buildContents(prompt, history),
+        systemInstruction: options.systemPrompt || this.buildSystemInstruction(),
+      });
+
+      const response = result.response;
+      checkSafetyBlock(response);
+      const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      const usageMetadata = response.usageMetadata;
+
+      return {
+        text,
+        tokensIn: usageMetadata?.promptTokenCount || 0,
+        tokensOut: usageMetadata?.candidatesTokenCount || 0,
+        modelName: modelName,
+        modelVersion: '1.0',
+      };
+    } catch (error) {
+      throw this.explainError(error, modelName);
     }
+  }
 
-    // Try multiple model names/formats with fallback
-    const modelVariants = this.getModelVariants(this.config.model);
-    
-    let lastError: Error | null = null;
-    
-    for (const modelName of modelVariants) {
-      // Try both preview and non-preview APIs
-      const apiVersions = [
-        () => this.vertexAI!.preview.getGenerativeModel({ model: modelName }),
-        () => this.vertexAI!.getGenerativeModel({ model: modelName }),
-      ];
-
-      for (const getModel of apiVersions) {
-        try {
-          const model = getModel();
-
-          const currentDate = new Date().toLocaleDateString('en-US', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          });
-
-          const systemInstruction = `You are a helpful assistant. Today's date is ${currentDate}. When asked about the current date, use this date: ${currentDate}.`;
-
-          const result = await model.generateContent({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            systemInstruction: systemInstruction,
-          });
-
-          const response = result.response;
-          const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-          const usageMetadata = response.usageMetadata;
-
-          console.log(`[VertexClient] Successfully used model: ${modelName}`);
-          
-          return {
-            text,
-            tokensIn: usageMetadata?.promptTokenCount || 0,
-            tokensOut: usageMetadata?.candidatesTokenCount || 0,
-            modelName: modelName,
-            modelVersion: '1.0',
-          };
-        } catch (error: any) {
-          lastError = error;
-          // If it's a 404, try next API version or model variant
-          if (error.message?.includes('404') || error.message?.includes('NOT_FOUND')) {
-            // Try next API version if available, otherwise continue to next model
-            continue;
-          }
-          // For authentication/permission errors, provide helpful message
-          if (error.message?.includes('403') || error.message?.includes('PERMISSION_DENIED')) {
-            throw new Error(
-              `Permission denied accessing Vertex AI. ` +
-              `Check: 1) Service account has roles/aiplatform.user role, ` +
-              `2) Vertex AI API is enabled, 3) Billing is enabled. ` +
-              `Original error: ${error.message}`
-            );
-          }
-          // For other errors, try next API version first
-          continue;
+  /**
+   * Stream a chat completion, invoking onToken for every text chunk as it arrives.
+   */
+  async chatCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history: ChatTurn[] = [],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    if (this.useStub) {
+      return this.stubCompletionStream(prompt, onToken, history, options);
+    }
+
+    const modelName = options.model || this.config.model;
+    try {
+      const result = await this.getModel(modelName).generateContentStream({
+        contents: this.buildContents(prompt, history),
+        systemInstruction: options.systemPrompt || this.buildSystemInstruction(),
+      });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        if (chunkText) {
+          text += chunkText;
+          onToken(chunkText);
         }
       }
+
+      const response = await result.response;
+      checkSafetyBlock(response);
+      const usageMetadata = response.usageMetadata;
+
+      return {
+        text,
+        tokensIn: usageMetadata?.promptTokenCount || 0,
+        tokensOut: usageMetadata?.candidatesTokenCount || 0,
+        modelName: modelName,
+        modelVersion: '1.0',
+      };
+    } catch (error) {
+      throw this.explainError(error, modelName);
     }
+  }
 
-    // All models failed
-    throw new Error(
-      `Failed to use any model variant. Last error: ${lastError?.message}. ` +
-      `Tried models: ${modelVariants.join(', ')}. ` +
-      `Please check: 1) Model availability in ${this.config.location}, ` +
-      `2) Vertex AI API is enabled, 3) Service account has aiplatform.user role.`
-    );
+  private getModel(modelName: string) {
+    if (!this.vertexAI) {
+      throw new Error('Vertex AI client not initialized');
+    }
+    return this.vertexAI.getGenerativeModel({ model: modelName });
   }
 
   /**
-   * Get list of model variants to try (short names first, then versioned)
+   * Add setup hints to permission errors. Other errors keep their status and
+   * message so routing policies and the error classifier can recognise them.
    */
-  private getModelVariants(requestedModel: string): string[] {
-    const variants: string[] = [];
-    
-    // If model already has version suffix, try it first
-    if (requestedModel.includes('-001') || requestedModel.includes('-002')) {
-      variants.push(requestedModel);
-    }
-    
-    // Extract base model name (remove version suffix if present)
-    const baseModel = requestedModel.replace(/-\d{3}$/, '');
-    
-    // Try short name format first (SDK often prefers this)
-    variants.push(baseModel);
-    
-    // Then try versioned variants
-    if (!requestedModel.includes('-001')) {
-      variants.push(`${baseModel}-001`);
+  private explainError(error: any, modelName: string): Error {
+    if (error?.message?.includes('403') || error?.message?.includes('PERMISSION_DENIED')) {
+      return new Error(
+        `Permission denied accessing Vertex AI model ${modelName}. ` +
+        `Check: 1) Service account has roles/aiplatform.user role, ` +
+        `2) Vertex AI API is enabled, 3) Billing is enabled. ` +
+        `Original error: ${error.message}`
+      );
     }
-    if (!requestedModel.includes('-002')) {
-      variants.push(`${baseModel}-002`);
-    }
-    
-    // Add common fallbacks
-    if (baseModel.includes('pro')) {
-      variants.push('gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-flash-001');
-    } else if (baseModel.includes('flash')) {
-      variants.push('gemini-1.5-pro', 'gemini-1.5-pro-001');
-    }
-    
-    // Remove duplicates while preserving order
-    return Array.from(new Set(variants));
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Build the Gemini contents array: prior turns in order, then the new user prompt.
+   * Gemini names the assistant role 'model'.
+   */
+  private buildContents(prompt: string, history: ChatTurn[]): Content[] {
+    return [
+      ...history.map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: turn.content }],
+      })),
+      { role: 'user', parts: [{ text: prompt }] },
+    ];
+  }
+
+  private buildSystemInstruction(): string {
+    const currentDate = new Date().toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    return `You are a helpful assistant. Today's date is ${currentDate}. When asked about the current date, use this date: ${currentDate}.`;
   }
 
-  private stubCompletion(prompt: string): ChatResponse {
-    const estimatedTokensIn = Math.ceil(prompt.length / 4);
-    const stubResponse = `[STUB MODE] You said: "${prompt}". This is a mock response for testing.`;
+  private stubCompletion(prompt: string, history: ChatTurn[] = [], options: ChatOptions = {}): ChatResponse {
+    const historyLength = history.reduce((sum, turn) => sum + turn.content.length, 0);
+    const estimatedTokensIn = Math.ceil((prompt.length + historyLength) / 4);
+    const priorTurns = history.filter(turn => turn.role === 'user').length;
+    const stubResponse = priorTurns > 0
+      ? `[STUB MODE] You said: "${prompt}" (turn ${priorTurns + 1} of this conversation). This is a mock response for testing.`
+      : `[STUB MODE] You said: "${prompt}". This is a mock response for testing.`;
     const estimatedTokensOut = Math.ceil(stubResponse.length / 4);
 
     return {
       text: stubResponse,
       tokensIn: estimatedTokensIn,
       tokensOut: estimatedTokensOut,
-      modelName: this.config.model,
+      modelName: options.model || this.config.model,
       modelVersion: 'stub',
     };
   }
+
+  private async stubCompletionStream(
+    prompt: string,
+    onToken: (text: string) => void,
+    history: ChatTurn[],
+    options: ChatOptions
+  ): Promise<ChatResponse> {
+    const response = this.stubCompletion(prompt, history, options);
+
+    // Emit word-by-word with a short delay so clients can exercise incremental rendering
+    const tokens = response.text.match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      onToken(token);
+    }
+
+    return response;
+  }
 }
 
+/**
+ * Gemini reports safety refusals as a blocked prompt or a SAFETY finish reason
+ * rather than an error.
+ */
+function checkSafetyBlock(response: GenerateContentResponse): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`prompt ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === 'SAFETY' || finishReason === 'BLOCKLIST' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new SafetyBlockError(finishReason);
+  }
+}
@@ -1,3 +1,11 @@
+import { useState } from 'react'
+import AnalyticsFilterBar from './AnalyticsFilterBar'
+import StreamStatusBadge from './StreamStatusBadge'
+import { useAnalytics } from '../hooks/useAnalytics'
+import { useAnalysisStream } from '../hooks/useAnalysisStream'
+import { ActivityRecord, AnalyticsFilters, fetchActivity, fetchSummary, isSafetyFinding, mergeActivity, withLiveEvents } from '../utils/analyticsApi'
+import { StreamEvent } from '../utils/analysisStream'
+
 interface Message {
   id: string
   role: 'user' | 'assistant'
@@ -16,46 +24,52 @@ interface Message {
 interface AlertsViewProps {
   messages: Message[]
   flaggedSessions: Set<string>
+  filters: AnalyticsFilters
+  onFiltersChange: (filters: AnalyticsFilters) => void
   onNavigateToSession?: (sessionId: string) => void
   onDeleteFlaggedSession?: (sessionId: string) => void
 }
 
-export default function AlertsView({ messages, flaggedSessions, onNavigateToSession, onDeleteFlaggedSession }: AlertsViewProps) {
-  // Generate alerts from messages
-  const alerts = messages
-    .filter(m => m.role === 'assistant')
-    .map(msg => {
-      // Check for critical safety labels (always alert)
-      const isCriticalLabel = msg.safetyLabel === 'TOXIC' || 
-                              msg.safetyLabel === 'JAILBREAK' || 
-                              msg.safetyLabel === 'PROMPT_INJECTION'
-      
-      // Determine severity
-      const severity = 
-        (msg.safetyScore && msg.safetyScore < 0.3) || isCriticalLabel ? 'critical' :
-        (msg.safetyScore && msg.safetyScore < 0.5) || 
-        (msg.safetyLabel === 'PII' || msg.safetyLabel === 'RISKY') ||
-        (msg.driftScore && msg.driftScore > 0.4) ? 'warning' :
-        null
-      
-      if (!severity) return null
-      
-      return {
-        id: msg.id,
-        timestamp: msg.timestamp,
-        severity,
-        type: msg.safetyLabel || (msg.driftScore && msg.driftScore > 0.4 ? 'DRIFT' : 'UNKNOWN'),
-        message: msg.content.substring(0, 100),
-        safetyScore: msg.safetyScore,
-        driftScore: msg.driftScore,
-        requestId: msg.requestId,
-      }
-    })
-    .filter(Boolean)
-    .reverse() // Most recent first
+const ALERT_LIMIT = 200
+const SAFETY_LABELS = ['TOXIC', 'JAILBREAK', 'PROMPT_INJECTION', 'PII', 'RISKY']
+
+const selectClassName = 'text-sm dark:bg-[#1a1a1a] bg-white dark:text-white text-slate-900 dark:border-[#27272a] border-slate-200 border rounded-lg px-3 py-1.5 shadow-sm focus:outline-none focus:border-[#facc15]'
+
+export default function AlertsView({ messages, flaggedSessions, filters, onFiltersChange, onNavigateToSession, onDeleteFlaggedSession }: AlertsViewProps) {
+  const [minSeverity, setMinSeverity] = useState<'warning' | 'critical'>('warning')
+  const [label, setLabel] = useState('')
+
+  // Alerts across all users, from the analyzer's scores: what was recorded
+  // in the time range, plus alerts pushed live as requests are analyzed
+  const filterKey = JSON.stringify(filters)
+  const severities: ActivityRecord['severity'][] = minSeverity === 'critical' ? ['critical'] : ['critical', 'warning']
+  const { data: fetchedSummary } = useAnalytics(() => fetchSummary(filters), filterKey)
+  const { data: activity, error } = useAnalytics(
+    () => fetchActivity(filters, { severity: severities, limit: ALERT_LIMIT }),
+    `${filterKey}:${minSeverity}`
+  )
+  const { events: liveAlerts, status: streamStatus } = useAnalysisStream({
+    minSeverity,
+    labels: label ? [label] : undefined,
+    environment: filters.environment,
+    model: filters.model,
+  })
+  const records: Array<ActivityRecord | StreamEvent> = mergeActivity<ActivityRecord | StreamEvent>(liveAlerts, activity ?? [], ALERT_LIMIT)
+    .filter(record => !label || record.safetyLabel === label)
 
-  const criticalAlerts = alerts.filter(a => a?.severity === 'critical').length
-  const warningAlerts = alerts.filter(a => a?.severity === 'warning').length
+  // The gateway's demo scores, for alerts on requests made from this browser
+  const localMessages = new Map(messages.filter(m => m.requestId).map(m => [m.requestId, m]))
+
+  const alerts = records.map(record => ({
+    ...record,
+    type: isSafetyFinding(record.safetyLabel) ? record.safetyLabel : record.isAnomaly ? 'DRIFT_ANOMALY' : 'DRIFT',
+    local: localMessages.get(record.requestId),
+  }))
+
+  // Totals for the range, unless a label is selected; then the alerts listed
+  const summary = fetchedSummary && withLiveEvents(fetchedSummary, liveAlerts)
+  const criticalAlerts = summary && !label ? summary.severity.critical : alerts.filter(a => a.severity === 'critical').length
+  const warningAlerts = summary && !label ? summary.severity.warning : alerts.filter(a => a.severity === 'warning').length
 
   return (
     <div className="flex-1 overflow-y-auto p-6 dark:bg-[#0c0c0c] bg-slate-50">
@@ -64,7 +78,7 @@ export default function AlertsView({ messages, flaggedSessions, onNavigateToSess
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-2xl font-bold dark:text-white text-slate-900">Alerts</h2>
-            <p className="text-sm dark:text-white/50 text-slate-600 mt-1">Security and drift alerts from your LLM interactions</p>
+            <p className="text-sm dark:text-white/50 text-slate-600 mt-1">Security and drift alerts across all LLM traffic</p>
           </div>
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2 px-3 py-1.5 bg-[#ef4444]/10 border border-[#ef4444]/20 rounded-lg shadow-sm">
@@ -78,18 +92,53 @@ export default function AlertsView({ messages, flaggedSessions, onNavigateToSess
           </div>
         </div>
 
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <AnalyticsFilterBar
+              filters={filters}
+              onChange={onFiltersChange}
+              environments={summary?.environments ?? []}
+              models={summary?.models ?? []}
+            />
+            <select
+              value={minSeverity}
+              onChange={(e) => setMinSeverity(e.target.value as 'warning' | 'critical')}
+              className={selectClassName}
+              aria-label="Minimum severity"
+            >
+              <option value="warning">Warnings and critical</option>
+              <option value="critical">Critical only</option>
+            </select>
+            <select value={label} onChange={(e) => setLabel(e.target.value)} className={selectClassName} aria-label="Safety label">
+              <option value="">All labels</option>
+              {SAFETY_LABELS.map((safetyLabel) => (
+                <option key={safetyLabel} value={safetyLabel}>{safetyLabel}</option>
+              ))}
+            </select>
+          </div>
+          <StreamStatusBadge status={streamStatus} />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-3 bg-[#ef4444]/10 border border-[#ef4444]/20 rounded-lg text-sm text-[#ef4444]">
+            <span className="material-symbols-outlined text-lg">cloud_off</span>
+            Alerts unavailable: {error}
+          </div>
+        )}
+        {alerts.length >= ALERT_LIMIT && (
+          <p className="text-xs dark:text-white/40 text-slate-500">Showing the {ALERT_LIMIT} most recent alerts; narrow the time range to see older ones.</p>
+        )}
+
         {/* Alerts List */}
         <div className="space-y-3">
           {alerts.length === 0 ? (
             <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-12 text-center shadow-sm">
               <span className="material-symbols-outlined text-6xl dark:text-white/20 text-slate-300 mb-4 block">notifications_off</span>
               <p className="text-lg font-medium dark:text-white/50 text-slate-600">No alerts</p>
-              <p className="text-sm dark:text-white/30 text-slate-400 mt-2">All messages are within safe thresholds</p>
+              <p className="text-sm dark:text-white/30 text-slate-400 mt-2">All requests in this range are within safe thresholds</p>
             </div>
           ) : (
             alerts.map((alert) => {
-              if (!alert) return null
-              
               const severityColors: Record<'critical' | 'warning', { bg: string; border: string; text: string; icon: string }> = {
                 critical: {
                   bg: 'bg-[#ef4444]/10',
@@ -106,10 +155,11 @@ export default function AlertsView({ messages, flaggedSessions, onNavigateToSess
               }
               
               const colors = severityColors[alert.severity as 'critical' | 'warning']
+              const local = alert.local
               
               return (
                 <div
-                  key={alert.id}
+                  key={alert.requestId}
                   className={`dark:bg-[#1a1a1a] bg-white border ${colors.border} rounded-lg p-4 hover:dark:bg-[#1a1a1a]/80 hover:bg-slate-50 shadow-sm`}
                 >
                   <div className="flex items-start gap-4">
@@ -125,19 +175,41 @@ export default function AlertsView({ messages, flaggedSessions, onNavigateToSess
                           {alert.type}
                         </span>
                         <span className="text-xs dark:text-white/40 text-slate-500">
-                          {alert.timestamp.toLocaleString()}
+                          {new Date(alert.timestamp).toLocaleString()}
                         </span>
                       </div>
-                      <p className="text-sm dark:text-white/70 text-slate-700 mb-2 line-clamp-2">{alert.message}...</p>
-                      <div className="flex items-center gap-4 text-xs dark:text-white/50 text-slate-600">
-                        {alert.safetyScore !== undefined && (
-                          <span>Safety: {(alert.safetyScore * 100).toFixed(0)}%</span>
+                      <p className="text-sm dark:text-white/70 text-slate-700 mb-2 line-clamp-2">
+                        {local ? `${local.content.substring(0, 100)}...` : `${alert.endpoint} • ${alert.modelName}${alert.environment ? ` • ${alert.environment}` : ''}`}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-4 text-xs dark:text-white/50 text-slate-600">
+                        {isSafetyFinding(alert.safetyLabel) && (
+                          <span>Label confidence: {(alert.safetyScore * 100).toFixed(0)}%</span>
+                        )}
+                        {alert.baselineReady && (
+                          <span>Drift: +{(alert.driftScore * 100).toFixed(0)}%{alert.isAnomaly && ` (z ${alert.zScore.toFixed(1)})`}</span>
                         )}
-                        {alert.driftScore !== undefined && (
-                          <span>Drift: +{(alert.driftScore * 100).toFixed(0)}%</span>
+                        {local && (local.safetyScore !== undefined || local.driftScore !== undefined) && (
+                          <span title="Scores the gateway estimated when the response was returned">
+                            Gateway estimate: {local.safetyLabel || 'CLEAN'}
+                            {local.safetyScore !== undefined && `, safety ${(local.safetyScore * 100).toFixed(0)}%`}
+                            {local.driftScore !== undefined && `, drift ${(local.driftScore * 100).toFixed(0)}%`}
+                          </span>
                         )}
-                        <span className="font-mono">ID: {alert.requestId?.substring(0, 8)}</span>
+                        <span className="font-mono">ID: {alert.requestId.substring(0, 8)}</span>
                       </div>
+                      {'patterns' in alert && alert.patterns.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {alert.patterns.map((pattern, idx) => (
+                            <span
+                              key={idx}
+                              title={pattern.details}
+                              className="text-xs font-mono px-2 py-0.5 rounded bg-[#ef4444]/10 text-[#ef4444] border border-[#ef4444]/20"
+                            >
+                              {pattern.patternType || 'PATTERN'} • {pattern.affectedRequests} requests • {(pattern.confidence * 100).toFixed(0)}%
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <button className="dark:text-white/40 text-slate-400 hover:dark:text-white hover:text-slate-700">
                       <span className="material-symbols-outlined">more_vert</span>
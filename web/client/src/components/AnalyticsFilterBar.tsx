@@ -0,0 +1,61 @@
+import { AnalyticsFilters, TIME_RANGES, TimeRange } from '../utils/analyticsApi'
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters
+  onChange: (filters: AnalyticsFilters) => void
+  environments: string[]
+  models: string[]
+}
+
+const selectClassName = 'text-sm dark:bg-[#1a1a1a] bg-white dark:text-white text-slate-900 dark:border-[#27272a] border-slate-200 border rounded-lg px-3 py-1.5 shadow-sm focus:outline-none focus:border-[#facc15]'
+
+export default function AnalyticsFilterBar({ filters, onChange, environments, models }: AnalyticsFilterBarProps) {
+  // Keep the current selection listed even if it has no traffic in the new range
+  const environmentOptions = filters.environment && !environments.includes(filters.environment)
+    ? [...environments, filters.environment]
+    : environments
+  const modelOptions = filters.model && !models.includes(filters.model) ? [...models, filters.model] : models
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-0.5 shadow-sm">
+        {(Object.keys(TIME_RANGES) as TimeRange[]).map((range) => (
+          <button
+            key={range}
+            onClick={() => onChange({ ...filters, range })}
+            title={TIME_RANGES[range].label}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              filters.range === range
+                ? 'bg-[#facc15] text-black font-bold'
+                : 'dark:text-white/60 text-slate-600 hover:dark:text-white hover:text-slate-900'
+            }`}
+          >
+            {range}
+          </button>
+        ))}
+      </div>
+      <select
+        value={filters.environment}
+        onChange={(e) => onChange({ ...filters, environment: e.target.value })}
+        className={selectClassName}
+        aria-label="Environment"
+      >
+        <option value="">All environments</option>
+        {environmentOptions.map((environment) => (
+          <option key={environment} value={environment}>{environment}</option>
+        ))}
+      </select>
+      <select
+        value={filters.model}
+        onChange={(e) => onChange({ ...filters, model: e.target.value })}
+        className={selectClassName}
+        aria-label="Model"
+      >
+        <option value="">All models</option>
+        {modelOptions.map((model) => (
+          <option key={model} value={model}>{model}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
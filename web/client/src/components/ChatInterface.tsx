@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import Sidebar from './Sidebar'
 import ChatWindow from './ChatWindow'
 import InspectorPanel from './InspectorPanel'
@@ -8,9 +8,12 @@ import TraceModal from './TraceModal'
 import Dashboard from './Dashboard'
 import AlertsView from './AlertsView'
 import SettingsModal from './SettingsModal'
-import { evaluateRules } from '../utils/rulesStorage'
 import { saveMessages, loadMessages, saveFlaggedSessions, loadFlaggedSessions, saveSessionMessages, loadSessionMessages, getAllSessionIds, deleteSession } from '../utils/messageStorage'
-import { getApiUrl } from '../config'
+import { getApiHeaders, getApiUrl } from '../config'
+import { streamChat, ChatStreamError } from '../utils/chatStream'
+import { AnalyticsFilters, DEFAULT_ANALYTICS_FILTERS } from '../utils/analyticsApi'
+import { useAnalysisStream } from '../hooks/useAnalysisStream'
+import { ACTION_LABELS } from '../utils/rulesApi'
 
 interface Message {
   id: string
@@ -25,25 +28,28 @@ interface Message {
   driftScore?: number
   baselineReady?: boolean
   requestId?: string
+  conversationId?: string
 }
 
-interface ChatResponse {
-  requestId: string
-  response: string
-  tokensIn: number
-  tokensOut: number
-  modelName: string
-  modelVersion: string
-  safetyScore?: number
-  safetyLabel?: 'CLEAN' | 'TOXIC' | 'PII' | 'JAILBREAK' | 'PROMPT_INJECTION' | 'RISKY'
-  driftScore?: number
-  baselineReady?: boolean
+// Prior turns to send with the next prompt. Local-only entries (errors, feedback
+// toasts) are skipped, as are user turns that never got an answer.
+function buildHistory(msgs: Message[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+  const turns = msgs.filter(m =>
+    !m.id.startsWith('error-') && !m.id.startsWith('feedback-') && !m.id.startsWith('stream-')
+  )
+  return turns
+    .filter((m, i) => m.role === 'assistant' || turns[i + 1]?.role === 'assistant')
+    .map(m => ({ role: m.role, content: m.content }))
 }
 
+// Detection rules are evaluated by the analyzer; their matches arrive on the stream
+const RULE_MATCH_FILTER = { matchedRules: true }
+
 function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null)
   const [activeView, setActiveView] = useState('sessions')
@@ -53,7 +59,9 @@ function ChatInterface() {
   const [showTraceModal, setShowTraceModal] = useState(false)
   const [showSettingsModal, setShowSettingsModal] = useState(false)
   const [flaggedSessions, setFlaggedSessions] = useState<Set<string>>(loadFlaggedSessions())
+  const [analyticsFilters, setAnalyticsFilters] = useState<AnalyticsFilters>(DEFAULT_ANALYTICS_FILTERS)
   const [ruleTriggered, setRuleTriggered] = useState<{ ruleName: string; action: string } | null>(null)
+  const notifiedRuleMatchesRef = useRef<Set<string>>(new Set())
   const [sessionMessages, setSessionMessages] = useState<Map<string, Message[]>>(new Map())
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null)
 
@@ -123,6 +131,30 @@ function ChatInterface() {
     }
   }, [flaggedSessions])
 
+  // Show rule matches for this browser's own requests as the analyzer reports them
+  const { events: ruleMatchEvents } = useAnalysisStream(RULE_MATCH_FILTER, 50)
+  useEffect(() => {
+    const ownRequestIds = new Set(messages.map(m => m.requestId).filter(Boolean))
+    for (const event of ruleMatchEvents) {
+      if (!ownRequestIds.has(event.requestId) || notifiedRuleMatchesRef.current.has(event.requestId)) continue
+      notifiedRuleMatchesRef.current.add(event.requestId)
+
+      for (const match of event.ruleMatches) {
+        const action = match.actions.map(type => ACTION_LABELS[type]).join(', ') || 'Flagged'
+        console.log(`[Rule] ${match.name} matched ${event.requestId}. Actions: ${action}`)
+        setRuleTriggered({ ruleName: match.name, action })
+        setTimeout(() => setRuleTriggered(null), 5000)
+
+        if (JSON.parse(localStorage.getItem('llm-sentinel-notifications') ?? 'false') && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification('LLM Sentinel Alert', {
+            body: `Rule "${match.name}" matched: ${event.safetyLabel || 'detection rule'}`,
+            icon: '/favicon.ico',
+          })
+        }
+      }
+    }
+  }, [ruleMatchEvents, messages])
+
   // Get model name from last assistant message
   useEffect(() => {
     const lastAssistant = messages.filter(m => m.role === 'assistant').pop()
@@ -336,7 +368,7 @@ function ChatInterface() {
     try {
       await fetch(getApiUrl('/api/feedback'), {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getApiHeaders(),
         body: JSON.stringify({ requestId, rating }),
       })
       console.log(`[Feedback] Sent ${rating} for ${requestId}`)
@@ -374,30 +406,26 @@ function ChatInterface() {
     setIsLoading(true)
     setError(null)
 
+    // Placeholder assistant message that tokens are appended to as they stream in
+    const streamingId = `stream-${Date.now()}`
+
     try {
-      const response = await fetch(getApiUrl('/api/chat'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: userMessage.content }),
+      // Continue the conversation of the last answered turn, if any
+      const conversationId = messages.filter(m => m.conversationId).pop()?.conversationId
+      const data = await streamChat({
+        message: userMessage.content,
+        conversationId,
+        history: buildHistory(messages),
+      }, (text) => {
+        setStreamingMessageId(streamingId)
+        setMessages((prev) => {
+          if (!prev.some(m => m.id === streamingId)) {
+            return [...prev, { id: streamingId, role: 'assistant', content: text, timestamp: new Date() }]
+          }
+          return prev.map(m => m.id === streamingId ? { ...m, content: m.content + text } : m)
+        })
       })
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        const errorMessage = errorData.details || errorData.error || 'Failed to get response'
-        
-        // Handle rate limit errors (429) specially
-        if (response.status === 429 || errorData.errorType === 'rate_limit') {
-          const retryAfter = errorData.retryAfter || 60
-          throw new Error(`Rate limit exceeded. Vertex AI is temporarily unavailable. Please wait ${retryAfter} seconds before trying again.`)
-        }
-        
-        throw new Error(errorMessage)
-      }
-
-      const data: ChatResponse = await response.json()
-
       const assistantMessage: Message = {
         id: data.requestId,
         role: 'assistant',
@@ -411,10 +439,11 @@ function ChatInterface() {
         driftScore: data.driftScore,
         baselineReady: data.baselineReady,
         requestId: data.requestId,
+        conversationId: data.conversationId,
       }
 
       setMessages((prev) => {
-        const updated = [...prev, assistantMessage]
+        const updated = [...prev.filter(m => m.id !== streamingId), assistantMessage]
         // Ensure session ID is set when we add the first assistant message
         if (!currentSessionId && prev.length > 0) {
           const sessionId = getSessionIdFromMessages(updated)
@@ -424,46 +453,23 @@ function ChatInterface() {
       })
       // Auto-select the new assistant message for inspector
       setSelectedMessage(assistantMessage)
-      
-      // Evaluate rules
-      const ruleResult = evaluateRules(
-        assistantMessage.safetyScore,
-        assistantMessage.safetyLabel,
-        assistantMessage.driftScore
-      )
-      
-      if (ruleResult.matched && ruleResult.rule) {
-        console.log(`[Rule] ${ruleResult.rule.name} triggered! Action: ${ruleResult.action}`)
-        
-        // Show visual feedback
-        setRuleTriggered({
-          ruleName: ruleResult.rule.name,
-          action: ruleResult.action || 'Unknown',
-        })
-        
-        // Auto-hide after 5 seconds
-        setTimeout(() => setRuleTriggered(null), 5000)
-        
-        // Execute action based on rule
-        if (ruleResult.action === 'Send Alert') {
-          // Show browser notification if enabled
-          if (Notification.permission === 'granted') {
-            new Notification('LLM Sentinel Alert', {
-              body: `Rule "${ruleResult.rule.name}" triggered: ${assistantMessage.safetyLabel || 'Safety issue detected'}`,
-              icon: '/favicon.ico',
-            })
-          }
-        } else if (ruleResult.action === 'Block Request') {
-          // In production, this would prevent the response
-          console.warn('[Rule] Request would be blocked in production')
-        }
-      }
+
     } catch (err) {
       let errorMessage = 'An unexpected error occurred'
       
-      if (err instanceof TypeError && err.message === 'Failed to fetch') {
+      if (err instanceof ChatStreamError && (err.payload.errorType === 'quota_exceeded' || err.payload.errorType === 'budget_exceeded')) {
+        // Tenant budget used up - retrying soon won't help
+        errorMessage = `${err.payload.details || 'Usage quota exceeded'}. The budget resets at ${new Date(err.payload.resetAt || Date.now()).toLocaleString()}.`
+      } else if (err instanceof ChatStreamError && err.payload.errorType === 'rule_blocked') {
+        // A detection rule's block action; lifts by itself when it expires
+        errorMessage = `${err.payload.details || 'Request blocked by a detection rule'}. Try again in ${err.payload.retryAfter || 60} seconds.`
+      } else if (err instanceof ChatStreamError && (err.status === 429 || err.payload.errorType === 'rate_limit')) {
+        // Handle rate limit errors (429) specially
+        const retryAfter = err.payload.retryAfter || 60
+        errorMessage = `Rate limit exceeded. Vertex AI is temporarily unavailable. Please wait ${retryAfter} seconds before trying again.`
+      } else if (err instanceof TypeError && err.message === 'Failed to fetch') {
         // Network error - provide helpful diagnostics
-        const apiUrl = getApiUrl('/api/chat')
+        const apiUrl = getApiUrl('/api/chat/stream')
         errorMessage = `Network error: Cannot reach Gateway API at ${apiUrl}. ` +
           `Please check: 1) Gateway service is running, 2) API URL is configured correctly, ` +
           `3) CORS is enabled on Gateway.`
@@ -479,9 +485,11 @@ function ChatInterface() {
         content: `Error: ${errorMessage}`,
         timestamp: new Date(),
       }
-      setMessages((prev) => [...prev, errorMsg])
+      // Drop any partially streamed output in favour of the error
+      setMessages((prev) => [...prev.filter(m => m.id !== streamingId), errorMsg])
     } finally {
       setIsLoading(false)
+      setStreamingMessageId(null)
     }
   }
 
@@ -538,7 +546,7 @@ function ChatInterface() {
             <>
               <ChatWindow
                 messages={filteredMessages}
-                isLoading={isLoading}
+                isLoading={isLoading && !streamingMessageId}
                 onMessageSelect={setSelectedMessage}
                 selectedMessageId={selectedMessage?.id}
                 searchQuery={searchQuery}
@@ -555,11 +563,18 @@ function ChatInterface() {
               />
             </>
           ) : activeView === 'dashboard' ? (
-            <Dashboard messages={messages} flaggedSessions={flaggedSessions} />
+            <Dashboard
+              messages={messages}
+              flaggedSessions={flaggedSessions}
+              filters={analyticsFilters}
+              onFiltersChange={setAnalyticsFilters}
+            />
           ) : activeView === 'alerts' ? (
             <AlertsView 
               messages={messages} 
               flaggedSessions={flaggedSessions}
+              filters={analyticsFilters}
+              onFiltersChange={setAnalyticsFilters}
               onNavigateToSession={handleNavigateToSession}
               onDeleteFlaggedSession={handleDeleteFlaggedSession}
             />
@@ -653,10 +668,7 @@ function ChatInterface() {
       <NewRuleModal 
         isOpen={showNewRuleModal} 
         onClose={() => setShowNewRuleModal(false)}
-        onRuleCreated={() => {
-          // Rules are stored in localStorage, no need to refresh
-          console.log('[ChatInterface] Rule created, stored in localStorage')
-        }}
+        onRuleSaved={(rule) => console.log(`[ChatInterface] Rule saved: ${rule.name}`)}
       />
       <TraceModal isOpen={showTraceModal} onClose={() => setShowTraceModal(false)} message={selectedMessage} />
       <SettingsModal isOpen={showSettingsModal} onClose={() => setShowSettingsModal(false)} />
@@ -1,3 +1,9 @@
+import AnalyticsFilterBar from './AnalyticsFilterBar'
+import StreamStatusBadge from './StreamStatusBadge'
+import { useAnalytics } from '../hooks/useAnalytics'
+import { useAnalysisStream } from '../hooks/useAnalysisStream'
+import { AnalyticsFilters, fetchActivity, fetchSummary, mergeActivity, withLiveEvents } from '../utils/analyticsApi'
+
 interface Message {
   id: string
   role: 'user' | 'assistant'
@@ -16,32 +22,38 @@ interface Message {
 interface DashboardProps {
   messages: Message[]
   flaggedSessions: Set<string>
+  filters: AnalyticsFilters
+  onFiltersChange: (filters: AnalyticsFilters) => void
 }
 
-export default function Dashboard({ messages, flaggedSessions }: DashboardProps) {
-  // Calculate statistics
-  const totalMessages = messages.length
+export default function Dashboard({ messages, flaggedSessions, filters, onFiltersChange }: DashboardProps) {
+  // Fleet-wide figures come from the analyzer; the gateway's demo scores on
+  // this browser's messages are shown next to them for comparison
+  const filterKey = JSON.stringify(filters)
+  const { data: fetchedSummary, error, loading } = useAnalytics(() => fetchSummary(filters), filterKey)
+  const { data: fetchedActivity } = useAnalytics(() => fetchActivity(filters, { limit: 5 }), filterKey)
+
+  // Requests analyzed since the last refresh are pushed live
+  const { events: liveEvents, status: streamStatus } = useAnalysisStream({ environment: filters.environment, model: filters.model })
+  const summary = fetchedSummary && withLiveEvents(fetchedSummary, liveEvents)
+  const recentActivity = fetchedActivity && mergeActivity(liveEvents, fetchedActivity, 5)
+
+  const requests = summary?.requests ?? 0
+  const severity = summary?.severity ?? { critical: 0, warning: 0, clean: 0 }
+  const cleanRate = requests > 0 ? severity.clean / requests : 1
+  const avgDriftScore = summary?.avgDriftScore ?? null
+
   const assistantMessages = messages.filter(m => m.role === 'assistant')
-  const totalTokens = messages.reduce((sum, m) => sum + (m.tokensIn || 0) + (m.tokensOut || 0), 0)
-  
-  const safetyStats = {
-    clean: assistantMessages.filter(m => m.safetyLabel === 'CLEAN' || (m.safetyScore && m.safetyScore >= 0.7)).length,
-    risky: assistantMessages.filter(m => m.safetyLabel === 'RISKY' || m.safetyLabel === 'PII' || (m.safetyScore && m.safetyScore >= 0.3 && m.safetyScore < 0.7)).length,
-    critical: assistantMessages.filter(m => m.safetyLabel === 'TOXIC' || m.safetyLabel === 'JAILBREAK' || m.safetyLabel === 'PROMPT_INJECTION' || (m.safetyScore && m.safetyScore < 0.3)).length,
-  }
-  
-  const avgSafetyScore = assistantMessages.length > 0
+  const gatewaySafetyScore = assistantMessages.length > 0
     ? assistantMessages.reduce((sum, m) => sum + (m.safetyScore || 1), 0) / assistantMessages.length
-    : 1
-  
-  const avgDriftScore = assistantMessages.filter(m => m.driftScore !== undefined).length > 0
-    ? assistantMessages
-        .filter(m => m.driftScore !== undefined)
-        .reduce((sum, m) => sum + (m.driftScore || 0), 0) / assistantMessages.filter(m => m.driftScore !== undefined).length
-    : 0
-  
+    : null
+  const gatewayDriftMessages = assistantMessages.filter(m => m.driftScore !== undefined)
+  const gatewayDriftScore = gatewayDriftMessages.length > 0
+    ? gatewayDriftMessages.reduce((sum, m) => sum + (m.driftScore || 0), 0) / gatewayDriftMessages.length
+    : null
+
   const flaggedCount = flaggedSessions.size
-  const uniqueModels = new Set(messages.filter(m => m.modelName).map(m => m.modelName)).size
+  const modelCount = filters.model ? 1 : summary?.models.length ?? 0
 
   return (
     <div className="flex-1 overflow-y-auto p-6 dark:bg-[#0c0c0c] bg-slate-50">
@@ -50,7 +62,10 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-2xl font-bold dark:text-white text-slate-900">Dashboard</h2>
-            <p className="text-sm dark:text-white/50 text-slate-600 mt-1">Overview of LLM Sentinel activity</p>
+            <p className="text-sm dark:text-white/50 text-slate-600 mt-1">
+              Fleet-wide LLM Sentinel activity, as analyzed by the analyzer
+              {summary?.source === 'memory' && ' (recent requests only; BigQuery is disabled)'}
+            </p>
           </div>
           <a
             href="https://app.datadoghq.com/dashboard/dna-pyc-73v"
@@ -63,15 +78,32 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
           </a>
         </div>
 
+        <div className="flex items-center justify-between gap-4">
+          <AnalyticsFilterBar
+            filters={filters}
+            onChange={onFiltersChange}
+            environments={summary?.environments ?? []}
+            models={summary?.models ?? []}
+          />
+          <StreamStatusBadge status={streamStatus} />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-3 bg-[#ef4444]/10 border border-[#ef4444]/20 rounded-lg text-sm text-[#ef4444]">
+            <span className="material-symbols-outlined text-lg">cloud_off</span>
+            Analytics unavailable: {error}
+          </div>
+        )}
+
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 ${loading && summary ? 'opacity-60' : ''}`}>
           <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-4 shadow-sm">
             <div className="flex items-center justify-between mb-2">
-              <span className="dark:text-white/50 text-slate-600 text-sm">Total Messages</span>
+              <span className="dark:text-white/50 text-slate-600 text-sm">Requests</span>
               <span className="material-symbols-outlined text-[#facc15]">chat</span>
             </div>
-            <div className="text-2xl font-bold dark:text-white text-slate-900">{totalMessages}</div>
-            <div className="text-xs dark:text-white/40 text-slate-500 mt-1">{assistantMessages.length} assistant responses</div>
+            <div className="text-2xl font-bold dark:text-white text-slate-900">{requests.toLocaleString()}</div>
+            <div className="text-xs dark:text-white/40 text-slate-500 mt-1">{summary?.anomalies ?? 0} drift anomalies</div>
           </div>
 
           <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-4 shadow-sm">
@@ -79,18 +111,18 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
               <span className="dark:text-white/50 text-slate-600 text-sm">Total Tokens</span>
               <span className="material-symbols-outlined text-[#facc15]">token</span>
             </div>
-            <div className="text-2xl font-bold dark:text-white text-slate-900">{totalTokens.toLocaleString()}</div>
-            <div className="text-xs dark:text-white/40 text-slate-500 mt-1">{uniqueModels} model{uniqueModels !== 1 ? 's' : ''} used</div>
+            <div className="text-2xl font-bold dark:text-white text-slate-900">{(summary?.tokens ?? 0).toLocaleString()}</div>
+            <div className="text-xs dark:text-white/40 text-slate-500 mt-1">{modelCount} model{modelCount !== 1 ? 's' : ''} used</div>
           </div>
 
           <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-4 shadow-sm">
             <div className="flex items-center justify-between mb-2">
-              <span className="dark:text-white/50 text-slate-600 text-sm">Avg Safety Score</span>
+              <span className="dark:text-white/50 text-slate-600 text-sm">Clean Responses</span>
               <span className="material-symbols-outlined text-[#10b981]">verified_user</span>
             </div>
-            <div className="text-2xl font-bold dark:text-white text-slate-900">{(avgSafetyScore * 100).toFixed(0)}%</div>
+            <div className="text-2xl font-bold dark:text-white text-slate-900">{(cleanRate * 100).toFixed(0)}%</div>
             <div className="text-xs dark:text-white/40 text-slate-500 mt-1">
-              {avgSafetyScore >= 0.7 ? 'Safe' : avgSafetyScore >= 0.3 ? 'Risky' : 'Critical'}
+              Gateway estimate: {gatewaySafetyScore !== null ? `${(gatewaySafetyScore * 100).toFixed(0)}% safe` : 'n/a'}
             </div>
           </div>
 
@@ -99,9 +131,11 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
               <span className="dark:text-white/50 text-slate-600 text-sm">Avg Drift Score</span>
               <span className="material-symbols-outlined text-[#facc15]">trending_up</span>
             </div>
-            <div className="text-2xl font-bold dark:text-white text-slate-900">{(avgDriftScore * 100).toFixed(2)}%</div>
+            <div className="text-2xl font-bold dark:text-white text-slate-900">
+              {avgDriftScore !== null ? `${(avgDriftScore * 100).toFixed(2)}%` : 'No baseline'}
+            </div>
             <div className="text-xs dark:text-white/40 text-slate-500 mt-1">
-              {avgDriftScore < 0.05 ? 'Stable' : avgDriftScore < 0.15 ? 'Moderate' : 'High drift'}
+              Gateway estimate: {gatewayDriftScore !== null ? `${(gatewayDriftScore * 100).toFixed(2)}%` : 'n/a'}
             </div>
           </div>
 
@@ -122,36 +156,36 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
             <div>
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm dark:text-white/70 text-slate-700">Clean</span>
-                <span className="text-sm font-bold text-[#10b981]">{safetyStats.clean}</span>
+                <span className="text-sm font-bold text-[#10b981]">{severity.clean}</span>
               </div>
               <div className="h-2 dark:bg-white/5 bg-slate-100 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-[#10b981] rounded-full"
-                  style={{ width: `${totalMessages > 0 ? (safetyStats.clean / totalMessages) * 100 : 0}%` }}
+                  style={{ width: `${requests > 0 ? (severity.clean / requests) * 100 : 0}%` }}
                 />
               </div>
             </div>
             <div>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm dark:text-white/70 text-slate-700">Risky</span>
-                <span className="text-sm font-bold text-[#fb923c]">{safetyStats.risky}</span>
+                <span className="text-sm dark:text-white/70 text-slate-700">Warning</span>
+                <span className="text-sm font-bold text-[#fb923c]">{severity.warning}</span>
               </div>
               <div className="h-2 dark:bg-white/5 bg-slate-100 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-[#fb923c] rounded-full"
-                  style={{ width: `${totalMessages > 0 ? (safetyStats.risky / totalMessages) * 100 : 0}%` }}
+                  style={{ width: `${requests > 0 ? (severity.warning / requests) * 100 : 0}%` }}
                 />
               </div>
             </div>
             <div>
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm dark:text-white/70 text-slate-700">Critical</span>
-                <span className="text-sm font-bold text-[#ef4444]">{safetyStats.critical}</span>
+                <span className="text-sm font-bold text-[#ef4444]">{severity.critical}</span>
               </div>
               <div className="h-2 dark:bg-white/5 bg-slate-100 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-[#ef4444] rounded-full"
-                  style={{ width: `${totalMessages > 0 ? (safetyStats.critical / totalMessages) * 100 : 0}%` }}
+                  style={{ width: `${requests > 0 ? (severity.critical / requests) * 100 : 0}%` }}
                 />
               </div>
             </div>
@@ -162,28 +196,32 @@ export default function Dashboard({ messages, flaggedSessions }: DashboardProps)
         <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-lg p-6 shadow-sm">
           <h3 className="text-lg font-bold dark:text-white text-slate-900 mb-4">Recent Activity</h3>
           <div className="space-y-3">
-            {messages.slice(-5).reverse().map((msg) => (
-              <div key={msg.id} className="flex items-center gap-3 p-3 dark:bg-[#0c0c0c] bg-slate-50 rounded-lg dark:border-[#27272a] border-slate-200 border shadow-sm">
+            {(recentActivity ?? []).map((record) => (
+              <div key={record.requestId} className="flex items-center gap-3 p-3 dark:bg-[#0c0c0c] bg-slate-50 rounded-lg dark:border-[#27272a] border-slate-200 border shadow-sm">
                 <div className={`w-2 h-2 rounded-full ${
-                  msg.safetyScore && msg.safetyScore < 0.3 ? 'bg-[#ef4444]' :
-                  msg.safetyScore && msg.safetyScore < 0.7 ? 'bg-[#fb923c]' : 'bg-[#10b981]'
+                  record.severity === 'critical' ? 'bg-[#ef4444]' :
+                  record.severity === 'warning' ? 'bg-[#fb923c]' : 'bg-[#10b981]'
                 }`} />
                 <div className="flex-1 min-w-0">
-                  <div className="text-sm dark:text-white text-slate-900 truncate">{msg.content.substring(0, 60)}...</div>
+                  <div className="text-sm dark:text-white text-slate-900 truncate">
+                    {record.endpoint} • {record.modelName}{record.environment ? ` • ${record.environment}` : ''}
+                  </div>
                   <div className="text-xs dark:text-white/40 text-slate-500 mt-1">
-                    {msg.timestamp.toLocaleTimeString()} • {msg.safetyLabel || 'CLEAN'}
+                    {new Date(record.timestamp).toLocaleString()} • {record.safetyLabel}
+                    {record.baselineReady && ` • drift ${(record.driftScore * 100).toFixed(1)}%`}
+                    {record.isAnomaly && ' • anomaly'}
                   </div>
                 </div>
                 <div className="text-xs dark:text-white/50 text-slate-600 font-mono">
-                  {((msg.tokensIn || 0) + (msg.tokensOut || 0)).toLocaleString()} tokens
+                  {(record.tokensTotal ?? 0).toLocaleString()} tokens
                 </div>
               </div>
             ))}
-            {messages.length === 0 && (
+            {recentActivity?.length === 0 && (
               <div className="text-center py-12 dark:bg-[#0c0c0c] bg-slate-50 rounded-lg dark:border-[#27272a] border-slate-200 border">
                 <span className="material-symbols-outlined text-6xl dark:text-white/20 text-slate-300 mb-4 block">inbox</span>
-                <p className="text-lg font-medium dark:text-white/50 text-slate-600">No activity yet</p>
-                <p className="text-sm dark:text-white/30 text-slate-400 mt-2">Start a conversation to see activity here</p>
+                <p className="text-lg font-medium dark:text-white/50 text-slate-600">No activity in this range</p>
+                <p className="text-sm dark:text-white/30 text-slate-400 mt-2">Requests appear here once the analyzer has processed them</p>
               </div>
             )}
           </div>
@@ -1,14 +1,10 @@
 import { useEffect, useState, useRef } from 'react'
+import { useAnalysisStream } from '../hooks/useAnalysisStream'
+import { ActivityRecord, fetchActivity, isSafetyFinding } from '../utils/analyticsApi'
+import { StreamEvent } from '../utils/analysisStream'
 
 interface Message {
   id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: Date
-  safetyScore?: number
-  safetyLabel?: string
-  tokensIn?: number
-  tokensOut?: number
   requestId?: string
 }
 
@@ -17,69 +13,65 @@ interface LiveTickerProps {
   onLogClick?: (messageId?: string, sessionId?: string) => void
 }
 
+const TICKER_FILTERS = { range: '1h', environment: '', model: '' } as const
+const STREAM_FILTER = {}
+const MAX_LOGS = 20
+
+function logText(record: ActivityRecord | StreamEvent): string {
+  const source = `${record.endpoint} (${record.modelName}${record.environment ? `, ${record.environment}` : ''})`
+  const pattern = 'patterns' in record ? record.patterns[0] : undefined
+  if (pattern) {
+    return `[ALERT] ${record.timestamp} Attack pattern ${pattern.patternType || 'detected'}: ${pattern.affectedRequests} requests, ${record.safetyLabel} on ${source}`
+  }
+  if (record.severity === 'critical') {
+    return `[ALERT] ${record.timestamp} Sentinel: ${record.safetyLabel} detected on ${source}`
+  }
+  if (record.severity === 'warning') {
+    const reason = isSafetyFinding(record.safetyLabel)
+      ? `${record.safetyLabel} detected`
+      : `Drift ${(record.driftScore * 100).toFixed(0)}%${record.isAnomaly ? ` (anomaly, z ${record.zScore.toFixed(1)})` : ''}`
+    return `[WARN] ${record.timestamp} ${reason} on ${source}`
+  }
+  return `[INFO] ${record.timestamp} Analyzed ${record.requestId.substring(0, 8)} on ${source}: ${record.tokensTotal ?? 0} tokens, ${record.safetyLabel}`
+}
+
 export default function LiveTicker({ messages, onLogClick }: LiveTickerProps) {
   const [logEntries, setLogEntries] = useState<Array<{ text: string; messageId?: string; sessionId?: string }>>([])
-  const loggedMessageIdsRef = useRef<Set<string>>(new Set())
+  const loggedRequestIdsRef = useRef<Set<string>>(new Set())
 
-  useEffect(() => {
-    // Only generate logs for new messages (not already logged)
-    const newLogs: Array<{ text: string; messageId?: string; sessionId?: string }> = []
-    const loggedIds = loggedMessageIdsRef.current
-    
-    messages.forEach((msg) => {
-      // Skip if we've already logged this message
-      if (loggedIds.has(msg.id)) {
-        return
-      }
-      
-      const timestamp = msg.timestamp.toISOString()
-      const sessionId = msg.id.substring(0, 8)
-      
-      if (msg.role === 'user') {
-        newLogs.push({
-          text: `[INFO] ${timestamp} Gateway received request ${sessionId}... (${msg.content.length} chars)`,
-          messageId: msg.id,
-          sessionId,
-        })
-        loggedIds.add(msg.id)
-      } else if (msg.role === 'assistant') {
-        if (msg.safetyScore !== undefined && msg.safetyScore < 0.5) {
-          newLogs.push({
-            text: `[WARN] ${timestamp} Safety check: ${msg.safetyLabel || 'RISKY'} detected (score: ${(msg.safetyScore * 100).toFixed(0)}%)`,
-            messageId: msg.id,
-            sessionId,
-          })
-        } else {
-          newLogs.push({
-            text: `[INFO] ${timestamp} Response generated: ${msg.tokensIn || 0} in, ${msg.tokensOut || 0} out tokens`,
-            messageId: msg.id,
-            sessionId,
-          })
-        }
-        loggedIds.add(msg.id)
-        
-        if (msg.safetyLabel === 'PROMPT_INJECTION' || msg.safetyLabel === 'JAILBREAK') {
-          newLogs.push({
-            text: `[ALERT] ${timestamp} Sentinel Policy triggered: Blocked ${msg.safetyLabel} attempt`,
-            messageId: msg.id,
-            sessionId,
-          })
-        }
-      }
-    })
+  const { events } = useAnalysisStream(STREAM_FILTER, MAX_LOGS)
 
-    // Add system log only once when first message arrives
-    if (messages.length > 0 && !loggedIds.has('__system_init__')) {
-      newLogs.push({
-        text: `[DEBUG] ${new Date().toISOString()} Tokenizer warm-up complete. Model loaded.`,
+  // Fleet-wide traffic from the analyzer, not just this browser's messages
+  const appendLogs = (records: Array<ActivityRecord | StreamEvent>) => {
+    // Only log requests not already logged, oldest first
+    const loggedIds = loggedRequestIdsRef.current
+    const newLogs = [...records]
+      .reverse()
+      .filter(record => !loggedIds.has(record.requestId))
+      .map(record => {
+        loggedIds.add(record.requestId)
+        // Requests made from this browser open their message when clicked
+        const message = messages.find(m => m.requestId === record.requestId)
+        return { text: logText(record), messageId: message?.id }
       })
-      loggedIds.add('__system_init__')
-    }
 
     if (newLogs.length > 0) {
-      setLogEntries((prev) => [...prev, ...newLogs].slice(-20)) // Keep last 20 logs
+      setLogEntries((prev) => [...prev, ...newLogs].slice(-MAX_LOGS))
     }
-  }, [messages])
+  }
+  const appendLogsRef = useRef(appendLogs)
+  appendLogsRef.current = appendLogs
+
+  // Start with the last hour's requests, then follow the live stream
+  useEffect(() => {
+    fetchActivity(TICKER_FILTERS, { limit: MAX_LOGS })
+      .then(records => appendLogsRef.current(records))
+      .catch(err => console.warn('[LiveTicker] Failed to load recent activity:', err))
+  }, [])
+
+  useEffect(() => {
+    appendLogsRef.current(events)
+  }, [events])
 
   // Add periodic system logs
   useEffect(() => {
@@ -87,7 +79,7 @@ export default function LiveTicker({ messages, onLogClick }: LiveTickerProps) {
       setLogEntries((prev) => [
         ...prev,
         { text: `[INFO] ${new Date().toISOString()} Gateway connection established (tls_v1.3)` },
-      ].slice(-20))
+      ].slice(-MAX_LOGS))
     }, 30000) // Every 30 seconds
 
     return () => clearInterval(interval)
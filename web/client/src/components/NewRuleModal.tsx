@@ -1,41 +1,134 @@
-import { useState } from 'react'
-import { saveRule } from '../utils/rulesStorage'
+import { useEffect, useState } from 'react'
+import {
+  ACTION_LABELS,
+  BacktestResult,
+  backtestRule,
+  createRule,
+  Rule,
+  RuleAction,
+  RuleInput,
+  RULE_TEMPLATES,
+  RulesError,
+  updateRule,
+  validateRule,
+} from '../utils/rulesApi'
 
 interface NewRuleModalProps {
   isOpen: boolean
   onClose: () => void
-  onRuleCreated?: () => void
+  onRuleSaved?: (rule: Rule) => void
+  rule?: Rule | null // Edited instead of creating a new rule
 }
 
-export default function NewRuleModal({ isOpen, onClose, onRuleCreated }: NewRuleModalProps) {
+const DEFAULT_ACTIONS: Record<RuleAction['type'], RuleAction> = {
+  webhook: { type: 'webhook', url: '' },
+  datadog: { type: 'datadog', alertType: 'warning' },
+  tag_session: { type: 'tag_session', tag: '' },
+  block: { type: 'block', target: 'conversation', durationMinutes: 30 },
+}
+
+const BACKTEST_DAYS = [1, 7, 30]
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: 'text-[#ef4444]',
+  warning: 'text-[#fb923c]',
+  clean: 'text-[#10b981]',
+}
+
+const inputClass = 'w-full dark:bg-[#0c0c0c] bg-white dark:border-[#27272a] border-slate-200 dark:text-white text-slate-900 rounded-lg px-4 py-2 focus:outline-none focus:ring-1 focus:ring-[#facc15] focus:border-[#facc15] shadow-sm'
+const smallInputClass = 'dark:bg-[#0c0c0c] bg-white dark:border-[#27272a] border-slate-200 border dark:text-white text-slate-900 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-[#facc15]'
+
+export default function NewRuleModal({ isOpen, onClose, onRuleSaved, rule }: NewRuleModalProps) {
   const [ruleName, setRuleName] = useState('')
-  const [triggerCondition, setTriggerCondition] = useState('Safety Score < 0.3')
-  const [action, setAction] = useState('Block Request')
+  const [description, setDescription] = useState('')
+  const [expression, setExpression] = useState(RULE_TEMPLATES[0].expression)
+  const [actions, setActions] = useState<RuleAction[]>([])
+  const [enabled, setEnabled] = useState(true)
+  const [errors, setErrors] = useState<string[]>([])
+  const [checked, setChecked] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [backtestDays, setBacktestDays] = useState(7)
+  const [backtest, setBacktest] = useState<BacktestResult | null>(null)
+  const [backtesting, setBacktesting] = useState(false)
+
+  // Start from the edited rule, or a blank form
+  useEffect(() => {
+    if (!isOpen) return
+    setRuleName(rule?.name ?? '')
+    setDescription(rule?.description ?? '')
+    setExpression(rule?.expression ?? RULE_TEMPLATES[0].expression)
+    setActions(rule?.actions ?? [])
+    setEnabled(rule?.enabled ?? true)
+    setErrors([])
+    setChecked(false)
+    setBacktest(null)
+  }, [isOpen, rule])
 
   if (!isOpen) return null
 
-  const handleCreate = () => {
-    if (!ruleName.trim()) {
-      alert('Please enter a rule name')
-      return
+  const input = (): RuleInput => ({
+    name: ruleName.trim(),
+    ...(description.trim() && { description: description.trim() }),
+    expression,
+    actions,
+    enabled,
+  })
+
+  const handleError = (err: unknown) => {
+    if (err instanceof RulesError && err.errors.length > 0) {
+      setErrors(err.errors)
+    } else {
+      setErrors([err instanceof Error ? err.message : 'Failed to reach the rules API'])
+    }
+  }
+
+  const handleCheck = async () => {
+    try {
+      await validateRule(input())
+      setErrors([])
+      setChecked(true)
+    } catch (err) {
+      setChecked(false)
+      handleError(err)
+    }
+  }
+
+  // Results no longer describe the rule once it changes
+  const markEdited = () => {
+    setChecked(false)
+    setBacktest(null)
+  }
+
+  const handleBacktest = async () => {
+    setBacktesting(true)
+    try {
+      setBacktest(await backtestRule(input(), backtestDays, rule?.id))
+      setErrors([])
+    } catch (err) {
+      setBacktest(null)
+      handleError(err)
+    } finally {
+      setBacktesting(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const saved = rule ? await updateRule(rule.id, input()) : await createRule(input())
+      console.log(`[NewRule] Saved rule: ${saved.name} (${saved.expression})`)
+      onRuleSaved?.(saved)
+      onClose()
+    } catch (err) {
+      handleError(err)
+    } finally {
+      setSaving(false)
     }
+  }
 
-    saveRule({
-      name: ruleName.trim(),
-      triggerCondition,
-      action,
-      enabled: true,
-    })
-
-    console.log(`[NewRule] Created rule: ${ruleName} (${triggerCondition} → ${action})`)
-    
-    // Reset form
-    setRuleName('')
-    setTriggerCondition('Safety Score < 0.3')
-    setAction('Block Request')
-    
-    onRuleCreated?.()
-    onClose()
+  const updateAction = (index: number, action: RuleAction) => {
+    setActions(prev => prev.map((a, i) => (i === index ? action : a)))
+    markEdited()
   }
 
   return (
@@ -43,8 +136,8 @@ export default function NewRuleModal({ isOpen, onClose, onRuleCreated }: NewRule
       <div className="dark:bg-[#1a1a1a] bg-white dark:border-[#27272a] border-slate-200 border rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 dark:border-[#27272a] border-slate-200 border-b flex items-center justify-between">
           <h2 className="text-xl font-bold dark:text-white text-slate-900 flex items-center gap-2">
-            <span className="material-symbols-outlined text-[#facc15]">add_circle</span>
-            Create New Rule
+            <span className="material-symbols-outlined text-[#facc15]">{rule ? 'edit' : 'add_circle'}</span>
+            {rule ? 'Edit Rule' : 'Create New Rule'}
           </h2>
           <button
             onClick={onClose}
@@ -61,34 +154,233 @@ export default function NewRuleModal({ isOpen, onClose, onRuleCreated }: NewRule
               value={ruleName}
               onChange={(e) => setRuleName(e.target.value)}
               placeholder="e.g., Block SQL Injection Attempts"
-              className="w-full dark:bg-[#0c0c0c] bg-white dark:border-[#27272a] border-slate-200 dark:text-white text-slate-900 rounded-lg px-4 py-2 focus:outline-none focus:ring-1 focus:ring-[#facc15] focus:border-[#facc15] shadow-sm"
+              className={inputClass}
             />
           </div>
           <div>
-            <label className="block text-sm font-medium dark:text-white/70 text-slate-700 mb-2">Trigger Condition</label>
-            <select
-              value={triggerCondition}
-              onChange={(e) => setTriggerCondition(e.target.value)}
-              className="w-full dark:bg-[#0c0c0c] bg-white dark:border-[#27272a] border-slate-200 dark:text-white text-slate-900 rounded-lg px-4 py-2 focus:outline-none focus:ring-1 focus:ring-[#facc15] shadow-sm"
-            >
-              <option>Safety Score &lt; 0.3</option>
-              <option>Safety Score &lt; 0.5</option>
-              <option>Drift Score &gt; 0.4</option>
-              <option>Specific Safety Label</option>
-            </select>
+            <label className="block text-sm font-medium dark:text-white/70 text-slate-700 mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              className={inputClass}
+            />
           </div>
           <div>
-            <label className="block text-sm font-medium dark:text-white/70 text-slate-700 mb-2">Action</label>
-            <select
-              value={action}
-              onChange={(e) => setAction(e.target.value)}
-              className="w-full dark:bg-[#0c0c0c] bg-white dark:border-[#27272a] border-slate-200 dark:text-white text-slate-900 rounded-lg px-4 py-2 focus:outline-none focus:ring-1 focus:ring-[#facc15] shadow-sm"
-            >
-              <option>Block Request</option>
-              <option>Flag for Review</option>
-              <option>Send Alert</option>
-              <option>Log Only</option>
-            </select>
+            <label className="block text-sm font-medium dark:text-white/70 text-slate-700 mb-2">Condition</label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {RULE_TEMPLATES.map(template => (
+                <button
+                  key={template.label}
+                  onClick={() => {
+                    setExpression(template.expression)
+                    markEdited()
+                  }}
+                  className="px-2 py-1 text-xs rounded dark:bg-[#27272a] bg-slate-100 dark:text-white/70 text-slate-700 hover:dark:bg-[#3f3f46] hover:bg-slate-200"
+                >
+                  {template.label}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={expression}
+              onChange={(e) => {
+                setExpression(e.target.value)
+                markEdited()
+              }}
+              rows={3}
+              spellCheck={false}
+              className={`${inputClass} font-mono text-sm`}
+            />
+            <p className="text-xs dark:text-white/40 text-slate-500 mt-1">
+              Fields such as <code>safety.label</code>, <code>drift.score</code>, <code>event.tenantId</code> and <code>session.tags</code>;
+              operators <code>and or not == != &lt; &gt; in contains</code>; <code>count(condition within 10m by field)</code>.
+            </p>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium dark:text-white/70 text-slate-700">Actions</label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const type = e.target.value as RuleAction['type']
+                  if (type) {
+                    setActions(prev => [...prev, DEFAULT_ACTIONS[type]])
+                    markEdited()
+                  }
+                }}
+                className={smallInputClass}
+              >
+                <option value="">Add action…</option>
+                {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {actions.length === 0 && (
+              <div className="text-xs dark:text-white/40 text-slate-500">
+                No actions: matches are only shown in the live views.
+              </div>
+            )}
+            <div className="space-y-2">
+              {actions.map((action, index) => (
+                <div key={index} className="flex items-center gap-2 p-2 rounded-lg dark:bg-[#0c0c0c] bg-slate-50 dark:border-[#27272a] border-slate-200 border">
+                  <span className="text-xs font-bold dark:text-white/70 text-slate-700 w-28 shrink-0">{ACTION_LABELS[action.type]}</span>
+                  {action.type === 'webhook' && (
+                    <input
+                      type="url"
+                      value={action.url}
+                      onChange={(e) => updateAction(index, { ...action, url: e.target.value })}
+                      placeholder="https://hooks.example.com/sentinel"
+                      className={`${smallInputClass} flex-1`}
+                    />
+                  )}
+                  {action.type === 'datadog' && (
+                    <select
+                      value={action.alertType}
+                      onChange={(e) => updateAction(index, { ...action, alertType: e.target.value as typeof action.alertType })}
+                      className={smallInputClass}
+                    >
+                      <option value="error">error</option>
+                      <option value="warning">warning</option>
+                      <option value="info">info</option>
+                    </select>
+                  )}
+                  {action.type === 'tag_session' && (
+                    <input
+                      type="text"
+                      value={action.tag}
+                      onChange={(e) => updateAction(index, { ...action, tag: e.target.value })}
+                      placeholder="suspicious"
+                      className={`${smallInputClass} flex-1`}
+                    />
+                  )}
+                  {action.type === 'block' && (
+                    <>
+                      <select
+                        value={action.target}
+                        onChange={(e) => updateAction(index, { ...action, target: e.target.value as typeof action.target })}
+                        className={smallInputClass}
+                      >
+                        <option value="conversation">conversation</option>
+                        <option value="app">app</option>
+                        <option value="tenant">tenant</option>
+                      </select>
+                      <span className="text-xs dark:text-white/50 text-slate-500">for</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={action.durationMinutes}
+                        onChange={(e) => updateAction(index, { ...action, durationMinutes: parseInt(e.target.value, 10) || 0 })}
+                        className={`${smallInputClass} w-20`}
+                      />
+                      <span className="text-xs dark:text-white/50 text-slate-500">min</span>
+                    </>
+                  )}
+                  <button
+                    onClick={() => {
+                      setActions(prev => prev.filter((_, i) => i !== index))
+                      markEdited()
+                    }}
+                    className="ml-auto material-symbols-outlined text-base dark:text-white/40 text-slate-400 hover:text-[#ef4444]"
+                    title="Remove action"
+                  >
+                    delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm dark:text-white/70 text-slate-700">
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Enabled
+          </label>
+          {errors.length > 0 && (
+            <div className="p-3 bg-[#ef4444]/10 border border-[#ef4444]/30 text-[#ef4444] rounded-lg text-sm space-y-1">
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </div>
+          )}
+          {checked && errors.length === 0 && (
+            <div className="p-3 bg-[#10b981]/10 border border-[#10b981]/30 text-[#10b981] rounded-lg text-sm">
+              The rule is valid.
+            </div>
+          )}
+          <div className="p-3 rounded-lg dark:bg-[#0c0c0c] bg-slate-50 dark:border-[#27272a] border-slate-200 border space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-sm font-medium dark:text-white/70 text-slate-700">Backtest</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={backtestDays}
+                  onChange={(e) => {
+                    setBacktestDays(Number(e.target.value))
+                    setBacktest(null)
+                  }}
+                  className={smallInputClass}
+                  aria-label="Backtest range"
+                >
+                  {BACKTEST_DAYS.map(days => (
+                    <option key={days} value={days}>Last {days === 1 ? 'day' : `${days} days`}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleBacktest}
+                  disabled={backtesting}
+                  className="px-3 py-1 text-sm dark:bg-[#27272a] bg-slate-200 hover:dark:bg-[#3f3f46] hover:bg-slate-300 disabled:opacity-50 dark:text-white text-slate-900 rounded"
+                >
+                  {backtesting ? 'Running…' : 'Run backtest'}
+                </button>
+              </div>
+            </div>
+            {!backtest && (
+              <p className="text-xs dark:text-white/40 text-slate-500">
+                How often this rule would have matched past traffic, before you enable it. Nothing is saved and no actions run.
+              </p>
+            )}
+            {backtest && (
+              <>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    ['Matches', `${backtest.matches} / ${backtest.events}`],
+                    ['Match rate', `${(backtest.matchRate * 100).toFixed(1)}%`],
+                    ['Per hour', backtest.matchesPerHour.toFixed(2)],
+                    ['Peak hour', backtest.peakHour ? String(backtest.peakHour.matches) : '-'],
+                  ].map(([label, value]) => (
+                    <div key={label} className="p-2 rounded dark:bg-[#1a1a1a] bg-white">
+                      <div className="text-lg font-bold dark:text-white text-slate-900">{value}</div>
+                      <div className="text-xs dark:text-white/50 text-slate-500">{label}</div>
+                    </div>
+                  ))}
+                </div>
+                {(backtest.source === 'memory' || backtest.truncated || backtest.skipped > 0) && (
+                  <p className="text-xs text-[#fb923c]">
+                    {backtest.source === 'memory' && 'BigQuery is disabled: only the events this analyzer recently processed were evaluated. '}
+                    {backtest.truncated && 'Only the most recent events in the range were evaluated. '}
+                    {backtest.skipped > 0 && `${backtest.skipped} stored events could not be read.`}
+                  </p>
+                )}
+                <div className="text-xs dark:text-white/70 text-slate-700">
+                  <span className="font-medium">Overlap: </span>
+                  {backtest.overlap.length === 0
+                    ? 'no existing rule matched the same events'
+                    : backtest.overlap.map(entry => `${entry.name} (${entry.shared} of its ${entry.matches} matches)`).join(', ')}
+                </div>
+                {backtest.samples.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="text-xs font-medium dark:text-white/70 text-slate-700">Latest matching requests</div>
+                    {backtest.samples.map(sample => (
+                      <div key={sample.requestId} className="flex items-center gap-2 text-xs font-mono dark:text-white/60 text-slate-600">
+                        <span>{new Date(sample.timestamp).toLocaleString()}</span>
+                        <span title={sample.requestId}>{sample.requestId.substring(0, 8)}</span>
+                        <span>{sample.modelName}</span>
+                        <span>{sample.safetyLabel}</span>
+                        <span className={SEVERITY_COLORS[sample.severity]}>{sample.severity}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
           </div>
           <div className="flex gap-3 pt-4">
             <button
@@ -98,10 +390,17 @@ export default function NewRuleModal({ isOpen, onClose, onRuleCreated }: NewRule
               Cancel
             </button>
             <button
-              onClick={handleCreate}
-              className="flex-1 px-4 py-2 bg-[#facc15] hover:bg-[#fbbf24] text-black font-bold rounded-lg shadow-sm"
+              onClick={handleCheck}
+              className="flex-1 px-4 py-2 dark:bg-[#27272a] bg-slate-200 hover:dark:bg-[#3f3f46] hover:bg-slate-300 dark:text-white text-slate-900 rounded-lg shadow-sm"
+            >
+              Check
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-[#facc15] hover:bg-[#fbbf24] disabled:opacity-50 text-black font-bold rounded-lg shadow-sm"
             >
-              Create Rule
+              {rule ? 'Save Rule' : 'Create Rule'}
             </button>
           </div>
         </div>
@@ -109,4 +408,3 @@ export default function NewRuleModal({ isOpen, onClose, onRuleCreated }: NewRule
     </div>
   )
 }
-
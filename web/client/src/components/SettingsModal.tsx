@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
-import { getRules, deleteRule, toggleRule, Rule } from '../utils/rulesStorage'
+import { deleteRule, describeAction, fetchRules, Rule, ruleInput, updateRule } from '../utils/rulesApi'
 import { useTheme } from '../hooks/useTheme'
+import NewRuleModal from './NewRuleModal'
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -9,6 +10,8 @@ interface SettingsModalProps {
 
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [rules, setRules] = useState<Rule[]>([])
+  const [rulesError, setRulesError] = useState<string | null>(null)
+  const [ruleEditor, setRuleEditor] = useState<{ rule: Rule | null } | null>(null)
   const [activeTab, setActiveTab] = useState<'general' | 'rules'>('general')
   const { theme, toggleTheme } = useTheme()
   const [autoRefresh, setAutoRefresh] = useState(() => {
@@ -20,21 +23,39 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     return stored ? JSON.parse(stored) : false
   })
 
+  // Rules live in the analyzer, so changes are made there and reloaded
+  const loadRules = () => {
+    fetchRules()
+      .then(({ rules }) => {
+        setRules(rules)
+        setRulesError(null)
+      })
+      .catch(err => setRulesError(err instanceof Error ? err.message : 'Failed to load rules'))
+  }
+
   useEffect(() => {
     if (isOpen) {
-      setRules(getRules())
+      loadRules()
     }
   }, [isOpen])
 
-  const handleToggleRule = (ruleId: string) => {
-    toggleRule(ruleId)
-    setRules(getRules())
+  const handleToggleRule = async (rule: Rule) => {
+    try {
+      await updateRule(rule.id, { ...ruleInput(rule), enabled: !rule.enabled })
+      loadRules()
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : 'Failed to update rule')
+    }
   }
 
-  const handleDeleteRule = (ruleId: string) => {
+  const handleDeleteRule = async (ruleId: string) => {
     if (confirm('Are you sure you want to delete this rule?')) {
-      deleteRule(ruleId)
-      setRules(getRules())
+      try {
+        await deleteRule(ruleId)
+        loadRules()
+      } catch (err) {
+        setRulesError(err instanceof Error ? err.message : 'Failed to delete rule')
+      }
     }
   }
 
@@ -158,7 +179,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 <div className="space-y-3">
                   <button
                     onClick={() => {
-                      if (confirm('Are you sure you want to clear all local storage? This will remove all messages, rules, and settings.')) {
+                      if (confirm('Are you sure you want to clear all local storage? This will remove all messages and settings.')) {
                         localStorage.clear()
                         alert('Local storage cleared. Please refresh the page.')
                         window.location.reload()
@@ -172,7 +193,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                   <button
                     onClick={() => {
                       const allData = {
-                        rules: getRules(),
+                        rules,
                         settings: {
                           autoRefresh,
                           notifications,
@@ -200,12 +221,29 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
           {activeTab === 'rules' && (
             <div>
-              <h3 className="text-lg font-bold dark:text-white text-gray-900 mb-4">Active Rules</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold dark:text-white text-gray-900">Detection Rules</h3>
+                <button
+                  onClick={() => setRuleEditor({ rule: null })}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-[#facc15] hover:bg-[#fbbf24] text-black font-bold rounded-lg transition-colors"
+                >
+                  <span className="material-symbols-outlined text-sm">add</span>
+                  New Rule
+                </button>
+              </div>
+              <p className="text-xs dark:text-white/50 text-gray-500 mb-4">
+                Rules are evaluated by the analyzer against every analyzed request, for all users of this tenant.
+              </p>
+              {rulesError && (
+                <div className="mb-4 p-3 bg-[#ef4444]/10 border border-[#ef4444]/30 text-[#ef4444] rounded-lg text-sm">
+                  {rulesError}
+                </div>
+              )}
               {rules.length === 0 ? (
                 <div className="text-center py-12 dark:bg-[#0c0c0c] bg-gray-50 rounded-lg dark:border-[#27272a] border-gray-200 border">
                   <span className="material-symbols-outlined text-4xl dark:text-white/20 text-gray-300 mb-2 block">rule</span>
                   <p className="dark:text-white/50 text-gray-600">No rules configured</p>
-                  <p className="text-sm dark:text-white/30 text-gray-400 mt-1">Create rules from the "New Rule" button</p>
+                  <p className="text-sm dark:text-white/30 text-gray-400 mt-1">Create rules with the "New Rule" button</p>
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -224,14 +262,22 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                             </span>
                           </div>
                           <div className="text-xs dark:text-white/50 text-gray-600 space-y-1">
-                            <div>When: {rule.triggerCondition}</div>
-                            <div>Action: {rule.action}</div>
-                            <div className="dark:text-white/30 text-gray-400">Created: {new Date(rule.createdAt).toLocaleString()}</div>
+                            {rule.description && <div>{rule.description}</div>}
+                            <div>When: <code className="font-mono dark:text-white/70 text-gray-800">{rule.expression}</code></div>
+                            <div>Actions: {rule.actions.length > 0 ? rule.actions.map(describeAction).join(', ') : 'none (shown in live views only)'}</div>
+                            <div className="dark:text-white/30 text-gray-400">Updated: {new Date(rule.updatedAt).toLocaleString()}</div>
                           </div>
                         </div>
                         <div className="flex items-center gap-2 ml-4">
                           <button
-                            onClick={() => handleToggleRule(rule.id)}
+                            onClick={() => setRuleEditor({ rule })}
+                            className="p-2 rounded-lg dark:bg-white/5 bg-gray-200 dark:text-white/70 text-gray-700 hover:dark:bg-white/10 hover:bg-gray-300 transition-colors"
+                            title="Edit"
+                          >
+                            <span className="material-symbols-outlined text-sm">edit</span>
+                          </button>
+                          <button
+                            onClick={() => handleToggleRule(rule)}
                             className={`p-2 rounded-lg transition-colors ${
                               rule.enabled
                                 ? 'bg-[#10b981]/10 text-[#10b981] hover:bg-[#10b981]/20'
@@ -269,6 +315,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
           </button>
         </div>
       </div>
+
+      <NewRuleModal
+        isOpen={ruleEditor !== null}
+        rule={ruleEditor?.rule}
+        onClose={() => setRuleEditor(null)}
+        onRuleSaved={loadRules}
+      />
     </div>
   )
 }
@@ -0,0 +1,20 @@
+import { StreamStatus } from '../utils/analysisStream'
+
+const STATUS_STYLES: Record<StreamStatus, { label: string; dot: string; text: string }> = {
+  live: { label: 'Live', dot: 'bg-[#10b981] animate-pulse', text: 'text-[#10b981]' },
+  connecting: { label: 'Connecting', dot: 'bg-[#facc15]', text: 'text-[#facc15]' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-[#fb923c]', text: 'text-[#fb923c]' },
+}
+
+export default function StreamStatusBadge({ status }: { status: StreamStatus }) {
+  const style = STATUS_STYLES[status]
+  return (
+    <span
+      className={`flex items-center gap-1.5 text-xs font-bold uppercase ${style.text}`}
+      title="Requests are pushed here as the analyzer processes them"
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+      {style.label}
+    </span>
+  )
+}
@@ -12,3 +12,15 @@ export function getApiUrl(path: string): string {
   return path;
 }
 
+// Gateway API key, required when the gateway runs with AUTH_ENABLED=true.
+// Note: it is baked into the bundle, so use a key scoped to the web client's tenant.
+export const API_KEY = import.meta.env.VITE_API_KEY || '';
+
+// Headers for JSON requests to the gateway
+export function getApiHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(API_KEY && { 'X-API-Key': API_KEY }),
+    ...extra,
+  };
+}
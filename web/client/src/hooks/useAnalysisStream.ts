@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+import { StreamEvent, StreamFilter, StreamStatus, subscribeToAnalysis } from '../utils/analysisStream'
+
+const DEFAULT_MAX_EVENTS = 200
+
+// Subscribe to the live analysis stream while mounted. Returns the events
+// received so far, newest first, and starts over when the filter changes.
+export function useAnalysisStream(filter: StreamFilter, maxEvents: number = DEFAULT_MAX_EVENTS) {
+  const filterKey = JSON.stringify(filter)
+  const [status, setStatus] = useState<StreamStatus>('connecting')
+  const [received, setReceived] = useState<{ filterKey: string; events: StreamEvent[] }>({ filterKey, events: [] })
+
+  useEffect(() => {
+    return subscribeToAnalysis(JSON.parse(filterKey), event => {
+      setReceived(prev => {
+        const events = prev.filterKey === filterKey ? prev.events : []
+        // Redelivered messages are analyzed again
+        if (events.some(e => e.requestId === event.requestId)) return prev
+        return { filterKey, events: [event, ...events].slice(0, maxEvents) }
+      })
+    }, setStatus)
+  }, [filterKey, maxEvents])
+
+  const events = received.filterKey === filterKey ? received.events : []
+  return { events, status }
+}
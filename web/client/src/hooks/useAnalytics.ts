@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react'
+
+const REFRESH_INTERVAL_MS = 30000
+
+// Load analytics now and every 30 seconds, and again whenever `key` changes
+// (e.g. a serialized filter). Keeps the last data while a refresh is running.
+export function useAnalytics<T>(load: () => Promise<T>, key: string, intervalMs: number = REFRESH_INTERVAL_MS) {
+  const [data, setData] = useState<T | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const loadRef = useRef(load)
+  loadRef.current = load
+
+  useEffect(() => {
+    let cancelled = false
+
+    const refresh = async () => {
+      try {
+        const result = await loadRef.current()
+        if (!cancelled) {
+          setData(result)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load analytics')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    setLoading(true)
+    refresh()
+    const interval = setInterval(refresh, intervalMs)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [key, intervalMs])
+
+  return { data, error, loading }
+}
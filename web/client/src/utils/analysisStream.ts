@@ -0,0 +1,99 @@
+import { getApiHeaders, getApiUrl } from '../config'
+import { ActivityRecord, Severity } from './analyticsApi'
+import { RuleMatch } from './rulesApi'
+
+// Requests as the analyzer finishes them, pushed over Server-Sent Events from
+// the gateway's /api/analytics/stream. fetch is used instead of EventSource so
+// the API key header can be sent.
+
+export interface StreamEvent extends ActivityRecord {
+  analyzedAt: string
+  processingTimeMs: number
+  patterns: Array<{ patternType: string | null; confidence: number; affectedRequests: number; details: string }>
+  ruleMatches: RuleMatch[]
+}
+
+export interface StreamFilter {
+  minSeverity?: Severity
+  labels?: string[]
+  environment?: string
+  model?: string
+  matchedRules?: boolean // Only events that matched a detection rule
+}
+
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting'
+
+const RECONNECT_DELAY_MS = 5000
+
+// Subscribe until the returned function is called. Reconnects after errors
+// and when the stream ends (e.g. a gateway timeout); events missed meanwhile
+// are not replayed.
+export function subscribeToAnalysis(
+  filter: StreamFilter,
+  onEvent: (event: StreamEvent) => void,
+  onStatus: (status: StreamStatus) => void
+): () => void {
+  const controller = new AbortController()
+  const params = new URLSearchParams()
+  if (filter.minSeverity) params.set('minSeverity', filter.minSeverity)
+  if (filter.labels?.length) params.set('label', filter.labels.join(','))
+  if (filter.environment) params.set('environment', filter.environment)
+  if (filter.model) params.set('model', filter.model)
+  if (filter.matchedRules) params.set('matchedRules', 'true')
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await fetch(getApiUrl(`/api/analytics/stream?${params}`), {
+          headers: getApiHeaders({ Accept: 'text/event-stream' }),
+          signal: controller.signal,
+        })
+        if (!response.ok || !response.body) {
+          throw new Error(`Stream unavailable (${response.status})`)
+        }
+        onStatus('live')
+        await readEvents(response.body, onEvent)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.warn('[AnalysisStream] Disconnected:', err instanceof Error ? err.message : err)
+      }
+      if (controller.signal.aborted) return
+      onStatus('reconnecting')
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+    }
+  }
+
+  onStatus('connecting')
+  connect()
+  return () => controller.abort()
+}
+
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (event: StreamEvent) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line; comment lines (heartbeats) have no data
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let eventName = 'message'
+      let data = ''
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (eventName === 'analysis' && data) {
+        onEvent(JSON.parse(data))
+      }
+    }
+  }
+}
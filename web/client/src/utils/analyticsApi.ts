@@ -0,0 +1,138 @@
+import { getApiHeaders, getApiUrl } from '../config'
+
+// Fleet-wide analytics from the analyzer, via the gateway's /api/analytics routes
+
+export type Severity = 'critical' | 'warning' | 'clean'
+
+export interface AnalyticsSummary {
+  source: 'bigquery' | 'memory'
+  from: string
+  to: string
+  requests: number
+  tokens: number
+  anomalies: number
+  severity: Record<Severity, number>
+  safetyLabels: Record<string, number>
+  avgDriftScore: number | null
+  environments: string[]
+  models: string[]
+}
+
+// One analyzed request, as scored by the analyzer (not the gateway's demo scores)
+export interface ActivityRecord {
+  requestId: string
+  timestamp: string
+  endpoint: string
+  modelName: string
+  environment: string | null
+  tenantId: string | null
+  tokensTotal: number | null
+  driftScore: number
+  baselineReady: boolean
+  safetyLabel: string
+  safetyScore: number
+  isAnomaly: boolean
+  zScore: number
+  severity: Severity
+}
+
+// Whether the analyzer flagged a safety problem; SKIPPED means the text
+// was scrubbed before it could be classified
+export function isSafetyFinding(safetyLabel: string): boolean {
+  return safetyLabel !== 'CLEAN' && safetyLabel !== 'SKIPPED'
+}
+
+export type TimeRange = '1h' | '24h' | '7d' | '30d'
+
+export const TIME_RANGES: Record<TimeRange, { label: string; ms: number }> = {
+  '1h': { label: 'Last hour', ms: 60 * 60 * 1000 },
+  '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  '30d': { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+}
+
+export interface AnalyticsFilters {
+  range: TimeRange
+  environment: string // '' for all
+  model: string // '' for all
+}
+
+export const DEFAULT_ANALYTICS_FILTERS: AnalyticsFilters = { range: '24h', environment: '', model: '' }
+
+export class AnalyticsError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+function filterParams(filters: AnalyticsFilters, extra: Record<string, string> = {}): URLSearchParams {
+  const to = Date.now()
+  const params = new URLSearchParams({
+    from: new Date(to - TIME_RANGES[filters.range].ms).toISOString(),
+    to: new Date(to).toISOString(),
+    ...extra,
+  })
+  if (filters.environment) params.set('environment', filters.environment)
+  if (filters.model) params.set('model', filters.model)
+  return params
+}
+
+async function getJson<T>(path: string): Promise<T> {
+  const response = await fetch(getApiUrl(path), { headers: getApiHeaders() })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new AnalyticsError(body.details || body.error || `Request failed (${response.status})`, response.status)
+  }
+  return body as T
+}
+
+export function fetchSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+  return getJson(`/api/analytics/summary?${filterParams(filters)}`)
+}
+
+export async function fetchActivity(
+  filters: AnalyticsFilters,
+  options: { severity?: Severity[]; limit?: number } = {}
+): Promise<ActivityRecord[]> {
+  const extra: Record<string, string> = {}
+  if (options.severity) extra.severity = options.severity.join(',')
+  if (options.limit) extra.limit = String(options.limit)
+  const { events } = await getJson<{ events: ActivityRecord[] }>(`/api/analytics/activity?${filterParams(filters, extra)}`)
+  return events
+}
+
+// Add live events that arrived after a summary was computed, so the totals
+// keep up between refreshes
+export function withLiveEvents(summary: AnalyticsSummary, events: ActivityRecord[]): AnalyticsSummary {
+  const newer = events.filter(event => event.timestamp >= summary.to)
+  if (newer.length === 0) return summary
+
+  const severity = { ...summary.severity }
+  const safetyLabels = { ...summary.safetyLabels }
+  for (const event of newer) {
+    severity[event.severity]++
+    safetyLabels[event.safetyLabel] = (safetyLabels[event.safetyLabel] || 0) + 1
+  }
+  return {
+    ...summary,
+    requests: summary.requests + newer.length,
+    tokens: summary.tokens + newer.reduce((sum, event) => sum + (event.tokensTotal || 0), 0),
+    anomalies: summary.anomalies + newer.filter(event => event.isAnomaly).length,
+    severity,
+    safetyLabels,
+  }
+}
+
+// Newest first, without duplicates (a live event may also be in a later fetch)
+export function mergeActivity<T extends ActivityRecord>(live: T[], fetched: T[], limit: number): T[] {
+  const merged = new Map<string, T>()
+  for (const record of [...live, ...fetched]) {
+    if (!merged.has(record.requestId)) merged.set(record.requestId, record)
+  }
+  return [...merged.values()]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, limit)
+}
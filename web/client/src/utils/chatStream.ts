@@ -0,0 +1,98 @@
+import { getApiHeaders, getApiUrl } from '../config'
+
+export interface StreamDonePayload {
+  requestId: string
+  conversationId: string
+  turnIndex: number
+  response: string
+  tokensIn: number
+  tokensOut: number
+  modelName: string
+  modelVersion: string
+  latencyMs: number
+  timeToFirstTokenMs: number
+  safetyScore?: number
+  safetyLabel?: 'CLEAN' | 'TOXIC' | 'PII' | 'JAILBREAK' | 'PROMPT_INJECTION' | 'RISKY'
+  driftScore?: number
+  baselineReady?: boolean
+}
+
+export interface StreamErrorPayload {
+  requestId?: string
+  error: string
+  details?: string
+  errorType?: string
+  retryAfter?: number
+  resetAt?: string
+}
+
+// Thrown for gateway-reported failures (HTTP or in-band SSE `error` events)
+export class ChatStreamError extends Error {
+  status?: number
+  payload: StreamErrorPayload
+
+  constructor(payload: StreamErrorPayload, status?: number) {
+    super(payload.details || payload.error || 'Failed to get response')
+    this.payload = payload
+    this.status = status
+  }
+}
+
+// POST to /api/chat/stream and dispatch Server-Sent Events as they arrive.
+// Resolves with the final `done` payload once the stream completes.
+export async function streamChat(
+  body: Record<string, unknown>,
+  onToken: (text: string) => void
+): Promise<StreamDonePayload> {
+  const response = await fetch(getApiUrl('/api/chat/stream'), {
+    method: 'POST',
+    headers: getApiHeaders({ Accept: 'text/event-stream' }),
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to get response' }))
+    throw new ChatStreamError(errorData, response.status)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let done: StreamDonePayload | null = null
+
+  for (;;) {
+    const { value, done: readerDone } = await reader.read()
+    if (readerDone) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let eventName = 'message'
+      let data = ''
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (!data) continue
+
+      const parsed = JSON.parse(data)
+      if (eventName === 'token') {
+        onToken(parsed.text)
+      } else if (eventName === 'done') {
+        done = parsed
+      } else if (eventName === 'error') {
+        throw new ChatStreamError(parsed)
+      }
+    }
+  }
+
+  if (!done) {
+    throw new ChatStreamError({ error: 'Stream ended unexpectedly', details: 'The gateway closed the stream before completing the response' })
+  }
+  return done
+}
@@ -11,6 +11,7 @@ export interface Message {
   driftScore?: number
   baselineReady?: boolean
   requestId?: string
+  conversationId?: string
 }
 
 const MESSAGES_STORAGE_KEY = 'llm-sentinel-messages'
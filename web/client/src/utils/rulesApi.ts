@@ -0,0 +1,145 @@
+import { getApiHeaders, getApiUrl } from '../config'
+import { ActivityRecord } from './analyticsApi'
+
+// Detection rules, stored and evaluated by the analyzer, via the gateway's /api/rules routes
+
+export type BlockTarget = 'tenant' | 'app' | 'conversation'
+
+export type RuleAction =
+  | { type: 'webhook'; url: string }
+  | { type: 'datadog'; alertType: 'error' | 'warning' | 'info' }
+  | { type: 'tag_session'; tag: string }
+  | { type: 'block'; target: BlockTarget; durationMinutes: number }
+
+export interface Rule {
+  id: string
+  name: string
+  description?: string
+  expression: string
+  actions: RuleAction[]
+  enabled: boolean
+  tenantId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type RuleInput = Pick<Rule, 'name' | 'description' | 'expression' | 'actions' | 'enabled'>
+
+// A rule an event matched, as reported on stream events
+export interface RuleMatch {
+  ruleId: string
+  name: string
+  actions: RuleAction['type'][]
+}
+
+// How a rule would have done over past traffic, from /api/rules/backtest
+export interface BacktestResult {
+  source: 'bigquery' | 'memory'
+  truncated: boolean // Only the newest events in the range were evaluated
+  skipped: number
+  from: string
+  to: string
+  events: number
+  matches: number
+  matchRate: number
+  matchesPerHour: number
+  peakHour: { hour: string; matches: number } | null
+  hourly: Array<{ hour: string; matches: number }>
+  samples: ActivityRecord[]
+  overlap: Array<{ ruleId: string; name: string; matches: number; shared: number }>
+}
+
+export const ACTION_LABELS: Record<RuleAction['type'], string> = {
+  webhook: 'Webhook',
+  datadog: 'Datadog event',
+  tag_session: 'Tag session',
+  block: 'Block at gateway',
+}
+
+// Starting points for the expression editor
+export const RULE_TEMPLATES: Array<{ label: string; expression: string }> = [
+  { label: 'Jailbreak or injection', expression: 'safety.label in ["JAILBREAK", "PROMPT_INJECTION"]' },
+  { label: 'High drift', expression: 'drift.score > 0.4 and drift.baselineReady == true' },
+  { label: 'Repeated PII in a conversation', expression: 'count(safety.label == "PII" within 10m by event.conversationId) >= 3' },
+  { label: 'Guardrail blocks per tenant', expression: 'count(event.guardrailAction == "block" within 1h by event.tenantId) >= 10' },
+  { label: 'Tagged session', expression: 'session.tags contains "suspicious"' },
+]
+
+export class RulesError extends Error {
+  status: number
+  errors: string[]
+
+  constructor(message: string, status: number, errors: string[] = []) {
+    super(message)
+    this.status = status
+    this.errors = errors
+  }
+}
+
+async function send<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(getApiUrl(path), {
+    method,
+    headers: getApiHeaders(),
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const errors: string[] = Array.isArray(result.errors) ? result.errors : []
+    throw new RulesError(errors.join('; ') || result.details || result.error || `Request failed (${response.status})`, response.status, errors)
+  }
+  return result as T
+}
+
+export function fetchRules(): Promise<{ rules: Rule[]; fields: string[] }> {
+  return send('GET', '/api/rules')
+}
+
+export async function createRule(input: RuleInput): Promise<Rule> {
+  const { rule } = await send<{ rule: Rule }>('POST', '/api/rules', input)
+  return rule
+}
+
+export async function updateRule(id: string, input: RuleInput): Promise<Rule> {
+  const { rule } = await send<{ rule: Rule }>('PUT', `/api/rules/${encodeURIComponent(id)}`, input)
+  return rule
+}
+
+export async function deleteRule(id: string): Promise<void> {
+  await send('DELETE', `/api/rules/${encodeURIComponent(id)}`)
+}
+
+// Throws RulesError with every problem when the rule is invalid
+export async function validateRule(input: RuleInput): Promise<void> {
+  await send('POST', '/api/rules/validate', input)
+}
+
+// Evaluate a rule against the last `days` of stored events without saving it.
+// Pass the id of the rule being edited so its saved version isn't counted as overlap.
+export function backtestRule(input: RuleInput, days: number, ruleId?: string): Promise<BacktestResult> {
+  const params = new URLSearchParams({ days: String(days) })
+  if (ruleId) params.set('ruleId', ruleId)
+  return send('POST', `/api/rules/backtest?${params}`, input)
+}
+
+export function ruleInput(rule: Rule): RuleInput {
+  return {
+    name: rule.name,
+    ...(rule.description && { description: rule.description }),
+    expression: rule.expression,
+    actions: rule.actions,
+    enabled: rule.enabled,
+  }
+}
+
+export function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'webhook':
+      return `Webhook → ${action.url}`
+    case 'datadog':
+      return `Datadog ${action.alertType} event`
+    case 'tag_session':
+      return `Tag session "${action.tag}"`
+    case 'block':
+      return `Block ${action.target} for ${action.durationMinutes} min`
+  }
+}